@@ -6,11 +6,26 @@
  * querying the collection using the QueryBuilder.
  */
 
-import { Document, QueryFilter, QueryOptions, QueryResult, ErrorCode } from '../types';
+import {
+  BatchItemResult,
+  BatchOperation,
+  ChangeEvent,
+  Document,
+  NewDocument,
+  QueryFilterNode,
+  QueryLookup,
+  QueryOptions,
+  QueryResult,
+  TypedDocument,
+  ErrorCode
+} from '../types';
 import { ImpossibleDBError } from '../utils/errorHandler';
-import { QueryBuilder } from './QueryBuilder';
+import { ChangeSubscriber, ChangeSubscription, QueryBuilder } from './QueryBuilder';
 import { AggregationSpec } from '../query/aggregator';
+import { PipelineStage, validatePipeline } from '../query/pipeline';
 import { Transaction } from './Transaction';
+import { DocumentPatch } from '../storage/patch';
+import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Options for creating a document
@@ -18,6 +33,9 @@ import { Transaction } from './Transaction';
 export interface CreateOptions {
   // If true and a document with the same ID already exists, throw an error
   failIfExists?: boolean;
+  
+  // Time to live in seconds, after which the document expires
+  ttl?: number;
 }
 
 /**
@@ -29,6 +47,20 @@ export interface UpdateOptions {
   
   // If provided, only update if the document's version matches
   expectedVersion?: number;
+  
+  // Time to live in seconds, counted from this update
+  ttl?: number;
+}
+
+/**
+ * Options for patching a document
+ */
+export interface PatchOptions {
+  // If provided, only patch if the document's version matches
+  expectedVersion?: number;
+  
+  // Time to live in seconds, counted from this patch (the expiry is kept otherwise)
+  ttl?: number;
 }
 
 /**
@@ -37,19 +69,63 @@ export interface UpdateOptions {
 export interface DeleteOptions {
   // If true and the document doesn't exist, throw an error
   failIfNotExists?: boolean;
+  
+  // If provided, only delete if the document's version matches
+  expectedVersion?: number;
+}
+
+/**
+ * Options for reading a document
+ * 
+ * Past versions can only be read from collections that keep history.
+ */
+export interface FindOptions {
+  // If provided, read this version of the document
+  version?: number;
+  
+  // If provided, read the document as it was at this time
+  asOf?: number | Date;
+}
+
+/**
+ * Options for restoring a past version of a document
+ */
+export interface RestoreOptions {
+  // If provided, only restore if the document's current version matches
+  expectedVersion?: number;
+  
+  // Time to live in seconds, counted from the restore
+  ttl?: number;
+}
+
+/**
+ * Document update of a bulk update
+ */
+export interface BulkUpdate<T extends object = Document> {
+  id: string;
+  document: Partial<NewDocument<T>>;
+  
+  // If provided, only update if the document's version matches
+  expectedVersion?: number;
 }
 
 /**
  * Collection class for working with a collection of documents
+ * 
+ * The type parameter declares the fields of the documents of the collection
+ * (see ImpossibleDBClient.collection): documents read are typed, documents
+ * written are type-checked, and so are the fields of queries. Collections
+ * without a declared type hold untyped Documents.
  */
-export class Collection {
+export class Collection<T extends object = Document> {
   private readonly name: string;
   private readonly executeQuery: (
     collection: string,
-    filters: QueryFilter[],
+    filters: QueryFilterNode[],
     projection?: string[],
     options?: QueryOptions,
-    aggregations?: AggregationSpec[]
+    aggregations?: AggregationSpec[],
+    lookups?: QueryLookup[]
   ) => Promise<QueryResult>;
   private readonly executeCreate: (
     collection: string,
@@ -58,7 +134,8 @@ export class Collection {
   ) => Promise<Document>;
   private readonly executeRead: (
     collection: string,
-    id: string
+    id: string,
+    options?: FindOptions
   ) => Promise<Document>;
   private readonly executeUpdate: (
     collection: string,
@@ -72,6 +149,26 @@ export class Collection {
     options?: DeleteOptions
   ) => Promise<void>;
   private readonly createTransaction: () => Transaction;
+  private readonly executePatch: (
+    collection: string,
+    id: string,
+    patch: DocumentPatch,
+    options?: PatchOptions
+  ) => Promise<Document>;
+  private readonly executeBatch: (
+    operations: BatchOperation[]
+  ) => Promise<BatchItemResult[]>;
+  private readonly executeSubscribe: ChangeSubscriber;
+  private readonly executeRestore: (
+    collection: string,
+    id: string,
+    version: number,
+    options?: RestoreOptions
+  ) => Promise<Document>;
+  private readonly executeAggregate: (
+    collection: string,
+    pipeline: PipelineStage[]
+  ) => Promise<Record<string, any>[]>;
   
   /**
    * Creates a new Collection instance
@@ -83,15 +180,21 @@ export class Collection {
    * @param executeUpdate Function to update documents
    * @param executeDelete Function to delete documents
    * @param createTransaction Function to create a transaction
+   * @param executePatch Function to patch documents
+   * @param executeBatch Function to execute batches of document operations
+   * @param executeSubscribe Function to subscribe to document changes
+   * @param executeRestore Function to restore past versions of documents
+   * @param executeAggregate Function to run aggregation pipelines
    */
   constructor(
     name: string,
     executeQuery: (
       collection: string,
-      filters: QueryFilter[],
+      filters: QueryFilterNode[],
       projection?: string[],
       options?: QueryOptions,
-      aggregations?: AggregationSpec[]
+      aggregations?: AggregationSpec[],
+      lookups?: QueryLookup[]
     ) => Promise<QueryResult>,
     executeCreate: (
       collection: string,
@@ -100,7 +203,8 @@ export class Collection {
     ) => Promise<Document>,
     executeRead: (
       collection: string,
-      id: string
+      id: string,
+      options?: FindOptions
     ) => Promise<Document>,
     executeUpdate: (
       collection: string,
@@ -113,7 +217,27 @@ export class Collection {
       id: string,
       options?: DeleteOptions
     ) => Promise<void>,
-    createTransaction: () => Transaction
+    createTransaction: () => Transaction,
+    executePatch: (
+      collection: string,
+      id: string,
+      patch: DocumentPatch,
+      options?: PatchOptions
+    ) => Promise<Document>,
+    executeBatch: (
+      operations: BatchOperation[]
+    ) => Promise<BatchItemResult[]>,
+    executeSubscribe: ChangeSubscriber,
+    executeRestore: (
+      collection: string,
+      id: string,
+      version: number,
+      options?: RestoreOptions
+    ) => Promise<Document>,
+    executeAggregate: (
+      collection: string,
+      pipeline: PipelineStage[]
+    ) => Promise<Record<string, any>[]>
   ) {
     if (!name || typeof name !== 'string') {
       throw new ImpossibleDBError(
@@ -129,6 +253,11 @@ export class Collection {
     this.executeUpdate = executeUpdate;
     this.executeDelete = executeDelete;
     this.createTransaction = createTransaction;
+    this.executePatch = executePatch;
+    this.executeBatch = executeBatch;
+    this.executeSubscribe = executeSubscribe;
+    this.executeRestore = executeRestore;
+    this.executeAggregate = executeAggregate;
   }
   
   /**
@@ -145,8 +274,8 @@ export class Collection {
    * 
    * @returns A new QueryBuilder instance
    */
-  query(): QueryBuilder {
-    return new QueryBuilder(this.name);
+  query(): QueryBuilder<TypedDocument<T>> {
+    return new QueryBuilder<TypedDocument<T>>(this.name, this.executeQuery, this.executeSubscribe);
   }
   
   /**
@@ -155,7 +284,7 @@ export class Collection {
    * @param queryBuilder The query builder to execute
    * @returns The query results
    */
-  async find(queryBuilder: QueryBuilder): Promise<QueryResult> {
+  async find(queryBuilder: QueryBuilder<TypedDocument<T>>): Promise<QueryResult<TypedDocument<T>>> {
     if (queryBuilder.getCollection() !== this.name) {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_QUERY,
@@ -163,16 +292,43 @@ export class Collection {
       );
     }
     
-    return queryBuilder.execute(this.executeQuery);
+    return queryBuilder.execute(this.executeQuery) as Promise<QueryResult<TypedDocument<T>>>;
+  }
+  
+  /**
+   * Runs an aggregation pipeline on this collection
+   * 
+   * @example
+   * const totals = await orders.aggregate([
+   *   { match: [{ field: 'status', operator: '=', value: 'paid' }] },
+   *   { unwind: 'items' },
+   *   { group: { by: { product: '$items.product' }, accumulators: { revenue: { sum: '$items.price' } } } },
+   *   { sort: [{ field: 'revenue', direction: 'desc' }] },
+   *   { limit: 10 }
+   * ]);
+   * 
+   * @param pipeline The stages of the pipeline
+   * @returns The results of the pipeline
+   */
+  async aggregate(pipeline: PipelineStage[]): Promise<Record<string, any>[]> {
+    validatePipeline(pipeline);
+    
+    return this.executeAggregate(this.name, pipeline);
   }
   
   /**
    * Finds a document by ID
    * 
+   * @example
+   * const current = await users.findById('user1');
+   * const previous = await users.findById('user1', { version: current._version - 1 });
+   * const lastMonth = await users.findById('user1', { asOf: new Date('2024-05-01') });
+   * 
    * @param id The ID of the document to find
+   * @param options Options selecting a past version of the document
    * @returns The document, or throws if not found
    */
-  async findById(id: string): Promise<Document> {
+  async findById(id: string, options?: FindOptions): Promise<TypedDocument<T>> {
     if (!id || typeof id !== 'string') {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_REQUEST,
@@ -180,18 +336,26 @@ export class Collection {
       );
     }
     
-    return this.executeRead(this.name, id);
+    if (options?.version !== undefined && options.asOf !== undefined) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Cannot find a document by both version and time'
+      );
+    }
+    
+    return this.executeRead(this.name, id, options) as Promise<TypedDocument<T>>;
   }
   
   /**
    * Finds a document by ID, or returns null if not found
    * 
    * @param id The ID of the document to find
+   * @param options Options selecting a past version of the document
    * @returns The document, or null if not found
    */
-  async findByIdOrNull(id: string): Promise<Document | null> {
+  async findByIdOrNull(id: string, options?: FindOptions): Promise<TypedDocument<T> | null> {
     try {
-      return await this.findById(id);
+      return await this.findById(id, options);
     } catch (error) {
       if (error instanceof ImpossibleDBError && error.code === ErrorCode.DOCUMENT_NOT_FOUND) {
         return null;
@@ -207,7 +371,7 @@ export class Collection {
    * @param options Options for creating the document
    * @returns The created document
    */
-  async create(document: Partial<Document>, options?: CreateOptions): Promise<Document> {
+  async create(document: NewDocument<T>, options?: CreateOptions): Promise<TypedDocument<T>> {
     if (!document || typeof document !== 'object') {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_DOCUMENT,
@@ -215,18 +379,21 @@ export class Collection {
       );
     }
     
-    return this.executeCreate(this.name, document, options);
+    return this.executeCreate(this.name, document as Partial<Document>, options) as Promise<TypedDocument<T>>;
   }
   
   /**
    * Updates a document by ID
    * 
+   * The document must exist (DOCUMENT_NOT_FOUND is thrown otherwise), unless
+   * the `upsert` option is set.
+   * 
    * @param id The ID of the document to update
    * @param document The document fields to update
    * @param options Options for updating the document
    * @returns The updated document
    */
-  async update(id: string, document: Partial<Document>, options?: UpdateOptions): Promise<Document> {
+  async update(id: string, document: Partial<NewDocument<T>>, options?: UpdateOptions): Promise<TypedDocument<T>> {
     if (!id || typeof id !== 'string') {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_REQUEST,
@@ -241,12 +408,48 @@ export class Collection {
       );
     }
     
-    return this.executeUpdate(this.name, id, document, options);
+    return this.executeUpdate(this.name, id, document as Partial<Document>, options) as Promise<TypedDocument<T>>;
+  }
+  
+  /**
+   * Partially updates a document by ID, atomically on the server
+   * 
+   * @example
+   * // Update operators
+   * await users.patch('123', { $inc: { loginCount: 1 }, $addToSet: { roles: 'admin' } });
+   * 
+   * // JSON Patch
+   * await users.patch('123', [{ op: 'replace', path: '/address/city', value: 'NYC' }]);
+   * 
+   * @param id The ID of the document to patch
+   * @param patch A JSON Patch array or an update operators object
+   * @param options Options for patching the document
+   * @returns The patched document
+   */
+  async patch(id: string, patch: DocumentPatch, options?: PatchOptions): Promise<TypedDocument<T>> {
+    if (!id || typeof id !== 'string') {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Document ID is required and must be a string'
+      );
+    }
+    
+    if (!patch || typeof patch !== 'object') {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Patch must be a JSON Patch array or an update operators object'
+      );
+    }
+    
+    return this.executePatch(this.name, id, patch, options) as Promise<TypedDocument<T>>;
   }
   
   /**
    * Deletes a document by ID
    * 
+   * Deleting a document that does not exist succeeds, unless the
+   * `failIfNotExists` option is set.
+   * 
    * @param id The ID of the document to delete
    * @param options Options for deleting the document
    */
@@ -261,6 +464,142 @@ export class Collection {
     return this.executeDelete(this.name, id, options);
   }
   
+  /**
+   * Creates documents in bulk
+   * 
+   * Documents without an `_id` get a generated one. The operations are sent in
+   * batches and are not atomic: each document gets its own result.
+   * 
+   * @param documents The documents to create
+   * @param options Options applied to every document
+   * @returns One result per document, in order
+   */
+  async bulkCreate(documents: NewDocument<T>[], options?: CreateOptions): Promise<BatchItemResult[]> {
+    if (!Array.isArray(documents) || documents.some(document => !document || typeof document !== 'object')) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_DOCUMENT,
+        'Documents must be an array of objects'
+      );
+    }
+    
+    return this.executeBatch(documents.map(document => ({
+      op: options?.failIfExists ? 'create' : 'put',
+      collection: this.name,
+      id: document._id || uuidv4(),
+      document: document as Partial<Document>,
+      ttl: options?.ttl
+    })));
+  }
+  
+  /**
+   * Reads documents in bulk
+   * 
+   * @param ids The IDs of the documents to read
+   * @returns One result per ID, in order (status 404 for missing documents)
+   */
+  async bulkGet(ids: string[]): Promise<BatchItemResult[]> {
+    return this.executeBatch(this.checkIds(ids).map(id => ({ op: 'get', collection: this.name, id })));
+  }
+  
+  /**
+   * Updates documents in bulk
+   * 
+   * @param updates The documents to update
+   * @param options Options applied to every document
+   * @returns One result per update, in order
+   */
+  async bulkUpdate(updates: BulkUpdate<T>[], options?: Omit<UpdateOptions, 'expectedVersion'>): Promise<BatchItemResult[]> {
+    if (!Array.isArray(updates)) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Updates must be an array'
+      );
+    }
+    
+    this.checkIds(updates.map(update => update?.id));
+    
+    return this.executeBatch(updates.map(update => ({
+      op: options?.upsert ? 'put' : 'update',
+      collection: this.name,
+      id: update.id,
+      document: update.document as Partial<Document>,
+      expectedVersion: update.expectedVersion,
+      ttl: options?.ttl
+    })));
+  }
+  
+  /**
+   * Deletes documents in bulk
+   * 
+   * @param ids The IDs of the documents to delete
+   * @returns One result per ID, in order
+   */
+  async bulkDelete(ids: string[]): Promise<BatchItemResult[]> {
+    return this.executeBatch(this.checkIds(ids).map(id => ({ op: 'delete', collection: this.name, id })));
+  }
+  
+  /**
+   * Checks that a list of document IDs only contains strings
+   * 
+   * @param ids The IDs to check
+   * @returns The IDs
+   */
+  private checkIds(ids: string[]): string[] {
+    if (!Array.isArray(ids) || ids.some(id => !id || typeof id !== 'string')) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Document IDs are required and must be strings'
+      );
+    }
+    
+    return ids;
+  }
+  
+  /**
+   * Restores a past version of a document, which becomes its new current
+   * version (with a new version number). Deleted documents can be restored.
+   * 
+   * @param id The ID of the document to restore
+   * @param version The version to restore
+   * @param options Options for restoring the document
+   * @returns The restored document
+   */
+  async restore(id: string, version: number, options?: RestoreOptions): Promise<TypedDocument<T>> {
+    if (!id || typeof id !== 'string') {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Document ID is required and must be a string'
+      );
+    }
+    
+    if (!Number.isInteger(version) || version <= 0) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Version must be a positive integer'
+      );
+    }
+    
+    return this.executeRestore(this.name, id, version, options) as Promise<TypedDocument<T>>;
+  }
+  
+  /**
+   * Subscribes to the changes of a document
+   * 
+   * @param id The document ID
+   * @param callback Function called with each change event
+   * @returns The subscription
+   */
+  subscribe(id: string, callback: (event: ChangeEvent<TypedDocument<T>>) => void): ChangeSubscription {
+    if (!id || typeof id !== 'string') {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Document ID is required and must be a string'
+      );
+    }
+    
+    return this.executeSubscribe(this.name, { id }, callback as (event: ChangeEvent) => void);
+  }
+  
   /**
    * Starts a new transaction
    * 
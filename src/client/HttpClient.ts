@@ -93,6 +93,18 @@ export class HttpClient {
     return this.request<T>('PUT', path, data, options);
   }
   
+  /**
+   * Sends a PATCH request to the server
+   * 
+   * @param path The request path
+   * @param data The request data
+   * @param options Request options
+   * @returns The response data
+   */
+  async patch<T = any>(path: string, data?: any, options?: RequestOptions): Promise<T> {
+    return this.request<T>('PATCH', path, data, options);
+  }
+  
   /**
    * Sends a DELETE request to the server
    * 
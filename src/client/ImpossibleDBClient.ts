@@ -6,13 +6,43 @@
  * configuration and connections.
  */
 
-import { Collection, CreateOptions, UpdateOptions, DeleteOptions } from './Collection';
+import {
+  Collection,
+  CreateOptions,
+  UpdateOptions,
+  DeleteOptions,
+  PatchOptions,
+  FindOptions,
+  RestoreOptions
+} from './Collection';
 import { Transaction, TransactionResult } from './Transaction';
-import { Document, QueryFilter, QueryOptions, QueryResult, ErrorCode, TransactionOperation } from '../types';
+import {
+  BatchItemResult,
+  BatchOperation,
+  BatchResult,
+  ChangeEvent,
+  CollectionConfig,
+  Document,
+  QueryFilterNode,
+  QueryLookup,
+  QueryOptions,
+  QueryResult,
+  ErrorCode,
+  JsonSchema,
+  SubscriptionMessage,
+  TransactionOperation
+} from '../types';
 import { ImpossibleDBError } from '../utils/errorHandler';
 import { AggregationSpec } from '../query/aggregator';
+import { PipelineStage } from '../query/pipeline';
+import { DocumentPatch } from '../storage/patch';
 import { v4 as uuidv4 } from 'uuid';
 import { HttpClient, RequestOptions } from './HttpClient';
+import { ChangeSubscription } from './QueryBuilder';
+import { validateTtl } from '../utils/validation';
+import { formatETag } from '../utils/etag';
+import { CONFIG } from '../config';
+import { generateTypeScript } from './codegen';
 
 /**
  * Client configuration options
@@ -49,7 +79,7 @@ const DEFAULT_CONFIG: ClientConfig = {
  */
 export class ImpossibleDBClient {
   private readonly config: ClientConfig;
-  private readonly collections: Map<string, Collection> = new Map();
+  private readonly collections: Map<string, Collection<any>> = new Map();
   private readonly httpClient: HttpClient;
   
   /**
@@ -74,10 +104,20 @@ export class ImpossibleDBClient {
   /**
    * Gets a collection by name, creating it if it doesn't exist
    * 
+   * The type parameter declares the fields of the documents of the
+   * collection, which can be generated from its schema (see generateTypes).
+   * It is not checked at runtime: the schema of the collection is.
+   * 
+   * @example
+   * interface User { name: string; email: string; age?: number }
+   * 
+   * const users = db.collection<User>('users');
+   * const adults = await users.find(users.query().where('age', '>=', 18));
+   * 
    * @param name The name of the collection
    * @returns The collection
    */
-  collection(name: string): Collection {
+  collection<T extends object = Document>(name: string): Collection<T> {
     if (!name || typeof name !== 'string') {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_REQUEST,
@@ -92,14 +132,19 @@ export class ImpossibleDBClient {
     }
     
     // Create a new collection
-    const collection = new Collection(
+    const collection = new Collection<T>(
       name,
       this.executeQuery.bind(this),
       this.executeCreate.bind(this),
       this.executeRead.bind(this),
       this.executeUpdate.bind(this),
       this.executeDelete.bind(this),
-      () => this.createTransaction()
+      () => this.createTransaction(),
+      this.executePatch.bind(this),
+      this.executeBatch.bind(this),
+      this.executeSubscribe.bind(this),
+      this.executeRestore.bind(this),
+      this.executeAggregate.bind(this)
     );
     
     // Cache the collection
@@ -118,6 +163,68 @@ export class ImpossibleDBClient {
     return new Transaction(transactionId, this.executeTransaction.bind(this));
   }
   
+  /**
+   * Generates TypeScript types for the documents of collections from their
+   * schemas (see codegen.ts), to save to a module of the application
+   * 
+   * @example
+   * const source = await client.generateTypes(['users', 'orders']);
+   * // export interface Users { ... }
+   * 
+   * @param collections The names of the collections
+   * @returns The source of a TypeScript module exporting the types
+   * @throws ImpossibleDBError with INVALID_REQUEST if a collection has no schema
+   */
+  async generateTypes(collections: string[]): Promise<string> {
+    const requestOptions: RequestOptions = {
+      timeout: this.config.timeout || 30000
+    };
+    
+    const schemas: Record<string, JsonSchema> = {};
+    for (const collection of collections) {
+      const { config } = await this.httpClient.get<{ collection: string; config: CollectionConfig }>(
+        `collections/${collection}/config`,
+        requestOptions
+      );
+      
+      if (config.schema === undefined) {
+        throw new ImpossibleDBError(
+          ErrorCode.INVALID_REQUEST,
+          `Collection ${collection} has no schema`
+        );
+      }
+      schemas[collection] = config.schema;
+    }
+    
+    return generateTypeScript(schemas);
+  }
+  
+  /**
+   * Executes document operations, possibly on several collections, in batches
+   * 
+   * The operations are not atomic: each one gets its own result, and a failing
+   * operation does not prevent the others from being applied.
+   * 
+   * @example
+   * const results = await client.batch([
+   *   { op: 'create', collection: 'users', id: 'u1', document: { name: 'Alice' } },
+   *   { op: 'delete', collection: 'sessions', id: 's1' }
+   * ]);
+   * 
+   * @param operations The operations to execute
+   * @returns One result per operation, in order
+   */
+  async batch(operations: BatchOperation[]): Promise<BatchItemResult[]> {
+    if (!Array.isArray(operations)) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Batch operations must be an array'
+      );
+    }
+    
+    return this.executeBatch(operations);
+  }
+  
   /**
    * Executes a query
    * 
@@ -126,14 +233,16 @@ export class ImpossibleDBClient {
    * @param projection The fields to include in the results
    * @param options Query options
    * @param aggregations Aggregation specifications
+   * @param lookups Documents of other collections to join to the results
    * @returns The query results
    */
   private async executeQuery(
     collection: string,
-    filters: QueryFilter[],
+    filters: QueryFilterNode[],
     projection?: string[],
     options?: QueryOptions,
-    aggregations?: AggregationSpec[]
+    aggregations?: AggregationSpec[],
+    lookups?: QueryLookup[]
   ): Promise<QueryResult> {
     const requestOptions: RequestOptions = {
       timeout: this.config.timeout || 30000
@@ -143,7 +252,8 @@ export class ImpossibleDBClient {
       filters,
       projection,
       options,
-      aggregations
+      aggregations,
+      lookups
     };
     
     return this.httpClient.post<QueryResult>(
@@ -167,7 +277,8 @@ export class ImpossibleDBClient {
     options?: CreateOptions
   ): Promise<Document> {
     const requestOptions: RequestOptions = {
-      timeout: this.config.timeout || 30000
+      timeout: this.config.timeout || 30000,
+      headers: this.writeHeaders(options, options?.failIfExists ? 'mustNotExist' : undefined)
     };
     
     // Generate an ID if one wasn't provided
@@ -187,18 +298,80 @@ export class ImpossibleDBClient {
    * 
    * @param collection The collection to read from
    * @param id The ID of the document to read
+   * @param options Options selecting a past version of the document
    * @returns The document
    */
   private async executeRead(
     collection: string,
-    id: string
+    id: string,
+    options?: FindOptions
   ): Promise<Document> {
     const requestOptions: RequestOptions = {
       timeout: this.config.timeout || 30000
     };
     
+    const params = new URLSearchParams();
+    if (options?.version !== undefined) {
+      params.set('version', String(options.version));
+    }
+    if (options?.asOf !== undefined) {
+      params.set('asOf', String(options.asOf instanceof Date ? options.asOf.getTime() : options.asOf));
+    }
+    
+    const query = params.toString();
     return this.httpClient.get<Document>(
-      `collections/${collection}/documents/${id}`,
+      `collections/${collection}/documents/${id}${query ? `?${query}` : ''}`,
+      requestOptions
+    );
+  }
+  
+  /**
+   * Runs an aggregation pipeline
+   * 
+   * @param collection The collection to aggregate
+   * @param pipeline The stages of the pipeline
+   * @returns The results of the pipeline
+   */
+  private async executeAggregate(
+    collection: string,
+    pipeline: PipelineStage[]
+  ): Promise<Record<string, any>[]> {
+    const requestOptions: RequestOptions = {
+      timeout: this.config.timeout || 30000
+    };
+    
+    const { results } = await this.httpClient.post<{ results: Record<string, any>[] }>(
+      `collections/${collection}/aggregate`,
+      { pipeline },
+      requestOptions
+    );
+    
+    return results;
+  }
+  
+  /**
+   * Restores a past version of a document
+   * 
+   * @param collection The collection of the document
+   * @param id The ID of the document to restore
+   * @param version The version to restore
+   * @param options Options for restoring the document
+   * @returns The restored document
+   */
+  private async executeRestore(
+    collection: string,
+    id: string,
+    version: number,
+    options?: RestoreOptions
+  ): Promise<Document> {
+    const requestOptions: RequestOptions = {
+      timeout: this.config.timeout || 30000,
+      headers: this.writeHeaders(options)
+    };
+    
+    return this.httpClient.post<Document>(
+      `collections/${collection}/documents/${id}/restore`,
+      { version },
       requestOptions
     );
   }
@@ -219,7 +392,8 @@ export class ImpossibleDBClient {
     options?: UpdateOptions
   ): Promise<Document> {
     const requestOptions: RequestOptions = {
-      timeout: this.config.timeout || 30000
+      timeout: this.config.timeout || 30000,
+      headers: this.writeHeaders(options, options?.upsert ? undefined : 'mustExist')
     };
     
     return this.httpClient.put<Document>(
@@ -229,6 +403,33 @@ export class ImpossibleDBClient {
     );
   }
   
+  /**
+   * Patches a document
+   * 
+   * @param collection The collection of the document
+   * @param id The ID of the document to patch
+   * @param patch A JSON Patch array or an update operators object
+   * @param options Options for patching the document
+   * @returns The patched document
+   */
+  private async executePatch(
+    collection: string,
+    id: string,
+    patch: DocumentPatch,
+    options?: PatchOptions
+  ): Promise<Document> {
+    const requestOptions: RequestOptions = {
+      timeout: this.config.timeout || 30000,
+      headers: this.writeHeaders(options)
+    };
+    
+    return this.httpClient.patch<Document>(
+      `collections/${collection}/documents/${id}`,
+      patch,
+      requestOptions
+    );
+  }
+  
   /**
    * Deletes a document
    * 
@@ -242,7 +443,8 @@ export class ImpossibleDBClient {
     options?: DeleteOptions
   ): Promise<void> {
     const requestOptions: RequestOptions = {
-      timeout: this.config.timeout || 30000
+      timeout: this.config.timeout || 30000,
+      headers: this.writeHeaders(options, options?.failIfNotExists ? 'mustExist' : undefined)
     };
     
     return this.httpClient.delete<void>(
@@ -251,6 +453,135 @@ export class ImpossibleDBClient {
     );
   }
   
+  /**
+   * Executes document operations, split into requests of at most
+   * CONFIG.MAX_BATCH_SIZE operations sent one after the other
+   * 
+   * @param operations The operations to execute
+   * @returns One result per operation, in order
+   */
+  private async executeBatch(operations: BatchOperation[]): Promise<BatchItemResult[]> {
+    const requestOptions: RequestOptions = {
+      timeout: this.config.timeout || 30000
+    };
+    
+    const results: BatchItemResult[] = [];
+    for (let i = 0; i < operations.length; i += CONFIG.MAX_BATCH_SIZE) {
+      const response = await this.httpClient.post<BatchResult>(
+        'batch',
+        { operations: operations.slice(i, i + CONFIG.MAX_BATCH_SIZE) },
+        requestOptions
+      );
+      results.push(...response.results);
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Opens a change subscription over a WebSocket
+   * 
+   * When the connection drops, the subscription reconnects with exponential
+   * backoff and resumes from the cursor of the last message received, so the
+   * server replays the changes missed in between from its change logs.
+   * 
+   * @param collection The collection to subscribe to
+   * @param target The document or the filters to subscribe to
+   * @param callback Function called with each change event
+   * @returns The subscription
+   */
+  private executeSubscribe(
+    collection: string,
+    target: { id?: string; filters?: QueryFilterNode[] },
+    callback: (event: ChangeEvent) => void
+  ): ChangeSubscription {
+    const protocol = this.config.useHttps ? 'wss' : 'ws';
+    const endpoint = this.config.endpoint.replace(/^https?:\/\//, '');
+    
+    let cursor: string | undefined;
+    let socket: WebSocket | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+    
+    const connect = () => {
+      const params = new URLSearchParams();
+      if (cursor !== undefined) {
+        params.set('since', cursor);
+      }
+      if (target.id !== undefined) {
+        params.set('id', target.id);
+      }
+      if (target.filters && target.filters.length > 0) {
+        params.set('filters', JSON.stringify(target.filters));
+      }
+      
+      socket = new WebSocket(`${protocol}://${endpoint}/subscribe/${collection}?${params}`);
+      
+      socket.addEventListener('open', () => {
+        attempts = 0;
+      });
+      
+      // The first message only carries the cursor the subscription starts from
+      socket.addEventListener('message', message => {
+        const { cursor: next, ...event } = JSON.parse(message.data as string) as SubscriptionMessage;
+        cursor = next;
+        
+        if (event.type !== undefined) {
+          callback(event as ChangeEvent);
+        }
+      });
+      
+      socket.addEventListener('close', () => {
+        if (!closed) {
+          const delay = Math.min(1000 * 2 ** attempts++, 30000);
+          reconnectTimer = setTimeout(connect, delay);
+        }
+      });
+    };
+    
+    connect();
+    
+    return {
+      unsubscribe: () => {
+        closed = true;
+        clearTimeout(reconnectTimer);
+        socket?.close();
+      }
+    };
+  }
+  
+  /**
+   * Builds the request headers carrying write options
+   * 
+   * @param options The write options
+   * @param precondition Whether the document must or must not exist already
+   *   (ignored when an expected version is given, which implies it exists)
+   * @returns The headers, or undefined if no option needs one
+   */
+  private writeHeaders(
+    options?: { ttl?: number; expectedVersion?: number },
+    precondition?: 'mustExist' | 'mustNotExist'
+  ): Record<string, string> | undefined {
+    const headers: Record<string, string> = {};
+    
+    if (options?.ttl !== undefined) {
+      validateTtl(options.ttl);
+      headers[CONFIG.TTL_HEADER] = String(options.ttl);
+    }
+    
+    // The server rejects the write with CONFLICT if the version changed
+    if (options?.expectedVersion !== undefined) {
+      headers['If-Match'] = formatETag(options.expectedVersion);
+    } else if (precondition === 'mustExist') {
+      headers['If-Match'] = '*';
+    } else if (precondition === 'mustNotExist') {
+      headers['If-None-Match'] = '*';
+    }
+    
+    return Object.keys(headers).length > 0 ? headers : undefined;
+  }
+  
   /**
    * Executes a transaction
    * 
@@ -6,26 +6,98 @@
  * sorting, pagination, and projections.
  */
 
-import { QueryFilter, QueryOptions, QueryResult, ErrorCode } from '../types';
+import {
+  ChangeEvent,
+  Document,
+  FieldPath,
+  FieldValue,
+  OperatorValue,
+  QueryFilterNode,
+  QueryLookup,
+  QueryOperator,
+  QueryOptions,
+  QueryResult,
+  ErrorCode
+} from '../types';
 import { ImpossibleDBError } from '../utils/errorHandler';
 import { AggregationOperation, AggregationSpec } from '../query/aggregator';
+import { ValueType } from '../query/matcher';
+
+/**
+ * Function executing a query
+ */
+export type QueryExecutor = (
+  collection: string,
+  filters: QueryFilterNode[],
+  projection?: string[],
+  options?: QueryOptions,
+  aggregations?: AggregationSpec[],
+  lookups?: QueryLookup[]
+) => Promise<QueryResult>;
+
+/**
+ * Handle of an open change subscription
+ */
+export interface ChangeSubscription {
+  // Closes the subscription, no events are delivered afterwards
+  unsubscribe(): void;
+}
+
+/**
+ * Function opening a change subscription on a collection, a document or the
+ * documents matching filters
+ */
+export type ChangeSubscriber = (
+  collection: string,
+  target: { id?: string; filters?: QueryFilterNode[] },
+  callback: (event: ChangeEvent) => void
+) => ChangeSubscription;
+
+/**
+ * Paths of the fields of documents of type T whose values have the type V
+ */
+export type FieldPathOf<T, V> = { [P in FieldPath<T>]: NonNullable<FieldValue<T, P>> extends V ? P : never }[FieldPath<T>];
+
+/**
+ * Fields a query can be sorted by: document fields, and the scores and
+ * distances of searches, nearest neighbor and near queries
+ */
+export type SortField<T> = FieldPath<T> | '_score' | '_distance';
+
+/**
+ * Type of the elements of an array field, which elemMatch filters the fields
+ * of (Document if they are not typed objects)
+ */
+type ElementOf<V> =
+  0 extends (1 & V) ? Document :
+  NonNullable<V> extends readonly (infer E)[] ? (E extends object ? E : Document) :
+  Document;
 
 /**
  * QueryBuilder class for building database queries
+ * 
+ * Query builders of typed collections (see ImpossibleDBClient.collection)
+ * only accept the paths of the fields of their documents, and values of the
+ * type of the field, as in `users.query().where('age', '>=', 18)`.
  */
-export class QueryBuilder {
+export class QueryBuilder<T = Document> {
   private readonly collection: string;
-  private filters: QueryFilter[] = [];
+  private readonly executor: QueryExecutor | undefined;
+  private readonly subscriber: ChangeSubscriber | undefined;
+  private filters: QueryFilterNode[] = [];
   private projectionFields: string[] | undefined;
   private queryOptions: QueryOptions = {};
   private aggregations: AggregationSpec[] = [];
+  private lookups: QueryLookup[] = [];
   
   /**
    * Creates a new QueryBuilder instance
    * 
    * @param collection The collection to query
+   * @param executor Function used by iterate() to execute the query
+   * @param subscriber Function used by subscribe() to subscribe to changes
    */
-  constructor(collection: string) {
+  constructor(collection: string, executor?: QueryExecutor, subscriber?: ChangeSubscriber) {
     if (!collection || typeof collection !== 'string') {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_QUERY,
@@ -34,6 +106,8 @@ export class QueryBuilder {
     }
     
     this.collection = collection;
+    this.executor = executor;
+    this.subscriber = subscriber;
   }
   
   /**
@@ -44,9 +118,12 @@ export class QueryBuilder {
    * @param value The value to compare against
    * @returns The QueryBuilder instance for chaining
    */
-  where(field: string, operator: '=' | '!=' | '>' | '>=' | '<' | '<=', value: any): QueryBuilder {
-    this.filters.push({ field, operator, value });
-    return this;
+  where<P extends FieldPath<T>, O extends QueryOperator>(
+    field: P,
+    operator: O,
+    value: OperatorValue<FieldValue<T, P>, O>
+  ): QueryBuilder<T> {
+    return this.addFilter(field, operator, value);
   }
   
   /**
@@ -56,8 +133,8 @@ export class QueryBuilder {
    * @param value The value to compare against
    * @returns The QueryBuilder instance for chaining
    */
-  equals(field: string, value: any): QueryBuilder {
-    return this.where(field, '=', value);
+  equals<P extends FieldPath<T>>(field: P, value: FieldValue<T, P>): QueryBuilder<T> {
+    return this.addFilter(field, '=', value);
   }
   
   /**
@@ -67,8 +144,8 @@ export class QueryBuilder {
    * @param value The value to compare against
    * @returns The QueryBuilder instance for chaining
    */
-  notEquals(field: string, value: any): QueryBuilder {
-    return this.where(field, '!=', value);
+  notEquals<P extends FieldPath<T>>(field: P, value: FieldValue<T, P>): QueryBuilder<T> {
+    return this.addFilter(field, '!=', value);
   }
   
   /**
@@ -78,8 +155,8 @@ export class QueryBuilder {
    * @param value The value to compare against
    * @returns The QueryBuilder instance for chaining
    */
-  greaterThan(field: string, value: number | Date): QueryBuilder {
-    return this.where(field, '>', value);
+  greaterThan<P extends FieldPath<T>>(field: P, value: OperatorValue<FieldValue<T, P>, '>'>): QueryBuilder<T> {
+    return this.addFilter(field, '>', value);
   }
   
   /**
@@ -89,8 +166,8 @@ export class QueryBuilder {
    * @param value The value to compare against
    * @returns The QueryBuilder instance for chaining
    */
-  greaterThanOrEqual(field: string, value: number | Date): QueryBuilder {
-    return this.where(field, '>=', value);
+  greaterThanOrEqual<P extends FieldPath<T>>(field: P, value: OperatorValue<FieldValue<T, P>, '>='>): QueryBuilder<T> {
+    return this.addFilter(field, '>=', value);
   }
   
   /**
@@ -100,8 +177,8 @@ export class QueryBuilder {
    * @param value The value to compare against
    * @returns The QueryBuilder instance for chaining
    */
-  lessThan(field: string, value: number | Date): QueryBuilder {
-    return this.where(field, '<', value);
+  lessThan<P extends FieldPath<T>>(field: P, value: OperatorValue<FieldValue<T, P>, '<'>): QueryBuilder<T> {
+    return this.addFilter(field, '<', value);
   }
   
   /**
@@ -111,8 +188,269 @@ export class QueryBuilder {
    * @param value The value to compare against
    * @returns The QueryBuilder instance for chaining
    */
-  lessThanOrEqual(field: string, value: number | Date): QueryBuilder {
-    return this.where(field, '<=', value);
+  lessThanOrEqual<P extends FieldPath<T>>(field: P, value: OperatorValue<FieldValue<T, P>, '<='>): QueryBuilder<T> {
+    return this.addFilter(field, '<=', value);
+  }
+  
+  /**
+   * Adds a filter matching documents whose field equals one of the values
+   * 
+   * @param field The field to filter on
+   * @param values The values to compare against
+   * @returns The QueryBuilder instance for chaining
+   */
+  whereIn<P extends FieldPath<T>>(field: P, values: FieldValue<T, P>[]): QueryBuilder<T> {
+    return this.addFilter(field, 'in', values);
+  }
+  
+  /**
+   * Adds a filter matching documents whose field equals none of the values
+   * 
+   * @param field The field to filter on
+   * @param values The values to compare against
+   * @returns The QueryBuilder instance for chaining
+   */
+  whereNotIn<P extends FieldPath<T>>(field: P, values: FieldValue<T, P>[]): QueryBuilder<T> {
+    return this.addFilter(field, 'not_in', values);
+  }
+  
+  /**
+   * Adds a filter matching documents whose string field contains a
+   * substring, or whose array field contains an element
+   * 
+   * @param field The field to filter on
+   * @param value The substring or element
+   * @returns The QueryBuilder instance for chaining
+   */
+  contains<P extends FieldPath<T>>(field: P, value: OperatorValue<FieldValue<T, P>, 'contains'>): QueryBuilder<T> {
+    return this.addFilter(field, 'contains', value);
+  }
+  
+  /**
+   * Adds a filter matching documents whose string field starts with a prefix
+   * 
+   * @param field The field to filter on
+   * @param prefix The prefix
+   * @returns The QueryBuilder instance for chaining
+   */
+  startsWith(field: FieldPathOf<T, string>, prefix: string): QueryBuilder<T> {
+    return this.addFilter(field, 'starts_with', prefix);
+  }
+  
+  /**
+   * Adds a filter matching documents whose string field ends with a suffix
+   * 
+   * @param field The field to filter on
+   * @param suffix The suffix
+   * @returns The QueryBuilder instance for chaining
+   */
+  endsWith(field: FieldPathOf<T, string>, suffix: string): QueryBuilder<T> {
+    return this.addFilter(field, 'ends_with', suffix);
+  }
+  
+  /**
+   * Adds a filter matching documents that have (or do not have) a field
+   * 
+   * @param field The field to filter on
+   * @param exists Whether the field must be present
+   * @returns The QueryBuilder instance for chaining
+   */
+  exists(field: FieldPath<T>, exists = true): QueryBuilder<T> {
+    return this.addFilter(field, 'exists', exists);
+  }
+  
+  /**
+   * Adds a filter matching documents whose field has a type
+   * 
+   * @param field The field to filter on
+   * @param type The type
+   * @returns The QueryBuilder instance for chaining
+   */
+  whereType(field: FieldPath<T>, type: ValueType): QueryBuilder<T> {
+    return this.addFilter(field, 'type', type);
+  }
+  
+  /**
+   * Adds a filter matching documents whose string field matches a regular
+   * expression. Back-references and nested repetitions are not allowed.
+   * 
+   * @param field The field to filter on
+   * @param pattern The pattern
+   * @param flags The flags (i, m, s and u)
+   * @returns The QueryBuilder instance for chaining
+   */
+  matches(field: FieldPathOf<T, string>, pattern: string, flags?: string): QueryBuilder<T> {
+    return this.addFilter(field, 'regex', flags ? { pattern, flags } : pattern);
+  }
+  
+  /**
+   * Adds a filter matching documents whose array field has a number of
+   * elements
+   * 
+   * @param field The field to filter on
+   * @param size The number of elements
+   * @returns The QueryBuilder instance for chaining
+   */
+  size(field: FieldPathOf<T, readonly unknown[]>, size: number): QueryBuilder<T> {
+    return this.addFilter(field, 'size', size);
+  }
+  
+  /**
+   * Adds a filter matching documents whose array field contains all the
+   * values
+   * 
+   * @param field The field to filter on
+   * @param values The values
+   * @returns The QueryBuilder instance for chaining
+   */
+  containsAll<P extends FieldPathOf<T, readonly unknown[]>>(field: P, values: OperatorValue<FieldValue<T, P>, 'all'>): QueryBuilder<T> {
+    return this.addFilter(field, 'all', values);
+  }
+  
+  /**
+   * Adds a filter matching documents whose array field has an object element
+   * matching filters
+   * 
+   * @example
+   * query.elemMatch('items', item => item.equals('sku', 'A1').greaterThan('quantity', 2))
+   * 
+   * @param field The field to filter on
+   * @param build Adds the filters to a query builder, on fields of the element
+   * @returns The QueryBuilder instance for chaining
+   */
+  elemMatch<P extends FieldPathOf<T, readonly unknown[]>>(
+    field: P,
+    build: (element: QueryBuilder<ElementOf<FieldValue<T, P>>>) => QueryBuilder<ElementOf<FieldValue<T, P>>>
+  ): QueryBuilder<T> {
+    const { filters } = build(new QueryBuilder<ElementOf<FieldValue<T, P>>>(this.collection)).build();
+    return this.addFilter(field, 'elem_match', filters);
+  }
+  
+  /**
+   * Adds a full-text search: matches documents whose text field contains any
+   * of the words of a text (after stemming, ignoring case and stop words),
+   * ranked by relevance unless the query is sorted otherwise. Each result
+   * has its BM25 score in its `_score` field. A query can have one search.
+   * 
+   * @example
+   * products.query().search('description', 'wireless headphones').limit(10)
+   * 
+   * @param field The text field to search
+   * @param text The words to search for
+   * @returns The QueryBuilder instance for chaining
+   */
+  search(field: FieldPathOf<T, string | readonly string[]>, text: string): QueryBuilder<T> {
+    return this.addFilter(field, 'search', text);
+  }
+  
+  /**
+   * Adds a filter matching documents whose GeoJSON point field is within a
+   * distance of a point, sorted by increasing distance unless the query is
+   * sorted otherwise. Each result has its distance in meters in its
+   * `_distance` field. A query can have one near filter.
+   * 
+   * @example
+   * stores.query().near('location', [-73.98, 40.75], 2000).limit(10)
+   * 
+   * @param field The point field
+   * @param point The longitude and latitude of the point
+   * @param maxDistance The maximum distance in meters, if any
+   * @returns The QueryBuilder instance for chaining
+   */
+  near(field: FieldPath<T>, point: [number, number], maxDistance?: number): QueryBuilder<T> {
+    return this.addFilter(field, 'near', maxDistance === undefined ? { point } : { point, maxDistance });
+  }
+  
+  /**
+   * Adds a filter matching documents whose GeoJSON point field is within a
+   * distance of a point
+   * 
+   * @param field The point field
+   * @param center The longitude and latitude of the point
+   * @param radius The distance in meters
+   * @returns The QueryBuilder instance for chaining
+   */
+  withinRadius(field: FieldPath<T>, center: [number, number], radius: number): QueryBuilder<T> {
+    return this.addFilter(field, 'within_radius', { center, radius });
+  }
+  
+  /**
+   * Adds a filter matching documents whose GeoJSON point field is within a
+   * box
+   * 
+   * @param field The point field
+   * @param southWest The longitude and latitude of the south-west corner
+   * @param northEast The longitude and latitude of the north-east corner
+   * @returns The QueryBuilder instance for chaining
+   */
+  withinBox(field: FieldPath<T>, southWest: [number, number], northEast: [number, number]): QueryBuilder<T> {
+    return this.addFilter(field, 'within_box', [southWest, northEast]);
+  }
+  
+  /**
+   * Adds a filter matching documents whose GeoJSON point field is within a
+   * polygon
+   * 
+   * @param field The point field
+   * @param vertices The longitude and latitude of each vertex
+   * @returns The QueryBuilder instance for chaining
+   */
+  withinPolygon(field: FieldPath<T>, vertices: [number, number][]): QueryBuilder<T> {
+    return this.addFilter(field, 'within_polygon', vertices);
+  }
+  
+  /**
+   * Adds a filter matching the k documents whose vector field is the most
+   * similar to a vector, among those matching the other filters, by the
+   * metric of the vector index of the field. Results are ranked by
+   * similarity, which each has in its `_score` field, and the limit of the
+   * query defaults to k. A query can have one nearest neighbors filter.
+   * 
+   * @example
+   * articles.query().nearestNeighbors('embedding', queryEmbedding, 5).equals('lang', 'en')
+   * 
+   * @param field The vector field
+   * @param vector The vector, of the dimension of the vector index
+   * @param k The number of documents to return
+   * @returns The QueryBuilder instance for chaining
+   */
+  nearestNeighbors(field: FieldPathOf<T, readonly number[]>, vector: number[], k: number): QueryBuilder<T> {
+    return this.addFilter(field, 'nearest_neighbors', { vector, k });
+  }
+  
+  /**
+   * Adds a filter matching documents that match any of the alternatives
+   * 
+   * @example
+   * query.or(q => q.equals('role', 'admin'), q => q.equals('owner', userId).exists('sharedAt'))
+   * 
+   * @param alternatives Each adds the filters of an alternative to a query builder
+   * @returns The QueryBuilder instance for chaining
+   */
+  or(...alternatives: ((q: QueryBuilder<T>) => QueryBuilder<T>)[]): QueryBuilder<T> {
+    if (alternatives.length === 0) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'At least one alternative is required'
+      );
+    }
+    
+    this.filters.push({ or: alternatives.map(build => this.group(build)) });
+    return this;
+  }
+  
+  /**
+   * Adds a filter matching documents that do not match filters
+   * 
+   * @example
+   * query.not(q => q.equals('status', 'archived'))
+   * 
+   * @param build Adds the filters to negate to a query builder
+   * @returns The QueryBuilder instance for chaining
+   */
+  not(build: (q: QueryBuilder<T>) => QueryBuilder<T>): QueryBuilder<T> {
+    this.filters.push({ not: this.group(build) });
+    return this;
   }
   
   /**
@@ -121,7 +459,7 @@ export class QueryBuilder {
    * @param fields The fields to include
    * @returns The QueryBuilder instance for chaining
    */
-  select(...fields: string[]): QueryBuilder {
+  select(...fields: FieldPath<T>[]): QueryBuilder<T> {
     this.projectionFields = fields;
     return this;
   }
@@ -132,7 +470,7 @@ export class QueryBuilder {
    * @param limit The maximum number of results
    * @returns The QueryBuilder instance for chaining
    */
-  limit(limit: number): QueryBuilder {
+  limit(limit: number): QueryBuilder<T> {
     if (typeof limit !== 'number' || limit < 0) {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_QUERY,
@@ -150,7 +488,7 @@ export class QueryBuilder {
    * @param offset The number of results to skip
    * @returns The QueryBuilder instance for chaining
    */
-  offset(offset: number): QueryBuilder {
+  offset(offset: number): QueryBuilder<T> {
     if (typeof offset !== 'number' || offset < 0) {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_QUERY,
@@ -162,6 +500,81 @@ export class QueryBuilder {
     return this;
   }
   
+  /**
+   * Continues the query after the last document of a previous page
+   * 
+   * Unlike offsets, cursors stay correct when documents are written between
+   * page requests. The query must keep the same sort order.
+   * 
+   * @param cursor The `nextCursor` returned with the previous page
+   * @returns The QueryBuilder instance for chaining
+   */
+  after(cursor: string): QueryBuilder<T> {
+    if (!cursor || typeof cursor !== 'string') {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'Cursor must be a non-empty string'
+      );
+    }
+    
+    this.queryOptions.after = cursor;
+    return this;
+  }
+  
+  /**
+   * Explains the query instead of executing it: the result has no documents
+   * and its `explain` field holds the query plan, its estimated cost, the
+   * targeted shards and how each of them would evaluate the query
+   * 
+   * @returns The QueryBuilder instance for chaining
+   */
+  explain(): QueryBuilder<T> {
+    this.queryOptions.explain = true;
+    delete this.queryOptions.profile;
+    return this;
+  }
+  
+  /**
+   * Profiles the query: the result has a `profile` field with per-shard
+   * timings, retries, documents scanned and returned, and the merge cost
+   * 
+   * @returns The QueryBuilder instance for chaining
+   */
+  profile(): QueryBuilder<T> {
+    this.queryOptions.profile = true;
+    delete this.queryOptions.explain;
+    return this;
+  }
+  
+  /**
+   * Joins documents of another collection to the results: each result gets
+   * an array field holding the documents of the other collection whose
+   * foreign field equals its local field (or one of its elements, if it is
+   * an array)
+   * 
+   * @example
+   * orders.query().lookup('users', 'userId', '_id', 'user')
+   * 
+   * @param from The collection to join
+   * @param localField The field of the results to join on
+   * @param foreignField The field of the joined documents to match
+   * @param as The field the joined documents are embedded under
+   * @returns The QueryBuilder instance for chaining
+   */
+  lookup(from: string, localField: FieldPath<T>, foreignField: string, as: string): QueryBuilder<T> {
+    for (const [name, value] of Object.entries({ from, localField, foreignField, as })) {
+      if (!value || typeof value !== 'string') {
+        throw new ImpossibleDBError(
+          ErrorCode.INVALID_QUERY,
+          `Lookup ${name} must be a non-empty string`
+        );
+      }
+    }
+    
+    this.lookups.push({ from, localField, foreignField, as });
+    return this;
+  }
+  
   /**
    * Adds a sort specification to the query
    * 
@@ -169,7 +582,7 @@ export class QueryBuilder {
    * @param direction The sort direction ('asc' or 'desc')
    * @returns The QueryBuilder instance for chaining
    */
-  sort(field: string, direction: 'asc' | 'desc' = 'asc'): QueryBuilder {
+  sort(field: SortField<T>, direction: 'asc' | 'desc' = 'asc'): QueryBuilder<T> {
     if (!field || typeof field !== 'string') {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_QUERY,
@@ -191,7 +604,7 @@ export class QueryBuilder {
    * @param field The field to sort by
    * @returns The QueryBuilder instance for chaining
    */
-  sortAsc(field: string): QueryBuilder {
+  sortAsc(field: SortField<T>): QueryBuilder<T> {
     return this.sort(field, 'asc');
   }
   
@@ -201,7 +614,7 @@ export class QueryBuilder {
    * @param field The field to sort by
    * @returns The QueryBuilder instance for chaining
    */
-  sortDesc(field: string): QueryBuilder {
+  sortDesc(field: SortField<T>): QueryBuilder<T> {
     return this.sort(field, 'desc');
   }
   
@@ -211,7 +624,7 @@ export class QueryBuilder {
    * @param field Optional field to count (if not provided, counts all documents)
    * @returns The QueryBuilder instance for chaining
    */
-  count(field?: string): QueryBuilder {
+  count(field?: FieldPath<T>): QueryBuilder<T> {
     this.aggregations.push({
       operation: AggregationOperation.COUNT,
       field
@@ -226,7 +639,7 @@ export class QueryBuilder {
    * @param field The field to sum
    * @returns The QueryBuilder instance for chaining
    */
-  sum(field: string): QueryBuilder {
+  sum(field: FieldPathOf<T, number>): QueryBuilder<T> {
     if (!field || typeof field !== 'string') {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_QUERY,
@@ -248,7 +661,7 @@ export class QueryBuilder {
    * @param field The field to average
    * @returns The QueryBuilder instance for chaining
    */
-  avg(field: string): QueryBuilder {
+  avg(field: FieldPathOf<T, number>): QueryBuilder<T> {
     if (!field || typeof field !== 'string') {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_QUERY,
@@ -270,7 +683,7 @@ export class QueryBuilder {
    * @param field The field to find the minimum value of
    * @returns The QueryBuilder instance for chaining
    */
-  min(field: string): QueryBuilder {
+  min(field: FieldPath<T>): QueryBuilder<T> {
     if (!field || typeof field !== 'string') {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_QUERY,
@@ -292,7 +705,7 @@ export class QueryBuilder {
    * @param field The field to find the maximum value of
    * @returns The QueryBuilder instance for chaining
    */
-  max(field: string): QueryBuilder {
+  max(field: FieldPath<T>): QueryBuilder<T> {
     if (!field || typeof field !== 'string') {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_QUERY,
@@ -314,7 +727,7 @@ export class QueryBuilder {
    * @param fields The fields to group by
    * @returns The QueryBuilder instance for chaining
    */
-  groupBy(...fields: string[]): QueryBuilder {
+  groupBy(...fields: FieldPath<T>[]): QueryBuilder<T> {
     if (!fields || fields.length === 0) {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_QUERY,
@@ -344,7 +757,7 @@ export class QueryBuilder {
    * 
    * @returns The query filters
    */
-  getFilters(): QueryFilter[] {
+  getFilters(): QueryFilterNode[] {
     return [...this.filters];
   }
   
@@ -375,6 +788,15 @@ export class QueryBuilder {
     return [...this.aggregations];
   }
   
+  /**
+   * Gets the lookups
+   * 
+   * @returns The lookups
+   */
+  getLookups(): QueryLookup[] {
+    return this.lookups.map(lookup => ({ ...lookup }));
+  }
+  
   /**
    * Builds the query parameters for execution
    * 
@@ -382,17 +804,19 @@ export class QueryBuilder {
    */
   build(): {
     collection: string;
-    filters: QueryFilter[];
+    filters: QueryFilterNode[];
     projection?: string[];
     options: QueryOptions;
     aggregations: AggregationSpec[];
+    lookups: QueryLookup[];
   } {
     return {
       collection: this.collection,
       filters: this.getFilters(),
       projection: this.getProjection(),
       options: this.getOptions(),
-      aggregations: this.getAggregations()
+      aggregations: this.getAggregations(),
+      lookups: this.getLookups()
     };
   }
   
@@ -402,16 +826,131 @@ export class QueryBuilder {
    * @param executor Function to execute the query
    * @returns The query results
    */
-  async execute<T extends QueryResult>(
+  async execute<R extends QueryResult<any>>(
     executor: (
       collection: string,
-      filters: QueryFilter[],
+      filters: QueryFilterNode[],
       projection?: string[],
       options?: QueryOptions,
-      aggregations?: AggregationSpec[]
-    ) => Promise<T>
-  ): Promise<T> {
-    const { collection, filters, projection, options, aggregations } = this.build();
-    return executor(collection, filters, projection, options, aggregations);
+      aggregations?: AggregationSpec[],
+      lookups?: QueryLookup[]
+    ) => Promise<R>
+  ): Promise<R> {
+    const { collection, filters, projection, options, aggregations, lookups } = this.build();
+    return lookups.length > 0
+      ? executor(collection, filters, projection, options, aggregations, lookups)
+      : executor(collection, filters, projection, options, aggregations);
+  }
+  
+  /**
+   * Iterates over every document matching the query, fetching one page (of
+   * `limit` documents) at a time with cursors
+   * 
+   * @example
+   * for await (const user of users.query().where('active', '=', true).iterate()) {
+   *   console.log(user.name);
+   * }
+   * 
+   * @returns An async iterator over the matching documents
+   */
+  async *iterate(): AsyncGenerator<T, void, undefined> {
+    if (!this.executor) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'Query builder has no executor, create it with Collection.query()'
+      );
+    }
+    
+    const { collection, filters, projection, options, lookups } = this.build();
+    let pageOptions = options;
+    
+    for (;;) {
+      const result = await this.executor(
+        collection,
+        filters,
+        projection,
+        pageOptions,
+        undefined,
+        lookups.length > 0 ? lookups : undefined
+      );
+      yield* result.results as T[];
+      
+      const nextCursor = result.metadata.nextCursor;
+      if (!nextCursor) {
+        return;
+      }
+      
+      // The offset only applies to the first page
+      pageOptions = { ...options, offset: undefined, after: nextCursor };
+    }
+  }
+  
+  /**
+   * Subscribes to changes of the documents matching the query filters
+   * 
+   * The callback receives an insert event when a document starts matching,
+   * an update event when a matching document changes, and a delete event when
+   * it is deleted or stops matching. Sorting, pagination and projection do
+   * not apply to subscriptions.
+   * 
+   * @example
+   * const subscription = users.query()
+   *   .where('status', '=', 'online')
+   *   .subscribe(event => console.log(event.type, event.id));
+   * 
+   * subscription.unsubscribe();
+   * 
+   * @param callback Function called with each change event
+   * @returns The subscription
+   */
+  subscribe(callback: (event: ChangeEvent<T>) => void): ChangeSubscription {
+    if (!this.subscriber) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'Query builder has no subscriber, create it with Collection.query()'
+      );
+    }
+    
+    if (this.aggregations.length > 0) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'Cannot subscribe to an aggregation query'
+      );
+    }
+    
+    if (this.lookups.length > 0) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'Cannot subscribe to a query with lookups'
+      );
+    }
+    
+    return this.subscriber(this.collection, { filters: [...this.filters] }, callback as (event: ChangeEvent) => void);
+  }
+  
+  /**
+   * Adds a filter to the query, without checking its field and value
+   * against the type of the documents
+   */
+  private addFilter(field: string, operator: QueryOperator, value: any): QueryBuilder<T> {
+    this.filters.push({ field, operator, value });
+    return this;
+  }
+  
+  /**
+   * Combines the filters a function adds to a new query builder into a single
+   * filter (all of them must match)
+   */
+  private group(build: (q: QueryBuilder<T>) => QueryBuilder<T>): QueryFilterNode {
+    const { filters } = build(new QueryBuilder<T>(this.collection)).build();
+    
+    if (filters.length === 0) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'A group of filters cannot be empty'
+      );
+    }
+    
+    return filters.length === 1 ? filters[0] : { and: filters };
   }
 }
@@ -5,9 +5,9 @@
  * atomically across multiple collections and documents.
  */
 
-import { Document, TransactionOperation, TransactionOperationType, TransactionStatus, ErrorCode } from '../types';
+import { Document, NewDocument, TransactionOperation, TransactionOperationType, TransactionStatus, ErrorCode } from '../types';
 import { ImpossibleDBError } from '../utils/errorHandler';
-import { CreateOptions, UpdateOptions, DeleteOptions } from './Collection';
+import { Collection, CreateOptions, UpdateOptions, DeleteOptions } from './Collection';
 
 /**
  * Transaction result
@@ -21,6 +21,15 @@ export interface TransactionResult {
 
 /**
  * Transaction class for performing multiple operations atomically
+ * 
+ * Operations name their collection, or pass a typed Collection to type-check
+ * the documents written to it:
+ * 
+ * @example
+ * db.createTransaction()
+ *   .write(users, 'u1', { name: 'Alice', email: 'alice@example.com' })
+ *   .delete('sessions', 's1')
+ *   .commit();
  */
 export class Transaction {
   private readonly id: string;
@@ -71,19 +80,14 @@ export class Transaction {
   /**
    * Adds a read operation to the transaction
    * 
-   * @param collection The collection to read from
+   * @param collection The collection to read from, or its name
    * @param documentId The ID of the document to read
    * @returns This transaction instance for chaining
    */
-  read(collection: string, documentId: string): Transaction {
+  read(collection: string | Collection<any>, documentId: string): Transaction {
     this.ensureNotFinalized();
     
-    if (!collection || typeof collection !== 'string') {
-      throw new ImpossibleDBError(
-        ErrorCode.INVALID_REQUEST,
-        'Collection name is required and must be a string'
-      );
-    }
+    const name = this.collectionName(collection);
     
     if (!documentId || typeof documentId !== 'string') {
       throw new ImpossibleDBError(
@@ -94,7 +98,7 @@ export class Transaction {
     
     this.operations.push({
       type: TransactionOperationType.READ,
-      collection,
+      collection: name,
       documentId
     });
     
@@ -104,26 +108,21 @@ export class Transaction {
   /**
    * Adds a write operation to the transaction
    * 
-   * @param collection The collection to write to
+   * @param collection The collection to write to, or its name
    * @param documentId The ID of the document to write
    * @param data The document data to write
    * @param options Options for the write operation
    * @returns This transaction instance for chaining
    */
-  write(
-    collection: string,
+  write<T extends object = Document>(
+    collection: string | Collection<T>,
     documentId: string,
-    data: Partial<Document>,
+    data: NoInfer<NewDocument<T>>,
     options?: CreateOptions | UpdateOptions
   ): Transaction {
     this.ensureNotFinalized();
     
-    if (!collection || typeof collection !== 'string') {
-      throw new ImpossibleDBError(
-        ErrorCode.INVALID_REQUEST,
-        'Collection name is required and must be a string'
-      );
-    }
+    const name = this.collectionName(collection);
     
     if (!documentId || typeof documentId !== 'string') {
       throw new ImpossibleDBError(
@@ -141,12 +140,12 @@ export class Transaction {
     
     this.operations.push({
       type: TransactionOperationType.WRITE,
-      collection,
+      collection: name,
       documentId,
       data: {
         ...data,
         _id: documentId,
-        _collection: collection
+        _collection: name
       }
     });
     
@@ -156,24 +155,19 @@ export class Transaction {
   /**
    * Adds a delete operation to the transaction
    * 
-   * @param collection The collection to delete from
+   * @param collection The collection to delete from, or its name
    * @param documentId The ID of the document to delete
    * @param options Options for the delete operation
    * @returns This transaction instance for chaining
    */
   delete(
-    collection: string,
+    collection: string | Collection<any>,
     documentId: string,
     options?: DeleteOptions
   ): Transaction {
     this.ensureNotFinalized();
     
-    if (!collection || typeof collection !== 'string') {
-      throw new ImpossibleDBError(
-        ErrorCode.INVALID_REQUEST,
-        'Collection name is required and must be a string'
-      );
-    }
+    const name = this.collectionName(collection);
     
     if (!documentId || typeof documentId !== 'string') {
       throw new ImpossibleDBError(
@@ -184,7 +178,7 @@ export class Transaction {
     
     this.operations.push({
       type: TransactionOperationType.DELETE,
-      collection,
+      collection: name,
       documentId
     });
     
@@ -243,6 +237,25 @@ export class Transaction {
     return this.aborted;
   }
   
+  /**
+   * Gets the name of the collection of an operation
+   * 
+   * @param collection The collection, or its name
+   * @returns The collection name
+   */
+  private collectionName(collection: string | Collection<any>): string {
+    const name = typeof collection === 'object' && collection !== null ? collection.getName() : collection;
+    
+    if (!name || typeof name !== 'string') {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Collection name is required and must be a string'
+      );
+    }
+    
+    return name;
+  }
+  
   /**
    * Ensures that the transaction has not been finalized (committed or aborted)
    * 
@@ -0,0 +1,290 @@
+/**
+ * TypeScript Code Generation
+ *
+ * This module generates TypeScript types from the schemas of collections
+ * (see storage/schema.ts), to type their documents with
+ * `db.collection<User>('users')`.
+ *
+ * Each collection gets an interface named after the title of its schema if it
+ * is an identifier, or after the collection otherwise (`order_items` gives
+ * `OrderItems`), and each of its $defs a type prefixed with that name. Types
+ * cover what TypeScript can express: types, const, enum, properties and
+ * required, items and prefixItems, additionalProperties, patternProperties,
+ * allOf, anyOf, oneOf and $ref. Other keywords (minimum, pattern, not,
+ * if/then/else...) only constrain values at runtime and are left out, and
+ * descriptions become doc comments.
+ */
+
+import { ErrorCode, JsonSchema } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+
+/**
+ * Names of the types generated for a collection schema
+ */
+interface TypeNames {
+  // Name of the type of the documents, which '#' references
+  root: string;
+  
+  // Names of the types of the $defs, by definition name
+  definitions: Record<string, string>;
+}
+
+/**
+ * Generates the TypeScript types of the documents of collections
+ *
+ * @example
+ * generateTypeScript({ users: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } } })
+ * // export interface Users {
+ * //   name: string;
+ * // }
+ *
+ * @param schemas The schema of each collection, by collection name
+ * @returns The source of a TypeScript module exporting the types
+ * @throws ImpossibleDBError with INVALID_REQUEST if two types get the same name
+ */
+export function generateTypeScript(schemas: Record<string, JsonSchema>): string {
+  const declarations: string[] = [];
+  const declared = new Set<string>();
+  
+  const declare = (name: string, schema: JsonSchema, names: TypeNames, description: string) => {
+    if (declared.has(name)) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        `Cannot generate two types named ${name}, give the schemas different titles`
+      );
+    }
+    declared.add(name);
+    declarations.push(declaration(name, schema, names, description));
+  };
+  
+  for (const [collection, schema] of Object.entries(schemas)) {
+    const root = typeof schema === 'object' && isIdentifier(schema.title) ? schema.title : pascalCase(collection);
+    const definitions: Record<string, any> = typeof schema === 'object' ? schema.$defs ?? {} : {};
+    const names: TypeNames = {
+      root,
+      definitions: Object.fromEntries(Object.keys(definitions).map(name => [name, root + pascalCase(name)]))
+    };
+    
+    declare(root, schema, names, `Document of the ${collection} collection`);
+    for (const [name, definition] of Object.entries(definitions)) {
+      declare(names.definitions[name], definition, names, `The ${name} definition of the ${collection} collection schema`);
+    }
+  }
+  
+  return [
+    '// Generated from the schemas of ImpossibleDB collections, do not edit',
+    ...declarations
+  ].join('\n\n') + '\n';
+}
+
+/**
+ * Generates the declaration of a type, an interface if the schema is an
+ * object type
+ */
+function declaration(name: string, schema: JsonSchema, names: TypeNames, description: string): string {
+  const comment = docComment(typeof schema === 'object' && typeof schema.description === 'string' ? schema.description : description, '');
+  const type = typeOf(schema, names, '');
+  
+  return isObjectSchema(schema)
+    ? `${comment}\nexport interface ${name} ${type}`
+    : `${comment}\nexport type ${name} = ${type};`;
+}
+
+/**
+ * Generates the TypeScript type of the values matching a schema
+ *
+ * @param schema The schema
+ * @param names Names of the types of the collection schema
+ * @param indent Indentation of the line the type starts on
+ */
+function typeOf(schema: JsonSchema | undefined, names: TypeNames, indent: string): string {
+  if (schema === undefined || schema === true) {
+    return 'unknown';
+  }
+  
+  if (schema === false) {
+    return 'never';
+  }
+  
+  const parts: string[] = [];
+  
+  if (schema.const !== undefined) {
+    parts.push(JSON.stringify(schema.const));
+  } else if (schema.enum !== undefined) {
+    parts.push(union(schema.enum.map((value: any) => JSON.stringify(value))));
+  } else if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    parts.push(union([...new Set(types.map(type => primitiveType(type, schema, names, indent)))]));
+  } else if (schema.properties !== undefined || schema.additionalProperties !== undefined || schema.patternProperties !== undefined) {
+    parts.push(objectType(schema, names, indent));
+  } else if (schema.items !== undefined || schema.prefixItems !== undefined) {
+    parts.push(arrayType(schema, names, indent));
+  }
+  
+  if (typeof schema.$ref === 'string') {
+    parts.push(schema.$ref === '#' ? names.root : names.definitions[schema.$ref.replace('#/$defs/', '')] ?? 'unknown');
+  }
+  
+  for (const subschema of schema.allOf ?? []) {
+    parts.push(typeOf(subschema, names, indent));
+  }
+  
+  for (const keyword of ['anyOf', 'oneOf']) {
+    if (schema[keyword] !== undefined) {
+      parts.push(union(schema[keyword].map((subschema: JsonSchema) => typeOf(subschema, names, indent))));
+    }
+  }
+  
+  if (parts.length === 0) {
+    return 'unknown';
+  }
+  
+  return parts.length === 1 ? parts[0] : parts.map(part => parenthesize(part)).join(' & ');
+}
+
+/**
+ * Generates the TypeScript type of a JSON Schema type
+ */
+function primitiveType(type: string, schema: Record<string, any>, names: TypeNames, indent: string): string {
+  switch (type) {
+    case 'integer': return 'number';
+    case 'array': return arrayType(schema, names, indent);
+    case 'object': return objectType(schema, names, indent);
+    default: return type;
+  }
+}
+
+/**
+ * Generates the TypeScript type of the arrays matching a schema
+ */
+function arrayType(schema: Record<string, any>, names: TypeNames, indent: string): string {
+  if (schema.prefixItems === undefined) {
+    return `${parenthesize(typeOf(schema.items, names, indent))}[]`;
+  }
+  
+  const elements = schema.prefixItems.map((item: JsonSchema) => typeOf(item, names, indent));
+  if (schema.items !== false) {
+    elements.push(`...${parenthesize(typeOf(schema.items, names, indent))}[]`);
+  }
+  
+  return `[${elements.join(', ')}]`;
+}
+
+/**
+ * Generates the TypeScript type of the objects matching a schema
+ */
+function objectType(schema: Record<string, any>, names: TypeNames, indent: string): string {
+  const properties: Record<string, JsonSchema> = schema.properties ?? {};
+  const required: string[] = schema.required ?? [];
+  const inner = `${indent}  `;
+  const lines: string[] = [];
+  
+  for (const [name, property] of Object.entries(properties)) {
+    if (typeof property === 'object' && typeof property.description === 'string') {
+      lines.push(docComment(property.description, inner));
+    }
+    const optional = required.includes(name) ? '' : '?';
+    lines.push(`${inner}${isIdentifier(name) ? name : JSON.stringify(name)}${optional}: ${typeOf(property, names, inner)};`);
+  }
+  
+  // Other properties are only typed if their schema is, since an index
+  // signature would allow any field name in queries
+  const others: JsonSchema[] = [
+    ...Object.values<JsonSchema>(schema.patternProperties ?? {}),
+    ...(typeof schema.additionalProperties === 'object' ? [schema.additionalProperties] : [])
+  ];
+  if (others.length > 0) {
+    const type = lines.length > 0 ? 'unknown' : union(others.map(other => typeOf(other, names, inner)));
+    lines.push(`${inner}[key: string]: ${type};`);
+  }
+  
+  if (lines.length === 0) {
+    return schema.additionalProperties === false ? 'Record<string, never>' : 'Record<string, unknown>';
+  }
+  
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Checks whether a schema generates an object type, which can be declared
+ * as an interface
+ */
+function isObjectSchema(schema: JsonSchema): boolean {
+  if (typeof schema !== 'object' || schema.const !== undefined || schema.enum !== undefined) {
+    return false;
+  }
+  
+  if (['$ref', 'allOf', 'anyOf', 'oneOf'].some(keyword => schema[keyword] !== undefined)) {
+    return false;
+  }
+  
+  const hasProperties = Object.keys(schema.properties ?? {}).length > 0;
+  
+  return (schema.type === 'object' || (schema.type === undefined && schema.properties !== undefined)) && hasProperties;
+}
+
+/**
+ * Joins types into a union, without duplicates
+ */
+function union(types: string[]): string {
+  return [...new Set(types)].map(type => parenthesize(type, '&')).join(' | ');
+}
+
+/**
+ * Wraps a type in parentheses if it is a union or an intersection
+ *
+ * @param type The type
+ * @param operators The operators that require parentheses
+ */
+function parenthesize(type: string, operators = '|&'): string {
+  // Only operators outside of brackets and string literals count
+  let depth = 0;
+  for (let i = 0; i < type.length; i++) {
+    const char = type[i];
+    if (char === '"') {
+      // Skip string literals
+      for (i++; i < type.length && type[i] !== '"'; i++) {
+        if (type[i] === '\\') {
+          i++;
+        }
+      }
+    } else if ('{[(<'.includes(char)) {
+      depth++;
+    } else if ('}])>'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && operators.includes(char)) {
+      return `(${type})`;
+    }
+  }
+  
+  return type;
+}
+
+/**
+ * Formats a description as a doc comment
+ */
+function docComment(description: string, indent: string): string {
+  const lines = description.replace(/\*\//g, '*\\/').split('\n');
+  
+  return [`${indent}/**`, ...lines.map(line => `${indent} * ${line}`.trimEnd()), `${indent} */`].join('\n');
+}
+
+/**
+ * Checks whether a value is a valid TypeScript identifier
+ */
+function isIdentifier(value: any): value is string {
+  return typeof value === 'string' && /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(value);
+}
+
+/**
+ * Converts a name to PascalCase ('order_items' gives 'OrderItems')
+ */
+function pascalCase(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(word => word.length > 0)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  
+  return /^[A-Za-z]/.test(pascal) ? pascal : `_${pascal}`;
+}
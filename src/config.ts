@@ -31,6 +31,65 @@ export const CONFIG = {
   MAX_DOCUMENT_SIZE: 1024 * 1024, // 1MB
   MAX_BATCH_SIZE: 100,
   MAX_QUERY_RESULTS: 1000,
+  MAX_INDEXES_PER_COLLECTION: 16,
+  MAX_REGEX_LENGTH: 256, // Maximum length of the pattern of a regex filter
+  MAX_FILTER_VALUES: 1000, // Maximum number of values of an in, not_in or all filter
+  MAX_FILTER_DEPTH: 8, // Maximum nesting depth of filter groups and elem_match filters
+  MAX_AGGREGATION_GROUPS: 10000, // Maximum number of groups of a groupBy aggregation
+  MAX_LOOKUPS: 4, // Maximum number of lookups of a query
+  MAX_LOOKUP_KEYS: 1000, // Maximum number of distinct values a lookup joins on per page of results
+  MAX_PIPELINE_STAGES: 20, // Maximum number of stages of an aggregation pipeline
+  MAX_PIPELINE_DOCUMENTS: 10000, // Maximum number of documents a shard or the worker passes between pipeline stages
+  MAX_PIPELINE_ARRAY_VALUES: 1000, // Maximum number of values a push or addToSet accumulator collects per group
+  MAX_EXPRESSION_DEPTH: 8, // Maximum nesting depth of pipeline expressions
+  
+  // Document expiry
+  TTL_HEADER: 'X-Document-TTL', // Request header carrying a document's TTL in seconds
+  TTL_SWEEP_BATCH_SIZE: 1000, // Expired documents purged per alarm run
+  
+  // Change log
+  CHANGE_LOG_RETENTION: 7 * 24 * 60 * 60, // Default retention in seconds (7 days)
+  CHANGE_LOG_SWEEP_INTERVAL: 60 * 60 * 1000, // 1 hour between change log trims
+  DEFAULT_CHANGES_LIMIT: 100,
+  MAX_CHANGES_PER_REQUEST: 1000,
+  
+  // Query planning
+  STATISTICS_MAX_FIELDS: 100, // Fields tracked in the statistics of a collection
+  STATISTICS_MAX_DEPTH: 3, // Nesting depth of the fields tracked
+  STATISTICS_MAX_DISTINCT: 1000, // Distinct values counted exactly per field
+  STATISTICS_SAMPLE_SIZE: 1000, // Values sampled per indexed field to build its histogram
+  STATISTICS_HISTOGRAM_BUCKETS: 16,
+  STATISTICS_REFRESH_CHANGES: 100, // Changes after which a shard recomputes the statistics of a collection...
+  STATISTICS_REFRESH_RATIO: 0.1, // ...unless they are fewer than this fraction of its documents
+  STATISTICS_MAX_AGE: 60 * 60 * 1000, // 1 hour before statistics are recomputed anyway
+  STATISTICS_CACHE_TTL: 60 * 1000, // 1 minute during which the worker reuses the statistics of a shard
+  INDEX_SELECTIVITY_THRESHOLD: 0.3, // Fraction of the documents above which a scan beats an index
+  QUERY_COST_DOCUMENTS_PER_UNIT: 10000, // Documents scanned per unit of query cost
+  
+  // Full-text search
+  MAX_SEARCH_TERMS: 32, // Maximum number of distinct terms of a search filter
+  MAX_TERM_LENGTH: 64, // Longer words are not indexed
+  TEXT_BM25_K1: 1.2, // Saturation of the term frequencies of BM25 scores
+  TEXT_BM25_B: 0.75, // Weight of the document length normalization of BM25 scores
+  
+  // Geospatial queries
+  GEO_CELL_PRECISION: 12, // Characters of the geohashes geospatial indexes store
+  MAX_GEO_COVERING_CELLS: 16, // Maximum number of cells a geospatial filter is looked up with in an index
+  MAX_POLYGON_VERTICES: 1000, // Maximum number of vertices of a within_polygon filter
+  
+  // Vector search
+  MAX_VECTOR_DIMENSIONS: 4096, // Maximum number of components of indexed and queried vectors
+  MAX_NEAREST_NEIGHBORS: 1000, // Maximum k of a nearest_neighbors filter
+  MAX_VECTOR_INDEX_LISTS: 256, // Maximum number of lists (clusters) of a vector index
+  VECTOR_INDEX_PROBES: 8, // Number of lists, nearest to the queried vector, a query compares
+  VECTOR_INDEX_TRAINING_ITERATIONS: 10, // k-means iterations clustering the vectors of an index
+  MAX_VECTOR_TRAINING_VECTORS: 4096, // Larger indexes are clustered with a sample of their vectors
+  
+  // Collection schemas
+  MAX_SCHEMA_ERRORS: 20, // Maximum number of errors reported for a document
+  MAX_SCHEMA_DEPTH: 32, // Maximum number of $ref a value is validated through
+  MAX_SCHEMA_EVALUATIONS: 100000, // Maximum number of subschemas a document is validated against
+  MAX_SCHEMA_DRY_RUN_DOCUMENTS: 100, // Maximum number of invalid documents a dry run reports
   
   // Timeouts (in milliseconds)
   REQUEST_TIMEOUT: 30000, // 30 seconds
@@ -10,11 +10,38 @@ import { StorageObject } from './objects/StorageObject';
 import { ShardRouter } from './routing/router';
 import { ConsistentHashRing } from './routing/consistentHash';
 import { EdgeLocalityManager } from './routing/localityManager';
-import { Env, ErrorCode } from './types';
-import { getEnvironment, getConfig } from './config';
+import {
+  BatchItemResult,
+  BatchOperation,
+  BatchResult,
+  Env,
+  ErrorCode,
+  ErrorResponse,
+  IndexDefinition,
+  Document,
+  QueryFilter,
+  QueryFilterNode,
+  QueryLookup,
+  QueryOptions,
+  QueryResult,
+  ChangeLogEntry,
+  SubscriptionMessage
+} from './types';
+import { CONFIG, getEnvironment, getConfig } from './config';
 import { createLogger } from './utils/logger';
 import { ImpossibleDBError, handleError, withErrorHandling } from './utils/errorHandler';
-import { validateCollectionName, validateDocumentId } from './utils/validation';
+import { readJsonObject, validateBatchOperations, validateCollectionName, validateDocumentId } from './utils/validation';
+import { expressionToFilters, ParsedQuery, parseQuery } from './query/parser';
+import { parseTextQuery } from './query/language';
+import { AggregationSpec, PartialAggregation } from './query/aggregator';
+import { mergeShardPipelines, PipelineStage, ShardPipelineResult, splitPipeline, validatePipeline } from './query/pipeline';
+import { createQueryPlan, optimizeQueryPlan, ShardTarget } from './query/planner';
+import { executeQueryPlan, ShardQueryResult } from './query/executor';
+import { ShardQueryPlan, ShardWork } from './query/explain';
+import { CollectionStatistics } from './query/statistics';
+import { findSearchFilter, mergeTextStatistics, TextStatistics } from './query/text';
+import { parseSubscriptionRequest, SUBSCRIPTION_SEQ_HEADER } from './storage/subscriptions';
+import { decodeCheckpoints, encodeCheckpoints, mergeChangeFeeds, parseChangesLimit, ShardChanges } from './storage/changeFeed';
 
 // Create a logger for this module
 const logger = createLogger('worker');
@@ -25,6 +52,10 @@ let hashRing: ConsistentHashRing;
 let localityManager: EdgeLocalityManager;
 let router: ShardRouter;
 
+// Statistics of the collections of each shard, by shard ID and collection,
+// reused for STATISTICS_CACHE_TTL
+const statisticsCache = new Map<string, { statistics: CollectionStatistics; fetchedAt: number }>();
+
 /**
  * Initialize the routing components with environment-specific settings
  */
@@ -94,10 +125,62 @@ export default {
           // Validate document ID
           validateDocumentId(id);
           
+          // Restore a past version: /api/data/{collection}/{id}/restore
+          if (path[4] === 'restore' && request.method === 'POST') {
+            return await handleCrudRequest(request, env, collection, id, 'restore');
+          }
+          
           // Handle CRUD requests
           return await handleCrudRequest(request, env, collection, id);
         }
       }
+      
+      // Queries written in the query language: /api/query
+      if (path.length === 2 && path[1] === 'query' && request.method === 'POST') {
+        return await handleTextQueryRequest(request, env);
+      }
+      
+      // Batch of document operations: /api/batch
+      if (path.length === 2 && path[1] === 'batch' && request.method === 'POST') {
+        return await handleBatchRequest(request, env);
+      }
+      
+      // Change feed: /api/changes/{collection}?since={cursor}
+      if (path.length === 3 && path[1] === 'changes' && request.method === 'GET') {
+        const collection = path[2];
+        validateCollectionName(collection);
+        
+        return await handleChangesRequest(request, env, collection);
+      }
+      
+      // Change subscriptions over WebSockets: /api/subscribe/{collection}
+      if (path.length === 3 && path[1] === 'subscribe' && request.method === 'GET') {
+        return await handleSubscribeRequest(request, env, path[2]);
+      }
+      
+      // Index administration: /api/indexes/{collection}[/{name}[/build]]
+      if (path.length >= 3 && path[1] === 'indexes') {
+        const collection = path[2];
+        validateCollectionName(collection);
+        
+        return await handleIndexRequest(request, env, collection, path.slice(3));
+      }
+      
+      // Aggregation pipelines: /api/collections/{collection}/aggregate
+      if (path.length === 4 && path[1] === 'collections' && path[3] === 'aggregate' && request.method === 'POST') {
+        const collection = path[2];
+        validateCollectionName(collection);
+        
+        return await handleAggregateRequest(request, env, collection);
+      }
+      
+      // Collection settings: /api/collections/{collection}/config
+      if (path.length === 4 && path[1] === 'collections' && path[3] === 'config') {
+        const collection = path[2];
+        validateCollectionName(collection);
+        
+        return await handleCollectionConfigRequest(request, env, collection);
+      }
     }
     
     // Handle health check endpoint
@@ -145,13 +228,22 @@ export default {
 };
 
 /**
- * Handles CRUD operations (GET, PUT, DELETE) on documents
+ * Handles CRUD operations (GET, PUT, POST, PATCH, DELETE) on documents
+ * 
+ * POST creates a document only if it does not exist yet, while PUT creates
+ * or replaces it. Requests are forwarded to the shard unchanged, so
+ * conditional headers (If-Match, If-None-Match) are honored by the shard,
+ * and so are the `version` and `asOf` parameters of GET requests reading a
+ * past version of the document.
+ * 
+ * @param action Document action to forward the request to (e.g. 'restore')
  */
 async function handleCrudRequest(
   request: Request, 
   env: Env, 
   collection: string, 
-  id: string
+  id: string,
+  action?: string
 ): Promise<Response> {
   try {
     logger.debug('Handling CRUD request', { method: request.method, collection, id });
@@ -170,7 +262,7 @@ async function handleCrudRequest(
     
     // Forward the request to the appropriate shard
     const shardUrl = new URL(request.url);
-    shardUrl.pathname = `/${collection}/${id}`;
+    shardUrl.pathname = action ? `/${collection}/${id}/${action}` : `/${collection}/${id}`;
     
     const shardRequest = new Request(shardUrl.toString(), request);
     return await storageObject.fetch(shardRequest);
@@ -192,66 +284,714 @@ async function handleQueryRequest(
     logger.debug('Handling query request', { collection });
     
     // Parse the request body to get filters
-    let body;
+    const body = await readJsonObject<{
+      collection: string;
+      filters: QueryFilterNode[];
+      projection: string[];
+      options: QueryOptions;
+      aggregations: AggregationSpec[];
+      lookups: QueryLookup[];
+    }>(request, 'query');
+    
+    // Parse and validate the query before any shard is contacted
+    const parsedQuery = parseQuery(
+      collection,
+      body.filters || [],
+      body.projection,
+      body.options || {},
+      body.aggregations,
+      body.lookups
+    );
+    const result = await executeQuery(request, env, parsedQuery);
+    
+    return new Response(JSON.stringify(result), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    logger.error('Error handling query request', error as Error, { collection });
+    throw error;
+  }
+}
+
+/**
+ * Handles queries written in the query language: POST /api/query with a
+ * JSON body ({ "query": "SELECT ..." }) or the query as plain text
+ */
+async function handleTextQueryRequest(request: Request, env: Env): Promise<Response> {
+  let text: unknown;
+  
+  if ((request.headers.get('Content-Type') || '').includes('application/json')) {
+    text = (await readJsonObject<{ query: string }>(request, 'query')).query;
+  } else {
+    text = await request.text();
+  }
+  
+  if (typeof text !== 'string') {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Query text is required'
+    );
+  }
+  
+  const { query } = parseTextQuery(text);
+  validateCollectionName(query.collection);
+  
+  const result = await executeQuery(request, env, query);
+  
+  return new Response(JSON.stringify(result), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Executes a parsed query on the shards of its collection
+ * 
+ * The query is planned once in the worker, fanned out to every shard that
+ * may hold documents of the collection, and the shard results are merged,
+ * sorted, paginated and projected by the query executor.
+ */
+async function executeQuery(request: Request, env: Env, parsedQuery: ParsedQuery): Promise<QueryResult> {
+  const { collection, options } = parsedQuery;
+  const filters = expressionToFilters(parsedQuery.expression);
+  
+  // Use the router to determine which shards to query
+  const shardIds = router.getShardsForQuery(collection, filters[0]);
+  
+  logger.debug('Query shards determined', { collection, shardCount: shardIds.length });
+  
+  // If no shards found, return empty results
+  if (shardIds.length === 0) {
+    logger.debug('No shards found for query', { collection });
+    return {
+      results: [],
+      metadata: {
+        total: 0,
+        limit: options.limit || getConfig(getEnvironment(env)).MAX_QUERY_RESULTS,
+        offset: options.offset || 0
+      }
+    };
+  }
+  
+  const config = getConfig(getEnvironment(env));
+  const statistics = config.FEATURES.ENABLE_QUERY_OPTIMIZATION
+    ? await getCollectionStatistics(env, request.url, collection, shardIds)
+    : {};
+  let plan = optimizeQueryPlan(createQueryPlan(parsedQuery, shardIds), statistics);
+  
+  // Searches are scored with the statistics of the whole collection
+  const search = parsedQuery.aggregations ? undefined : findSearchFilter(filters);
+  if (search && !options.explain) {
+    const textStatistics = await getTextStatistics(env, request.url, collection, shardIds, search);
+    plan = { ...plan, targets: plan.targets.map(target => ({ ...target, textStatistics })) };
+  }
+  
+  // A failing shard fails the whole query rather than silently returning
+  // partial results
+  const result = await executeQueryPlan(
+    plan,
+    target => queryShard(env, request.url, plan.collection, target),
+    {
+      continueOnError: false,
+      fetchLookup: (lookup, keys) => lookupDocuments(request, env, lookup, keys)
+    }
+  );
+  
+  logger.debug('Query completed', { 
+    collection, 
+    shardCount: plan.targets.length,
+    returnedResults: result.results.length,
+    total: result.metadata.total
+  });
+  
+  return result;
+}
+
+/**
+ * Handles aggregation pipelines: POST /api/collections/{collection}/aggregate
+ * with a JSON body ({ "pipeline": [...] })
+ * 
+ * Every shard that may hold matching documents runs the part of the pipeline
+ * before its first group, count, sort or limit stage, and the worker merges
+ * their partial groups or documents and runs the rest of the pipeline.
+ */
+async function handleAggregateRequest(request: Request, env: Env, collection: string): Promise<Response> {
+  const body = await readJsonObject<{ pipeline: PipelineStage[] }>(request, 'aggregate');
+  
+  // Validate the pipeline before any shard is contacted
+  validatePipeline(body.pipeline);
+  const pipeline = body.pipeline!;
+  const split = splitPipeline(pipeline);
+  
+  const shardIds = router.getShardsForQuery(collection, split.filters[0]);
+  
+  logger.debug('Aggregating', { collection, stageCount: pipeline.length, shardCount: shardIds.length });
+  
+  const shardResults = await Promise.all(shardIds.map(async shardId => {
+    const { data } = await callShard<ShardPipelineResult>(env, request.url, shardId, '/pipeline', {
+      method: 'POST',
+      body: JSON.stringify({ collection, pipeline })
+    });
+    return data;
+  }));
+  
+  const results = mergeShardPipelines(split, shardResults);
+  
+  return new Response(JSON.stringify({ results, metadata: { total: results.length } }), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Gets the statistics of a collection in each of the given shards, from the
+ * cache if they were fetched recently
+ * 
+ * Statistics only make queries cheaper, so shards that fail to return them
+ * are planned without them.
+ * 
+ * @param env Worker environment
+ * @param requestUrl URL of the incoming request (used as the base for the shard URLs)
+ * @param collection The collection
+ * @param shardIds The shards
+ * @returns The statistics by shard ID
+ */
+async function getCollectionStatistics(
+  env: Env,
+  requestUrl: string,
+  collection: string,
+  shardIds: string[]
+): Promise<Record<string, CollectionStatistics>> {
+  const now = Date.now();
+  const { STATISTICS_CACHE_TTL } = getConfig(getEnvironment(env));
+  const statistics: Record<string, CollectionStatistics> = {};
+  
+  await Promise.all(shardIds.map(async shardId => {
+    const key = `${shardId}/${collection}`;
+    const cached = statisticsCache.get(key);
+    if (cached && now - cached.fetchedAt < STATISTICS_CACHE_TTL) {
+      statistics[shardId] = cached.statistics;
+      return;
+    }
+    
     try {
-      body = await request.json() as {
-        collection: string;
-        filters?: { field: string; operator: string; value: any }[];
-        options?: { limit?: number; offset?: number; sort?: { field: string; direction: 'asc' | 'desc' }[] };
-      };
+      const { data } = await callShard<CollectionStatistics>(env, requestUrl, shardId, `/__stats/${collection}`);
+      statisticsCache.set(key, { statistics: data, fetchedAt: now });
+      statistics[shardId] = data;
     } catch (error) {
-      logger.warn('Invalid JSON in query request body', { error: (error as Error).message });
+      logger.warn('Failed to get collection statistics', { collection, shardId, error: (error as Error).message });
+    }
+  }));
+  
+  return statistics;
+}
+
+/**
+ * Gets the statistics of the terms of a search over every shard that may
+ * hold matching documents
+ * 
+ * Unlike collection statistics, they change the results of the query (the
+ * scores of the documents), so a shard that fails to return them fails the
+ * query.
+ * 
+ * @param env Worker environment
+ * @param requestUrl URL of the incoming request (used as the base for the shard URLs)
+ * @param collection The collection
+ * @param shardIds The shards
+ * @param search The search filter
+ * @returns The merged statistics
+ */
+async function getTextStatistics(
+  env: Env,
+  requestUrl: string,
+  collection: string,
+  shardIds: string[],
+  search: QueryFilter
+): Promise<TextStatistics> {
+  const parts = await Promise.all(shardIds.map(async shardId => {
+    const { data } = await callShard<TextStatistics>(env, requestUrl, shardId, `/__search/${collection}`, {
+      method: 'POST',
+      body: JSON.stringify({ field: search.field, text: search.value })
+    });
+    return data;
+  }));
+  
+  return mergeTextStatistics(parts);
+}
+
+/**
+ * Fetches the documents of the collection of a lookup whose foreign field
+ * equals one of the given values
+ * 
+ * Lookups on _id only query the shards owning the values, each with the
+ * values it owns; lookups on other fields query every shard of the
+ * collection. Either way, each shard receives a single query.
+ * 
+ * @param request The incoming request
+ * @param env Worker environment
+ * @param lookup The lookup
+ * @param keys The distinct values to look up
+ * @returns The matching documents
+ * @throws ImpossibleDBError with QUERY_TOO_EXPENSIVE if a shard holds more
+ *   matching documents than a query can return
+ */
+async function lookupDocuments(
+  request: Request,
+  env: Env,
+  lookup: QueryLookup,
+  keys: any[]
+): Promise<Document[]> {
+  const keysByShard = new Map<string, any[]>();
+  
+  if (lookup.foreignField === '_id') {
+    const clientId = request.headers.get('x-client-id') || 'anonymous';
+    for (const key of keys.filter(key => typeof key === 'string')) {
+      const shardId = router.routeRequest(lookup.from, key, clientId);
+      keysByShard.set(shardId, [...(keysByShard.get(shardId) || []), key]);
+    }
+  } else {
+    for (const shardId of router.getShardsForQuery(lookup.from)) {
+      keysByShard.set(shardId, keys);
+    }
+  }
+  
+  logger.debug('Looking up documents', { from: lookup.from, keyCount: keys.length, shardCount: keysByShard.size });
+  
+  const limit = getConfig(getEnvironment(env)).MAX_QUERY_RESULTS;
+  const results = await Promise.all([...keysByShard].map(async ([shardId, shardKeys]) => {
+    const { results, total } = await queryShard(env, request.url, lookup.from, {
+      shardId,
+      filters: [{ field: lookup.foreignField, operator: 'in', value: shardKeys }],
+      options: { limit }
+    });
+    
+    if (total > results.length) {
       throw new ImpossibleDBError(
-        ErrorCode.INVALID_REQUEST,
-        'Invalid JSON in request body'
+        ErrorCode.QUERY_TOO_EXPENSIVE,
+        `Lookup of ${lookup.from} matches more than ${limit} documents in a shard`,
+        { lookup, shardId, total, limit }
       );
     }
     
-    const filters = body.filters || [];
-    
-    // Use the router to determine which shards to query
-    const shardIds = router.getShardsForQuery(collection, filters[0]);
+    return results;
+  }));
+  
+  return results.flat();
+}
+
+/**
+ * Response of a StorageObject to a query
+ */
+type ShardQueryResponse = QueryResult & {
+  partialAggregations?: PartialAggregation[];
+  shardPlan?: ShardQueryPlan;
+  work?: ShardWork;
+};
+
+/**
+ * Sends the part of a query plan targeting one shard to its StorageObject
+ * 
+ * @param env Worker environment
+ * @param requestUrl URL of the incoming request (used as the base for the shard URL)
+ * @param collection Collection being queried
+ * @param target The shard target from the query plan
+ * @returns The shard's results
+ */
+async function queryShard(
+  env: Env,
+  requestUrl: string,
+  collection: string,
+  target: ShardTarget
+): Promise<ShardQueryResult> {
+  const { data } = await callShard<ShardQueryResponse>(env, requestUrl, target.shardId, '/query', {
+    method: 'POST',
+    body: JSON.stringify({
+      collection,
+      filters: target.filters,
+      options: target.options,
+      aggregations: target.aggregations,
+      index: target.index,
+      textStatistics: target.textStatistics
+    })
+  });
+  
+  return {
+    shardId: target.shardId,
+    results: data.results,
+    total: data.metadata.total,
+    ...(data.partialAggregations && { aggregations: data.partialAggregations }),
+    ...(data.shardPlan && { shardPlan: data.shardPlan }),
+    ...(data.work && { work: data.work })
+  };
+}
+
+/**
+ * Handles batch requests
+ * 
+ * The operations are grouped by the shard owning their document, each group
+ * is sent to its shard in a single request, and the per-operation results are
+ * returned in request order. If a shard fails altogether, only the operations
+ * it owns fail.
+ */
+async function handleBatchRequest(request: Request, env: Env): Promise<Response> {
+  const body = await readJsonObject<{ operations: BatchOperation[] }>(request, 'batch');
+  const operations = body.operations as BatchOperation[];
+  validateBatchOperations(operations);
+  
+  const clientId = request.headers.get('x-client-id') || 'anonymous';
+  
+  // Positions of the operations owned by each shard
+  const groups = new Map<string, number[]>();
+  operations.forEach((operation, position) => {
+    const shardId = router.routeRequest(operation.collection, operation.id, clientId);
+    const group = groups.get(shardId) || [];
+    group.push(position);
+    groups.set(shardId, group);
+  });
+  
+  logger.debug('Handling batch request', { operations: operations.length, shardCount: groups.size });
+  
+  const results: BatchItemResult[] = new Array(operations.length);
+  
+  await Promise.all(Array.from(groups, async ([shardId, positions]) => {
+    try {
+      const { data } = await callShard<BatchResult>(env, request.url, shardId, '/batch', {
+        method: 'POST',
+        body: JSON.stringify({ operations: positions.map(position => operations[position]) })
+      });
+      
+      positions.forEach((position, i) => {
+        results[position] = data.results[i];
+      });
+    } catch (error) {
+      logger.error('Shard failed to handle batch', error as Error, { shardId });
+      
+      const shardError = error instanceof ImpossibleDBError
+        ? error
+        : new ImpossibleDBError(ErrorCode.INTERNAL_ERROR, `Shard ${shardId} failed to handle the batch`);
+      
+      for (const position of positions) {
+        results[position] = {
+          status: shardError.status,
+          error: { code: shardError.code, message: shardError.message, details: shardError.details }
+        };
+      }
+    }
+  }));
+  
+  const result: BatchResult = { results };
+  return new Response(JSON.stringify(result), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Handles change feed requests by reading the change log of every shard of
+ * the collection from its checkpoint, and merging the changes
+ * 
+ * Without `since`, the feed starts at the oldest changes still retained. A
+ * shard missing from the checkpoints (such as a shard added since the cursor
+ * was returned) is also read from its oldest change.
+ */
+async function handleChangesRequest(
+  request: Request,
+  env: Env,
+  collection: string
+): Promise<Response> {
+  const url = new URL(request.url);
+  const since = url.searchParams.get('since');
+  const checkpoints = since ? decodeCheckpoints(since) : {};
+  const limit = parseChangesLimit(url.searchParams.get('limit'));
+  
+  logger.debug('Handling changes request', { collection, checkpoints, limit });
+  
+  const shardIds = router.getShardsForQuery(collection);
+  if (shardIds.length === 0) {
+    throw new ImpossibleDBError(
+      ErrorCode.NO_SHARDS_AVAILABLE,
+      'No shards available to read changes from'
+    );
+  }
+  
+  const shardChanges = await Promise.all(shardIds.map(shardId => {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (checkpoints[shardId] !== undefined) {
+      params.set('since', String(checkpoints[shardId]));
+    }
     
-    logger.debug('Query shards determined', { collection, shardCount: shardIds.length });
+    return callShard<ShardChanges>(env, request.url, shardId, `/__changes/${collection}?${params}`)
+      .then(({ data }) => ({ shardId, ...data }));
+  }));
+  
+  return new Response(JSON.stringify(mergeChangeFeeds(shardChanges, checkpoints, limit)), {
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Handles WebSocket subscriptions to document changes
+ * 
+ * A document subscription is opened on the shard of the document, and
+ * collection and query subscriptions on every shard that may hold matching
+ * documents. The events of the shards are relayed to the client, each with
+ * the cursor to resume from after it: the checkpoints of the shards, encoded
+ * like the cursors of the change feed. The first message only carries the
+ * cursor the subscription starts from.
+ * 
+ * With `since` (a cursor), each shard replays the changes that follow its
+ * checkpoint. A shard missing from the cursor is subscribed to from its
+ * current position.
+ */
+async function handleSubscribeRequest(
+  request: Request,
+  env: Env,
+  collection: string
+): Promise<Response> {
+  if (request.headers.get('Upgrade') !== 'websocket') {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Expected a WebSocket upgrade request'
+    );
+  }
+  
+  const url = new URL(request.url);
+  const subscription = parseSubscriptionRequest(collection, url.searchParams);
+  const since = url.searchParams.get('since');
+  const checkpoints = since ? decodeCheckpoints(since) : {};
+  
+  logger.debug('Handling subscribe request', { ...subscription, checkpoints });
+  
+  const clientId = request.headers.get('x-client-id') || 'anonymous';
+  const shardIds = subscription.id !== undefined
+    ? [router.routeRequest(collection, subscription.id, clientId)]
+    : router.getShardsForQuery(collection, subscription.filters?.[0]);
+  if (shardIds.length === 0) {
+    throw new ImpossibleDBError(
+      ErrorCode.NO_SHARDS_AVAILABLE,
+      'No shards available to subscribe to'
+    );
+  }
+  
+  const shardResponses = await Promise.all(shardIds.map(shardId => {
+    const shardUrl = new URL(request.url);
+    shardUrl.pathname = `/__subscribe/${collection}`;
+    shardUrl.searchParams.delete('since');
+    if (checkpoints[shardId] !== undefined) {
+      shardUrl.searchParams.set('since', String(checkpoints[shardId]));
+    }
     
-    // For MVP, we'll still send the query to a single shard
-    // In a full implementation, we would query all relevant shards and aggregate results
-    if (shardIds.length > 0) {
-      const shardId = shardIds[0]; // Just use the first shard for now
-      const storageObjectId = env.STORAGE_OBJECT.idFromString(shardId);
-      const storageObject = env.STORAGE_OBJECT.get(storageObjectId);
+    const storageObject = env.STORAGE_OBJECT.get(env.STORAGE_OBJECT.idFromString(shardId));
+    return storageObject.fetch(new Request(shardUrl.toString(), request));
+  }));
+  
+  // A shard that refused the subscription (because the changes that follow
+  // its checkpoint were trimmed, for example) fails the whole subscription
+  const refused = shardResponses.find(response => !response.webSocket);
+  if (refused) {
+    for (const response of shardResponses) {
+      response.webSocket?.accept();
+      response.webSocket?.close();
+    }
+    return refused;
+  }
+  
+  const shardSockets = shardResponses.map(response => {
+    response.webSocket!.accept();
+    return response.webSocket!;
+  });
+  
+  const positions: Record<string, number> = {};
+  shardIds.forEach((shardId, i) => {
+    positions[shardId] = Number(shardResponses[i].headers.get(SUBSCRIPTION_SEQ_HEADER));
+  });
+  
+  const [client, server] = Object.values(new WebSocketPair());
+  server.accept();
+  
+  const closeAll = () => {
+    for (const socket of [server, ...shardSockets]) {
+      try {
+        socket.close();
+      } catch {
+        // Already closed
+      }
+    }
+  };
+  
+  const opened: SubscriptionMessage = { cursor: encodeCheckpoints(positions) };
+  server.send(JSON.stringify(opened));
+  
+  shardSockets.forEach((socket, i) => {
+    socket.addEventListener('message', message => {
+      const event = JSON.parse(message.data as string) as ChangeLogEntry;
+      positions[shardIds[i]] = event.seq;
       
-      // Forward the query to the shard
-      const shardUrl = new URL(request.url);
-      shardUrl.pathname = '/query';
+      const relayed: SubscriptionMessage = { ...event, shardId: shardIds[i], cursor: encodeCheckpoints(positions) };
+      server.send(JSON.stringify(relayed));
+    });
+    socket.addEventListener('close', closeAll);
+  });
+  server.addEventListener('close', closeAll);
+  
+  return new Response(null, { status: 101, webSocket: client });
+}
+
+/**
+ * Handles index administration requests by applying them to every shard of
+ * the collection, since each shard indexes its own documents
+ */
+async function handleIndexRequest(
+  request: Request,
+  env: Env,
+  collection: string,
+  rest: string[]
+): Promise<Response> {
+  logger.debug('Handling index request', { method: request.method, collection, rest });
+  
+  const shardIds = router.getShardsForQuery(collection);
+  if (shardIds.length === 0) {
+    throw new ImpossibleDBError(
+      ErrorCode.NO_SHARDS_AVAILABLE,
+      'No shards available to manage indexes'
+    );
+  }
+  
+  const pathname = ['', '__index', collection, ...rest].join('/');
+  const body = request.method === 'POST' ? await request.text() : undefined;
+  
+  const shardResponses = await Promise.all(shardIds.map(shardId =>
+    callShard<Record<string, any>>(env, request.url, shardId, pathname, {
+      method: request.method,
+      body: body || undefined
+    }).then(response => ({ shardId, ...response }))
+  ));
+  
+  const [first] = shardResponses;
+  const merged: Record<string, any> = { ...first.data };
+  
+  // An index is only ready once it is ready on every shard
+  if (Array.isArray(first.data.indexes)) {
+    merged.indexes = first.data.indexes.map((index: IndexDefinition) => ({
+      ...index,
+      status: shardResponses.every(({ data }) =>
+        data.indexes.some((other: IndexDefinition) => other.name === index.name && other.status === 'ready')
+      ) ? 'ready' : 'building'
+    }));
+  }
+  
+  if (typeof first.data.indexedDocuments === 'number') {
+    merged.indexedDocuments = shardResponses.reduce((total, { data }) => total + data.indexedDocuments, 0);
+  }
+  
+  merged.shards = shardResponses.map(({ shardId, data }) => ({ shardId, ...data }));
+  
+  return new Response(JSON.stringify(merged), {
+    status: first.status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Handles collection settings requests. Settings are stored by every shard
+ * of the collection, since each shard applies them to its own documents.
+ * 
+ * A PUT with `?dryRun=true` saves nothing: every shard validates its
+ * documents against the schema of the settings, and their counts and errors
+ * are merged.
+ */
+async function handleCollectionConfigRequest(
+  request: Request,
+  env: Env,
+  collection: string
+): Promise<Response> {
+  logger.debug('Handling collection config request', { method: request.method, collection });
+  
+  const shardIds = router.getShardsForQuery(collection);
+  if (shardIds.length === 0) {
+    throw new ImpossibleDBError(
+      ErrorCode.NO_SHARDS_AVAILABLE,
+      'No shards available to manage collection settings'
+    );
+  }
+  
+  const pathname = `/__config/${collection}`;
+  
+  if (request.method === 'GET') {
+    // Every shard holds the same settings
+    const { data } = await callShard<Record<string, any>>(env, request.url, shardIds[0], pathname);
+    return new Response(JSON.stringify(data), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  
+  if (request.method === 'PUT') {
+    const body = await request.text();
+    const dryRun = new URL(request.url).searchParams.get('dryRun') === 'true';
+    const shardResponses = await Promise.all(shardIds.map(shardId =>
+      callShard<Record<string, any>>(env, request.url, shardId, dryRun ? `${pathname}?dryRun=true` : pathname, { method: 'PUT', body })
+    ));
+    
+    if (dryRun) {
+      const merged = { ...shardResponses[0].data };
+      merged.checkedDocuments = shardResponses.reduce((total, { data }) => total + data.checkedDocuments, 0);
+      merged.invalidDocuments = shardResponses.reduce((total, { data }) => total + data.invalidDocuments, 0);
+      merged.errors = shardResponses.flatMap(({ data }) => data.errors).slice(0, CONFIG.MAX_SCHEMA_DRY_RUN_DOCUMENTS);
       
-      const shardRequest = new Request(shardUrl.toString(), {
-        method: 'POST',
-        headers: request.headers,
-        body: JSON.stringify(body)
+      return new Response(JSON.stringify(merged), {
+        headers: { 'Content-Type': 'application/json' }
       });
-      
-      return await storageObject.fetch(shardRequest);
     }
     
-    // If no shards found, return empty results
-    logger.debug('No shards found for query', { collection });
-    return new Response(JSON.stringify({ 
-      results: [],
-      metadata: {
-        total: 0,
-        limit: body.options?.limit || getConfig(getEnvironment(env)).MAX_QUERY_RESULTS,
-        offset: body.options?.offset || 0
-      }
-    }), {
+    return new Response(JSON.stringify(shardResponses[0].data), {
       headers: { 'Content-Type': 'application/json' }
     });
-  } catch (error) {
-    logger.error('Error handling query request', error as Error, { collection });
-    throw error;
   }
+  
+  throw new ImpossibleDBError(
+    ErrorCode.NOT_FOUND,
+    'Route not found'
+  );
 }
 
+/**
+ * Sends a request to the StorageObject of a shard and decodes its JSON response
+ * 
+ * @param env Worker environment
+ * @param requestUrl URL of the incoming request (used as the base for the shard URL)
+ * @param shardId The shard to call
+ * @param pathname Path (and query string) of the StorageObject route
+ * @param init Request options
+ * @returns The response status and decoded body
+ * @throws ImpossibleDBError carrying the shard's error if the request failed
+ */
+async function callShard<T>(
+  env: Env,
+  requestUrl: string,
+  shardId: string,
+  pathname: string,
+  init: RequestInit = {}
+): Promise<{ status: number; data: T }> {
+  const storageObjectId = env.STORAGE_OBJECT.idFromString(shardId);
+  const storageObject = env.STORAGE_OBJECT.get(storageObjectId);
+  
+  const shardUrl = new URL(pathname, requestUrl);
+  
+  const response = await storageObject.fetch(new Request(shardUrl.toString(), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers }
+  }));
+  
+  const data = await response.json() as T & Partial<ErrorResponse>;
+  
+  if (!response.ok) {
+    throw new ImpossibleDBError(
+      data.error?.code || ErrorCode.INTERNAL_ERROR,
+      data.error?.message || `Shard ${shardId} failed to handle the request`,
+      { shardId, details: data.error?.details },
+      response.status
+    );
+  }
+  
+  return { status: response.status, data };
+}
 
 // Export the Durable Object class
 export { StorageObject };
@@ -3,74 +3,159 @@
  * 
  * Implements a single Durable Object that handles one data shard in ImpossibleDB.
  * Each StorageObject is responsible for:
- * - Basic CRUD operations on JSON documents
+ * - Basic CRUD operations on JSON documents, including partial updates
  * - Maintaining consistency within its own shard
  * - Simple query processing for its documents
+ * - Maintaining secondary indexes declared on its collections
+ * - Expiring documents whose time to live has passed
+ * - Logging the changes to its documents and notifying WebSocket subscribers
+ * 
+ * Documents are persisted in SQL tables through the SQLite storage API (see
+ * DocumentStore). Shards created before SQL storage kept their documents in
+ * the key-value storage API; that data is migrated on first load.
  */
 
-import { Document, QueryFilter, QueryOptions, QueryResult, ErrorCode } from '../types';
+import {
+  BatchItemResult,
+  BatchOperation,
+  BatchResult,
+  CollectionConfig,
+  Document,
+  IndexDefinition,
+  QueryFilter,
+  QueryFilterNode,
+  QueryOptions,
+  QueryResult,
+  ErrorCode
+} from '../types';
 import { createLogger } from '../utils/logger';
 import { ImpossibleDBError, handleError } from '../utils/errorHandler';
-import { validateDocument, validateDocumentId, validateCollectionName, validateQueryFilters, validateQueryOptions } from '../utils/validation';
+import {
+  validateDocument,
+  validateDocumentId,
+  validateCollectionName,
+  validateQueryFilters,
+  validateQueryOptions,
+  validateCollectionConfig,
+  parseVersionParams,
+  validateExpiresAt,
+  validateTtl,
+  validateBatchOperations,
+  readJsonObject
+} from '../utils/validation';
 import { CONFIG } from '../config';
+import { formatETag, matchesETag, parseETagCondition } from '../utils/etag';
+import { indexUsedByPlan, normalizeIndexDefinition } from '../storage/indexes';
+import { DocumentStore } from '../storage/documentStore';
+import { compileCursor, compileFilters, compileIds, compileSort, SqlFragment } from '../storage/sql';
+import { applyPatch, DocumentPatch } from '../storage/patch';
+import { schemaErrors, SchemaError } from '../storage/schema';
+import { compareDocuments, SortSpec } from '../query/compare';
+import { compareToCursor, CursorPosition, decodeCursor } from '../query/cursor';
+import { matchesFilters } from '../query/matcher';
+import { AggregationSpec, computePartialAggregations, validateAggregations } from '../query/aggregator';
+import { ShardQueryPlan, ShardWork } from '../query/explain';
+import { PipelineStage, runShardPipeline, splitPipeline, validatePipeline } from '../query/pipeline';
+import { computeCollectionStatistics } from '../query/statistics';
+import {
+  AnalyzedText,
+  analyzeDocuments,
+  bm25Score,
+  findSearchFilter,
+  SCORE_SORT,
+  searchTerms,
+  TextStatistics
+} from '../query/text';
+import { coveringCells, DISTANCE_SORT, distanceTo, findGeoFilter } from '../query/geo';
+import { findVectorFilter, NearestNeighborsFilterValue, nearestNeighbors } from '../query/vector';
+import { changeEventFor, parseSubscriptionRequest, replayEvents, Subscription, SUBSCRIPTION_SEQ_HEADER } from '../storage/subscriptions';
+import { parseChangesLimit, parseSequence, ShardChanges } from '../storage/changeFeed';
 
 // Create a logger for this module
 const logger = createLogger('StorageObject');
+
+// Maximum number of keys a single key-value storage get/delete call accepts
+const STORAGE_BATCH_SIZE = 128;
+
+// Document fields managed by the storage object rather than by clients
+const METADATA_FIELDS = ['_id', '_collection', '_version', '_createdAt', '_updatedAt', '_expiresAt'];
   
 export class StorageObject implements DurableObject {
   private state: DurableObjectState;
-  private collections: Map<string, Set<string>> = new Map();
+  private store: DocumentStore;
   
   constructor(state: DurableObjectState) {
     this.state = state;
+    this.store = new DocumentStore(state.storage);
+    
+    // Subscribers keep their connection alive without waking the object up
+    this.state.setWebSocketAutoResponse(new WebSocketRequestResponsePair('ping', 'pong'));
+    
     this.state.blockConcurrencyWhile(async () => {
-      await this.loadCollectionIndex();
+      try {
+        this.store.migrate();
+        await this.migrateKeyValueData();
+      } catch (error) {
+        logger.error('Failed to initialize storage', error as Error);
+        throw new ImpossibleDBError(
+          ErrorCode.INTERNAL_ERROR,
+          'Failed to initialize storage object'
+        );
+      }
     });
     
     logger.debug('StorageObject initialized');
   }
   
   /**
-   * Loads the collection index into memory for faster lookups
+   * Moves documents and index definitions written by the key-value based
+   * storage into the SQL tables, then deletes the key-value data
+   * 
+   * The copy is idempotent, so a migration interrupted halfway is simply
+   * run again on the next load.
    */
-  private async loadCollectionIndex(): Promise<void> {
-    try {
-      const index = await this.state.storage.get<Record<string, string[]>>('__collections');
-      if (index) {
-        Object.entries(index).forEach(([collection, ids]) => {
-          this.collections.set(collection, new Set(ids));
+  private async migrateKeyValueData(): Promise<void> {
+    const storage = this.state.storage;
+    const collections = await storage.get<Record<string, string[]>>('__collections');
+    const definitions = await storage.get<Record<string, IndexDefinition[]>>('__indexes');
+    
+    if (!collections && !definitions) {
+      return;
+    }
+    
+    logger.info('Migrating key-value data to SQL storage');
+    let migratedDocuments = 0;
+    
+    for (const [collection, ids] of Object.entries(collections || {})) {
+      for (let i = 0; i < ids.length; i += STORAGE_BATCH_SIZE) {
+        const keys = ids.slice(i, i + STORAGE_BATCH_SIZE).map(id => `${collection}:${id}`);
+        const documents = await storage.get<Document>(keys);
+        
+        this.store.transaction(() => {
+          documents.forEach(document => this.store.put(document));
         });
-        logger.debug('Collection index loaded', { collectionCount: this.collections.size });
-      } else {
-        logger.debug('No collection index found, initializing empty index');
+        migratedDocuments += documents.size;
       }
-    } catch (error) {
-      logger.error('Failed to load collection index', error as Error);
-      throw new ImpossibleDBError(
-        ErrorCode.INTERNAL_ERROR,
-        'Failed to initialize storage object'
-      );
     }
-  }
-  
-  /**
-   * Saves the collection index back to persistent storage
-   */
-  private async saveCollectionIndex(): Promise<void> {
-    try {
-      const index: Record<string, string[]> = {};
-      this.collections.forEach((ids, collection) => {
-        index[collection] = Array.from(ids);
-      });
-      await this.state.storage.put('__collections', index);
-      logger.debug('Collection index saved', { collectionCount: this.collections.size });
-    } catch (error) {
-      logger.error('Failed to save collection index', error as Error);
-      throw new ImpossibleDBError(
-        ErrorCode.INTERNAL_ERROR,
-        'Failed to update collection index'
-      );
+    
+    // SQL indexes are built as soon as they are created
+    for (const indexes of Object.values(definitions || {})) {
+      for (const index of indexes) {
+        this.store.saveIndex({ ...index, status: 'ready', builtAt: Date.now() });
+      }
+    }
+    
+    // Documents, old index entries and bookkeeping keys are all obsolete now
+    for (;;) {
+      const entries = await storage.list({ limit: STORAGE_BATCH_SIZE });
+      if (entries.size === 0) {
+        break;
+      }
+      
+      await storage.delete(Array.from(entries.keys()));
     }
+    
+    logger.info('Key-value data migrated', { migratedDocuments });
   }
   
   /**
@@ -85,16 +170,47 @@ export class StorageObject implements DurableObject {
       
       // Basic routing
       if (request.method === 'GET' && path[0] === 'healthcheck') {
+        const collections = this.store.collections(Date.now());
         return new Response(JSON.stringify({ 
           status: 'ok',
-          collections: Array.from(this.collections.keys()),
-          documentCount: Array.from(this.collections.values())
-            .reduce((total, ids) => total + ids.size, 0)
+          collections: collections.map(stats => stats.collection),
+          documentCount: collections.reduce((total, stats) => total + stats.documentCount, 0)
         }), {
           headers: { 'Content-Type': 'application/json' }
         });
       }
       
+      // Index administration: /__index/{collection}[/{name}[/build]]
+      // ('__index' is a reserved collection name, so this cannot clash with CRUD paths)
+      if (path[0] === '__index' && path.length >= 2) {
+        return await this.handleIndexRequest(request, path[1], path[2], path[3]);
+      }
+      
+      // Collection settings: /__config/{collection}
+      if (path[0] === '__config' && path.length === 2) {
+        return await this.handleConfigRequest(request, path[1], url.searchParams);
+      }
+      
+      // Change log: /__changes/{collection}
+      if (path[0] === '__changes' && path.length === 2 && request.method === 'GET') {
+        return this.handleChangesRequest(path[1], url.searchParams);
+      }
+      
+      // Collection statistics: /__stats/{collection}
+      if (path[0] === '__stats' && path.length === 2 && request.method === 'GET') {
+        return this.handleStatisticsRequest(path[1]);
+      }
+      
+      // Statistics of the terms of a search: /__search/{collection}
+      if (path[0] === '__search' && path.length === 2 && request.method === 'POST') {
+        return await this.handleTextStatisticsRequest(request, path[1]);
+      }
+      
+      // Change subscriptions: /__subscribe/{collection}
+      if (path[0] === '__subscribe' && path.length === 2) {
+        return this.handleSubscribe(request, path[1], url.searchParams);
+      }
+      
       // CRUD operations
       if (path.length >= 2) {
         const collection = path[0];
@@ -104,12 +220,19 @@ export class StorageObject implements DurableObject {
         validateCollectionName(collection);
         validateDocumentId(id);
         
+        // Restore a past version: /{collection}/{id}/restore
+        if (path[2] === 'restore' && request.method === 'POST') {
+          return await this.handleRestore(collection, id, request);
+        }
+        
         if (request.method === 'GET') {
-          return await this.handleGet(collection, id);
-        } else if (request.method === 'PUT') {
+          return await this.handleGet(collection, id, request);
+        } else if (request.method === 'PUT' || request.method === 'POST') {
           return await this.handlePut(collection, id, request);
+        } else if (request.method === 'PATCH') {
+          return await this.handlePatch(collection, id, request);
         } else if (request.method === 'DELETE') {
-          return await this.handleDelete(collection, id);
+          return await this.handleDelete(collection, id, request);
         }
       }
       
@@ -118,6 +241,16 @@ export class StorageObject implements DurableObject {
         return await this.handleQuery(request);
       }
       
+      // Aggregation pipeline
+      if (request.method === 'POST' && path[0] === 'pipeline') {
+        return await this.handlePipeline(request);
+      }
+      
+      // Batch of document operations
+      if (request.method === 'POST' && path[0] === 'batch') {
+        return await this.handleBatch(request);
+      }
+      
       logger.warn('Route not found', { method: request.method, path: url.pathname });
       return new Response(JSON.stringify({
         error: {
@@ -135,34 +268,139 @@ export class StorageObject implements DurableObject {
   
   /**
    * Handles GET requests to retrieve a document
+   * 
+   * The response carries the document's ETag. If the request's If-None-Match
+   * header matches it, the client's copy is current and 304 is returned.
    */
-  private async handleGet(collection: string, id: string): Promise<Response> {
+  private async handleGet(collection: string, id: string, request: Request): Promise<Response> {
     logger.debug('Handling GET request', { collection, id });
     
-    const key = `${collection}:${id}`;
-    const document = await this.state.storage.get<Document>(key);
+    const { version, asOf } = parseVersionParams(new URL(request.url).searchParams);
+    const document = this.readVersion(collection, id, Date.now(), version, asOf);
     
     if (!document) {
-      logger.debug('Document not found', { collection, id });
+      logger.debug('Document not found', { collection, id, version, asOf });
       throw new ImpossibleDBError(
         ErrorCode.DOCUMENT_NOT_FOUND,
-        `Document not found: ${collection}/${id}`
+        version !== undefined
+          ? `Version ${version} of document not found: ${collection}/${id}`
+          : `Document not found: ${collection}/${id}`
       );
     }
     
+    const etag = formatETag(document._version);
+    const ifNoneMatch = parseETagCondition(request.headers.get('If-None-Match'));
+    
+    if (ifNoneMatch && matchesETag(ifNoneMatch, document._version)) {
+      logger.debug('Document not modified', { collection, id, version: document._version });
+      return new Response(null, { status: 304, headers: { 'ETag': etag } });
+    }
+    
     logger.debug('Document retrieved successfully', { collection, id });
     return new Response(JSON.stringify(document), {
-      headers: { 'Content-Type': 'application/json' }
+      headers: { 'Content-Type': 'application/json', 'ETag': etag }
     });
   }
   
   /**
-   * Handles PUT requests to create or update a document
+   * Reads the current version of a document, or a past version kept by the
+   * collection's history
+   * 
+   * @param now Current time
+   * @param version Version number to read, if any
+   * @param asOf Time at which to read the document, if any
+   * @returns The document, or undefined if it (or the version) does not exist
+   */
+  private readVersion(
+    collection: string,
+    id: string,
+    now: number,
+    version?: number,
+    asOf?: number
+  ): Document | undefined {
+    const current = this.store.get(collection, id, now);
+    
+    if (version !== undefined) {
+      return current?._version === version ? current : this.store.getVersion(collection, id, version);
+    }
+    
+    if (asOf !== undefined && !(current && current._updatedAt <= asOf)) {
+      return this.store.getVersionAt(collection, id, asOf);
+    }
+    
+    return current;
+  }
+  
+  /**
+   * Handles POST /{collection}/{id}/restore requests, which write a past
+   * version of a document as its new current version
+   * 
+   * The body holds the version to restore (`{ "version": 3 }`). The restored
+   * version gets a new version number, and the write honors the same
+   * conditional headers and TTL header as PUT. A deleted document can be
+   * restored too.
+   */
+  private async handleRestore(collection: string, id: string, request: Request): Promise<Response> {
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Invalid JSON in request body'
+      );
+    }
+    
+    const version = (body as Record<string, any>)?.version;
+    if (!Number.isInteger(version) || version <= 0) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Version to restore must be a positive integer'
+      );
+    }
+    
+    const restored = this.readVersion(collection, id, Date.now(), version);
+    if (!restored) {
+      throw new ImpossibleDBError(
+        ErrorCode.DOCUMENT_NOT_FOUND,
+        `Version ${version} of document not found: ${collection}/${id}`
+      );
+    }
+    
+    // The expiry of the restored version is not carried over
+    const fields: Record<string, any> = {};
+    for (const [key, value] of Object.entries(restored)) {
+      if (!METADATA_FIELDS.includes(key)) {
+        fields[key] = value;
+      }
+    }
+    
+    logger.debug('Restoring document version', { collection, id, version });
+    return this.handlePut(collection, id, new Request(request.url, {
+      method: 'PUT',
+      headers: request.headers,
+      body: JSON.stringify(fields)
+    }));
+  }
+  
+  /**
+   * Handles PUT and POST requests to create or update a document
+   * 
+   * PUT creates or replaces the document. The write can be made conditional:
+   * - POST or `If-None-Match: *` only creates the document, and fails with
+   *   DOCUMENT_ALREADY_EXISTS if it exists
+   * - `If-Match: *` only replaces the document, and fails with
+   *   DOCUMENT_NOT_FOUND if it does not exist
+   * - If-Match with an ETag and the `_expectedVersion` body field only write if
+   *   the document's current version matches (`_expectedVersion: 0` requires
+   *   that the document does not exist yet). Like in DELETE bodies, the field
+   *   is a condition of the write and is not stored in the document, while an
+   *   `expectedVersion` field without the underscore is a field like any other.
    */
   private async handlePut(collection: string, id: string, request: Request): Promise<Response> {
     logger.debug('Handling PUT request', { collection, id });
     
-    let body;
+    let body: Record<string, any> & { _expectedVersion?: number };
     try {
       body = await request.json();
     } catch (error) {
@@ -176,23 +414,33 @@ export class StorageObject implements DurableObject {
     // Validate the document
     validateDocument(body);
     
-    const key = `${collection}:${id}`;
     const now = Date.now();
+    const expiresAt = this.resolveExpiry(collection, body, request, now);
+    
+    // Check if document already exists (an expired document no longer does)
+    const existingDoc = this.store.get(collection, id, now);
+    
+    // A deleted document recreated in a collection with history continues
+    // its version numbers, so they keep identifying its archived versions
+    const currentVersion = existingDoc?._version || this.store.latestArchivedVersion(collection, id);
     
-    // Check if document already exists
-    const existingDoc = await this.state.storage.get<Document>(key);
-    const currentVersion = existingDoc?._version || 0;
+    // No await between this check and the write below, so no other request
+    // can change the document in between
+    this.checkExpectedVersion(collection, id, existingDoc, request, body._expectedVersion);
+    this.checkNotExists(collection, id, existingDoc, request);
     const isNew = !existingDoc;
 
     // Create/update the document
     // First create a clean document without reserved fields
     const cleanBody: Record<string, any> = {};
-    for (const [key, value] of Object.entries(body as Record<string, any>)) {
-      if (!['_id', '_collection', '_version', '_createdAt', '_updatedAt'].includes(key)) {
+    for (const [key, value] of Object.entries(body)) {
+      if (!METADATA_FIELDS.includes(key) && key !== '_expectedVersion') {
         cleanBody[key] = value;
       }
     }
     
+    this.checkSchema(collection, id, cleanBody);
+    
     // Then create the document with metadata
     const document: Document = {
       ...cleanBody,
@@ -203,16 +451,15 @@ export class StorageObject implements DurableObject {
       _updatedAt: now
     };
     
+    if (expiresAt !== undefined) {
+      document._expiresAt = expiresAt;
+    }
+    
     try {
-      // Save the document
-      await this.state.storage.put(key, document);
-      
-      // Update the collection index
-      if (!this.collections.has(collection)) {
-        this.collections.set(collection, new Set());
-      }
-      this.collections.get(collection)!.add(id);
-      await this.saveCollectionIndex();
+      // Save the document (SQLite keeps the secondary indexes in sync)
+      this.store.put(document);
+      this.recordChange(existingDoc, document, now);
+      await this.scheduleSweep(Math.min(expiresAt ?? Infinity, now + CONFIG.CHANGE_LOG_SWEEP_INTERVAL));
       
       logger.debug('Document saved successfully', { 
         collection, 
@@ -222,10 +469,98 @@ export class StorageObject implements DurableObject {
       });
       
       return new Response(JSON.stringify(document), {
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', 'ETag': formatETag(document._version) },
         status: isNew ? 201 : 200
       });
     } catch (error) {
+      // Documents the vector indexes of the collection reject are invalid
+      if (error instanceof ImpossibleDBError) {
+        throw error;
+      }
+      
+      logger.error('Failed to save document', error as Error, { collection, id });
+      throw new ImpossibleDBError(
+        ErrorCode.INTERNAL_ERROR,
+        'Failed to save document',
+        { originalError: (error as Error).message }
+      );
+    }
+  }
+  
+  /**
+   * Handles PATCH requests to partially update a document
+   * 
+   * The body is either a JSON Patch array or an update operators object (see
+   * storage/patch.ts). The document must exist, and like PUT the update can be
+   * made conditional with an If-Match header. The document keeps its expiry
+   * unless the request sets a new TTL.
+   */
+  private async handlePatch(collection: string, id: string, request: Request): Promise<Response> {
+    logger.debug('Handling PATCH request', { collection, id });
+    
+    let patch: DocumentPatch;
+    try {
+      patch = await request.json();
+    } catch (error) {
+      logger.warn('Invalid JSON in request body', { error: (error as Error).message });
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Invalid JSON in request body'
+      );
+    }
+    
+    const now = Date.now();
+    
+    // Read, patch and write without any await in between, so the patch is
+    // applied atomically
+    const existingDoc = this.store.get(collection, id, now);
+    if (!existingDoc) {
+      throw new ImpossibleDBError(
+        ErrorCode.DOCUMENT_NOT_FOUND,
+        `Document not found: ${collection}/${id}`
+      );
+    }
+    
+    this.checkExpectedVersion(collection, id, existingDoc, request, undefined);
+    
+    const fields: Record<string, any> = {};
+    for (const [key, value] of Object.entries(existingDoc)) {
+      if (!METADATA_FIELDS.includes(key)) {
+        fields[key] = value;
+      }
+    }
+    
+    const patched = applyPatch(fields, patch);
+    validateDocument(patched);
+    this.checkSchema(collection, id, patched);
+    
+    const expiresAt = request.headers.has(CONFIG.TTL_HEADER)
+      ? this.resolveExpiry(collection, {}, request, now)
+      : existingDoc._expiresAt;
+    
+    const document: Document = {
+      ...patched,
+      _id: id,
+      _collection: collection,
+      _version: existingDoc._version + 1,
+      _createdAt: existingDoc._createdAt,
+      _updatedAt: now
+    };
+    
+    if (expiresAt !== undefined) {
+      document._expiresAt = expiresAt;
+    }
+    
+    try {
+      this.store.put(document);
+      this.recordChange(existingDoc, document, now);
+      await this.scheduleSweep(Math.min(expiresAt ?? Infinity, now + CONFIG.CHANGE_LOG_SWEEP_INTERVAL));
+    } catch (error) {
+      // Documents the vector indexes of the collection reject are invalid
+      if (error instanceof ImpossibleDBError) {
+        throw error;
+      }
+      
       logger.error('Failed to save document', error as Error, { collection, id });
       throw new ImpossibleDBError(
         ErrorCode.INTERNAL_ERROR,
@@ -233,18 +568,42 @@ export class StorageObject implements DurableObject {
         { originalError: (error as Error).message }
       );
     }
+    
+    logger.debug('Document patched successfully', { collection, id, version: document._version });
+    return new Response(JSON.stringify(document), {
+      headers: { 'Content-Type': 'application/json', 'ETag': formatETag(document._version) }
+    });
   }
   
   /**
    * Handles DELETE requests to remove a document
+   * 
+   * Deleting a document that does not exist succeeds with `deleted: false`, so
+   * deletes can be retried safely. With an If-Match header (`*` or an ETag) the
+   * document must exist, and DOCUMENT_NOT_FOUND is returned otherwise. Like
+   * PUT, the delete can also be made conditional on the document's version
+   * with an `_expectedVersion` field in the (optional) body.
    */
-  private async handleDelete(collection: string, id: string): Promise<Response> {
+  private async handleDelete(collection: string, id: string, request: Request): Promise<Response> {
     logger.debug('Handling DELETE request', { collection, id });
     
-    const key = `${collection}:${id}`;
-    const document = await this.state.storage.get<Document>(key);
+    let body: { _expectedVersion?: number } = {};
+    try {
+      const text = await request.text();
+      if (text) {
+        body = JSON.parse(text);
+      }
+    } catch (error) {
+      logger.warn('Invalid JSON in request body', { error: (error as Error).message });
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Invalid JSON in request body'
+      );
+    }
+    
+    const document = this.store.get(collection, id, Date.now());
     
-    if (!document) {
+    if (!document && request.headers.has('If-Match')) {
       logger.debug('Document not found for deletion', { collection, id });
       throw new ImpossibleDBError(
         ErrorCode.DOCUMENT_NOT_FOUND,
@@ -252,23 +611,21 @@ export class StorageObject implements DurableObject {
       );
     }
     
+    this.checkExpectedVersion(collection, id, document, request, body?._expectedVersion);
+    
     try {
-      // Delete the document
-      await this.state.storage.delete(key);
-      
-      // Update the collection index
-      const collectionSet = this.collections.get(collection);
-      if (collectionSet) {
-        collectionSet.delete(id);
-        if (collectionSet.size === 0) {
-          this.collections.delete(collection);
-        }
-        await this.saveCollectionIndex();
+      // Delete the document (this also removes an expired copy not purged yet)
+      this.store.delete(collection, id);
+      
+      if (document) {
+        const now = Date.now();
+        this.recordChange(document, undefined, now);
+        await this.scheduleSweep(now + CONFIG.CHANGE_LOG_SWEEP_INTERVAL);
       }
       
-      logger.debug('Document deleted successfully', { collection, id });
+      logger.debug('Document deleted successfully', { collection, id, existed: !!document });
       return new Response(JSON.stringify({ 
-        deleted: true,
+        deleted: !!document,
         id,
         collection
       }), {
@@ -285,27 +642,190 @@ export class StorageObject implements DurableObject {
   }
   
   /**
-   * Handles POST requests for querying documents
+   * Handles POST requests for a batch of document operations
+   * 
+   * Each operation is executed like the equivalent single-document request,
+   * one after the other, and gets its own result: a failing operation does
+   * not affect the others, and the batch is not atomic.
    */
-  private async handleQuery(request: Request): Promise<Response> {
-    logger.debug('Handling query request');
+  private async handleBatch(request: Request): Promise<Response> {
+    const body = await readJsonObject<{ operations: BatchOperation[] }>(request, 'batch');
     
-    let requestBody;
-    try {
-      requestBody = await request.json() as {
-        collection: string;
-        filters?: QueryFilter[];
-        options?: QueryOptions;
-      };
-    } catch (error) {
-      logger.warn('Invalid JSON in query request body', { error: (error as Error).message });
+    const operations = body.operations as BatchOperation[];
+    validateBatchOperations(operations);
+    
+    logger.debug('Handling batch request', { operations: operations.length });
+    
+    const results: BatchItemResult[] = [];
+    for (const operation of operations) {
+      const response = await this.executeBatchOperation(operation, request.url).catch(handleError);
+      const data = await response.json() as Record<string, any>;
+      
+      if (!response.ok) {
+        results.push({ status: response.status, error: data.error });
+      } else if (operation.op === 'delete') {
+        results.push({ status: response.status, deleted: data.deleted });
+      } else {
+        results.push({ status: response.status, document: data as Document });
+      }
+    }
+    
+    const result: BatchResult = { results };
+    return new Response(JSON.stringify(result), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+  
+  /**
+   * Executes one operation of a batch by passing the equivalent
+   * single-document request to its handler
+   * 
+   * @param operation The operation to execute
+   * @param baseUrl URL of the batch request
+   * @returns The handler's response
+   */
+  private async executeBatchOperation(operation: BatchOperation, baseUrl: string): Promise<Response> {
+    const { op, collection, id } = operation;
+    const url = new URL(`/${collection}/${id}`, baseUrl).toString();
+    const headers: Record<string, string> = {};
+    
+    if (operation.ttl !== undefined) {
+      headers[CONFIG.TTL_HEADER] = String(operation.ttl);
+    }
+    
+    if (operation.expectedVersion !== undefined) {
+      headers['If-Match'] = formatETag(operation.expectedVersion);
+    } else if (op === 'update') {
+      headers['If-Match'] = '*';
+    }
+    
+    switch (op) {
+      case 'get':
+        return this.handleGet(collection, id, new Request(url, { headers }));
+      case 'delete':
+        return this.handleDelete(collection, id, new Request(url, { method: 'DELETE', headers }));
+      default:
+        return this.handlePut(collection, id, new Request(url, {
+          method: op === 'create' ? 'POST' : 'PUT',
+          headers,
+          body: JSON.stringify(operation.document ?? null)
+        }));
+    }
+  }
+  
+  /**
+   * Rejects a write with CONFLICT if the document's current version does not
+   * match the version the client expects
+   * 
+   * @param current The current document (undefined if it does not exist)
+   * @param expectedVersion Expected version from the request body, if any
+   */
+  private checkExpectedVersion(
+    collection: string,
+    id: string,
+    current: Document | undefined,
+    request: Request,
+    expectedVersion: any
+  ): void {
+    const currentVersion = current?._version ?? 0;
+    const ifMatch = parseETagCondition(request.headers.get('If-Match'));
+    
+    if (ifMatch?.any && !current) {
+      throw new ImpossibleDBError(
+        ErrorCode.DOCUMENT_NOT_FOUND,
+        `Document not found: ${collection}/${id}`
+      );
+    }
+    
+    if (ifMatch && !matchesETag(ifMatch, current?._version)) {
+      throw new ImpossibleDBError(
+        ErrorCode.CONFLICT,
+        `Document ${collection}/${id} does not match If-Match (current version: ${currentVersion})`,
+        { currentVersion }
+      );
+    }
+    
+    if (expectedVersion === undefined) {
+      return;
+    }
+    
+    if (typeof expectedVersion !== 'number' || !Number.isInteger(expectedVersion) || expectedVersion < 0) {
       throw new ImpossibleDBError(
         ErrorCode.INVALID_REQUEST,
-        'Invalid JSON in request body'
+        'Expected version must be a non-negative integer'
+      );
+    }
+    
+    if (expectedVersion !== currentVersion) {
+      throw new ImpossibleDBError(
+        ErrorCode.CONFLICT,
+        `Version conflict on ${collection}/${id}: expected version ${expectedVersion}, found ${currentVersion}`,
+        { expectedVersion, currentVersion }
+      );
+    }
+  }
+  
+  /**
+   * Rejects a create-only write if the document already exists
+   * 
+   * Writes are create-only for POST requests and PUT requests with
+   * `If-None-Match: *`. An If-None-Match header listing ETags instead rejects
+   * the write with CONFLICT if the document's current version is one of them.
+   * 
+   * @param current The current document (undefined if it does not exist)
+   */
+  private checkNotExists(
+    collection: string,
+    id: string,
+    current: Document | undefined,
+    request: Request
+  ): void {
+    const ifNoneMatch = parseETagCondition(request.headers.get('If-None-Match'));
+    
+    if (current && (request.method === 'POST' || ifNoneMatch?.any)) {
+      throw new ImpossibleDBError(
+        ErrorCode.DOCUMENT_ALREADY_EXISTS,
+        `Document already exists: ${collection}/${id}`,
+        { currentVersion: current._version }
+      );
+    }
+    
+    if (current && ifNoneMatch && matchesETag(ifNoneMatch, current._version)) {
+      throw new ImpossibleDBError(
+        ErrorCode.CONFLICT,
+        `Document ${collection}/${id} matches If-None-Match (current version: ${current._version})`,
+        { currentVersion: current._version }
       );
     }
+  }
+  
+  /**
+   * Handles POST requests for querying documents
+   * 
+   * A query with aggregations returns the partial aggregations of the
+   * matching documents (`partialAggregations`) instead of the documents.
+   * An explained query is not executed and returns how the shard would
+   * evaluate it (`shardPlan`), and a profiled query also returns the work
+   * done to execute it (`work`). The planner may name the secondary index
+   * SQL should use (`index`), which is ignored unless it is ready.
+   * Queries with a search filter are ranked by relevance (see handleSearch),
+   * queries with a geospatial filter can use a geospatial index (see
+   * handleGeoQuery), and queries with a nearest_neighbors filter are ranked
+   * by similarity (see handleVectorQuery).
+   */
+  private async handleQuery(request: Request): Promise<Response> {
+    logger.debug('Handling query request');
+    
+    const requestBody = await readJsonObject<{
+      collection: string;
+      filters: QueryFilterNode[];
+      options: QueryOptions;
+      aggregations: AggregationSpec[];
+      index: string;
+      textStatistics: TextStatistics;
+    }>(request, 'query');
     
-    const { collection, filters, options } = requestBody;
+    const { collection, filters, options, aggregations, index: requestedIndex, textStatistics } = requestBody;
     
     // Validate inputs
     if (!collection) {
@@ -325,70 +845,101 @@ export class StorageObject implements DurableObject {
       validateQueryOptions(options);
     }
     
+    if (aggregations !== undefined) {
+      validateAggregations(aggregations);
+      
+      if (aggregations.length > 0) {
+        return this.handleAggregation(collection, filters || [], aggregations, options);
+      }
+    }
+    
+    // Searches are ranked by relevance, nearest neighbors by similarity and
+    // near filters sorted by distance unless sorted otherwise
+    const search = findSearchFilter(filters || []);
+    const vectorFilter = search ? undefined : findVectorFilter(filters || []);
+    const geoFilter = search || vectorFilter ? undefined : findGeoFilter(filters || []);
+    const defaultSort = search || vectorFilter ? SCORE_SORT : geoFilter?.operator === 'near' ? DISTANCE_SORT : undefined;
+    
     // Apply default options
     const queryOptions: QueryOptions = {
       limit: options?.limit || CONFIG.MAX_QUERY_RESULTS,
       offset: options?.offset || 0,
-      sort: options?.sort
+      sort: options?.sort || defaultSort
     };
     
+    // Only documents after the cursor are returned, if one is given
+    const cursor = options?.after !== undefined ? decodeCursor(options.after, queryOptions.sort) : undefined;
+    
+    if (search) {
+      return this.handleSearch(collection, filters!, search, queryOptions, cursor, options, textStatistics);
+    }
+    
+    if (vectorFilter) {
+      return this.handleVectorQuery(collection, filters!, vectorFilter, queryOptions, cursor, options);
+    }
+    
+    if (geoFilter) {
+      return this.handleGeoQuery(collection, filters!, geoFilter, queryOptions, cursor, options);
+    }
+    
     logger.debug('Processing query', { 
       collection, 
       filterCount: filters?.length || 0,
       options: queryOptions
     });
     
-    const collectionSet = this.collections.get(collection);
-    if (!collectionSet || collectionSet.size === 0) {
-      logger.debug('Collection empty or not found', { collection });
-      return new Response(JSON.stringify({ 
-        results: [],
-        metadata: {
-          total: 0,
-          limit: queryOptions.limit,
-          offset: queryOptions.offset || 0
-        }
-      }), {
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
-    
     try {
-      // Fetch all documents in the collection
-      const keys = Array.from(collectionSet).map(id => `${collection}:${id}`);
-      const documents = await this.state.storage.get<Document>(keys);
+      const limit = queryOptions.limit || CONFIG.MAX_QUERY_RESULTS;
+      const offset = queryOptions.offset || 0;
+      const now = Date.now();
       
-      // Filter the documents based on the provided filters
-      let results = Object.values(documents).filter(doc => doc !== null);
-      const totalBeforeFilters = results.length;
+      // Push filters, sorting and pagination down to SQL whenever they can be
+      // expressed there, otherwise evaluate the query in memory
+      const where = compileFilters(filters);
+      const orderBy = compileSort(queryOptions.sort);
+      const after = cursor ? compileCursor(cursor, queryOptions.sort) : undefined;
+      const pushedDown = where !== undefined && orderBy !== undefined && (!cursor || after !== undefined);
+      const index = requestedIndex !== undefined && this.store.listIndexes(collection)
+        .some(candidate => candidate.name === requestedIndex && candidate.status === 'ready' && candidate.type === undefined)
+        ? requestedIndex
+        : undefined;
       
-      if (filters && filters.length > 0) {
-        results = this.applyFilters(results, filters);
+      if (options?.explain) {
+        return this.jsonResponse({
+          results: [],
+          metadata: { total: 0, limit, offset },
+          shardPlan: this.explainQuery(collection, pushedDown ? where : undefined, orderBy, now, after, index)
+        });
       }
       
-      const totalAfterFilters = results.length;
+      let results: Document[];
+      let total: number;
+      let scanned: number;
       
-      // Apply sorting if provided
-      if (queryOptions.sort) {
-        results = this.applySorting(results, queryOptions.sort);
-      }
-      
-      // Calculate total before pagination
-      const total = results.length;
-      
-      // Apply offset and limit
-      if (queryOptions.offset) {
-        results = results.slice(queryOptions.offset);
-      }
-      
-      if (queryOptions.limit) {
-        results = results.slice(0, queryOptions.limit);
+      if (pushedDown) {
+        ({ documents: results, total, scanned } = this.store.query(collection, where, orderBy, limit, offset, now, after, index));
+      } else {
+        results = this.store.scan(collection, now);
+        scanned = results.length;
+        
+        if (filters && filters.length > 0) {
+          results = this.applyFilters(results, filters);
+        }
+        
+        results = this.applySorting(results, queryOptions.sort || []);
+        total = results.length;
+        
+        if (cursor) {
+          results = results.filter(document => compareToCursor(document, cursor, queryOptions.sort) > 0);
+        }
+        
+        results = results.slice(offset, offset + limit);
       }
       
       logger.debug('Query completed', { 
         collection,
-        totalDocuments: totalBeforeFilters,
-        matchedFilters: totalAfterFilters,
+        pushedDown,
+        matchedFilters: total,
         returnedResults: results.length
       });
       
@@ -397,11 +948,17 @@ export class StorageObject implements DurableObject {
         results,
         metadata: {
           total,
-          limit: queryOptions.limit || CONFIG.MAX_QUERY_RESULTS,
-          offset: queryOptions.offset || 0
+          limit,
+          offset
         }
       };
       
+      if (options?.profile) {
+        const { index: indexUsed } = this.explainQuery(collection, pushedDown ? where : undefined, orderBy, now, after, index);
+        const work: ShardWork = { pushedDown, index: indexUsed, scanned, returned: results.length, durationMs: Date.now() - now };
+        return this.jsonResponse({ ...queryResult, work });
+      }
+      
       return new Response(JSON.stringify(queryResult), {
         headers: { 'Content-Type': 'application/json' }
       });
@@ -415,53 +972,968 @@ export class StorageObject implements DurableObject {
     }
   }
   
-    /**
-     * Applies filters to a list of documents
-     */
-    private applyFilters(documents: Document[], filters: QueryFilter[]): Document[] {
-      return documents.filter(doc => {
-        return filters.every(filter => {
-          const { field, operator, value } = filter;
-          const fieldValue = this.getNestedValue(doc, field);
-          
-          switch (operator) {
-            case '=': return fieldValue === value;
-            case '!=': return fieldValue !== value;
-            case '>': return fieldValue > value;
-            case '>=': return fieldValue >= value;
-            case '<': return fieldValue < value;
-            case '<=': return fieldValue <= value;
-            default: return true;
+  /**
+   * Executes a query with a search filter
+   * 
+   * The documents containing any of the searched terms are found with the
+   * text index of the searched field if it has a ready one, and by analyzing
+   * the field of every document otherwise. Those matching the other filters
+   * get their BM25 score (`_score`) and are sorted and paginated in memory.
+   * Scores use the statistics of the terms over the whole collection the
+   * worker gathered from every shard (`textStatistics`), if given, so that
+   * the worker can merge the results of the shards by score.
+   */
+  private handleSearch(
+    collection: string,
+    filters: QueryFilterNode[],
+    search: QueryFilter,
+    queryOptions: QueryOptions,
+    cursor: CursorPosition | undefined,
+    options?: QueryOptions,
+    textStatistics?: TextStatistics
+  ): Response {
+    const now = Date.now();
+    const limit = queryOptions.limit!;
+    const offset = queryOptions.offset!;
+    const sort = queryOptions.sort!;
+    const terms = searchTerms(search.value);
+    const index = this.findFieldIndex(collection, search.field, 'text');
+    
+    if (options?.explain) {
+      const shardPlan: ShardQueryPlan = { pushedDown: false, index: index?.name, sqlPlan: [] };
+      return this.jsonResponse({ results: [], metadata: { total: 0, limit, offset }, shardPlan });
+    }
+    
+    let postings: Map<string, AnalyzedText>;
+    let statistics: TextStatistics;
+    let candidates: Iterable<Document>;
+    let scanned: number;
+    
+    if (index) {
+      postings = this.store.textPostings(index, terms);
+      statistics = textStatistics ?? this.store.textStatistics(index, terms);
+      candidates = this.store.matching(collection, compileIds([...postings.keys()]), now);
+      scanned = postings.size;
+    } else {
+      const documents = this.store.scan(collection, now);
+      const analyzed = analyzeDocuments(documents, search.field, terms);
+      postings = analyzed.postings;
+      statistics = textStatistics ?? analyzed.statistics;
+      candidates = documents.filter(document => postings.has(document._id));
+      scanned = documents.length;
+    }
+    
+    const otherFilters = filters.filter(filter => filter !== search);
+    const matches: Document[] = [];
+    for (const document of candidates) {
+      if (matchesFilters(document, otherFilters)) {
+        matches.push({ ...document, _score: bm25Score(postings.get(document._id)!, terms, statistics) });
+      }
+    }
+    
+    const { results, total } = this.pageInMemory(matches, sort, cursor, offset, limit);
+    
+    logger.debug('Search completed', {
+      collection,
+      index: index?.name,
+      matchedFilters: total,
+      returnedResults: results.length
+    });
+    
+    const queryResult: QueryResult = { results, metadata: { total, limit, offset } };
+    
+    if (options?.profile) {
+      const work: ShardWork = { pushedDown: false, index: index?.name, scanned, returned: results.length, durationMs: Date.now() - now };
+      return this.jsonResponse({ ...queryResult, work });
+    }
+    
+    return this.jsonResponse(queryResult);
+  }
+  
+  /**
+   * Executes a query with a geospatial filter
+   * 
+   * The documents that may match the filter are found with the geospatial
+   * index of its field if it has a ready one, by looking up the cells
+   * covering the area of the filter, and by scanning the collection
+   * otherwise. Those matching every filter are sorted and paginated in
+   * memory. The results of a near filter get their distance in meters from
+   * its point (`_distance`).
+   */
+  private handleGeoQuery(
+    collection: string,
+    filters: QueryFilterNode[],
+    geoFilter: QueryFilter,
+    queryOptions: QueryOptions,
+    cursor: CursorPosition | undefined,
+    options?: QueryOptions
+  ): Response {
+    const now = Date.now();
+    const limit = queryOptions.limit!;
+    const offset = queryOptions.offset!;
+    const index = this.findFieldIndex(collection, geoFilter.field, 'geo');
+    
+    if (options?.explain) {
+      const shardPlan: ShardQueryPlan = { pushedDown: false, index: index?.name, sqlPlan: [] };
+      return this.jsonResponse({ results: [], metadata: { total: 0, limit, offset }, shardPlan });
+    }
+    
+    let candidates: Iterable<Document>;
+    let scanned: number;
+    
+    if (index) {
+      const ids = this.store.geoCandidates(index, coveringCells(geoFilter));
+      candidates = this.store.matching(collection, compileIds(ids), now);
+      scanned = ids.length;
+    } else {
+      const documents = this.store.scan(collection, now);
+      candidates = documents;
+      scanned = documents.length;
+    }
+    
+    const matches: Document[] = [];
+    for (const document of candidates) {
+      if (matchesFilters(document, filters)) {
+        matches.push(geoFilter.operator === 'near' ? { ...document, _distance: distanceTo(document, geoFilter) } : document);
+      }
+    }
+    
+    const { results, total } = this.pageInMemory(matches, queryOptions.sort || [], cursor, offset, limit);
+    
+    logger.debug('Geospatial query completed', {
+      collection,
+      index: index?.name,
+      matchedFilters: total,
+      returnedResults: results.length
+    });
+    
+    const queryResult: QueryResult = { results, metadata: { total, limit, offset } };
+    
+    if (options?.profile) {
+      const work: ShardWork = { pushedDown: false, index: index?.name, scanned, returned: results.length, durationMs: Date.now() - now };
+      return this.jsonResponse({ ...queryResult, work });
+    }
+    
+    return this.jsonResponse(queryResult);
+  }
+  
+  /**
+   * Executes a query with a nearest_neighbors filter
+   * 
+   * The documents whose vector may be among the nearest are found with the
+   * vector index of the field of the filter, which every nearest neighbor
+   * query needs, by looking up the lists nearest to the queried vector, and
+   * every list if those have fewer than k documents matching every filter.
+   * The k matching documents most similar to the vector get their
+   * similarity (`_score`) and are sorted and paginated in memory.
+   */
+  private handleVectorQuery(
+    collection: string,
+    filters: QueryFilterNode[],
+    vectorFilter: QueryFilter,
+    queryOptions: QueryOptions,
+    cursor: CursorPosition | undefined,
+    options?: QueryOptions
+  ): Response {
+    const now = Date.now();
+    const limit = queryOptions.limit!;
+    const offset = queryOptions.offset!;
+    const { vector, k } = vectorFilter.value as NearestNeighborsFilterValue;
+    const index = this.findFieldIndex(collection, vectorFilter.field, 'vector');
+    
+    if (!index) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        `Nearest neighbor queries need a vector index on field ${vectorFilter.field} of ${collection}`
+      );
+    }
+    
+    if (vector.length !== index.dimensions) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        `The vector of a nearest_neighbors filter on ${vectorFilter.field} must have ${index.dimensions} dimensions`
+      );
+    }
+    
+    if (options?.explain) {
+      const shardPlan: ShardQueryPlan = { pushedDown: false, index: index.name, sqlPlan: [] };
+      return this.jsonResponse({ results: [], metadata: { total: 0, limit, offset }, shardPlan });
+    }
+    
+    let matches: Document[] = [];
+    let scanned = 0;
+    
+    for (const probes of [CONFIG.VECTOR_INDEX_PROBES, undefined]) {
+      const { ids, complete } = this.store.vectorCandidates(index, vector, probes);
+      matches = [...this.store.matching(collection, compileIds(ids), now)]
+        .filter(document => matchesFilters(document, filters));
+      scanned += ids.length;
+      
+      if (complete || matches.length >= k) {
+        break;
+      }
+    }
+    
+    const neighbors = nearestNeighbors(matches, vectorFilter, index.metric!);
+    const { results, total } = this.pageInMemory(neighbors, queryOptions.sort || [], cursor, offset, limit);
+    
+    logger.debug('Nearest neighbor query completed', {
+      collection,
+      index: index.name,
+      matchedFilters: total,
+      returnedResults: results.length
+    });
+    
+    const queryResult: QueryResult = { results, metadata: { total, limit, offset } };
+    
+    if (options?.profile) {
+      const work: ShardWork = { pushedDown: false, index: index.name, scanned, returned: results.length, durationMs: Date.now() - now };
+      return this.jsonResponse({ ...queryResult, work });
+    }
+    
+    return this.jsonResponse(queryResult);
+  }
+  
+  /**
+   * Sorts the documents matching a query in memory and returns the requested
+   * page, along with the number of matching documents
+   */
+  private pageInMemory(
+    documents: Document[],
+    sort: SortSpec[],
+    cursor: CursorPosition | undefined,
+    offset: number,
+    limit: number
+  ): { results: Document[]; total: number } {
+    let results = this.applySorting(documents, sort);
+    const total = results.length;
+    
+    if (cursor) {
+      results = results.filter(document => compareToCursor(document, cursor, sort) > 0);
+    }
+    
+    return { results: results.slice(offset, offset + limit), total };
+  }
+  
+  /**
+   * Finds the ready full-text, geospatial or vector index of a field of a
+   * collection
+   */
+  private findFieldIndex(collection: string, field: string, type: 'text' | 'geo' | 'vector'): IndexDefinition | undefined {
+    return this.store.listIndexes(collection)
+      .find(index => index.type === type && index.status === 'ready' && index.fields[0] === field);
+  }
+  
+  /**
+   * Computes the partial aggregations of the documents matching filters, so
+   * that only aggregation states are sent back to the worker
+   */
+  private handleAggregation(
+    collection: string,
+    filters: QueryFilterNode[],
+    aggregations: AggregationSpec[],
+    options?: QueryOptions
+  ): Response {
+    const now = Date.now();
+    const where = compileFilters(filters);
+    const metadata = { total: 0, limit: 0, offset: 0 };
+    
+    if (options?.explain) {
+      return this.jsonResponse({ results: [], metadata, shardPlan: this.explainQuery(collection, where, '', now) });
+    }
+    
+    // Matching documents are streamed from SQL whenever the filters can be
+    // compiled, otherwise they are filtered in memory
+    const stats = { scanned: 0 };
+    let documents: Iterable<Document>;
+    if (where !== undefined) {
+      documents = this.store.matching(collection, where, now, stats);
+    } else {
+      const scanned = this.store.scan(collection, now);
+      stats.scanned = scanned.length;
+      documents = this.applyFilters(scanned, filters);
+    }
+    
+    const { partials, total } = computePartialAggregations(documents, aggregations);
+    metadata.total = total;
+    
+    logger.debug('Aggregation completed', { collection, pushedDown: where !== undefined, matchedFilters: total });
+    
+    const response: Record<string, any> = { results: [], partialAggregations: partials, metadata };
+    if (options?.profile) {
+      const { pushedDown, index } = this.explainQuery(collection, where, '', now);
+      const work: ShardWork = { pushedDown, index, scanned: stats.scanned, returned: 0, durationMs: Date.now() - now };
+      response.work = work;
+    }
+    
+    return this.jsonResponse(response);
+  }
+  
+  /**
+   * Runs the part of an aggregation pipeline the shards run on the documents
+   * matching its leading match stages, and returns the partial groups or the
+   * documents the worker merges
+   */
+  private async handlePipeline(request: Request): Promise<Response> {
+    const requestBody = await readJsonObject<{ collection: string; pipeline: PipelineStage[] }>(request, 'pipeline');
+    
+    const { collection, pipeline } = requestBody;
+    
+    if (!collection) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Collection is required'
+      );
+    }
+    
+    validateCollectionName(collection);
+    validatePipeline(pipeline);
+    
+    const split = splitPipeline(pipeline!);
+    const now = Date.now();
+    const where = compileFilters(split.filters);
+    
+    // Matching documents are streamed from SQL whenever the filters can be
+    // compiled, otherwise they are filtered in memory
+    const documents = where !== undefined
+      ? this.store.matching(collection, where, now)
+      : this.applyFilters(this.store.scan(collection, now), split.filters);
+    
+    const result = runShardPipeline(documents, split);
+    
+    logger.debug('Pipeline completed', {
+      collection,
+      pushedDown: where !== undefined,
+      groupCount: result.groups?.length,
+      documentCount: result.documents?.length
+    });
+    
+    return this.jsonResponse(result);
+  }
+  
+  /**
+   * Explains how a query is evaluated: in SQL with the given condition and
+   * order, or by scanning the whole collection when `where` is undefined
+   */
+  private explainQuery(
+    collection: string,
+    where: SqlFragment | undefined,
+    orderBy: string | undefined,
+    now: number,
+    after?: SqlFragment,
+    index?: string
+  ): ShardQueryPlan {
+    const sqlPlan = where !== undefined
+      ? this.store.explain(collection, where, orderBy ?? '', now, after, index)
+      : this.store.explain(collection, { sql: '1', params: [] }, 'ORDER BY id', now);
+    
+    return {
+      pushedDown: where !== undefined,
+      index: indexUsedByPlan(sqlPlan, this.store.listIndexes(collection)),
+      sqlPlan
+    };
+  }
+  
+  /**
+   * Handles index administration requests
+   * 
+   * - GET    /__index/{collection}               lists the indexes of a collection
+   * - POST   /__index/{collection}               creates and builds an index
+   * - GET    /__index/{collection}/{name}        returns one index
+   * - POST   /__index/{collection}/{name}/build  rebuilds an index from the stored documents
+   * - DELETE /__index/{collection}/{name}        drops an index
+   */
+  private async handleIndexRequest(
+    request: Request,
+    collection: string,
+    name?: string,
+    action?: string
+  ): Promise<Response> {
+    validateCollectionName(collection);
+    
+    const indexes = this.store.listIndexes(collection);
+    
+    if (!name) {
+      if (request.method === 'GET') {
+        return this.jsonResponse({ indexes });
+      }
+      
+      if (request.method === 'POST') {
+        let body;
+        try {
+          body = await request.json();
+        } catch (error) {
+          throw new ImpossibleDBError(
+            ErrorCode.INVALID_REQUEST,
+            'Invalid JSON in request body'
+          );
+        }
+        
+        const index = normalizeIndexDefinition(collection, body);
+        
+        if (indexes.some(existing => existing.name === index.name)) {
+          throw new ImpossibleDBError(
+            ErrorCode.CONFLICT,
+            `Index already exists: ${collection}/${index.name}`
+          );
+        }
+        
+        if (indexes.length >= CONFIG.MAX_INDEXES_PER_COLLECTION) {
+          throw new ImpossibleDBError(
+            ErrorCode.INVALID_REQUEST,
+            `Collection cannot have more than ${CONFIG.MAX_INDEXES_PER_COLLECTION} indexes`
+          );
+        }
+        
+        const indexedDocuments = this.buildIndex(index);
+        return this.jsonResponse({ index, indexedDocuments }, 201);
+      }
+    } else {
+      const index = indexes.find(existing => existing.name === name);
+      if (!index) {
+        throw new ImpossibleDBError(
+          ErrorCode.NOT_FOUND,
+          `Index not found: ${collection}/${name}`
+        );
+      }
+      
+      if (request.method === 'GET' && !action) {
+        return this.jsonResponse({ index });
+      }
+      
+      if (request.method === 'POST' && action === 'build') {
+        const indexedDocuments = this.buildIndex(index);
+        return this.jsonResponse({ index, indexedDocuments });
+      }
+      
+      if (request.method === 'DELETE' && !action) {
+        this.store.dropIndex(collection, name);
+        
+        logger.debug('Index dropped', { collection, name });
+        return this.jsonResponse({ dropped: true, collection, name });
+      }
+    }
+    
+    throw new ImpossibleDBError(
+      ErrorCode.NOT_FOUND,
+      'Route not found'
+    );
+  }
+  
+  /**
+   * Handles collection settings requests
+   * 
+   * - GET /__config/{collection}  returns the settings of a collection
+   * - PUT /__config/{collection}  replaces the settings of a collection
+   * - PUT /__config/{collection}?dryRun=true  validates the documents of the
+   *   collection against the schema of the settings, without saving them
+   */
+  private async handleConfigRequest(request: Request, collection: string, params: URLSearchParams): Promise<Response> {
+    validateCollectionName(collection);
+    
+    if (request.method === 'GET') {
+      return this.jsonResponse({ collection, config: this.store.getConfig(collection) });
+    }
+    
+    if (request.method === 'PUT') {
+      let body;
+      try {
+        body = await request.json();
+      } catch (error) {
+        throw new ImpossibleDBError(
+          ErrorCode.INVALID_REQUEST,
+          'Invalid JSON in request body'
+        );
+      }
+      
+      validateCollectionConfig(body);
+      
+      // Settings set to null are removed
+      const config: CollectionConfig = {};
+      if (typeof (body as CollectionConfig).defaultTtl === 'number') {
+        config.defaultTtl = (body as CollectionConfig).defaultTtl;
+      }
+      if (typeof (body as CollectionConfig).changeLogRetention === 'number') {
+        config.changeLogRetention = (body as CollectionConfig).changeLogRetention;
+      }
+      if (typeof (body as CollectionConfig).history === 'object' && (body as CollectionConfig).history !== null) {
+        const { maxVersions, maxAge } = (body as CollectionConfig).history!;
+        config.history = {
+          ...(maxVersions !== undefined && { maxVersions }),
+          ...(maxAge !== undefined && { maxAge })
+        };
+      }
+      if ((body as CollectionConfig).schema !== undefined && (body as CollectionConfig).schema !== null) {
+        config.schema = (body as CollectionConfig).schema;
+      }
+      if (typeof (body as CollectionConfig).schemaMode === 'string') {
+        config.schemaMode = (body as CollectionConfig).schemaMode;
+      }
+      
+      if (params.get('dryRun') === 'true') {
+        return this.jsonResponse({ collection, config, dryRun: true, ...this.validateExistingDocuments(collection, config) });
+      }
+      
+      this.store.saveConfig(collection, config);
+      
+      logger.debug('Collection config saved', { collection, config });
+      return this.jsonResponse({ collection, config });
+    }
+    
+    throw new ImpossibleDBError(
+      ErrorCode.NOT_FOUND,
+      'Route not found'
+    );
+  }
+  
+  /**
+   * Checks a document being written against the schema of its collection
+   * 
+   * In 'strict' mode (the default) a document that does not match the schema
+   * is rejected, and in 'warn' mode it is written and a warning is logged.
+   * 
+   * @param collection The collection
+   * @param id The ID of the document
+   * @param fields The fields of the document, without its metadata
+   * @throws ImpossibleDBError with INVALID_DOCUMENT, listing the errors in its
+   *   details, if the document is rejected
+   */
+  private checkSchema(collection: string, id: string, fields: Record<string, any>): void {
+    const { schema, schemaMode = 'strict' } = this.store.getConfig(collection);
+    if (schema === undefined || schemaMode === 'off') {
+      return;
+    }
+    
+    const errors = schemaErrors(fields, schema);
+    if (errors.length === 0) {
+      return;
+    }
+    
+    if (schemaMode === 'warn') {
+      logger.warn('Document does not match the collection schema', { collection, id, errors });
+      return;
+    }
+    
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_DOCUMENT,
+      `Document does not match the schema of collection ${collection}: ${errors.map(error => `${error.path || '/'} ${error.message}`).join('; ')}`,
+      { errors }
+    );
+  }
+  
+  /**
+   * Validates the documents of a collection against the schema of new
+   * settings, as a dry run of the settings update
+   * 
+   * @param collection The collection
+   * @param config The new settings
+   * @returns The number of documents checked and of those that do not match
+   *   the schema, and the errors of up to CONFIG.MAX_SCHEMA_DRY_RUN_DOCUMENTS
+   *   of them
+   */
+  private validateExistingDocuments(
+    collection: string,
+    config: CollectionConfig
+  ): { checkedDocuments: number; invalidDocuments: number; errors: { id: string; errors: SchemaError[] }[] } {
+    const documents = this.store.scan(collection, Date.now());
+    const errors: { id: string; errors: SchemaError[] }[] = [];
+    let invalidDocuments = 0;
+    
+    if (config.schema !== undefined) {
+      for (const document of documents) {
+        const fields: Record<string, any> = {};
+        for (const [key, value] of Object.entries(document)) {
+          if (!METADATA_FIELDS.includes(key)) {
+            fields[key] = value;
           }
-        });
-      });
+        }
+        
+        const documentErrors = schemaErrors(fields, config.schema);
+        if (documentErrors.length > 0) {
+          invalidDocuments++;
+          if (errors.length < CONFIG.MAX_SCHEMA_DRY_RUN_DOCUMENTS) {
+            errors.push({ id: document._id, errors: documentErrors });
+          }
+        }
+      }
+    }
+    
+    return { checkedDocuments: documents.length, invalidDocuments, errors };
+  }
+  
+  /**
+   * Determines when a document being written expires
+   * 
+   * An explicit `_expiresAt` in the document (null for no expiry) takes
+   * precedence over a TTL sent in the request header, which takes precedence
+   * over the collection's default TTL. The expiry is determined on every
+   * write, so rewriting a document without an explicit expiry renews it.
+   * 
+   * @returns The expiry time, or undefined if the document does not expire
+   */
+  private resolveExpiry(
+    collection: string,
+    body: Record<string, any>,
+    request: Request,
+    now: number
+  ): number | undefined {
+    if (body._expiresAt !== undefined) {
+      validateExpiresAt(body._expiresAt);
+      return body._expiresAt ?? undefined;
+    }
+    
+    const ttlHeader = request.headers.get(CONFIG.TTL_HEADER);
+    if (ttlHeader !== null) {
+      const ttl = Number(ttlHeader);
+      validateTtl(ttl);
+      return now + ttl * 1000;
+    }
+    
+    const { defaultTtl } = this.store.getConfig(collection);
+    return defaultTtl ? now + defaultTtl * 1000 : undefined;
+  }
+  
+  /**
+   * Makes sure the sweeper, which purges expired documents and trims the
+   * change log, runs no later than a given time
+   */
+  private async scheduleSweep(time: number): Promise<void> {
+    const scheduled = await this.state.storage.getAlarm();
+    
+    if (scheduled === null || scheduled > time) {
+      await this.state.storage.setAlarm(time);
+    }
+  }
+  
+  /**
+   * Alarm handler: purges the documents that have expired, trims the change
+   * log, and schedules the next sweep for the earliest remaining expiry (or
+   * the next change log trim if it comes first)
+   */
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const purged = this.store.purgeExpired(now, CONFIG.TTL_SWEEP_BATCH_SIZE);
+    
+    for (const document of purged) {
+      this.recordChange(document, undefined, now);
+    }
+    
+    let trimmed = 0;
+    for (const collection of this.store.changeLogCollections()) {
+      const retention = this.store.getConfig(collection).changeLogRetention ?? CONFIG.CHANGE_LOG_RETENTION;
+      trimmed += this.store.trimChanges(collection, now - retention * 1000);
+    }
+    
+    let trimmedVersions = 0;
+    for (const collection of this.store.historyCollections()) {
+      const maxAge = this.store.getConfig(collection).history?.maxAge;
+      if (maxAge !== undefined) {
+        trimmedVersions += this.store.trimHistory(collection, now - maxAge * 1000);
+      }
+    }
+    
+    logger.debug('Sweep completed', { purged: purged.length, trimmed, trimmedVersions });
+    
+    // A full batch means more documents may already have expired
+    const nextExpiry = purged.length === CONFIG.TTL_SWEEP_BATCH_SIZE ? now : this.store.nextExpiry();
+    const hasLogs = this.store.changeLogCollections().length > 0 || this.store.historyCollections().length > 0;
+    const nextTrim = hasLogs ? now + CONFIG.CHANGE_LOG_SWEEP_INTERVAL : undefined;
+    
+    const next = Math.min(nextExpiry ?? Infinity, nextTrim ?? Infinity);
+    if (next !== Infinity) {
+      await this.state.storage.setAlarm(next);
+    }
+  }
+  
+  /**
+   * Handles change log requests
+   * 
+   * GET /__changes/{collection}?since={seq}&limit={n} returns the changes of a
+   * collection that follow a sequence number. Without `since`, the changes
+   * are read from the oldest one still retained.
+   * 
+   * @throws ImpossibleDBError with CHANGES_EXPIRED if changes that follow
+   *   `since` were already removed from the log
+   */
+  private handleChangesRequest(collection: string, params: URLSearchParams): Response {
+    validateCollectionName(collection);
+    
+    const since = parseSequence(params.get('since'));
+    const limit = parseChangesLimit(params.get('limit'));
+    const trimmedSeq = this.checkChangesRetained(collection, since);
+    
+    // Read one more change to know whether there are more
+    const changes = this.store.changesSince(collection, since ?? trimmedSeq, limit + 1);
+    
+    const result: ShardChanges = {
+      changes: changes.slice(0, limit),
+      hasMore: changes.length > limit
+    };
+    return this.jsonResponse(result);
+  }
+  
+  /**
+   * Checks that the change log still has the changes that follow a sequence
+   * number
+   * 
+   * @param since The sequence number, if any
+   * @returns The sequence number of the last change trimmed from the log
+   * @throws ImpossibleDBError with CHANGES_EXPIRED if changes that follow
+   *   `since` were already removed from the log
+   */
+  private checkChangesRetained(collection: string, since: number | undefined): number {
+    const trimmedSeq = this.store.trimmedSeq(collection);
+    if (since !== undefined && since < trimmedSeq) {
+      throw new ImpossibleDBError(
+        ErrorCode.CHANGES_EXPIRED,
+        'Changes following the checkpoint are no longer retained',
+        { collection, since, trimmedSeq }
+      );
+    }
+    
+    return trimmedSeq;
+  }
+  
+  /**
+   * Handles collection statistics requests
+   * 
+   * GET /__stats/{collection} returns the statistics of a collection, which
+   * are recomputed first if they are missing or stale: if they predate
+   * CONFIG.STATISTICS_REFRESH_CHANGES changes and at least
+   * CONFIG.STATISTICS_REFRESH_RATIO of the collection's documents changed
+   * since, if they are older than CONFIG.STATISTICS_MAX_AGE, or if the
+   * indexes of the collection changed.
+   */
+  private handleStatisticsRequest(collection: string): Response {
+    validateCollectionName(collection);
+    
+    const now = Date.now();
+    const indexes = this.store.listIndexes(collection);
+    const stored = this.store.getStatistics(collection);
+    
+    if (stored) {
+      const { statistics, seq } = stored;
+      const changes = this.store.countChangesSince(collection, seq);
+      const readyIndexes = indexes.filter(index => index.status === 'ready').map(({ name, fields }) => ({ name, fields }));
+      
+      const stale = (changes >= CONFIG.STATISTICS_REFRESH_CHANGES &&
+          changes >= statistics.documentCount * CONFIG.STATISTICS_REFRESH_RATIO) ||
+        now - statistics.computedAt > CONFIG.STATISTICS_MAX_AGE ||
+        JSON.stringify(readyIndexes) !== JSON.stringify(statistics.indexes);
+      
+      if (!stale) {
+        return this.jsonResponse(statistics);
+      }
+    }
+    
+    const seq = this.store.lastChangeSeq(collection);
+    const statistics = computeCollectionStatistics(
+      collection,
+      this.store.matching(collection, { sql: '1', params: [] }, now),
+      indexes,
+      now
+    );
+    this.store.saveStatistics(statistics, seq);
+    
+    logger.debug('Collection statistics computed', { collection, documentCount: statistics.documentCount, seq });
+    
+    return this.jsonResponse(statistics);
+  }
+  
+  /**
+   * Handles requests for the statistics of the terms of a search
+   * 
+   * POST /__search/{collection} with { field, text } returns the statistics
+   * of the terms of the text in the field over the documents of the shard,
+   * which the worker merges over every shard so that they all score
+   * documents alike.
+   */
+  private async handleTextStatisticsRequest(request: Request, collection: string): Promise<Response> {
+    validateCollectionName(collection);
+    
+    const body = await readJsonObject<{ field: string; text: string }>(request, 'text statistics');
+    validateQueryFilters([{ field: body.field, operator: 'search', value: body.text }]);
+    const field = body.field!;
+    const text = body.text!;
+    
+    const terms = searchTerms(text);
+    const index = this.findFieldIndex(collection, field, 'text');
+    const statistics: TextStatistics = index
+      ? this.store.textStatistics(index, terms)
+      : analyzeDocuments(this.store.scan(collection, Date.now()), field, terms).statistics;
+    
+    return this.jsonResponse(statistics);
+  }
+  
+  /**
+   * Appends the change made by a write to the change log, archives the
+   * replaced version if the collection keeps history, and notifies the
+   * subscribers concerned by the change
+   * 
+   * @param before The document before the write (undefined if it was created)
+   * @param after The document after the write (undefined if it was deleted)
+   * @param timestamp Time of the write
+   */
+  private recordChange(before: Document | undefined, after: Document | undefined, timestamp: number): void {
+    const document = (after || before)!;
+    
+    const { history } = this.store.getConfig(document._collection);
+    if (before && history) {
+      // An expired document stopped being current when it expired
+      const validUntil = after ? timestamp : Math.min(timestamp, before._expiresAt ?? Infinity);
+      this.store.archiveVersion(before, validUntil, history.maxVersions);
+    }
+    
+    const seq = this.store.appendChange({
+      type: !after ? 'delete' : before ? 'update' : 'insert',
+      collection: document._collection,
+      id: document._id,
+      version: document._version,
+      timestamp,
+      ...(after && { document: after })
+    });
+    
+    this.publishChange(before, after, timestamp, seq);
+  }
+  
+  /**
+   * Handles WebSocket upgrade requests subscribing to document changes
+   * 
+   * The WebSocket is accepted with the hibernation API, so the object can be
+   * evicted from memory while subscribers are idle. Each socket is tagged with
+   * its collection and carries its subscription as an attachment, which
+   * survives hibernation.
+   * 
+   * Events carry the sequence number of their change. With `since`, the
+   * changes that follow it are replayed from the change log first. The
+   * sequence number the subscription starts from (`since`, or the last change
+   * of the collection) is returned in the SUBSCRIPTION_SEQ_HEADER header.
+   * 
+   * @throws ImpossibleDBError with CHANGES_EXPIRED if changes that follow
+   *   `since` were already removed from the log
+   */
+  private handleSubscribe(request: Request, collection: string, params: URLSearchParams): Response {
+    if (request.headers.get('Upgrade') !== 'websocket') {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Expected a WebSocket upgrade request'
+      );
+    }
+    
+    const subscription = parseSubscriptionRequest(collection, params);
+    const since = parseSequence(params.get('since'));
+    const trimmedSeq = this.checkChangesRetained(collection, since);
+    
+    const [client, server] = Object.values(new WebSocketPair());
+    this.state.acceptWebSocket(server, [collection]);
+    server.serializeAttachment(subscription);
+    
+    // Missed changes are replayed a page at a time, looking up the previous
+    // change of each document up to the start of its page
+    let seq = since;
+    while (seq !== undefined) {
+      const start = seq;
+      const changes = this.store.changesSince(collection, start, CONFIG.MAX_CHANGES_PER_REQUEST);
+      const previousChange = (id: string) => this.store.lastChangeBefore(collection, id, start);
+      
+      for (const event of replayEvents(subscription, changes, previousChange, matchesFilters)) {
+        server.send(JSON.stringify(event));
+      }
+      
+      seq = changes.length === CONFIG.MAX_CHANGES_PER_REQUEST ? changes[changes.length - 1].seq : undefined;
+    }
+    
+    const startSeq = since ?? Math.max(this.store.lastChangeSeq(collection), trimmedSeq);
+    
+    logger.debug('Subscription opened', { ...subscription, since, startSeq });
+    return new Response(null, {
+      status: 101,
+      webSocket: client,
+      headers: { [SUBSCRIPTION_SEQ_HEADER]: String(startSeq) }
+    });
+  }
+  
+  /**
+   * Sends the change made by a write to the subscribers concerned by it
+   * 
+   * @param before The document before the write (undefined if it was created)
+   * @param after The document after the write (undefined if it was deleted)
+   * @param timestamp Time of the write
+   * @param seq Sequence number of the change in the change log
+   */
+  private publishChange(before: Document | undefined, after: Document | undefined, timestamp: number, seq: number): void {
+    const collection = (after || before)!._collection;
+    
+    for (const socket of this.state.getWebSockets(collection)) {
+      const subscription = socket.deserializeAttachment() as Subscription;
+      const event = changeEventFor(subscription, before, after, timestamp, matchesFilters);
+      
+      if (event) {
+        try {
+          socket.send(JSON.stringify({ ...event, seq }));
+        } catch (error) {
+          // The socket is closing, its close handler cleans it up
+          logger.debug('Failed to notify subscriber', { collection, error: (error as Error).message });
+        }
+      }
+    }
+  }
+  
+  /**
+   * Handles a subscriber closing its WebSocket
+   */
+  async webSocketClose(socket: WebSocket, code: number, reason: string): Promise<void> {
+    logger.debug('Subscription closed', { code, reason });
+    
+    try {
+      socket.close();
+    } catch {
+      // Already closed
     }
+  }
+  
+  /**
+   * (Re)builds an index from the documents currently stored in its collection
+   * 
+   * @returns The number of documents indexed
+   */
+  private buildIndex(index: IndexDefinition): number {
+    logger.debug('Building index', { collection: index.collection, name: index.name });
+    
+    // SQLite builds the index synchronously, so it is ready once saved
+    index.status = 'ready';
+    index.builtAt = Date.now();
+    
+    this.store.rebuildIndex(index);
+    this.store.saveIndex(index);
+    
+    const indexedDocuments = this.store.count(index.collection);
+    logger.debug('Index built', { collection: index.collection, name: index.name, indexedDocuments });
+    return indexedDocuments;
+  }
   
+  /**
+   * Creates a JSON response
+   */
+  private jsonResponse(body: any, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+    
     /**
-     * Gets a nested value from an object using dot notation
+     * Applies filters to a list of documents
      */
-    private getNestedValue(obj: any, path: string): any {
-      return path.split('.').reduce((prev, curr) => {
-        return prev && prev[curr] !== undefined ? prev[curr] : undefined;
-      }, obj);
+    private applyFilters(documents: Document[], filters: QueryFilterNode[]): Document[] {
+      return documents.filter(doc => matchesFilters(doc, filters));
     }
   
     /**
-     * Applies sorting to a list of documents
+     * Applies sorting to a list of documents, in the same order SQL queries
+     * return them
      */
-    private applySorting(documents: Document[], sort: { field: string; direction: 'asc' | 'desc' }[]): Document[] {
-      return [...documents].sort((a, b) => {
-        for (const { field, direction } of sort) {
-          const aValue = this.getNestedValue(a, field);
-          const bValue = this.getNestedValue(b, field);
-          
-          if (aValue === bValue) continue;
-          
-          const comparison = aValue < bValue ? -1 : 1;
-          return direction === 'asc' ? comparison : -comparison;
-        }
-        
-        return 0;
-      });
+    private applySorting(documents: Document[], sort: SortSpec[]): Document[] {
+      return [...documents].sort((a, b) => compareDocuments(a, b, sort));
     }
   }
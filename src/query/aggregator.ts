@@ -3,11 +3,17 @@
  * 
  * This module is responsible for aggregating query results from multiple shards,
  * performing operations like grouping, counting, and calculating statistics.
+ * 
+ * Aggregation queries are computed where the documents are: each shard
+ * reduces its matching documents to partial aggregations (mergeable states,
+ * such as the sum and count of an average), the worker merges the partial
+ * aggregations of all shards and computes the final results from them.
  */
 
 import { Document, QueryResult, ErrorCode } from '../types';
 import { ImpossibleDBError } from '../utils/errorHandler';
 import { createLogger } from '../utils/logger';
+import { CONFIG } from '../config';
 
 const logger = createLogger('QueryAggregator');
 
@@ -42,6 +48,76 @@ export interface AggregationResult {
   groups?: Record<string, any>;
 }
 
+/**
+ * State of an aggregation over part of the documents, which can be merged
+ * with the states computed over the other parts
+ */
+export interface PartialAggregation {
+  operation: AggregationOperation;
+  field?: string;
+  groupBy?: string[];
+  
+  // Number of documents (count) or values (avg) counted
+  count?: number;
+  
+  // Sum of the values (sum, avg)
+  sum?: number;
+  
+  // Smallest or largest value (min, max), null if there was none
+  value?: number | null;
+  
+  // Number of documents and grouped values of each group (groupBy)
+  groups?: Record<string, { count: number; [field: string]: any }>;
+}
+
+/**
+ * Validates aggregation specifications
+ * 
+ * @param specs The specifications to validate
+ * @throws ImpossibleDBError with INVALID_QUERY if a specification is invalid
+ */
+export function validateAggregations(specs: any): void {
+  if (!Array.isArray(specs)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Aggregations must be an array'
+    );
+  }
+  
+  const operations = Object.values(AggregationOperation) as string[];
+  
+  for (const spec of specs) {
+    if (!spec || typeof spec !== 'object' || !operations.includes(spec.operation)) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        `Aggregation operation must be one of: ${operations.join(', ')}`
+      );
+    }
+    
+    if (spec.field !== undefined && (typeof spec.field !== 'string' || spec.field === '')) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'Aggregation field must be a non-empty string'
+      );
+    }
+    
+    if (spec.operation === AggregationOperation.GROUP_BY) {
+      if (!Array.isArray(spec.groupBy) || spec.groupBy.length === 0 ||
+          !spec.groupBy.every((field: unknown) => typeof field === 'string' && field !== '')) {
+        throw new ImpossibleDBError(
+          ErrorCode.INVALID_QUERY,
+          'groupBy fields are required for groupBy aggregation'
+        );
+      }
+    } else if (spec.operation !== AggregationOperation.COUNT && spec.field === undefined) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        `Field is required for ${spec.operation} aggregation`
+      );
+    }
+  }
+}
+
 /**
  * Performs aggregation operations on query results
  * 
@@ -267,12 +343,7 @@ function groupByAggregation(results: Document[], spec: AggregationSpec): Aggrega
   
   results.forEach(doc => {
     // Create a group key based on the groupBy fields
-    const groupValues = spec.groupBy!.map(field => {
-      const value = getNestedValue(doc, field);
-      return value !== undefined ? String(value) : 'null';
-    });
-    
-    const groupKey = groupValues.join(':');
+    const groupKey = getGroupKey(doc, spec.groupBy!);
     
     // Initialize the group if it doesn't exist
     if (!groups[groupKey]) {
@@ -331,6 +402,226 @@ export function applyAggregations(
   };
 }
 
+/**
+ * Computes the partial aggregations of documents, in a single pass
+ * 
+ * @param documents The documents to aggregate
+ * @param specs The aggregation specifications
+ * @returns The partial aggregations (in the order of the specifications) and
+ *   the number of documents aggregated
+ * @throws ImpossibleDBError if a groupBy aggregation has more than
+ *   CONFIG.MAX_AGGREGATION_GROUPS groups
+ */
+export function computePartialAggregations(
+  documents: Iterable<Document>,
+  specs: AggregationSpec[]
+): { partials: PartialAggregation[]; total: number } {
+  const partials = specs.map(createPartial);
+  let total = 0;
+  
+  for (const doc of documents) {
+    total++;
+    
+    partials.forEach(partial => {
+      const value = partial.field !== undefined ? getNestedValue(doc, partial.field) : undefined;
+      
+      switch (partial.operation) {
+        case AggregationOperation.COUNT:
+          if (partial.field === undefined || value !== undefined) {
+            partial.count!++;
+          }
+          break;
+        case AggregationOperation.SUM:
+        case AggregationOperation.AVG:
+          if (typeof value === 'number') {
+            partial.sum! += value;
+            partial.count!++;
+          }
+          break;
+        case AggregationOperation.MIN:
+        case AggregationOperation.MAX:
+          if (typeof value === 'number') {
+            partial.value = extremum(partial.operation, partial.value!, value);
+          }
+          break;
+        case AggregationOperation.GROUP_BY: {
+          const groupKey = getGroupKey(doc, partial.groupBy!);
+          const group = partial.groups![groupKey];
+          
+          if (group) {
+            group.count++;
+          } else {
+            addGroup(partial, groupKey, { count: 1, ...groupValues(doc, partial.groupBy!) });
+          }
+          break;
+        }
+      }
+    });
+  }
+  
+  return { partials, total };
+}
+
+/**
+ * Merges the partial aggregations computed over different documents
+ * 
+ * @param specs The aggregation specifications
+ * @param parts The partial aggregations of each part of the documents, in
+ *   the order of the specifications
+ * @returns The merged partial aggregations
+ */
+export function mergePartialAggregations(
+  specs: AggregationSpec[],
+  parts: PartialAggregation[][]
+): PartialAggregation[] {
+  return specs.map((spec, index) => {
+    const merged = createPartial(spec);
+    
+    for (const part of parts) {
+      const partial = part[index];
+      if (!partial || partial.operation !== spec.operation) {
+        throw new ImpossibleDBError(
+          ErrorCode.INTERNAL_ERROR,
+          'Partial aggregations do not match the aggregation specifications'
+        );
+      }
+      
+      switch (spec.operation) {
+        case AggregationOperation.COUNT:
+          merged.count! += partial.count ?? 0;
+          break;
+        case AggregationOperation.SUM:
+        case AggregationOperation.AVG:
+          merged.sum! += partial.sum ?? 0;
+          merged.count! += partial.count ?? 0;
+          break;
+        case AggregationOperation.MIN:
+        case AggregationOperation.MAX:
+          if (typeof partial.value === 'number') {
+            merged.value = extremum(spec.operation, merged.value!, partial.value);
+          }
+          break;
+        case AggregationOperation.GROUP_BY:
+          for (const [groupKey, group] of Object.entries(partial.groups ?? {})) {
+            if (merged.groups![groupKey]) {
+              merged.groups![groupKey].count += group.count;
+            } else {
+              addGroup(merged, groupKey, { ...group });
+            }
+          }
+          break;
+      }
+    }
+    
+    return merged;
+  });
+}
+
+/**
+ * Computes the final results of partial aggregations
+ * 
+ * Unlike aggregate(), the groups of a groupBy aggregation only hold their
+ * document count and grouped values, not the documents themselves.
+ * 
+ * @param partials The partial aggregations of all the documents
+ * @returns The aggregation results
+ */
+export function finalizeAggregations(partials: PartialAggregation[]): AggregationResult[] {
+  return partials.map(partial => {
+    const field = partial.field !== undefined ? { field: partial.field } : {};
+    
+    switch (partial.operation) {
+      case AggregationOperation.COUNT:
+        return { operation: partial.operation, ...field, value: partial.count };
+      case AggregationOperation.SUM:
+        return { operation: partial.operation, ...field, value: partial.sum };
+      case AggregationOperation.AVG:
+        return { operation: partial.operation, ...field, value: partial.count! > 0 ? partial.sum! / partial.count! : 0 };
+      case AggregationOperation.GROUP_BY:
+        return { operation: partial.operation, value: Object.keys(partial.groups!).length, groups: partial.groups };
+      default:
+        return { operation: partial.operation, ...field, value: partial.value };
+    }
+  });
+}
+
+/**
+ * Creates the partial aggregation of no documents
+ */
+function createPartial(spec: AggregationSpec): PartialAggregation {
+  const partial: PartialAggregation = { operation: spec.operation };
+  if (spec.field !== undefined) {
+    partial.field = spec.field;
+  }
+  
+  switch (spec.operation) {
+    case AggregationOperation.COUNT:
+      partial.count = 0;
+      break;
+    case AggregationOperation.SUM:
+    case AggregationOperation.AVG:
+      partial.sum = 0;
+      partial.count = 0;
+      break;
+    case AggregationOperation.MIN:
+    case AggregationOperation.MAX:
+      partial.value = null;
+      break;
+    case AggregationOperation.GROUP_BY:
+      partial.groupBy = spec.groupBy;
+      partial.groups = {};
+      break;
+  }
+  
+  return partial;
+}
+
+/**
+ * Gets the smaller (min) or larger (max) of a current extremum and a value
+ */
+function extremum(operation: AggregationOperation, current: number | null, value: number): number {
+  if (current === null) {
+    return value;
+  }
+  
+  return operation === AggregationOperation.MIN ? Math.min(current, value) : Math.max(current, value);
+}
+
+/**
+ * Adds a group to a groupBy partial aggregation
+ */
+function addGroup(partial: PartialAggregation, groupKey: string, group: { count: number; [field: string]: any }): void {
+  if (Object.keys(partial.groups!).length >= CONFIG.MAX_AGGREGATION_GROUPS) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      `A groupBy aggregation cannot have more than ${CONFIG.MAX_AGGREGATION_GROUPS} groups`
+    );
+  }
+  
+  partial.groups![groupKey] = group;
+}
+
+/**
+ * Gets the key of the group of a document
+ */
+function getGroupKey(doc: Document, groupBy: string[]): string {
+  return groupBy.map(field => {
+    const value = getNestedValue(doc, field);
+    return value !== undefined ? String(value) : 'null';
+  }).join(':');
+}
+
+/**
+ * Gets the grouped values of a document
+ */
+function groupValues(doc: Document, groupBy: string[]): Record<string, any> {
+  const values: Record<string, any> = {};
+  groupBy.forEach(field => {
+    values[field] = getNestedValue(doc, field);
+  });
+  return values;
+}
+
 /**
  * Gets a nested value from an object using dot notation
  * 
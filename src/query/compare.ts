@@ -0,0 +1,107 @@
+/**
+ * Value Comparison
+ *
+ * This module defines the ordering used when sorting documents. It mirrors the
+ * ordering SQLite applies to values extracted from JSON documents, so results
+ * sorted by a StorageObject and results merged by the query executor agree.
+ */
+
+/**
+ * Sort specification
+ */
+export interface SortSpec {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Compares two field values
+ *
+ * Missing and null values sort first, then numbers (booleans count as 0 and 1),
+ * then strings. Objects and arrays are compared by their JSON text, like strings.
+ *
+ * @param a First value
+ * @param b Second value
+ * @returns A negative number if a sorts first, a positive number if b sorts first, 0 if equal
+ */
+export function compareValues(a: any, b: any): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+  
+  if (rankA === 0) {
+    return 0;
+  }
+  
+  const valueA = normalizeValue(a);
+  const valueB = normalizeValue(b);
+  
+  if (valueA === valueB) {
+    return 0;
+  }
+  
+  return valueA < valueB ? -1 : 1;
+}
+
+/**
+ * Compares two documents according to a sort specification, breaking ties by
+ * document ID so that the order is always deterministic
+ *
+ * @param a First document
+ * @param b Second document
+ * @param sort The sort specification
+ * @returns A negative number if a sorts first, a positive number if b sorts first, 0 if equal
+ */
+export function compareDocuments(a: Record<string, any>, b: Record<string, any>, sort: SortSpec[] = []): number {
+  for (const { field, direction } of sort) {
+    const comparison = compareValues(getNestedValue(a, field), getNestedValue(b, field));
+    
+    if (comparison !== 0) {
+      return direction === 'asc' ? comparison : -comparison;
+    }
+  }
+  
+  return compareValues(a._id, b._id);
+}
+
+/**
+ * Ranks a value by type: 0 for missing/null, 1 for numbers, 2 for text
+ */
+function typeRank(value: any): number {
+  if (value === undefined || value === null) {
+    return 0;
+  }
+  
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return 1;
+  }
+  
+  return 2;
+}
+
+/**
+ * Converts a value to the number or string it is compared as
+ */
+function normalizeValue(value: any): number | string {
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  
+  if (typeof value === 'number' || typeof value === 'string') {
+    return value;
+  }
+  
+  return JSON.stringify(value);
+}
+
+/**
+ * Gets a nested value from an object using dot notation
+ */
+export function getNestedValue(obj: any, path: string): any {
+  return path.split('.').reduce((prev, curr) => {
+    return prev && prev[curr] !== undefined ? prev[curr] : undefined;
+  }, obj);
+}
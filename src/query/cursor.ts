@@ -0,0 +1,139 @@
+/**
+ * Query Cursors
+ *
+ * This module implements the opaque continuation cursors used for keyset
+ * pagination. A cursor records the position of the last document of a page:
+ * its sort key and its ID. The next page holds the documents that sort after
+ * that position, so documents written between two page requests cannot shift
+ * the pages the way they shift offsets.
+ *
+ * Because a document ID belongs to exactly one shard, the same position
+ * splits the results of every shard, and each shard only has to return the
+ * documents after it.
+ */
+
+import { ErrorCode } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { compareValues, getNestedValue, SortSpec } from './compare';
+
+/**
+ * Position of a document in the sort order of a query
+ */
+export interface CursorPosition {
+  // Values of the sort fields, as they are compared (see normalizeSortValue)
+  values: (number | string | null)[];
+  
+  // Document ID, which breaks ties between equal sort values
+  id: string;
+}
+
+/**
+ * Encodes the position of a document as a cursor
+ *
+ * @param document The last document of a page
+ * @param sort The sort specification of the query
+ * @returns The cursor
+ */
+export function encodeCursor(document: Record<string, any>, sort: SortSpec[] = []): string {
+  const payload = {
+    s: sortSignature(sort),
+    v: sort.map(({ field }) => normalizeSortValue(getNestedValue(document, field))),
+    id: document._id
+  };
+  
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes a cursor
+ *
+ * @param cursor The cursor
+ * @param sort The sort specification of the query the cursor is used with
+ * @returns The position encoded by the cursor
+ * @throws ImpossibleDBError with INVALID_QUERY if the cursor is malformed or
+ *   was returned by a query with a different sort order
+ */
+export function decodeCursor(cursor: string, sort: SortSpec[] = []): CursorPosition {
+  let payload: any;
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    payload = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+  } catch {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Invalid cursor'
+    );
+  }
+  
+  if (!payload || typeof payload.id !== 'string' || !Array.isArray(payload.v) || payload.v.length !== sort.length) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Invalid cursor'
+    );
+  }
+  
+  if (payload.s !== sortSignature(sort)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Cursor was created for a query with a different sort order'
+    );
+  }
+  
+  return { values: payload.v, id: payload.id };
+}
+
+/**
+ * Compares a document with a cursor position
+ *
+ * @param document The document
+ * @param position The cursor position
+ * @param sort The sort specification
+ * @returns A positive number if the document sorts after the position
+ */
+export function compareToCursor(
+  document: Record<string, any>,
+  position: CursorPosition,
+  sort: SortSpec[] = []
+): number {
+  for (let i = 0; i < sort.length; i++) {
+    const comparison = compareValues(getNestedValue(document, sort[i].field), position.values[i]);
+    
+    if (comparison !== 0) {
+      return sort[i].direction === 'asc' ? comparison : -comparison;
+    }
+  }
+  
+  return compareValues(document._id, position.id);
+}
+
+/**
+ * Converts a field value to the value it is compared as, which is also the
+ * value SQLite extracts from the JSON document: booleans become 0 and 1, and
+ * objects and arrays become their JSON text
+ */
+function normalizeSortValue(value: any): number | string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  
+  if (typeof value === 'number' || typeof value === 'string') {
+    return value;
+  }
+  
+  return JSON.stringify(value);
+}
+
+/**
+ * Identifies a sort order, so a cursor cannot be used with another one
+ */
+function sortSignature(sort: SortSpec[]): string {
+  return sort.map(({ field, direction }) => `${direction === 'asc' ? '+' : '-'}${field}`).join(',');
+}
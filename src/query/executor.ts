@@ -5,11 +5,23 @@
  * appropriate shards and processing the results.
  */
 
-import { QueryPlan, ShardTarget } from './planner';
+import {
+  QueryPlan,
+  ShardTarget,
+  estimateQueryCost,
+  isQueryPlanTooExpensive,
+  MAX_QUERY_COST,
+  splitQueryPlan
+} from './planner';
 import { Document, QueryResult, ErrorCode } from '../types';
 import { ImpossibleDBError } from '../utils/errorHandler';
 import { createLogger } from '../utils/logger';
 import { CONFIG } from '../config';
+import { compareDocuments, SortSpec } from './compare';
+import { encodeCursor } from './cursor';
+import { finalizeAggregations, mergePartialAggregations, PartialAggregation } from './aggregator';
+import { QueryProfile, ShardQueryPlan, ShardWork } from './explain';
+import { applyLookups, LookupFetcher } from './lookup';
 
 // Type declarations for setTimeout and clearTimeout in Cloudflare Workers environment
 declare function setTimeout(callback: () => void, ms: number): number;
@@ -20,10 +32,26 @@ const logger = createLogger('QueryExecutor');
 /**
  * Result from querying a single shard
  */
-interface ShardQueryResult {
+export interface ShardQueryResult {
   shardId: string;
   results: Document[];
   total: number;
+  
+  // Partial aggregations of the shard's matching documents (aggregation
+  // queries only)
+  aggregations?: PartialAggregation[];
+  
+  // How the shard evaluates the query (explained queries only)
+  shardPlan?: ShardQueryPlan;
+  
+  // Work done by the shard to execute the query (profiled queries only)
+  work?: ShardWork;
+  
+  // Number of failed attempts that were retried, and time from the first
+  // attempt to the response
+  retries?: number;
+  totalMs?: number;
+  
   error?: Error;
 }
 
@@ -39,6 +67,10 @@ export interface ExecutionOptions {
   
   // Whether to continue execution if some shards fail
   continueOnError?: boolean;
+  
+  // Function to fetch the foreign documents of lookups (required to execute
+  // plans with lookups)
+  fetchLookup?: LookupFetcher;
 }
 
 /**
@@ -64,6 +96,7 @@ export async function executeQueryPlan(
   options: ExecutionOptions = {}
 ): Promise<QueryResult> {
   const execOptions = { ...DEFAULT_EXECUTION_OPTIONS, ...options };
+  const startedAt = Date.now();
   
   logger.debug('Executing query plan', { 
     collection: plan.collection,
@@ -72,10 +105,11 @@ export async function executeQueryPlan(
   });
   
   // Create a promise that rejects after the timeout
+  let timeoutId: number | undefined;
   const timeoutPromise = new Promise<never>((_, reject) => {
     if (execOptions.timeout) {
       // In Cloudflare Workers, we can just use setTimeout directly
-      const timeoutId = setTimeout(() => {
+      timeoutId = setTimeout(() => {
         reject(new ImpossibleDBError(
           ErrorCode.QUERY_TIMEOUT,
           `Query execution timed out after ${execOptions.timeout}ms`
@@ -85,22 +119,43 @@ export async function executeQueryPlan(
   });
   
   try {
-    // Execute the query on all shards
-    const shardResultsPromise = plan.parallel
-      ? executeParallel(plan.targets, fetchShardData, execOptions as Required<ExecutionOptions>)
-      : executeSequential(plan.targets, fetchShardData, execOptions as Required<ExecutionOptions>);
+    const shardResults: ShardQueryResult[] = [];
     
-    // Race against the timeout
-    const shardResults = await Promise.race([shardResultsPromise, timeoutPromise]);
+    // Execute the query on all shards, a batch of shards at a time if the
+    // plan is too expensive to execute at once
+    for (const batch of planBatches(plan)) {
+      const shardResultsPromise = plan.parallel
+        ? executeParallel(batch.targets, fetchShardData, execOptions as Required<ExecutionOptions>)
+        : executeSequential(batch.targets, fetchShardData, execOptions as Required<ExecutionOptions>);
+      
+      // Race against the timeout
+      shardResults.push(...await Promise.race([shardResultsPromise, timeoutPromise]));
+    }
+    
+    if (plan.options.explain) {
+      return explainResults(shardResults, plan);
+    }
     
     // Merge the results from all shards
-    return mergeResults(shardResults, plan);
+    const mergeStartedAt = Date.now();
+    const result = mergeResults(shardResults, plan);
+    
+    if (plan.lookups) {
+      result.results = await Promise.race([joinResults(result.results, plan, execOptions.fetchLookup), timeoutPromise]);
+    }
+    
+    if (plan.options.profile) {
+      result.profile = profileResults(shardResults, plan, startedAt, mergeStartedAt);
+    }
+    
+    return result;
   } catch (error) {
     logger.error('Error executing query plan', error as Error, {
       collection: plan.collection
     });
     
-    if ((error as ImpossibleDBError).code === ErrorCode.QUERY_TIMEOUT) {
+    // Timeouts and errors reported by the shards are passed through unchanged
+    if (error instanceof ImpossibleDBError) {
       throw error;
     }
     
@@ -109,7 +164,42 @@ export async function executeQueryPlan(
       'Error executing query',
       { originalError: (error as Error).message }
     );
+  } finally {
+    if (timeoutId !== undefined) {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Splits a plan whose cost exceeds MAX_QUERY_COST into batches of shards that
+ * are executed one after the other
+ * 
+ * @param plan The query plan to execute
+ * @returns The batches (the plan itself if it is not too expensive)
+ * @throws ImpossibleDBError with QUERY_TOO_EXPENSIVE if a single shard is too
+ *   expensive to query (explained queries are never rejected)
+ */
+function planBatches(plan: QueryPlan): QueryPlan[] {
+  if (!isQueryPlanTooExpensive(plan)) {
+    return [plan];
+  }
+  
+  const batches = splitQueryPlan(plan);
+  const cost = estimateQueryCost(plan);
+  
+  if (!plan.options.explain && batches.some(batch => isQueryPlanTooExpensive(batch))) {
+    logger.warn('Query plan rejected', { collection: plan.collection, cost });
+    throw new ImpossibleDBError(
+      ErrorCode.QUERY_TOO_EXPENSIVE,
+      `Query is too expensive to execute (estimated cost ${Math.round(cost)}, maximum ${MAX_QUERY_COST}); add selective filters or indexes`,
+      { cost, maxCost: MAX_QUERY_COST }
+    );
   }
+  
+  logger.debug('Executing query plan in batches', { collection: plan.collection, cost, batchCount: batches.length });
+  
+  return batches;
 }
 
 /**
@@ -138,12 +228,14 @@ async function executeParallel(
   // Process the results
   const shardResults: ShardQueryResult[] = [];
   let hasErrors = false;
+  let firstError: unknown;
   
   results.forEach((result, index) => {
     if (result.status === 'fulfilled') {
       shardResults.push(result.value);
     } else {
       hasErrors = true;
+      firstError = firstError ?? result.reason;
       logger.warn('Shard query failed', { 
         error: result.reason,
         shardId: targets[index].shardId
@@ -163,6 +255,10 @@ async function executeParallel(
   
   // If we have errors and continueOnError is false, throw an error
   if (hasErrors && !options.continueOnError) {
+    if (firstError instanceof ImpossibleDBError) {
+      throw firstError;
+    }
+    
     throw new ImpossibleDBError(
       ErrorCode.INTERNAL_ERROR,
       'One or more shard queries failed'
@@ -230,13 +326,21 @@ async function executeWithRetry(
   maxRetries: number
 ): Promise<ShardQueryResult> {
   let lastError: Error | undefined;
+  const startedAt = Date.now();
   
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      return await fetchShardData(target);
+      const result = await fetchShardData(target);
+      return { ...result, retries: attempt, totalMs: Date.now() - startedAt };
     } catch (error) {
       lastError = error as Error;
       
+      // Client errors (invalid query, unknown collection, ...) will fail the
+      // same way on every attempt, so they are not retried
+      if (error instanceof ImpossibleDBError && error.status < 500) {
+        break;
+      }
+      
       // If this was the last attempt, don't wait
       if (attempt === maxRetries) {
         break;
@@ -274,17 +378,11 @@ function mergeResults(shardResults: ShardQueryResult[], plan: QueryPlan): QueryR
     requiresMerge: plan.requiresMerge
   });
   
-  // If we don't need to merge results, just return the first shard's results
-  if (!plan.requiresMerge && shardResults.length === 1) {
-    const result = shardResults[0];
-    return {
-      results: result.results,
-      metadata: {
-        total: result.total,
-        limit: plan.options.limit || CONFIG.MAX_QUERY_RESULTS,
-        offset: plan.options.offset || 0
-      }
-    };
+  // Even a single shard result still goes through pagination and projection,
+  // since the offset and projection are never sent to the shards
+  
+  if (plan.aggregations) {
+    return mergeAggregations(shardResults, plan);
   }
   
   // Combine all results
@@ -296,56 +394,192 @@ function mergeResults(shardResults: ShardQueryResult[], plan: QueryPlan): QueryR
     totalResults += result.total;
   });
   
-  // Apply sorting if needed
-  if (plan.options.sort && plan.options.sort.length > 0) {
-    allResults = sortResults(allResults, plan.options.sort);
-  }
+  // Sort like the shards do, by the sort fields and then by ID, also when
+  // the query is not sorted: shards return the documents after a cursor in
+  // that order, so the merged page must end on its last document too.
+  // Queries with a search or a near filter are sorted by the `_score` or
+  // `_distance` the shards computed unless sorted otherwise, and nearest
+  // neighbor queries by `_score` (see parseQuery).
+  allResults = sortResults(allResults, plan.options.sort ?? []);
   
-  // Apply projection if needed
-  if (plan.projection && plan.projection.length > 0) {
-    allResults = applyProjection(allResults, plan.projection);
+  // Each shard returns its own nearest neighbors, the most similar of which
+  // are the nearest neighbors in the whole collection
+  if (plan.nearestNeighbors !== undefined) {
+    allResults = allResults.slice(0, plan.nearestNeighbors);
+    totalResults = Math.min(totalResults, plan.nearestNeighbors);
   }
   
   // Apply pagination
   const offset = plan.options.offset || 0;
   const limit = plan.options.limit || CONFIG.MAX_QUERY_RESULTS;
   
-  const paginatedResults = allResults.slice(offset, offset + limit);
+  let paginatedResults = allResults.slice(offset, offset + limit);
+  
+  // There may be more results after a full page if results were left over
+  // after it, or if a shard returned as many results as it was asked for.
+  // The cursor is taken before projection, which may drop the sort fields.
+  // Nearest neighbor queries are paginated with offsets instead.
+  const mayHaveMore = plan.nearestNeighbors === undefined && paginatedResults.length > 0 && paginatedResults.length === limit && (
+    allResults.length > offset + limit ||
+    shardResults.some(result => result.results.length >= shardLimit(plan, result.shardId))
+  );
+  const nextCursor = mayHaveMore
+    ? encodeCursor(paginatedResults[paginatedResults.length - 1], plan.options.sort)
+    : undefined;
+  
+  // Apply projection if needed (after pagination, so only the returned page is
+  // copied, and after lookups, which may join on fields it drops)
+  if (plan.projection && plan.projection.length > 0 && !plan.lookups) {
+    paginatedResults = applyProjection(paginatedResults, plan.projection);
+  }
   
   return {
     results: paginatedResults,
     metadata: {
       total: totalResults,
       limit,
-      offset
+      offset,
+      ...(nextCursor && { nextCursor })
     }
   };
 }
 
 /**
- * Sorts results according to the sort options
+ * Joins the documents of the lookups of a plan to the merged page of results,
+ * then applies the projection (which keeps the joined documents)
+ * 
+ * @param results The merged page of results
+ * @param plan The query plan that was executed
+ * @param fetchLookup Function to fetch the foreign documents of lookups
+ * @returns The results with the foreign documents embedded
+ */
+async function joinResults(results: Document[], plan: QueryPlan, fetchLookup?: LookupFetcher): Promise<Document[]> {
+  if (!fetchLookup) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Lookups are not supported by this executor'
+    );
+  }
+  
+  const lookups = plan.lookups!;
+  const joined = await applyLookups(results, lookups, fetchLookup);
+  
+  if (plan.projection && plan.projection.length > 0) {
+    return applyProjection(joined, [...plan.projection, ...lookups.map(lookup => lookup.as)]);
+  }
+  
+  return joined;
+}
+
+/**
+ * Merges the partial aggregations of the shards into the result of an
+ * aggregation query
+ * 
+ * @param shardResults Results from all shards
+ * @param plan The aggregation query plan that was executed
+ * @returns The aggregation results, without documents
+ */
+function mergeAggregations(shardResults: ShardQueryResult[], plan: QueryPlan): QueryResult {
+  const specs = plan.aggregations!;
+  const partials = mergePartialAggregations(
+    specs,
+    shardResults.filter(result => !result.error).map(result => result.aggregations || [])
+  );
+  
+  return {
+    results: [],
+    aggregations: finalizeAggregations(partials),
+    metadata: {
+      total: shardResults.reduce((total, result) => total + result.total, 0),
+      limit: plan.options.limit || CONFIG.MAX_QUERY_RESULTS,
+      offset: plan.options.offset || 0
+    }
+  };
+}
+
+/**
+ * Builds the result of an explained query from the plans of the shards
+ * 
+ * @param shardResults Results from all shards
+ * @param plan The query plan that was explained
+ * @returns The explanation, without documents
+ */
+function explainResults(shardResults: ShardQueryResult[], plan: QueryPlan): QueryResult {
+  return {
+    results: [],
+    metadata: {
+      total: 0,
+      limit: plan.options.limit || CONFIG.MAX_QUERY_RESULTS,
+      offset: plan.options.offset || 0
+    },
+    explain: {
+      plan,
+      cost: estimateQueryCost(plan),
+      shards: plan.targets.map(target => target.shardId),
+      shardPlans: shardResults
+        .filter(result => result.shardPlan)
+        .map(result => ({ shardId: result.shardId, ...result.shardPlan! }))
+    }
+  };
+}
+
+/**
+ * Builds the profile of an executed query
+ * 
+ * @param shardResults Results from all shards
+ * @param plan The query plan that was executed
+ * @param startedAt When the execution started
+ * @param mergeStartedAt When the merge of the shard results started
+ * @returns The profile
+ */
+function profileResults(
+  shardResults: ShardQueryResult[],
+  plan: QueryPlan,
+  startedAt: number,
+  mergeStartedAt: number
+): QueryProfile {
+  const now = Date.now();
+  
+  return {
+    cost: estimateQueryCost(plan),
+    durationMs: now - startedAt,
+    shards: shardResults
+      .filter(result => result.work)
+      .map(result => ({
+        shardId: result.shardId,
+        ...result.work!,
+        totalMs: result.totalMs ?? 0,
+        retries: result.retries ?? 0
+      })),
+    merge: {
+      documents: shardResults.reduce((documents, result) => documents + result.results.length, 0),
+      durationMs: now - mergeStartedAt
+    }
+  };
+}
+
+/**
+ * Gets the number of results a shard was asked for
+ * 
+ * @param plan The query plan that was executed
+ * @param shardId The shard
+ * @returns The shard's result limit
+ */
+function shardLimit(plan: QueryPlan, shardId: string): number {
+  const target = plan.targets.find(candidate => candidate.shardId === shardId);
+  return target?.options.limit || CONFIG.MAX_QUERY_RESULTS;
+}
+
+/**
+ * Sorts results according to the sort options, in the same order the
+ * shards return them
  * 
  * @param results The results to sort
  * @param sort The sort options
  * @returns Sorted results
  */
-function sortResults(
-  results: Document[],
-  sort: { field: string; direction: 'asc' | 'desc' }[]
-): Document[] {
-  return [...results].sort((a, b) => {
-    for (const { field, direction } of sort) {
-      const aValue = getNestedValue(a, field);
-      const bValue = getNestedValue(b, field);
-      
-      if (aValue === bValue) continue;
-      
-      const comparison = aValue < bValue ? -1 : 1;
-      return direction === 'asc' ? comparison : -comparison;
-    }
-    
-    return 0;
-  });
+function sortResults(results: Document[], sort: SortSpec[]): Document[] {
+  return [...results].sort((a, b) => compareDocuments(a, b, sort));
 }
 
 /**
@@ -362,7 +596,9 @@ function applyProjection(results: Document[], projection: string[]): Document[]
       _collection: doc._collection,
       _version: doc._version,
       _createdAt: doc._createdAt,
-      _updatedAt: doc._updatedAt
+      _updatedAt: doc._updatedAt,
+      ...(doc._score !== undefined && { _score: doc._score }),
+      ...(doc._distance !== undefined && { _distance: doc._distance })
     };
     
     // Add the projected fields
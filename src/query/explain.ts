@@ -0,0 +1,100 @@
+/**
+ * Query Explanation and Profiling
+ *
+ * This module defines what a query returns when it is explained or
+ * profiled. An explained query (`explain: true`) is planned but not
+ * executed: it returns the query plan, its estimated cost and how each
+ * shard would evaluate it. A profiled query (`profile: true`) is executed
+ * and returns, along with its results, where the time went: per-shard
+ * timings and retries, the documents each shard scanned and returned, and
+ * the cost of merging the shard results.
+ */
+
+import { QueryPlan } from './planner';
+
+/**
+ * How a shard evaluates its part of a query, as reported by the shard
+ */
+export interface ShardQueryPlan {
+  // Whether filters, sorting and pagination run in SQL (otherwise the
+  // documents of the collection are scanned and evaluated in memory)
+  pushedDown: boolean;
+  
+  // Secondary index SQLite uses for the query, if any
+  index?: string;
+  
+  // Steps of the SQLite query plan (EXPLAIN QUERY PLAN)
+  sqlPlan: string[];
+}
+
+/**
+ * How a targeted shard evaluates its part of a query
+ */
+export interface ShardExplanation extends ShardQueryPlan {
+  shardId: string;
+}
+
+/**
+ * Explanation of a query that was planned but not executed
+ */
+export interface QueryExplanation {
+  plan: QueryPlan;
+  
+  // Score of estimateQueryCost()
+  cost: number;
+  
+  // Shards the query targets
+  shards: string[];
+  
+  // How each targeted shard evaluates the query
+  shardPlans: ShardExplanation[];
+}
+
+/**
+ * Work done by a shard to execute its part of a query, as measured by the
+ * shard
+ */
+export interface ShardWork {
+  pushedDown: boolean;
+  index?: string;
+  
+  // Documents (or SQL rows) read, and documents returned
+  scanned: number;
+  returned: number;
+  
+  // Time spent executing the query in the shard
+  durationMs: number;
+}
+
+/**
+ * Profile of a shard's part of an executed query
+ */
+export interface ShardProfile extends ShardWork {
+  shardId: string;
+  
+  // Time from the first request to the shard to its response, as measured
+  // by the worker (including retries)
+  totalMs: number;
+  
+  // Number of failed attempts that were retried
+  retries: number;
+}
+
+/**
+ * Profile of an executed query
+ */
+export interface QueryProfile {
+  // Score of estimateQueryCost()
+  cost: number;
+  
+  // Total time of the query, as measured by the worker
+  durationMs: number;
+  
+  shards: ShardProfile[];
+  
+  // Work done to merge, sort, paginate and project the shard results
+  merge: {
+    documents: number;
+    durationMs: number;
+  };
+}
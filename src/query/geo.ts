@@ -0,0 +1,451 @@
+/**
+ * Geospatial Queries
+ *
+ * This module implements the geospatial filter operators on GeoJSON points
+ * (`{ type: 'Point', coordinates: [longitude, latitude] }`):
+ *
+ * - 'near': points within an optional distance (in meters) of a point;
+ *   queries sort their results by increasing distance, which shards return
+ *   in the `_distance` field
+ * - 'within_radius': points within a distance (in meters) of a point
+ * - 'within_box': points within a box given by its south-west and
+ *   north-east corners
+ * - 'within_polygon': points within a polygon given by its vertices
+ *
+ * Distances are great-circle distances on a spherical Earth. Boxes and the
+ * edges of polygons follow meridians and parallels as straight lines in
+ * longitude and latitude, which is accurate for areas the size of a city.
+ *
+ * Geospatial indexes store the geohash of each point: the cell of a grid
+ * subdividing longitudes and latitudes in turn that contains it, named so
+ * that the cells containing a cell share its name as prefix. A filter is
+ * looked up in the index with the few cells covering its bounding box, and
+ * the points found are then checked exactly.
+ */
+
+import { Document, ErrorCode, QueryFilter, QueryFilterNode, QueryOperator } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { CONFIG } from '../config';
+import { getNestedValue, SortSpec } from './compare';
+
+/**
+ * Longitude and latitude of a point, in degrees
+ */
+export type GeoPoint = [number, number];
+
+/**
+ * Area between two longitudes and two latitudes
+ */
+export interface GeoBox {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+/**
+ * Value of a near filter
+ */
+export interface NearFilterValue {
+  point: GeoPoint;
+  
+  // Maximum distance in meters, if any
+  maxDistance?: number;
+}
+
+/**
+ * Value of a within_radius filter
+ */
+export interface RadiusFilterValue {
+  center: GeoPoint;
+  
+  // Distance in meters
+  radius: number;
+}
+
+/**
+ * The geospatial filter operators
+ */
+export const GEO_OPERATORS: QueryOperator[] = ['near', 'within_box', 'within_polygon', 'within_radius'];
+
+/**
+ * Order of the results of a near filter unless a query sorts them otherwise:
+ * by increasing distance, which shards return in the `_distance` field
+ */
+export const DISTANCE_SORT: SortSpec[] = [{ field: '_distance', direction: 'asc' }];
+
+/**
+ * Mean radius of the Earth in meters
+ */
+const EARTH_RADIUS = 6371008.8;
+
+/**
+ * Characters of geohashes, each encoding 5 bits
+ */
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/**
+ * Box covering the whole Earth
+ */
+const WORLD: GeoBox = { minLng: -180, minLat: -90, maxLng: 180, maxLat: 90 };
+
+/**
+ * Gets the coordinates of a GeoJSON point
+ *
+ * @param value A field value
+ * @returns The longitude and latitude of the point, or undefined if the value
+ *   is not a valid GeoJSON point
+ */
+export function pointOf(value: any): GeoPoint | undefined {
+  if (!value || typeof value !== 'object' || value.type !== 'Point') {
+    return undefined;
+  }
+  
+  return isPoint(value.coordinates) ? [value.coordinates[0], value.coordinates[1]] : undefined;
+}
+
+/**
+ * Validates the value of a geospatial filter
+ *
+ * @param operator The operator of the filter
+ * @param value The value of the filter
+ * @throws ImpossibleDBError with INVALID_QUERY if the value is invalid
+ */
+export function validateGeoFilterValue(operator: QueryOperator, value: any): void {
+  const invalid = (expected: string) => new ImpossibleDBError(
+    ErrorCode.INVALID_QUERY,
+    `The value of a '${operator}' filter must be ${expected}`
+  );
+  
+  switch (operator) {
+    case 'near':
+      if (!value || !isPoint(value.point) || (value.maxDistance !== undefined && !isDistance(value.maxDistance))) {
+        throw invalid('an object with a point ([longitude, latitude]) and an optional maxDistance in meters');
+      }
+      break;
+    case 'within_radius':
+      if (!value || !isPoint(value.center) || !isDistance(value.radius)) {
+        throw invalid('an object with a center ([longitude, latitude]) and a radius in meters');
+      }
+      break;
+    case 'within_box':
+      if (!Array.isArray(value) || value.length !== 2 || !isPoint(value[0]) || !isPoint(value[1])
+        || value[0][0] > value[1][0] || value[0][1] > value[1][1]) {
+        throw invalid('the south-west and north-east corners of a box ([[longitude, latitude], [longitude, latitude]])');
+      }
+      break;
+    case 'within_polygon':
+      if (!Array.isArray(value) || value.length < 3 || value.length > CONFIG.MAX_POLYGON_VERTICES || !value.every(isPoint)) {
+        throw invalid(`an array of 3 to ${CONFIG.MAX_POLYGON_VERTICES} vertices ([longitude, latitude])`);
+      }
+      break;
+  }
+}
+
+/**
+ * Checks whether the value of a field matches a geospatial filter
+ *
+ * @param operator The operator of the filter
+ * @param fieldValue The field value
+ * @param value The value of the filter
+ */
+export function matchesGeo(operator: QueryOperator, fieldValue: any, value: any): boolean {
+  const point = pointOf(fieldValue);
+  if (!point) {
+    return false;
+  }
+  
+  switch (operator) {
+    case 'near':
+      return value.maxDistance === undefined || distance(point, value.point) <= value.maxDistance;
+    case 'within_radius':
+      return distance(point, value.center) <= value.radius;
+    case 'within_box':
+      return point[0] >= value[0][0] && point[0] <= value[1][0] && point[1] >= value[0][1] && point[1] <= value[1][1];
+    case 'within_polygon':
+      return insidePolygon(point, value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Computes the great-circle distance between two points
+ *
+ * @param a First point
+ * @param b Second point
+ * @returns The distance in meters
+ */
+export function distance(a: GeoPoint, b: GeoPoint): number {
+  const lat1 = toRadians(a[1]);
+  const lat2 = toRadians(b[1]);
+  const sinLat = Math.sin((lat2 - lat1) / 2);
+  const sinLng = Math.sin(toRadians(b[0] - a[0]) / 2);
+  const h = sinLat * sinLat + Math.cos(lat1) * Math.cos(lat2) * sinLng * sinLng;
+  
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Gets the distance of a document from the point of a near filter
+ *
+ * @param document The document
+ * @param filter The near filter
+ * @returns The distance in meters, or undefined if the field of the filter
+ *   is not a point
+ */
+export function distanceTo(document: Document, filter: QueryFilter): number | undefined {
+  const point = pointOf(getNestedValue(document, filter.field));
+  
+  return point && distance(point, (filter.value as NearFilterValue).point);
+}
+
+/**
+ * Computes the geohash of a point
+ *
+ * @param point The point
+ * @param precision Number of characters of the geohash
+ * @returns The geohash
+ */
+export function geohash([lng, lat]: GeoPoint, precision: number): string {
+  const ranges = [[-180, 180], [-90, 90]];
+  let hash = '';
+  let bits = 0;
+  let character = 0;
+  
+  // Bits alternate between longitude (even bits) and latitude (odd bits)
+  for (let bit = 0; hash.length < precision; bit++) {
+    const range = ranges[bit % 2];
+    const coordinate = bit % 2 === 0 ? lng : lat;
+    const middle = (range[0] + range[1]) / 2;
+    
+    character *= 2;
+    if (coordinate >= middle) {
+      character++;
+      range[0] = middle;
+    } else {
+      range[1] = middle;
+    }
+    
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET[character];
+      bits = 0;
+      character = 0;
+    }
+  }
+  
+  return hash;
+}
+
+/**
+ * Gets the geohash cells covering the points a geospatial filter can match:
+ * the cells of the longest geohashes that cover its bounding boxes with at
+ * most CONFIG.MAX_GEO_COVERING_CELLS cells
+ *
+ * @param filter The geospatial filter
+ * @returns The geohashes of the cells, which points match by prefix (the
+ *   empty geohash covers every point)
+ */
+export function coveringCells(filter: QueryFilter): string[] {
+  const boxes = boundingBoxes(filter);
+  let cells = [''];
+  
+  // Longer geohashes need more cells to cover the same boxes
+  for (let precision = 1; precision <= CONFIG.GEO_CELL_PRECISION; precision++) {
+    const covering = boxes.map(box => cellsCovering(box, precision, CONFIG.MAX_GEO_COVERING_CELLS));
+    const distinct = new Set(covering.flatMap(boxCells => boxCells ?? []));
+    if (covering.some(boxCells => boxCells === undefined) || distinct.size > CONFIG.MAX_GEO_COVERING_CELLS) {
+      break;
+    }
+    cells = [...distinct];
+  }
+  
+  return cells;
+}
+
+/**
+ * Finds the geospatial filter of a query that an index can look up: its
+ * near filter if it has one, otherwise its first top-level geospatial
+ * filter. Queries are sorted by the distance from a single point, so they
+ * can have at most one near filter, among their top-level filters.
+ *
+ * @param filters The filters of the query
+ * @returns The filter, or undefined if there is none
+ * @throws ImpossibleDBError with INVALID_QUERY if the query has several near
+ *   filters, or one nested in a group
+ */
+export function findGeoFilter(filters: QueryFilterNode[]): QueryFilter | undefined {
+  const geoFilters = filters.filter(
+    (node): node is QueryFilter => 'field' in node && GEO_OPERATORS.includes(node.operator)
+  );
+  const nearFilters = geoFilters.filter(filter => filter.operator === 'near');
+  
+  if (nearFilters.length > 1) {
+    throw new ImpossibleDBError(ErrorCode.INVALID_QUERY, 'A query can have at most one near filter');
+  }
+  
+  if (filters.some(node => !('field' in node) && containsNear(node))) {
+    throw new ImpossibleDBError(ErrorCode.INVALID_QUERY, 'Near filters cannot be nested in and, or or not groups');
+  }
+  
+  return nearFilters[0] ?? geoFilters[0];
+}
+
+/**
+ * Checks whether a filter or a group of filters contains a near filter
+ */
+function containsNear(node: QueryFilterNode): boolean {
+  if ('and' in node) {
+    return node.and.some(containsNear);
+  }
+  
+  if ('or' in node) {
+    return node.or.some(containsNear);
+  }
+  
+  if ('not' in node) {
+    return containsNear(node.not);
+  }
+  
+  return node.operator === 'near';
+}
+
+/**
+ * Gets boxes covering the points a geospatial filter can match, split at the
+ * antimeridian
+ */
+function boundingBoxes(filter: QueryFilter): GeoBox[] {
+  const { operator, value } = filter;
+  
+  switch (operator) {
+    case 'near':
+      return value.maxDistance === undefined ? [WORLD] : circleBoxes(value.point, value.maxDistance);
+    case 'within_radius':
+      return circleBoxes(value.center, value.radius);
+    case 'within_box':
+      return [{ minLng: value[0][0], minLat: value[0][1], maxLng: value[1][0], maxLat: value[1][1] }];
+    case 'within_polygon': {
+      const vertices = value as GeoPoint[];
+      return [{
+        minLng: Math.min(...vertices.map(vertex => vertex[0])),
+        minLat: Math.min(...vertices.map(vertex => vertex[1])),
+        maxLng: Math.max(...vertices.map(vertex => vertex[0])),
+        maxLat: Math.max(...vertices.map(vertex => vertex[1]))
+      }];
+    }
+    default:
+      return [WORLD];
+  }
+}
+
+/**
+ * Gets boxes covering the points within a distance of a point
+ */
+function circleBoxes([lng, lat]: GeoPoint, radius: number): GeoBox[] {
+  const latDelta = toDegrees(radius / EARTH_RADIUS);
+  const minLat = lat - latDelta;
+  const maxLat = lat + latDelta;
+  
+  // Circles containing a pole contain every longitude
+  if (minLat <= -90 || maxLat >= 90) {
+    return [{ minLng: -180, minLat: Math.max(minLat, -90), maxLng: 180, maxLat: Math.min(maxLat, 90) }];
+  }
+  
+  const lngDelta = toDegrees(Math.asin(Math.min(1, Math.sin(radius / EARTH_RADIUS) / Math.cos(toRadians(lat)))));
+  const minLng = lng - lngDelta;
+  const maxLng = lng + lngDelta;
+  
+  if (lngDelta >= 180) {
+    return [{ minLng: -180, minLat, maxLng: 180, maxLat }];
+  }
+  
+  if (minLng < -180) {
+    return [{ minLng: minLng + 360, minLat, maxLng: 180, maxLat }, { minLng: -180, minLat, maxLng, maxLat }];
+  }
+  
+  if (maxLng > 180) {
+    return [{ minLng, minLat, maxLng: 180, maxLat }, { minLng: -180, minLat, maxLng: maxLng - 360, maxLat }];
+  }
+  
+  return [{ minLng, minLat, maxLng, maxLat }];
+}
+
+/**
+ * Gets the geohashes of the cells of a precision covering a box
+ *
+ * @returns The geohashes, or undefined if there are more than `max`
+ */
+function cellsCovering(box: GeoBox, precision: number, max: number): string[] | undefined {
+  const lngBits = Math.ceil(precision * 5 / 2);
+  const latBits = Math.floor(precision * 5 / 2);
+  const width = 360 / 2 ** lngBits;
+  const height = 180 / 2 ** latBits;
+  
+  const column = (lng: number) => Math.min(Math.floor((lng + 180) / width), 2 ** lngBits - 1);
+  const row = (lat: number) => Math.min(Math.floor((lat + 90) / height), 2 ** latBits - 1);
+  const [firstColumn, lastColumn] = [column(box.minLng), column(box.maxLng)];
+  const [firstRow, lastRow] = [row(box.minLat), row(box.maxLat)];
+  
+  if ((lastColumn - firstColumn + 1) * (lastRow - firstRow + 1) > max) {
+    return undefined;
+  }
+  
+  const cells: string[] = [];
+  for (let x = firstColumn; x <= lastColumn; x++) {
+    for (let y = firstRow; y <= lastRow; y++) {
+      cells.push(geohash([-180 + (x + 0.5) * width, -90 + (y + 0.5) * height], precision));
+    }
+  }
+  
+  return cells;
+}
+
+/**
+ * Checks whether a point is inside a polygon (or on its boundary), with the
+ * even-odd rule
+ */
+function insidePolygon([lng, lat]: GeoPoint, vertices: GeoPoint[]): boolean {
+  let inside = false;
+  
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [lngI, latI] = vertices[i];
+    const [lngJ, latJ] = vertices[j];
+    
+    // Points on an edge are inside
+    const cross = (lngJ - lngI) * (lat - latI) - (latJ - latI) * (lng - lngI);
+    if (cross === 0 && lng >= Math.min(lngI, lngJ) && lng <= Math.max(lngI, lngJ)
+      && lat >= Math.min(latI, latJ) && lat <= Math.max(latI, latJ)) {
+      return true;
+    }
+    
+    if ((latI > lat) !== (latJ > lat) && lng < (lngJ - lngI) * (lat - latI) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  
+  return inside;
+}
+
+/**
+ * Checks whether a value is a [longitude, latitude] pair
+ */
+function isPoint(value: any): value is GeoPoint {
+  return Array.isArray(value) && value.length === 2
+    && typeof value[0] === 'number' && value[0] >= -180 && value[0] <= 180
+    && typeof value[1] === 'number' && value[1] >= -90 && value[1] <= 90;
+}
+
+/**
+ * Checks whether a value is a distance in meters
+ */
+function isDistance(value: any): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+function toDegrees(radians: number): number {
+  return radians * 180 / Math.PI;
+}
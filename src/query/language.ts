@@ -0,0 +1,563 @@
+/**
+ * Query Language
+ *
+ * This module parses a small SQL-like query language into the structures the
+ * rest of the query system works with: a ParsedQuery (filters, projection,
+ * sorting and pagination) and aggregation specifications.
+ *
+ *   SELECT name, age FROM users
+ *   WHERE age > 30 AND (city = 'NYC' OR vip = true)
+ *   ORDER BY age DESC
+ *   LIMIT 20 OFFSET 40
+ *
+ * - Keywords are case-insensitive. Fields use dot notation, and names that
+ *   are keywords or contain other characters are quoted: "order" or `order`.
+ * - Strings are single-quoted ('it''s'); the other literals are numbers,
+ *   true, false and null.
+ * - Conditions: =, != (or <>), >, >=, <, <=, [NOT] IN (...), [NOT] LIKE
+ *   (with % and _ wildcards, case-sensitive), CONTAINS, IS [NOT] NULL, and
+ *   conditions combined with AND, OR, NOT and parentheses.
+ * - The select list is *, fields (the projection) and the aggregates
+ *   COUNT(*), COUNT(field), SUM, AVG, MIN and MAX. GROUP BY adds a group by
+ *   aggregation, and the fields selected with it must be grouped fields.
+ *
+ * Syntax errors are reported as INVALID_QUERY errors whose details give the
+ * position (offset, line and column) of the offending token.
+ */
+
+import { ErrorCode, QueryFilter, QueryFilterNode, QueryOptions } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { createLogger } from '../utils/logger';
+import { AggregationOperation, AggregationSpec } from './aggregator';
+import { ParsedQuery, parseQuery } from './parser';
+
+const logger = createLogger('QueryLanguage');
+
+/**
+ * A query parsed from text
+ */
+export interface TextQuery {
+  query: ParsedQuery;
+  aggregations: AggregationSpec[];
+}
+
+/**
+ * Position of a token in the query text
+ */
+export interface TextPosition {
+  // Offset of the first character (0-based)
+  offset: number;
+  
+  // Line and column of the first character (1-based)
+  line: number;
+  column: number;
+}
+
+type TokenType = 'keyword' | 'identifier' | 'number' | 'string' | 'symbol' | 'end';
+
+interface Token {
+  type: TokenType;
+  
+  // Keywords are upper case, quoted identifiers and strings are unquoted
+  value: string;
+  
+  // Offsets of the first character and after the last character
+  offset: number;
+  end: number;
+}
+
+const KEYWORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'ORDER', 'BY', 'ASC', 'DESC', 'LIMIT', 'OFFSET',
+  'AND', 'OR', 'NOT', 'IN', 'LIKE', 'CONTAINS', 'IS', 'NULL', 'TRUE', 'FALSE'
+]);
+
+const AGGREGATES: Record<string, AggregationOperation> = {
+  COUNT: AggregationOperation.COUNT,
+  SUM: AggregationOperation.SUM,
+  AVG: AggregationOperation.AVG,
+  MIN: AggregationOperation.MIN,
+  MAX: AggregationOperation.MAX
+};
+
+const COMPARISONS: Record<string, QueryFilter['operator']> = {
+  '=': '=',
+  '!=': '!=',
+  '<>': '!=',
+  '>': '>',
+  '>=': '>=',
+  '<': '<',
+  '<=': '<='
+};
+
+/**
+ * Parses a query written in the query language
+ *
+ * @param text The query
+ * @returns The parsed query and its aggregations
+ * @throws ImpossibleDBError with INVALID_QUERY if the query is invalid
+ */
+export function parseTextQuery(text: string): TextQuery {
+  if (typeof text !== 'string' || text.trim() === '') {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Query text is required'
+    );
+  }
+  
+  logger.debug('Parsing text query', { length: text.length });
+  return new TextQueryParser(text).parse();
+}
+
+/**
+ * Computes the line and column of an offset in a text
+ *
+ * @param text The text
+ * @param offset The offset
+ * @returns The position
+ */
+export function textPosition(text: string, offset: number): TextPosition {
+  const lines = text.slice(0, offset).split('\n');
+  return { offset, line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Recursive descent parser of a single query
+ */
+class TextQueryParser {
+  private readonly tokens: Token[];
+  private index = 0;
+  
+  constructor(private readonly text: string) {
+    this.tokens = tokenize(text);
+  }
+  
+  parse(): TextQuery {
+    this.expectKeyword('SELECT');
+    const selected = this.parseSelectList();
+    
+    this.expectKeyword('FROM');
+    const collection = this.expectIdentifier('a collection name');
+    
+    let filters: QueryFilterNode[] = [];
+    if (this.acceptKeyword('WHERE')) {
+      const condition = this.parseOr();
+      filters = 'and' in condition ? condition.and : [condition];
+    }
+    
+    let groupBy: string[] | undefined;
+    if (this.acceptKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      groupBy = this.parseList(() => this.parseField());
+    }
+    
+    const options: QueryOptions = {};
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      options.sort = this.parseList(() => {
+        const field = this.parseField();
+        if (this.acceptKeyword('DESC')) {
+          return { field, direction: 'desc' as const };
+        }
+        
+        this.acceptKeyword('ASC');
+        return { field, direction: 'asc' as const };
+      });
+    }
+    
+    if (this.acceptKeyword('LIMIT')) {
+      options.limit = this.parseCount('a limit');
+    }
+    
+    if (this.acceptKeyword('OFFSET')) {
+      options.offset = this.parseCount('an offset');
+    }
+    
+    this.acceptSymbol(';');
+    if (this.peek().type !== 'end') {
+      this.fail('the end of the query');
+    }
+    
+    const aggregations = selected.aggregations;
+    const projection = selected.fields;
+    
+    if (groupBy) {
+      aggregations.push({ operation: AggregationOperation.GROUP_BY, groupBy });
+    }
+    
+    if (aggregations.length > 0 && projection) {
+      const ungrouped = projection.find(field => !groupBy?.includes(field));
+      if (ungrouped) {
+        throw new ImpossibleDBError(
+          ErrorCode.INVALID_QUERY,
+          `Field '${ungrouped}' must appear in GROUP BY to be selected with aggregates`
+        );
+      }
+    }
+    
+    return {
+      query: parseQuery(collection, filters, projection, options, aggregations),
+      aggregations
+    };
+  }
+  
+  /**
+   * Parses the select list: * or fields and aggregates
+   */
+  private parseSelectList(): { fields?: string[]; aggregations: AggregationSpec[] } {
+    if (this.acceptSymbol('*')) {
+      return { aggregations: [] };
+    }
+    
+    const fields: string[] = [];
+    const aggregations: AggregationSpec[] = [];
+    
+    this.parseList(() => {
+      const token = this.peek();
+      const operation = token.type === 'identifier' ? AGGREGATES[token.value.toUpperCase()] : undefined;
+      
+      if (operation && this.peek(1).value === '(' && this.peek(1).type === 'symbol') {
+        this.index += 2;
+        
+        if (operation === AggregationOperation.COUNT && this.acceptSymbol('*')) {
+          aggregations.push({ operation });
+        } else {
+          aggregations.push({ operation, field: this.parseField() });
+        }
+        
+        this.expectSymbol(')');
+      } else {
+        fields.push(this.parseField());
+      }
+    });
+    
+    return { fields: fields.length > 0 ? fields : undefined, aggregations };
+  }
+  
+  /**
+   * Parses conditions combined with OR
+   */
+  private parseOr(): QueryFilterNode {
+    const conditions = [this.parseAnd()];
+    while (this.acceptKeyword('OR')) {
+      conditions.push(this.parseAnd());
+    }
+    
+    return conditions.length === 1 ? conditions[0] : { or: conditions };
+  }
+  
+  /**
+   * Parses conditions combined with AND
+   */
+  private parseAnd(): QueryFilterNode {
+    const conditions = [this.parseNot()];
+    while (this.acceptKeyword('AND')) {
+      conditions.push(this.parseNot());
+    }
+    
+    return conditions.length === 1 ? conditions[0] : { and: conditions };
+  }
+  
+  /**
+   * Parses a condition, possibly negated or in parentheses
+   */
+  private parseNot(): QueryFilterNode {
+    if (this.acceptKeyword('NOT')) {
+      return { not: this.parseNot() };
+    }
+    
+    if (this.acceptSymbol('(')) {
+      const condition = this.parseOr();
+      this.expectSymbol(')');
+      return condition;
+    }
+    
+    return this.parsePredicate();
+  }
+  
+  /**
+   * Parses a condition on a field
+   */
+  private parsePredicate(): QueryFilterNode {
+    const field = this.parseField();
+    const token = this.peek();
+    
+    if (token.type === 'symbol' && COMPARISONS[token.value]) {
+      this.index++;
+      return { field, operator: COMPARISONS[token.value], value: this.parseLiteral() };
+    }
+    
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { field, operator: negated ? '!=' : '=', value: null };
+    }
+    
+    if (this.acceptKeyword('CONTAINS')) {
+      return { field, operator: 'contains', value: this.parseLiteral() };
+    }
+    
+    const negated = this.acceptKeyword('NOT');
+    
+    if (this.acceptKeyword('IN')) {
+      this.expectSymbol('(');
+      const values = this.parseList(() => this.parseLiteral());
+      this.expectSymbol(')');
+      return { field, operator: negated ? 'not_in' : 'in', value: values };
+    }
+    
+    if (this.acceptKeyword('LIKE')) {
+      const pattern = this.peek();
+      if (pattern.type !== 'string') {
+        this.fail('a LIKE pattern string');
+      }
+      this.index++;
+      
+      const filter = likeFilter(field, pattern.value);
+      return negated ? { not: filter } : filter;
+    }
+    
+    return this.fail(negated ? 'IN or LIKE' : 'a comparison operator, IN, LIKE, CONTAINS or IS');
+  }
+  
+  /**
+   * Parses a literal value
+   */
+  private parseLiteral(): any {
+    const token = this.peek();
+    
+    if (token.type === 'string') {
+      this.index++;
+      return token.value;
+    }
+    
+    if (token.type === 'number') {
+      this.index++;
+      return Number(token.value);
+    }
+    
+    if (token.type === 'symbol' && token.value === '-' && this.peek(1).type === 'number') {
+      this.index += 2;
+      return -Number(this.tokens[this.index - 1].value);
+    }
+    
+    if (token.type === 'keyword' && ['TRUE', 'FALSE', 'NULL'].includes(token.value)) {
+      this.index++;
+      return token.value === 'NULL' ? null : token.value === 'TRUE';
+    }
+    
+    return this.fail('a value');
+  }
+  
+  /**
+   * Parses a field path: identifiers separated by dots
+   */
+  private parseField(): string {
+    const segments = [this.expectIdentifier('a field name')];
+    while (this.acceptSymbol('.')) {
+      segments.push(this.expectIdentifier('a field name'));
+    }
+    
+    return segments.join('.');
+  }
+  
+  /**
+   * Parses a non-negative integer
+   */
+  private parseCount(description: string): number {
+    const token = this.peek();
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) {
+      this.fail(description);
+    }
+    
+    this.index++;
+    return Number(token.value);
+  }
+  
+  /**
+   * Parses a comma-separated list of items
+   */
+  private parseList<T>(parseItem: () => T): T[] {
+    const items = [parseItem()];
+    while (this.acceptSymbol(',')) {
+      items.push(parseItem());
+    }
+    
+    return items;
+  }
+  
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+  }
+  
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'keyword' && token.value === keyword) {
+      this.index++;
+      return true;
+    }
+    
+    return false;
+  }
+  
+  private acceptSymbol(symbol: string): boolean {
+    const token = this.peek();
+    if (token.type === 'symbol' && token.value === symbol) {
+      this.index++;
+      return true;
+    }
+    
+    return false;
+  }
+  
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      this.fail(keyword);
+    }
+  }
+  
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      this.fail(`'${symbol}'`);
+    }
+  }
+  
+  private expectIdentifier(description: string): string {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      this.fail(description);
+    }
+    
+    this.index++;
+    return token.value;
+  }
+  
+  /**
+   * Throws a syntax error at the current token
+   */
+  private fail(expected: string): never {
+    const token = this.peek();
+    const found = token.type === 'end' ? 'the end of the query' : `'${this.text.slice(token.offset, token.end)}'`;
+    throw syntaxError(this.text, token.offset, `expected ${expected} but found ${found}`);
+  }
+}
+
+/**
+ * Splits a query into tokens
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  
+  while (offset < text.length) {
+    const rest = text.slice(offset);
+    
+    const whitespace = /^(?:\s+|--[^\n]*)/.exec(rest);
+    if (whitespace) {
+      offset += whitespace[0].length;
+      continue;
+    }
+    
+    const word = /^[A-Za-z_$][\w$]*/.exec(rest);
+    if (word) {
+      const upper = word[0].toUpperCase();
+      tokens.push(KEYWORDS.has(upper)
+        ? { type: 'keyword', value: upper, offset, end: offset + word[0].length }
+        : { type: 'identifier', value: word[0], offset, end: offset + word[0].length });
+      offset += word[0].length;
+      continue;
+    }
+    
+    const number = /^\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], offset, end: offset + number[0].length });
+      offset += number[0].length;
+      continue;
+    }
+    
+    if (rest[0] === "'" || rest[0] === '"' || rest[0] === '`') {
+      const quote = rest[0];
+      let value = '';
+      let end = 1;
+      
+      for (;;) {
+        if (end >= rest.length) {
+          throw syntaxError(text, offset, quote === "'" ? 'unterminated string' : 'unterminated quoted name');
+        }
+        
+        if (rest[end] === quote) {
+          // A doubled quote stands for the quote itself
+          if (rest[end + 1] !== quote) {
+            break;
+          }
+          end++;
+        }
+        
+        value += rest[end];
+        end++;
+      }
+      
+      if (quote !== "'" && value === '') {
+        throw syntaxError(text, offset, 'quoted names cannot be empty');
+      }
+      
+      tokens.push({ type: quote === "'" ? 'string' : 'identifier', value, offset, end: offset + end + 1 });
+      offset += end + 1;
+      continue;
+    }
+    
+    const symbol = /^(?:<>|!=|>=|<=|[=<>(),.*;-])/.exec(rest);
+    if (symbol) {
+      tokens.push({ type: 'symbol', value: symbol[0], offset, end: offset + symbol[0].length });
+      offset += symbol[0].length;
+      continue;
+    }
+    
+    throw syntaxError(text, offset, `unexpected character '${rest[0]}'`);
+  }
+  
+  tokens.push({ type: 'end', value: '', offset: text.length, end: text.length });
+  return tokens;
+}
+
+/**
+ * Converts a LIKE pattern into the equivalent filter
+ */
+function likeFilter(field: string, pattern: string): QueryFilter {
+  const literal = /^[^%_]*$/;
+  const inner = pattern.slice(1, -1);
+  
+  if (literal.test(pattern)) {
+    return { field, operator: '=', value: pattern };
+  }
+  
+  if (pattern.endsWith('%') && literal.test(pattern.slice(0, -1))) {
+    return { field, operator: 'starts_with', value: pattern.slice(0, -1) };
+  }
+  
+  if (pattern.startsWith('%') && literal.test(pattern.slice(1))) {
+    return { field, operator: 'ends_with', value: pattern.slice(1) };
+  }
+  
+  if (pattern.length >= 2 && pattern.startsWith('%') && pattern.endsWith('%') && literal.test(inner)) {
+    return { field, operator: 'contains', value: inner };
+  }
+  
+  const regex = pattern
+    .split('')
+    .map(char => char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[\\^$.*+?()[\]{}|/]/g, '\\$&'))
+    .join('');
+  
+  return { field, operator: 'regex', value: { pattern: `^${regex}$`, flags: 's' } };
+}
+
+/**
+ * Creates a syntax error at an offset of the query
+ */
+function syntaxError(text: string, offset: number, message: string): ImpossibleDBError {
+  const position = textPosition(text, offset);
+  return new ImpossibleDBError(
+    ErrorCode.INVALID_QUERY,
+    `Syntax error at line ${position.line}, column ${position.column}: ${message}`,
+    { position }
+  );
+}
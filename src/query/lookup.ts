@@ -0,0 +1,147 @@
+/**
+ * Lookups
+ *
+ * This module implements the lookup stage of queries, which joins the
+ * documents of other collections to the results of a query (like `$lookup`
+ * in MongoDB), so that clients do not have to fetch related documents one by
+ * one.
+ *
+ * Lookups run in the worker on the page of results the query returns. The
+ * values the results join on are deduplicated, and the foreign documents
+ * matching them are fetched in batches: one request per shard holding them,
+ * whatever the number of results. A lookup can join on at most
+ * CONFIG.MAX_LOOKUP_KEYS distinct values.
+ */
+
+import { Document, ErrorCode, QueryLookup } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { validateCollectionName } from '../utils/validation';
+import { CONFIG } from '../config';
+import { getNestedValue } from './compare';
+
+/**
+ * Function fetching the documents of the collection of a lookup whose foreign
+ * field equals one of the given values
+ */
+export type LookupFetcher = (lookup: QueryLookup, keys: any[]) => Promise<Document[]>;
+
+/**
+ * Validates the lookups of a query
+ *
+ * @param lookups The lookups
+ * @throws ImpossibleDBError with INVALID_QUERY if a lookup is invalid
+ */
+export function validateLookups(lookups: any): void {
+  if (!Array.isArray(lookups)) {
+    throw invalidLookup('Lookups must be an array');
+  }
+  
+  if (lookups.length > CONFIG.MAX_LOOKUPS) {
+    throw invalidLookup(`A query cannot have more than ${CONFIG.MAX_LOOKUPS} lookups`);
+  }
+  
+  const names = new Set<string>();
+  
+  for (const lookup of lookups) {
+    if (!lookup || typeof lookup !== 'object') {
+      throw invalidLookup('Lookup must be an object');
+    }
+    
+    try {
+      validateCollectionName(lookup.from);
+    } catch (error) {
+      throw invalidLookup(`Invalid lookup collection: ${(error as Error).message}`);
+    }
+    
+    for (const key of ['localField', 'foreignField'] as const) {
+      if (!lookup[key] || typeof lookup[key] !== 'string') {
+        throw invalidLookup(`Lookup ${key} must be a non-empty string`);
+      }
+    }
+    
+    // Results are embedded under a top-level field, which cannot replace a
+    // metadata field
+    if (typeof lookup.as !== 'string' || !/^[a-zA-Z][a-zA-Z0-9_]*$/.test(lookup.as)) {
+      throw invalidLookup('Lookup as must be a field name starting with a letter');
+    }
+    
+    if (names.has(lookup.as)) {
+      throw invalidLookup(`Two lookups cannot both be embedded as '${lookup.as}'`);
+    }
+    names.add(lookup.as);
+  }
+}
+
+/**
+ * Joins the documents of other collections to documents
+ *
+ * @param documents The documents (a page of query results)
+ * @param lookups The lookups
+ * @param fetch Function fetching the foreign documents of a lookup
+ * @returns Copies of the documents with the foreign documents embedded
+ * @throws ImpossibleDBError with QUERY_TOO_EXPENSIVE if a lookup joins on
+ *   more than CONFIG.MAX_LOOKUP_KEYS distinct values
+ */
+export async function applyLookups(
+  documents: Document[],
+  lookups: QueryLookup[],
+  fetch: LookupFetcher
+): Promise<Document[]> {
+  const joined = await Promise.all(lookups.map(async lookup => {
+    const keys = new Set<any>();
+    for (const document of documents) {
+      localKeys(document, lookup).forEach(key => keys.add(key));
+    }
+    
+    if (keys.size > CONFIG.MAX_LOOKUP_KEYS) {
+      throw new ImpossibleDBError(
+        ErrorCode.QUERY_TOO_EXPENSIVE,
+        `Lookup of ${lookup.from} joins on ${keys.size} values, more than ${CONFIG.MAX_LOOKUP_KEYS}; use a smaller limit`,
+        { lookup, keys: keys.size, maxKeys: CONFIG.MAX_LOOKUP_KEYS }
+      );
+    }
+    
+    // Foreign documents by the value of their foreign field
+    const matches = new Map<any, Document[]>();
+    const foreign = keys.size > 0 ? await fetch(lookup, [...keys]) : [];
+    for (const document of foreign) {
+      const key = getNestedValue(document, lookup.foreignField);
+      matches.set(key, [...(matches.get(key) || []), document]);
+    }
+    
+    return matches;
+  }));
+  
+  return documents.map(document => {
+    const result: Document = { ...document };
+    
+    lookups.forEach((lookup, position) => {
+      const matched = new Set<Document>();
+      for (const key of localKeys(document, lookup)) {
+        (joined[position].get(key) || []).forEach(match => matched.add(match));
+      }
+      result[lookup.as] = [...matched];
+    });
+    
+    return result;
+  });
+}
+
+/**
+ * Gets the values a document joins on: its local field, or the elements of
+ * its local field if it is an array (only strings, numbers and booleans can
+ * be joined on)
+ */
+function localKeys(document: Document, lookup: QueryLookup): any[] {
+  const value = getNestedValue(document, lookup.localField);
+  const values = Array.isArray(value) ? value : [value];
+  
+  return values.filter(key => typeof key === 'string' || typeof key === 'number' || typeof key === 'boolean');
+}
+
+/**
+ * Creates the error thrown for invalid lookups
+ */
+function invalidLookup(message: string): ImpossibleDBError {
+  return new ImpossibleDBError(ErrorCode.INVALID_QUERY, message);
+}
@@ -0,0 +1,256 @@
+/**
+ * Filter Matching
+ *
+ * This module evaluates query filters against documents in memory. It is the
+ * reference for the semantics of every filter operator: the SQL compiled for
+ * filters (see storage/sql.ts) must select exactly the documents this module
+ * matches, since a StorageObject falls back to it for queries it cannot
+ * compile.
+ *
+ * Comparisons are type-strict: 1 never equals '1' or true, range operators
+ * only match values of the same type as the filter value, and objects and
+ * arrays never compare equal to a filter value.
+ */
+
+import { ErrorCode, QueryFilter, QueryFilterGroup, QueryFilterNode, QueryOperator } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { CONFIG } from '../config';
+import { getNestedValue } from './compare';
+import { matchesText, searchTerms } from './text';
+import { matchesGeo } from './geo';
+import { isVector } from './vector';
+
+/**
+ * Every supported filter operator
+ */
+export const QUERY_OPERATORS: QueryOperator[] = [
+  '=', '!=', '>', '>=', '<', '<=',
+  'in', 'not_in', 'contains', 'starts_with', 'ends_with',
+  'exists', 'type', 'regex',
+  'size', 'all', 'elem_match', 'search',
+  'near', 'within_box', 'within_polygon', 'within_radius',
+  'nearest_neighbors'
+];
+
+/**
+ * Value types the `type` operator can test for
+ */
+export const VALUE_TYPES = ['string', 'number', 'boolean', 'null', 'array', 'object'] as const;
+
+/**
+ * Value type tested by the `type` operator
+ */
+export type ValueType = typeof VALUE_TYPES[number];
+
+/**
+ * Value of a `regex` filter: a pattern, or a pattern with flags
+ */
+export type RegexFilterValue = string | { pattern: string; flags?: string };
+
+/**
+ * Regular expressions of the regex filters evaluated so far
+ */
+const compiledRegexes = new WeakMap<QueryFilter, RegExp>();
+
+/**
+ * Terms of the search filters evaluated so far
+ */
+const analyzedSearches = new WeakMap<QueryFilter, string[]>();
+
+/**
+ * Checks whether a document matches all of the given filters
+ *
+ * @param document The document (or array element, for elem_match filters)
+ * @param filters The filters and groups of filters
+ * @returns Whether every filter matches
+ */
+export function matchesFilters(document: Record<string, any>, filters: QueryFilterNode[]): boolean {
+  return filters.every(filter => matchesFilterNode(document, filter));
+}
+
+/**
+ * Checks whether a document matches a filter or a group of filters
+ *
+ * @param document The document
+ * @param node The filter or group
+ * @returns Whether the filter or group matches
+ */
+export function matchesFilterNode(document: Record<string, any>, node: QueryFilterNode): boolean {
+  if (!isFilterGroup(node)) {
+    return matchesFilter(document, node);
+  }
+  
+  if ('and' in node) {
+    return matchesFilters(document, node.and);
+  }
+  
+  if ('or' in node) {
+    return node.or.some(filter => matchesFilterNode(document, filter));
+  }
+  
+  return !matchesFilterNode(document, node.not);
+}
+
+/**
+ * Checks whether a filter tree node is a group of filters
+ */
+export function isFilterGroup(node: QueryFilterNode): node is QueryFilterGroup {
+  return 'and' in node || 'or' in node || 'not' in node;
+}
+
+/**
+ * Checks whether a document matches a filter
+ *
+ * @param document The document
+ * @param filter The filter
+ * @returns Whether the filter matches
+ */
+export function matchesFilter(document: Record<string, any>, filter: QueryFilter): boolean {
+  const { operator, value } = filter;
+  const fieldValue = getNestedValue(document, filter.field);
+  
+  switch (operator) {
+    case '=': return fieldValue === value;
+    case '!=': return fieldValue !== value;
+    case '>': return isComparable(fieldValue, value) && fieldValue > value;
+    case '>=': return isComparable(fieldValue, value) && fieldValue >= value;
+    case '<': return isComparable(fieldValue, value) && fieldValue < value;
+    case '<=': return isComparable(fieldValue, value) && fieldValue <= value;
+    case 'in': return (value as any[]).some(item => fieldValue === item);
+    case 'not_in': return !(value as any[]).some(item => fieldValue === item);
+    case 'contains':
+      if (typeof fieldValue === 'string') {
+        return typeof value === 'string' && fieldValue.includes(value);
+      }
+      return Array.isArray(fieldValue) && fieldValue.some(item => item === value);
+    case 'starts_with': return typeof fieldValue === 'string' && fieldValue.startsWith(value);
+    case 'ends_with': return typeof fieldValue === 'string' && fieldValue.endsWith(value);
+    case 'exists': return (fieldValue !== undefined) === value;
+    case 'type': return valueType(fieldValue) === value;
+    case 'regex': return typeof fieldValue === 'string' && regexFor(filter).test(fieldValue);
+    case 'size': return Array.isArray(fieldValue) && fieldValue.length === value;
+    case 'all':
+      return Array.isArray(fieldValue) && (value as any[]).every(item => fieldValue.some(element => element === item));
+    case 'elem_match':
+      return Array.isArray(fieldValue) && fieldValue.some(element => isObject(element) && matchesFilters(element, value));
+    case 'search': return matchesText(fieldValue, searchTermsFor(filter));
+    case 'near':
+    case 'within_box':
+    case 'within_polygon':
+    case 'within_radius':
+      return matchesGeo(operator, fieldValue, value);
+    // The k most similar are picked from the documents matching every filter
+    case 'nearest_neighbors': return isVector(fieldValue, value.vector.length);
+    default: return false;
+  }
+}
+
+/**
+ * Compiles the pattern of a regex filter, rejecting patterns that could take
+ * exponential time to evaluate: patterns longer than CONFIG.MAX_REGEX_LENGTH,
+ * back-references, and quantified groups that contain quantifiers (such as
+ * `(a+)+`)
+ *
+ * @param value The filter value
+ * @returns The regular expression
+ * @throws ImpossibleDBError with INVALID_QUERY if the pattern is invalid or unsafe
+ */
+export function compileRegex(value: RegexFilterValue): RegExp {
+  const pattern = typeof value === 'string' ? value : value?.pattern;
+  const flags = typeof value === 'string' ? '' : value?.flags ?? '';
+  
+  if (typeof pattern !== 'string' || typeof flags !== 'string') {
+    throw invalidRegex('Regex filter value must be a pattern or an object with a pattern and flags');
+  }
+  
+  if (pattern.length > CONFIG.MAX_REGEX_LENGTH) {
+    throw invalidRegex(`Regex pattern cannot be longer than ${CONFIG.MAX_REGEX_LENGTH} characters`);
+  }
+  
+  if (!/^[imsu]*$/.test(flags)) {
+    throw invalidRegex('Regex flags can only include i, m, s and u');
+  }
+  
+  if (/\\[1-9]|\\k</.test(pattern)) {
+    throw invalidRegex('Regex patterns cannot use back-references');
+  }
+  
+  // A group (without nested groups) containing a quantifier, itself quantified
+  if (/\((?:[^()\\]|\\.)*(?:[+*]|\{\d+,\d*\})(?:[^()\\]|\\.)*\)(?:[+*]|\{\d+,\d*\})/.test(pattern)) {
+    throw invalidRegex('Regex patterns cannot repeat groups that contain repetitions');
+  }
+  
+  try {
+    return new RegExp(pattern, flags);
+  } catch (error) {
+    throw invalidRegex(`Invalid regex pattern: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Gets the type of a value as tested by the `type` operator
+ *
+ * @returns The type, or undefined for a missing value
+ */
+export function valueType(value: any): ValueType | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  
+  if (value === null) {
+    return 'null';
+  }
+  
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  
+  return typeof value as ValueType;
+}
+
+/**
+ * Checks whether two values can be compared with a range operator
+ */
+function isComparable(a: any, b: any): boolean {
+  return typeof a === typeof b && (typeof a === 'number' || typeof a === 'string');
+}
+
+/**
+ * Checks whether a value is an object (and not an array or null)
+ */
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Gets the regular expression of a regex filter, compiling it once
+ */
+function regexFor(filter: QueryFilter): RegExp {
+  let regex = compiledRegexes.get(filter);
+  if (!regex) {
+    regex = compileRegex(filter.value);
+    compiledRegexes.set(filter, regex);
+  }
+  
+  return regex;
+}
+
+/**
+ * Gets the terms of a search filter, analyzing its text once
+ */
+function searchTermsFor(filter: QueryFilter): string[] {
+  let terms = analyzedSearches.get(filter);
+  if (!terms) {
+    terms = searchTerms(filter.value);
+    analyzedSearches.set(filter, terms);
+  }
+  
+  return terms;
+}
+
+/**
+ * Creates the error thrown for invalid regex filters
+ */
+function invalidRegex(message: string): ImpossibleDBError {
+  return new ImpossibleDBError(ErrorCode.INVALID_QUERY, message);
+}
@@ -6,9 +6,17 @@
  * filters, projections, and options into a standardized internal representation.
  */
 
-import { QueryFilter, QueryOptions, ErrorCode } from '../types';
+import { QueryFilterNode, QueryLookup, QueryOptions, QueryOperator, ErrorCode } from '../types';
 import { ImpossibleDBError } from '../utils/errorHandler';
 import { createLogger } from '../utils/logger';
+import { validateQueryFilters } from '../utils/validation';
+import { decodeCursor } from './cursor';
+import { AggregationSpec, validateAggregations } from './aggregator';
+import { isFilterGroup } from './matcher';
+import { validateLookups } from './lookup';
+import { findSearchFilter, SCORE_SORT } from './text';
+import { DISTANCE_SORT, findGeoFilter } from './geo';
+import { findVectorFilter, NearestNeighborsFilterValue } from './vector';
 
 const logger = createLogger('QueryParser');
 
@@ -16,18 +24,29 @@ const logger = createLogger('QueryParser');
  * Supported query operators
  * These match the operators defined in the QueryFilter interface
  */
-export type QueryOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+export type { QueryOperator };
 
 /**
- * Extended query operators for future use
- * These will be implemented in a future version
+ * Query operators beyond the comparisons (see QueryOperator for their meaning)
  */
 export enum ExtendedQueryOperator {
   IN = 'in',
   NOT_IN = 'not_in',
   CONTAINS = 'contains',
   STARTS_WITH = 'starts_with',
-  ENDS_WITH = 'ends_with'
+  ENDS_WITH = 'ends_with',
+  EXISTS = 'exists',
+  TYPE = 'type',
+  REGEX = 'regex',
+  SIZE = 'size',
+  ALL = 'all',
+  ELEM_MATCH = 'elem_match',
+  SEARCH = 'search',
+  NEAR = 'near',
+  WITHIN_BOX = 'within_box',
+  WITHIN_POLYGON = 'within_polygon',
+  WITHIN_RADIUS = 'within_radius',
+  NEAREST_NEIGHBORS = 'nearest_neighbors'
 }
 
 /**
@@ -35,7 +54,10 @@ export enum ExtendedQueryOperator {
  */
 export enum LogicalOperator {
   AND = 'AND',
-  OR = 'OR'
+  OR = 'OR',
+  
+  // Negation of the conjunction of the conditions and sub-expressions
+  NOT = 'NOT'
 }
 
 /**
@@ -64,15 +86,22 @@ export interface ParsedQuery {
   expression: QueryExpression;
   projection?: string[];
   options: QueryOptions;
+  
+  // Aggregations computed over the matching documents, if any (the query
+  // then returns no documents)
+  aggregations?: AggregationSpec[];
+  
+  // Documents of other collections joined to the results, if any
+  lookups?: QueryLookup[];
 }
 
 /**
  * Parses query filters into a structured query expression
  * 
- * @param filters Array of query filters
+ * @param filters Array of query filters and groups of filters
  * @returns A structured query expression
  */
-export function parseFilters(filters: QueryFilter[]): QueryExpression {
+export function parseFilters(filters: QueryFilterNode[]): QueryExpression {
   logger.debug('Parsing query filters', { filterCount: filters.length });
   
   if (!filters || filters.length === 0) {
@@ -82,27 +111,44 @@ export function parseFilters(filters: QueryFilter[]): QueryExpression {
     };
   }
   
-  const conditions: QueryCondition[] = filters.map(filter => {
-    // Validate the operator
-    const validOperators: QueryOperator[] = ['=', '!=', '>', '>=', '<', '<='];
-    if (!validOperators.includes(filter.operator)) {
-      logger.warn('Invalid query operator', { operator: filter.operator });
-      throw new ImpossibleDBError(
-        ErrorCode.INVALID_QUERY,
-        `Invalid query operator: ${filter.operator}`
-      );
+  // Validate the filters, including the values their operators expect
+  try {
+    validateQueryFilters(filters);
+  } catch (error) {
+    logger.warn('Invalid query filters', { error: (error as Error).message });
+    throw error;
+  }
+  
+  return parseExpression(LogicalOperator.AND, filters);
+}
+
+/**
+ * Parses validated filters combined with a logical operator
+ */
+function parseExpression(logicalOperator: LogicalOperator, filters: QueryFilterNode[]): QueryExpression {
+  const conditions: QueryCondition[] = [];
+  const subExpressions: QueryExpression[] = [];
+  
+  for (const filter of filters) {
+    if (!isFilterGroup(filter)) {
+      conditions.push({
+        field: filter.field,
+        operator: filter.operator,
+        value: filter.value
+      });
+    } else if ('and' in filter) {
+      subExpressions.push(parseExpression(LogicalOperator.AND, filter.and));
+    } else if ('or' in filter) {
+      subExpressions.push(parseExpression(LogicalOperator.OR, filter.or));
+    } else {
+      subExpressions.push(parseExpression(LogicalOperator.NOT, [filter.not]));
     }
-    
-    return {
-      field: filter.field,
-      operator: filter.operator as QueryOperator,
-      value: filter.value
-    };
-  });
+  }
   
   return {
     conditions,
-    logicalOperator: LogicalOperator.AND
+    logicalOperator,
+    ...(subExpressions.length > 0 && { subExpressions })
   };
 }
 
@@ -113,13 +159,17 @@ export function parseFilters(filters: QueryFilter[]): QueryExpression {
  * @param filters Query filters
  * @param projection Fields to include in the results
  * @param options Query options (sorting, pagination)
+ * @param aggregations Aggregations to compute over the matching documents
+ * @param lookups Documents of other collections to join to the results
  * @returns A parsed query object
  */
 export function parseQuery(
   collection: string,
-  filters: QueryFilter[] = [],
+  filters: QueryFilterNode[] = [],
   projection?: string[],
-  options: QueryOptions = {}
+  options: QueryOptions = {},
+  aggregations?: AggregationSpec[],
+  lookups?: QueryLookup[]
 ): ParsedQuery {
   logger.debug('Parsing query', { 
     collection, 
@@ -149,14 +199,102 @@ export function parseQuery(
     );
   }
   
+  // Searches are ranked by relevance and near filters sorted by distance
+  // unless sorted otherwise, and nearest neighbors are always ranked by
+  // similarity, so that the results of the shards are merged by score or by
+  // distance
+  if (!aggregations || aggregations.length === 0) {
+    const search = findSearchFilter(filters);
+    const near = findGeoFilter(filters)?.operator === 'near';
+    const nearest = findVectorFilter(filters);
+    
+    if (search && near) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'A query cannot have both a search filter and a near filter'
+      );
+    }
+    
+    if (nearest && (search || near)) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'A nearest_neighbors filter cannot be combined with a search filter or a near filter'
+      );
+    }
+    
+    if (nearest) {
+      options = nearestNeighborsOptions(options, (nearest.value as NearestNeighborsFilterValue).k);
+    } else if ((search || near) && !options.sort) {
+      options = { ...options, sort: search ? SCORE_SORT : DISTANCE_SORT };
+    }
+  } else if (findVectorFilter(filters)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Nearest_neighbors filters cannot be combined with aggregations'
+    );
+  }
+  
   // Validate options
   validateQueryOptions(options);
   
+  // Validate aggregations
+  if (aggregations !== undefined) {
+    validateAggregations(aggregations);
+  }
+  
+  // Validate lookups (aggregation queries return no documents to join to)
+  if (lookups !== undefined) {
+    validateLookups(lookups);
+    
+    if (lookups.length > 0 && aggregations && aggregations.length > 0) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'Lookups cannot be combined with aggregations'
+      );
+    }
+  }
+  
   return {
     collection,
     expression,
     projection,
-    options
+    options,
+    ...(aggregations && aggregations.length > 0 && { aggregations }),
+    ...(lookups && lookups.length > 0 && { lookups })
+  };
+}
+
+/**
+ * Gets the options of a query with a nearest_neighbors filter, which returns
+ * at most k documents ranked by similarity
+ * 
+ * @param options Query options
+ * @param k Number of nearest neighbors of the filter
+ * @returns The options, whose limit defaults to k and is at most k
+ * @throws ImpossibleDBError if the query is sorted otherwise or has a cursor
+ */
+function nearestNeighborsOptions(options: QueryOptions, k: number): QueryOptions {
+  const sort = options.sort;
+  if (sort !== undefined && !(sort.length === 1 && sort[0].field === '_score' && sort[0].direction === 'desc')) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Nearest neighbor queries are sorted by similarity and cannot be sorted otherwise'
+    );
+  }
+  
+  // Pages past the first k results of the merged shard results would hold
+  // documents that are not among the k nearest neighbors
+  if (options.after !== undefined) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Nearest neighbor queries are paginated with offsets, not cursors'
+    );
+  }
+  
+  return {
+    ...options,
+    sort: SCORE_SORT,
+    limit: typeof options.limit === 'number' ? Math.min(options.limit, k) : options.limit ?? k
   };
 }
 
@@ -217,6 +355,37 @@ function validateQueryOptions(options: QueryOptions): void {
       }
     }
   }
+  
+  // Validate cursor (it must come from a query with the same sort order)
+  if (options.after !== undefined) {
+    if (typeof options.after !== 'string') {
+      logger.warn('Invalid cursor option', { after: options.after });
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'Cursor must be a string'
+      );
+    }
+    
+    decodeCursor(options.after, options.sort);
+  }
+  
+  // Validate explain and profile (a query is either explained or executed)
+  for (const flag of ['explain', 'profile'] as const) {
+    if (options[flag] !== undefined && typeof options[flag] !== 'boolean') {
+      logger.warn(`Invalid ${flag} option`, { [flag]: options[flag] });
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        `The ${flag} option must be a boolean`
+      );
+    }
+  }
+  
+  if (options.explain && options.profile) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'A query cannot be both explained and profiled'
+    );
+  }
 }
 
 /**
@@ -224,14 +393,34 @@ function validateQueryOptions(options: QueryOptions): void {
  * (Useful for sending queries to storage objects)
  * 
  * @param expression Query expression to convert
- * @returns Array of query filters
+ * @returns Array of query filters and groups of filters, all of which must match
  */
-export function expressionToFilters(expression: QueryExpression): QueryFilter[] {
-  return expression.conditions.map(condition => ({
-    field: condition.field,
-    operator: condition.operator,
-    value: condition.value
-  }));
+export function expressionToFilters(expression: QueryExpression): QueryFilterNode[] {
+  const filters: QueryFilterNode[] = [
+    ...expression.conditions.map(condition => ({
+      field: condition.field,
+      operator: condition.operator,
+      value: condition.value
+    })),
+    ...(expression.subExpressions || []).map(expressionToFilter)
+  ];
+  
+  switch (expression.logicalOperator) {
+    case LogicalOperator.OR:
+      return [{ or: filters }];
+    case LogicalOperator.NOT:
+      return [{ not: filters.length === 1 ? filters[0] : { and: filters } }];
+    default:
+      return filters;
+  }
+}
+
+/**
+ * Converts a query expression to a single filter or group of filters
+ */
+function expressionToFilter(expression: QueryExpression): QueryFilterNode {
+  const filters = expressionToFilters(expression);
+  return filters.length === 1 ? filters[0] : { and: filters };
 }
 
 /**
@@ -241,13 +430,22 @@ export function expressionToFilters(expression: QueryExpression): QueryFilter[]
  * @returns String representation of the expression
  */
 export function stringifyExpression(expression: QueryExpression): string {
-  if (expression.conditions.length === 0) {
+  const subExpressions = expression.subExpressions || [];
+  
+  if (expression.conditions.length === 0 && subExpressions.length === 0) {
     return '(empty)';
   }
   
-  const conditionStrings = expression.conditions.map(condition => 
-    `${condition.field} ${condition.operator} ${JSON.stringify(condition.value)}`
-  );
+  const conditionStrings = [
+    ...expression.conditions.map(condition => 
+      `${condition.field} ${condition.operator} ${JSON.stringify(condition.value)}`
+    ),
+    ...subExpressions.map(subExpression => `(${stringifyExpression(subExpression)})`)
+  ];
+  
+  if (expression.logicalOperator === LogicalOperator.NOT) {
+    return `NOT ${conditionStrings.length === 1 ? conditionStrings[0] : `(${conditionStrings.join(' AND ')})`}`;
+  }
   
   return conditionStrings.join(` ${expression.logicalOperator} `);
 }
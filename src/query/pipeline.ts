@@ -0,0 +1,830 @@
+/**
+ * Aggregation Pipelines
+ *
+ * This module implements aggregation pipelines: sequences of stages that
+ * filter, reshape, unwind, group, sort and limit documents. Pipelines
+ * generalize the aggregations of the aggregator module, whose groupBy only
+ * returns one level of grouped values.
+ *
+ * Like aggregations, pipelines are computed where the documents are. A
+ * pipeline is split at its first stage that needs the documents of every
+ * shard: each shard runs the stages before it (its leading match stages in
+ * SQL when they can be compiled) and, if that stage groups or counts
+ * documents, reduces its documents to partial group states, which the worker
+ * merges like partial aggregations. The worker then runs the remaining
+ * stages on the merged groups or documents.
+ *
+ * Expressions (in addFields, project and group stages) are field references
+ * ('$field.path'), constants, arrays of expressions, or operators such as
+ * { add: ['$price', '$tax'] }; { literal: value } is a constant that is never
+ * evaluated, for strings starting with '$' or objects.
+ */
+
+import { Document, ErrorCode, QueryFilterNode } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { validateQueryFilters } from '../utils/validation';
+import { CONFIG } from '../config';
+import { compareDocuments, compareValues, getNestedValue, SortSpec } from './compare';
+import { matchesFilters, valueType } from './matcher';
+
+/**
+ * Expression evaluated against a document
+ */
+export type Expression = string | number | boolean | null | Expression[] | { [operator: string]: any };
+
+/**
+ * Accumulator computing a value over the documents of a group
+ */
+export type Accumulator =
+  | { count: true }
+  | { sum: Expression }
+  | { avg: Expression }
+  | { min: Expression }
+  | { max: Expression }
+  | { push: Expression }
+  | { addToSet: Expression };
+
+/**
+ * Group stage: documents are grouped by the values of the `by` expressions
+ * (all documents are in a single group if there are none), and each group is
+ * replaced by a document holding these values and the accumulated values
+ */
+export interface GroupStage {
+  by: Record<string, Expression>;
+  accumulators: Record<string, Accumulator>;
+}
+
+/**
+ * Stage of an aggregation pipeline
+ */
+export type PipelineStage =
+  // Keeps the documents matching filters
+  | { match: QueryFilterNode[] }
+  // Replaces documents by the given fields (true keeps a field as is)
+  | { project: Record<string, true | Expression> }
+  // Sets fields of documents to the values of expressions
+  | { addFields: Record<string, Expression> }
+  | { group: GroupStage }
+  // Keeps the groups matching filters (only after a group or count stage)
+  | { having: QueryFilterNode[] }
+  | { sort: SortSpec[] }
+  | { limit: number }
+  // Replaces documents by one copy per element of an array field
+  | { unwind: string }
+  // Replaces documents by a single document holding their count
+  | { count: string };
+
+/**
+ * A pipeline split between the shards and the worker
+ */
+export interface SplitPipeline {
+  // Filters of the leading match stages, which select the documents of the shards
+  filters: QueryFilterNode[];
+  
+  // Stages each shard runs on its documents
+  shardStages: PipelineStage[];
+  
+  // Group each shard reduces its documents to, if any
+  group?: GroupStage;
+  
+  // Stages the worker runs on the merged groups or documents
+  workerStages: PipelineStage[];
+}
+
+/**
+ * Partial state of a group, computed over the documents of one shard
+ */
+export interface PartialGroup {
+  // Values of the `by` expressions of the group
+  values: Record<string, any>;
+  
+  // State of each accumulator
+  states: Record<string, any>;
+}
+
+/**
+ * Result of the part of a pipeline a shard runs: its partial groups if the
+ * pipeline groups documents, otherwise its documents
+ */
+export interface ShardPipelineResult {
+  groups?: PartialGroup[];
+  documents?: Record<string, any>[];
+}
+
+/**
+ * Operators of expressions, with their minimum and maximum number of
+ * arguments
+ */
+const OPERATORS: Record<string, { arity: [number, number]; apply: (args: any[]) => any }> = {
+  add: { arity: [1, Infinity], apply: args => numeric(args, values => values.reduce((a, b) => a + b)) },
+  subtract: { arity: [2, 2], apply: args => numeric(args, ([a, b]) => a - b) },
+  multiply: { arity: [1, Infinity], apply: args => numeric(args, values => values.reduce((a, b) => a * b)) },
+  divide: { arity: [2, 2], apply: args => numeric(args, ([a, b]) => b !== 0 ? a / b : null) },
+  mod: { arity: [2, 2], apply: args => numeric(args, ([a, b]) => b !== 0 ? a % b : null) },
+  concat: { arity: [1, Infinity], apply: args => args.every(arg => typeof arg === 'string') ? args.join('') : null },
+  toLower: { arity: [1, 1], apply: ([value]) => typeof value === 'string' ? value.toLowerCase() : null },
+  toUpper: { arity: [1, 1], apply: ([value]) => typeof value === 'string' ? value.toUpperCase() : null },
+  eq: { arity: [2, 2], apply: ([a, b]) => equals(a, b) },
+  ne: { arity: [2, 2], apply: ([a, b]) => !equals(a, b) },
+  gt: { arity: [2, 2], apply: ([a, b]) => compareValues(a, b) > 0 },
+  gte: { arity: [2, 2], apply: ([a, b]) => compareValues(a, b) >= 0 },
+  lt: { arity: [2, 2], apply: ([a, b]) => compareValues(a, b) < 0 },
+  lte: { arity: [2, 2], apply: ([a, b]) => compareValues(a, b) <= 0 },
+  and: { arity: [1, Infinity], apply: args => args.every(truthy) },
+  or: { arity: [1, Infinity], apply: args => args.some(truthy) },
+  not: { arity: [1, 1], apply: ([value]) => !truthy(value) },
+  cond: { arity: [3, 3], apply: ([condition, then, otherwise]) => truthy(condition) ? then : otherwise },
+  ifNull: { arity: [2, 2], apply: ([value, replacement]) => value ?? replacement },
+  size: { arity: [1, 1], apply: ([value]) => Array.isArray(value) ? value.length : null }
+};
+
+/**
+ * Kinds of accumulators
+ */
+const ACCUMULATORS = ['count', 'sum', 'avg', 'min', 'max', 'push', 'addToSet'] as const;
+
+type AccumulatorKind = typeof ACCUMULATORS[number];
+
+/**
+ * Kinds of stages
+ */
+const STAGES = ['match', 'project', 'addFields', 'group', 'having', 'sort', 'limit', 'unwind', 'count'];
+
+/**
+ * Stages transforming documents one at a time, which shards can run
+ */
+const STREAMING_STAGES = ['match', 'project', 'addFields', 'unwind'];
+
+/**
+ * Name of the fields of group results
+ */
+const GROUP_FIELD_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Validates an aggregation pipeline
+ *
+ * @param stages The stages of the pipeline
+ * @throws ImpossibleDBError with INVALID_QUERY if the pipeline is invalid
+ */
+export function validatePipeline(stages: any): void {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    throw invalidPipeline('Pipeline must be a non-empty array of stages');
+  }
+  
+  if (stages.length > CONFIG.MAX_PIPELINE_STAGES) {
+    throw invalidPipeline(`Pipeline cannot have more than ${CONFIG.MAX_PIPELINE_STAGES} stages`);
+  }
+  
+  let grouped = false;
+  
+  for (const stage of stages) {
+    const keys = stage && typeof stage === 'object' ? Object.keys(stage) : [];
+    if (keys.length !== 1 || !STAGES.includes(keys[0])) {
+      throw invalidPipeline(`Pipeline stage must be an object with one of: ${STAGES.join(', ')}`);
+    }
+    
+    const [kind] = keys;
+    const value = stage[kind];
+    
+    switch (kind) {
+      case 'match':
+      case 'having':
+        if (kind === 'having' && !grouped) {
+          throw invalidPipeline('A having stage must follow a group or count stage');
+        }
+        validateQueryFilters(value);
+        break;
+      case 'project':
+      case 'addFields':
+        validateFieldExpressions(kind, value);
+        break;
+      case 'group':
+        validateGroup(value);
+        grouped = true;
+        break;
+      case 'sort':
+        if (!Array.isArray(value) || value.length === 0 || !value.every(spec =>
+          spec && isFieldPath(spec.field) && (spec.direction === 'asc' || spec.direction === 'desc'))) {
+          throw invalidPipeline('Sort stage must be a non-empty array of { field, direction } specifications');
+        }
+        break;
+      case 'limit':
+        if (!Number.isInteger(value) || value < 1) {
+          throw invalidPipeline('Limit stage must be a positive integer');
+        }
+        break;
+      case 'unwind':
+        if (!isFieldPath(value)) {
+          throw invalidPipeline('Unwind stage must be a field path');
+        }
+        break;
+      case 'count':
+        if (typeof value !== 'string' || !GROUP_FIELD_NAME.test(value)) {
+          throw invalidPipeline('Count stage must be the name of the count field');
+        }
+        grouped = true;
+        break;
+    }
+  }
+}
+
+/**
+ * Splits a pipeline between the shards and the worker, at its first stage
+ * that needs the documents of every shard
+ *
+ * A group or count stage is split in two: the shards compute partial groups,
+ * which the worker merges. A limit stage (and a sort stage followed by a
+ * limit stage) is run by both the shards and the worker, so that shards
+ * return no more documents than the worker needs.
+ *
+ * @param stages The stages of a valid pipeline
+ * @returns The split pipeline
+ */
+export function splitPipeline(stages: PipelineStage[]): SplitPipeline {
+  const filters: QueryFilterNode[] = [];
+  let position = 0;
+  
+  for (; position < stages.length && 'match' in stages[position]; position++) {
+    filters.push(...(stages[position] as { match: QueryFilterNode[] }).match);
+  }
+  
+  const start = position;
+  while (position < stages.length && STREAMING_STAGES.includes(stageKind(stages[position]))) {
+    position++;
+  }
+  
+  const shardStages = stages.slice(start, position);
+  const next = stages[position];
+  
+  if (next && ('group' in next || 'count' in next)) {
+    return { filters, shardStages, group: groupOf(next), workerStages: stages.slice(position + 1) };
+  }
+  
+  if (next && 'limit' in next) {
+    shardStages.push(next);
+  } else if (next && 'sort' in next && stages[position + 1] && 'limit' in stages[position + 1]) {
+    shardStages.push(next, stages[position + 1]);
+  }
+  
+  return { filters, shardStages, workerStages: stages.slice(position) };
+}
+
+/**
+ * Runs a whole pipeline on documents
+ *
+ * @param documents The documents
+ * @param stages The stages of a valid pipeline
+ * @returns The results of the pipeline
+ * @throws ImpossibleDBError with QUERY_TOO_EXPENSIVE if the pipeline returns
+ *   more than CONFIG.MAX_PIPELINE_DOCUMENTS documents
+ */
+export function runPipeline(documents: Iterable<Record<string, any>>, stages: PipelineStage[]): Record<string, any>[] {
+  return collect(runStages(documents, stages));
+}
+
+/**
+ * Runs the part of a pipeline a shard runs on its documents
+ *
+ * @param documents The documents of the shard matching the filters of the
+ *   split pipeline
+ * @param split The split pipeline
+ * @returns The partial groups or the documents of the shard
+ * @throws ImpossibleDBError with QUERY_TOO_EXPENSIVE if the shard would
+ *   return more than CONFIG.MAX_PIPELINE_DOCUMENTS documents
+ */
+export function runShardPipeline(documents: Iterable<Document>, split: SplitPipeline): ShardPipelineResult {
+  const output = runStages(documents, split.shardStages);
+  
+  if (split.group) {
+    return { groups: [...groupDocuments(output, split.group).values()] };
+  }
+  
+  return { documents: collect(output) };
+}
+
+/**
+ * Merges the results of the shards of a split pipeline and runs the stages
+ * of the worker on them
+ *
+ * @param split The split pipeline
+ * @param results The results of each shard
+ * @returns The results of the pipeline
+ * @throws ImpossibleDBError with QUERY_TOO_EXPENSIVE if the shards or the
+ *   pipeline return more than CONFIG.MAX_PIPELINE_DOCUMENTS documents
+ */
+export function mergeShardPipelines(split: SplitPipeline, results: ShardPipelineResult[]): Record<string, any>[] {
+  if (!split.group) {
+    return runPipeline(collect(results.flatMap(result => result.documents ?? [])), split.workerStages);
+  }
+  
+  const groups = new Map<string, PartialGroup>();
+  for (const result of results) {
+    for (const group of result.groups ?? []) {
+      const key = JSON.stringify(group.values);
+      const merged = groups.get(key);
+      
+      if (merged) {
+        for (const [name, accumulator] of Object.entries(split.group.accumulators)) {
+          merged.states[name] = mergeStates(accumulatorKind(accumulator), merged.states[name], group.states[name]);
+        }
+      } else {
+        addGroup(groups, key, { values: group.values, states: { ...group.states } });
+      }
+    }
+  }
+  
+  return runPipeline(finalizeGroups(groups, split.group), split.workerStages);
+}
+
+/**
+ * Evaluates an expression against a document
+ *
+ * @param expression A valid expression
+ * @param document The document
+ * @returns The value of the expression (undefined for missing fields)
+ */
+export function evaluateExpression(expression: Expression, document: Record<string, any>): any {
+  if (typeof expression === 'string') {
+    return expression.startsWith('$') ? getNestedValue(document, expression.slice(1)) : expression;
+  }
+  
+  if (expression === null || typeof expression !== 'object') {
+    return expression;
+  }
+  
+  if (Array.isArray(expression)) {
+    return expression.map(element => evaluateExpression(element, document));
+  }
+  
+  const [[operator, argument]] = Object.entries(expression);
+  if (operator === 'literal') {
+    return argument;
+  }
+  
+  const args = (Array.isArray(argument) ? argument : [argument]).map(arg => evaluateExpression(arg, document));
+  return OPERATORS[operator].apply(args);
+}
+
+/**
+ * Runs stages on documents, lazily: documents flow through the stages one at
+ * a time, except through the stages that need all of them (group, count and
+ * sort)
+ */
+function runStages(documents: Iterable<Record<string, any>>, stages: PipelineStage[]): Iterable<Record<string, any>> {
+  return stages.reduce((input, stage) => runStage(input, stage), documents);
+}
+
+/**
+ * Runs one stage on documents
+ */
+function runStage(input: Iterable<Record<string, any>>, stage: PipelineStage): Iterable<Record<string, any>> {
+  if ('match' in stage) {
+    return filter(input, document => matchesFilters(document, stage.match));
+  }
+  
+  if ('having' in stage) {
+    return filter(input, document => matchesFilters(document, stage.having));
+  }
+  
+  if ('project' in stage) {
+    return map(input, document => Object.entries(stage.project).reduce((projected, [field, expression]) => {
+      const value = expression === true ? getNestedValue(document, field) : evaluateExpression(expression, document);
+      return value !== undefined ? withField(projected, field, value) : projected;
+    }, {}));
+  }
+  
+  if ('addFields' in stage) {
+    return map(input, document => Object.entries(stage.addFields).reduce(
+      (result, [field, expression]) => withField(result, field, evaluateExpression(expression, document)),
+      document
+    ));
+  }
+  
+  if ('unwind' in stage) {
+    return unwind(input, stage.unwind);
+  }
+  
+  if ('sort' in stage) {
+    return collect(input).sort((a, b) => compareDocuments(a, b, stage.sort));
+  }
+  
+  if ('limit' in stage) {
+    return take(input, stage.limit);
+  }
+  
+  const group = groupOf(stage);
+  return finalizeGroups(groupDocuments(input, group), group);
+}
+
+/**
+ * Gets the group a group or count stage computes (a count stage counts the
+ * documents of a single group)
+ */
+function groupOf(stage: PipelineStage): GroupStage {
+  return 'count' in stage ? { by: {}, accumulators: { [stage.count]: { count: true } } } : (stage as { group: GroupStage }).group;
+}
+
+/**
+ * Computes the partial groups of documents
+ */
+function groupDocuments(documents: Iterable<Record<string, any>>, group: GroupStage): Map<string, PartialGroup> {
+  const groups = new Map<string, PartialGroup>();
+  const accumulators = Object.entries(group.accumulators);
+  
+  for (const document of documents) {
+    const values: Record<string, any> = {};
+    for (const [name, expression] of Object.entries(group.by)) {
+      values[name] = evaluateExpression(expression, document) ?? null;
+    }
+    
+    const key = JSON.stringify(values);
+    let partial = groups.get(key);
+    if (!partial) {
+      partial = { values, states: {} };
+      for (const [name, accumulator] of accumulators) {
+        partial.states[name] = initialState(accumulatorKind(accumulator));
+      }
+      addGroup(groups, key, partial);
+    }
+    
+    for (const [name, accumulator] of accumulators) {
+      const kind = accumulatorKind(accumulator);
+      const value = kind === 'count' ? undefined : evaluateExpression((accumulator as Record<string, Expression>)[kind], document);
+      partial.states[name] = accumulate(kind, partial.states[name], value);
+    }
+  }
+  
+  return groups;
+}
+
+/**
+ * Computes the results of partial groups: documents holding the grouped
+ * values and accumulated values of each group
+ *
+ * Like SQL aggregates, a group without `by` expressions has a result even if
+ * there are no documents.
+ */
+function finalizeGroups(groups: Map<string, PartialGroup>, group: GroupStage): Record<string, any>[] {
+  const accumulators = Object.entries(group.accumulators);
+  const partials = [...groups.values()];
+  
+  if (partials.length === 0 && Object.keys(group.by).length === 0) {
+    partials.push({
+      values: {},
+      states: Object.fromEntries(accumulators.map(([name, accumulator]) => [name, initialState(accumulatorKind(accumulator))]))
+    });
+  }
+  
+  return partials.map(partial => {
+    const result: Record<string, any> = { ...partial.values };
+    for (const [name, accumulator] of accumulators) {
+      result[name] = finalState(accumulatorKind(accumulator), partial.states[name]);
+    }
+    return result;
+  });
+}
+
+/**
+ * Adds a group to partial groups
+ */
+function addGroup(groups: Map<string, PartialGroup>, key: string, group: PartialGroup): void {
+  if (groups.size >= CONFIG.MAX_AGGREGATION_GROUPS) {
+    throw invalidPipeline(`A group stage cannot have more than ${CONFIG.MAX_AGGREGATION_GROUPS} groups`);
+  }
+  
+  groups.set(key, group);
+}
+
+/**
+ * Gets the state of an accumulator over no documents
+ */
+function initialState(kind: AccumulatorKind): any {
+  switch (kind) {
+    case 'count':
+    case 'sum':
+      return 0;
+    case 'avg':
+      return { sum: 0, count: 0 };
+    case 'min':
+    case 'max':
+      return null;
+    case 'push':
+    case 'addToSet':
+      return [];
+  }
+}
+
+/**
+ * Adds the value of a document to the state of an accumulator
+ *
+ * Like aggregations, sum and avg only accumulate numbers; min and max ignore
+ * missing and null values.
+ */
+function accumulate(kind: AccumulatorKind, state: any, value: any): any {
+  switch (kind) {
+    case 'count':
+      return state + 1;
+    case 'sum':
+      return typeof value === 'number' ? state + value : state;
+    case 'avg':
+      return typeof value === 'number' ? { sum: state.sum + value, count: state.count + 1 } : state;
+    case 'min':
+    case 'max':
+      return value === undefined || value === null ? state : mergeStates(kind, state, value);
+    case 'push':
+    case 'addToSet':
+      return value === undefined ? state : appendValues(kind, state, [value]);
+  }
+}
+
+/**
+ * Merges the states of an accumulator over different documents
+ */
+function mergeStates(kind: AccumulatorKind, a: any, b: any): any {
+  switch (kind) {
+    case 'count':
+    case 'sum':
+      return a + b;
+    case 'avg':
+      return { sum: a.sum + b.sum, count: a.count + b.count };
+    case 'min':
+    case 'max':
+      if (a === null || b === null) {
+        return a ?? b;
+      }
+      return (compareValues(b, a) < 0) === (kind === 'min') ? b : a;
+    case 'push':
+    case 'addToSet':
+      return appendValues(kind, [...a], b);
+  }
+}
+
+/**
+ * Appends values to the state of a push accumulator, or the values it does
+ * not hold yet to the state of an addToSet accumulator
+ */
+function appendValues(kind: 'push' | 'addToSet', state: any[], values: any[]): any[] {
+  for (const value of values) {
+    if (kind === 'push' || !state.some(other => equals(other, value))) {
+      if (state.length >= CONFIG.MAX_PIPELINE_ARRAY_VALUES) {
+        throw invalidPipeline(`A ${kind} accumulator cannot collect more than ${CONFIG.MAX_PIPELINE_ARRAY_VALUES} values per group`);
+      }
+      state.push(value);
+    }
+  }
+  
+  return state;
+}
+
+/**
+ * Gets the value of an accumulator from its state
+ */
+function finalState(kind: AccumulatorKind, state: any): any {
+  return kind === 'avg' ? (state.count > 0 ? state.sum / state.count : null) : state;
+}
+
+/**
+ * Gets the kind of an accumulator
+ */
+function accumulatorKind(accumulator: Accumulator): AccumulatorKind {
+  return Object.keys(accumulator)[0] as AccumulatorKind;
+}
+
+/**
+ * Gets the kind of a stage
+ */
+function stageKind(stage: PipelineStage): string {
+  return Object.keys(stage)[0];
+}
+
+/**
+ * Keeps the documents satisfying a predicate
+ */
+function* filter(documents: Iterable<Record<string, any>>, predicate: (document: Record<string, any>) => boolean) {
+  for (const document of documents) {
+    if (predicate(document)) {
+      yield document;
+    }
+  }
+}
+
+/**
+ * Transforms documents
+ */
+function* map(documents: Iterable<Record<string, any>>, transform: (document: Record<string, any>) => Record<string, any>) {
+  for (const document of documents) {
+    yield transform(document);
+  }
+}
+
+/**
+ * Keeps the first documents
+ */
+function* take(documents: Iterable<Record<string, any>>, count: number) {
+  if (count <= 0) {
+    return;
+  }
+  
+  for (const document of documents) {
+    yield document;
+    if (--count === 0) {
+      return;
+    }
+  }
+}
+
+/**
+ * Replaces documents by one copy per element of an array field; documents
+ * whose field is missing or an empty array are dropped, and documents whose
+ * field is not an array are kept as they are
+ */
+function* unwind(documents: Iterable<Record<string, any>>, field: string) {
+  for (const document of documents) {
+    const value = getNestedValue(document, field);
+    
+    if (Array.isArray(value)) {
+      for (const element of value) {
+        yield withField(document, field, element);
+      }
+    } else if (value !== undefined && value !== null) {
+      yield document;
+    }
+  }
+}
+
+/**
+ * Collects documents into an array
+ */
+function collect(documents: Iterable<Record<string, any>>): Record<string, any>[] {
+  const collected: Record<string, any>[] = [];
+  
+  for (const document of documents) {
+    if (collected.length >= CONFIG.MAX_PIPELINE_DOCUMENTS) {
+      throw new ImpossibleDBError(
+        ErrorCode.QUERY_TOO_EXPENSIVE,
+        `Pipeline stages cannot handle more than ${CONFIG.MAX_PIPELINE_DOCUMENTS} documents; add match, group or limit stages`,
+        { maxDocuments: CONFIG.MAX_PIPELINE_DOCUMENTS }
+      );
+    }
+    collected.push(document);
+  }
+  
+  return collected;
+}
+
+/**
+ * Copies a document with a field (possibly nested) set to a value, without
+ * modifying the document
+ */
+function withField(document: Record<string, any>, path: string, value: any): Record<string, any> {
+  const [head, ...rest] = path.split('.');
+  const parent = document[head];
+  
+  return {
+    ...document,
+    [head]: rest.length === 0
+      ? value
+      : withField(parent && typeof parent === 'object' && !Array.isArray(parent) ? parent : {}, rest.join('.'), value)
+  };
+}
+
+/**
+ * Applies an arithmetic operation to numbers (null if an argument is not a
+ * number)
+ */
+function numeric(args: any[], operation: (values: number[]) => number | null): number | null {
+  return args.every(arg => typeof arg === 'number') ? operation(args) : null;
+}
+
+/**
+ * Compares two values for equality, strictly by type like filters
+ */
+function equals(a: any, b: any): boolean {
+  return valueType(a ?? null) === valueType(b ?? null) && compareValues(a, b) === 0;
+}
+
+/**
+ * Converts a value to a boolean: false, 0, null and missing values are false
+ */
+function truthy(value: any): boolean {
+  return value !== false && value !== 0 && value !== null && value !== undefined;
+}
+
+/**
+ * Checks whether a value is a field path
+ */
+function isFieldPath(value: any): boolean {
+  return typeof value === 'string' && value !== '' && !value.startsWith('$') && !value.split('.').includes('');
+}
+
+/**
+ * Validates the fields and expressions of a project or addFields stage
+ */
+function validateFieldExpressions(kind: 'project' | 'addFields', fields: any): void {
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields) || Object.keys(fields).length === 0) {
+    throw invalidPipeline(`${kind} stage must be a non-empty object of fields`);
+  }
+  
+  for (const [field, expression] of Object.entries(fields)) {
+    if (!isFieldPath(field)) {
+      throw invalidPipeline(`Invalid ${kind} field: ${field}`);
+    }
+    
+    // In a project stage, true keeps a field and other constants are written
+    // as literals
+    if (kind === 'project' && typeof expression === 'boolean' && !expression) {
+      throw invalidPipeline(`project field ${field} must be true or an expression (use { literal: false } for the constant)`);
+    }
+    
+    if (!(kind === 'project' && expression === true)) {
+      validateExpression(expression);
+    }
+  }
+}
+
+/**
+ * Validates a group stage
+ */
+function validateGroup(group: any): void {
+  if (!group || typeof group !== 'object' || !group.by || typeof group.by !== 'object' || Array.isArray(group.by) ||
+      !group.accumulators || typeof group.accumulators !== 'object' || Array.isArray(group.accumulators) ||
+      Object.keys(group.accumulators).length === 0) {
+    throw invalidPipeline('Group stage must have a by object of expressions and a non-empty accumulators object');
+  }
+  
+  for (const [name, expression] of Object.entries(group.by)) {
+    if (!GROUP_FIELD_NAME.test(name)) {
+      throw invalidPipeline(`Invalid group field: ${name}`);
+    }
+    validateExpression(expression);
+  }
+  
+  for (const [name, accumulator] of Object.entries<any>(group.accumulators)) {
+    if (!GROUP_FIELD_NAME.test(name) || name in group.by) {
+      throw invalidPipeline(`Invalid accumulator name: ${name}`);
+    }
+    
+    const keys = accumulator && typeof accumulator === 'object' ? Object.keys(accumulator) : [];
+    if (keys.length !== 1 || !(ACCUMULATORS as readonly string[]).includes(keys[0])) {
+      throw invalidPipeline(`Accumulator must be an object with one of: ${ACCUMULATORS.join(', ')}`);
+    }
+    
+    if (keys[0] === 'count') {
+      if (accumulator.count !== true) {
+        throw invalidPipeline('The count accumulator must be { count: true }');
+      }
+    } else {
+      validateExpression(accumulator[keys[0]]);
+    }
+  }
+}
+
+/**
+ * Validates an expression
+ */
+function validateExpression(expression: any, depth = 0): void {
+  if (depth > CONFIG.MAX_EXPRESSION_DEPTH) {
+    throw invalidPipeline(`Expressions cannot be nested more than ${CONFIG.MAX_EXPRESSION_DEPTH} levels deep`);
+  }
+  
+  if (typeof expression === 'string') {
+    if (expression.startsWith('$') && !isFieldPath(expression.slice(1))) {
+      throw invalidPipeline(`Invalid field reference: ${expression}`);
+    }
+    return;
+  }
+  
+  if (expression === null || typeof expression === 'boolean' || (typeof expression === 'number' && Number.isFinite(expression))) {
+    return;
+  }
+  
+  if (Array.isArray(expression)) {
+    expression.forEach(element => validateExpression(element, depth + 1));
+    return;
+  }
+  
+  const keys = expression && typeof expression === 'object' ? Object.keys(expression) : [];
+  if (keys.length !== 1 || (keys[0] !== 'literal' && !(keys[0] in OPERATORS))) {
+    throw invalidPipeline(`Expression operator must be one of: literal, ${Object.keys(OPERATORS).join(', ')}`);
+  }
+  
+  const [operator] = keys;
+  if (operator === 'literal') {
+    return;
+  }
+  
+  const args = Array.isArray(expression[operator]) ? expression[operator] : [expression[operator]];
+  const [min, max] = OPERATORS[operator].arity;
+  if (args.length < min || args.length > max) {
+    throw invalidPipeline(`The ${operator} operator takes ${min === max ? min : `at least ${min}`} argument${max === 1 ? '' : 's'}`);
+  }
+  
+  args.forEach((arg: any) => validateExpression(arg, depth + 1));
+}
+
+/**
+ * Creates the error thrown for invalid pipelines
+ */
+function invalidPipeline(message: string): ImpossibleDBError {
+  return new ImpossibleDBError(ErrorCode.INVALID_QUERY, message);
+}
@@ -3,13 +3,22 @@
  * 
  * This module is responsible for planning the execution of queries across multiple shards.
  * It determines which shards need to be queried and how to combine the results.
+ * 
+ * Plans are optimized with the statistics of the queried collection in each
+ * shard (see statistics.ts), which estimate how many documents each shard
+ * reads and returns. The estimates drive the cost of a plan, the secondary
+ * index each shard uses and the order in which filters are evaluated.
  */
 
 import { ParsedQuery, QueryExpression, expressionToFilters } from './parser';
-import { QueryFilter, QueryOptions, ErrorCode } from '../types';
+import { QueryFilterNode, QueryLookup, QueryOptions, ErrorCode } from '../types';
 import { ImpossibleDBError } from '../utils/errorHandler';
 import { createLogger } from '../utils/logger';
 import { CONFIG } from '../config';
+import { AggregationSpec } from './aggregator';
+import { chooseIndex, CollectionStatistics, estimateSelectivity, orderFilters } from './statistics';
+import { TextStatistics } from './text';
+import { findVectorFilter, NearestNeighborsFilterValue } from './vector';
 
 const logger = createLogger('QueryPlanner');
 
@@ -18,8 +27,25 @@ const logger = createLogger('QueryPlanner');
  */
 export interface ShardTarget {
   shardId: string;
-  filters: QueryFilter[];
+  filters: QueryFilterNode[];
   options: QueryOptions;
+  
+  // Aggregations the shard computes partially over its matching documents
+  aggregations?: AggregationSpec[];
+  
+  // Secondary index the shard should use, chosen from its statistics
+  index?: string;
+  
+  // Statistics of the searched terms over every shard, which the shard
+  // scores its documents with so that scores are comparable across shards
+  textStatistics?: TextStatistics;
+  
+  // Estimated number of documents the shard reads and matches, from its
+  // statistics
+  estimate?: {
+    scanned: number;
+    matches: number;
+  };
 }
 
 /**
@@ -43,6 +69,16 @@ export interface QueryPlan {
   
   // Original query options
   options: QueryOptions;
+  
+  // Aggregations merged from the partial aggregations of the shards, if any
+  aggregations?: AggregationSpec[];
+  
+  // Documents of other collections joined to the merged page of results
+  lookups?: QueryLookup[];
+  
+  // Number of documents of a nearest neighbor query, to which the merged
+  // results are limited
+  nearestNeighbors?: number;
 }
 
 /**
@@ -69,16 +105,50 @@ export function createQueryPlan(parsedQuery: ParsedQuery, shardIds: string[]): Q
   // Convert the query expression back to filters for each shard
   const filters = expressionToFilters(parsedQuery.expression);
   
+  // Shards aggregate all their matching documents, so sorting and
+  // pagination do not apply to aggregation queries
+  const { aggregations } = parsedQuery;
+  if (aggregations) {
+    const { explain, profile } = parsedQuery.options;
+    const options: QueryOptions = { ...(explain && { explain }), ...(profile && { profile }) };
+    
+    return {
+      collection: parsedQuery.collection,
+      targets: shardIds.map(shardId => ({ shardId, filters, options, aggregations })),
+      parallel: true,
+      requiresMerge: true,
+      options: parsedQuery.options,
+      aggregations
+    };
+  }
+  
+  // Each shard has to return enough results to cover the requested page once
+  // the results are merged, so the per-shard limit includes the offset. Shards
+  // return at most MAX_QUERY_RESULTS documents, so deeper pages need cursors.
+  // Pages without a limit hold up to MAX_QUERY_RESULTS results, as in the
+  // executor.
+  const { offset } = parsedQuery.options;
+  const limit = parsedQuery.options.limit || CONFIG.MAX_QUERY_RESULTS;
+  if ((offset || 0) + limit > CONFIG.MAX_QUERY_RESULTS) {
+    logger.warn('Query page out of range', { offset, limit });
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      `Offset plus limit cannot exceed ${CONFIG.MAX_QUERY_RESULTS}, use cursors (the after option) to page further`,
+      { offset, limit }
+    );
+  }
+  const shardLimit = (offset || 0) + limit;
+  
   // Create a target for each shard
   const targets: ShardTarget[] = shardIds.map(shardId => ({
     shardId,
     filters,
-    // Clone the options but remove limit/offset as we'll apply those after merging
+    // Clone the options but remove the offset as we'll apply it after merging.
+    // Shards sort their own results, so the first shardLimit results of each
+    // shard are enough to produce the final sorted page.
     options: {
       ...parsedQuery.options,
-      // If sorting is required, we need to get all results from each shard
-      // to perform the final sort across all shards
-      limit: parsedQuery.options.sort ? undefined : parsedQuery.options.limit,
+      limit: shardLimit,
       offset: undefined // Offset is applied after merging results
     }
   }));
@@ -91,45 +161,84 @@ export function createQueryPlan(parsedQuery: ParsedQuery, shardIds: string[]): Q
   // If we're querying multiple shards or using sorting, we need to merge
   const requiresMerge = targets.length > 1 || !!parsedQuery.options.sort;
   
+  const nearest = findVectorFilter(filters);
+  
   return {
     collection: parsedQuery.collection,
     targets,
     parallel,
     requiresMerge,
     projection: parsedQuery.projection,
-    options: parsedQuery.options
+    options: parsedQuery.options,
+    ...(parsedQuery.lookups && { lookups: parsedQuery.lookups }),
+    ...(nearest && { nearestNeighbors: (nearest.value as NearestNeighborsFilterValue).k })
   };
 }
 
 /**
- * Optimizes a query plan to minimize the number of shards that need to be queried
+ * Optimizes a query plan with the statistics of the queried collection in
+ * each shard: each target gets the index its shard should use, its filters
+ * ordered from the cheapest and most selective, and an estimate of the
+ * documents it reads and matches. Targets are ordered from the most
+ * expensive, so that they start first and splits group them by cost.
+ * 
+ * Statistics can lag behind writes, so they never remove a shard from the
+ * plan, even one where the collection appeared empty.
  * 
  * @param plan The initial query plan
+ * @param statistics Statistics of the collection by shard ID (shards without
+ *   statistics are left as they are)
  * @returns An optimized query plan
  */
-export function optimizeQueryPlan(plan: QueryPlan): QueryPlan {
+export function optimizeQueryPlan(
+  plan: QueryPlan,
+  statistics: Record<string, CollectionStatistics> = {}
+): QueryPlan {
   logger.debug('Optimizing query plan', { 
     collection: plan.collection,
-    initialTargetCount: plan.targets.length
+    initialTargetCount: plan.targets.length,
+    shardsWithStatistics: Object.keys(statistics).length
+  });
+  
+  const targets = plan.targets.map(target => {
+    const shardStatistics = statistics[target.shardId];
+    if (!shardStatistics) {
+      return target;
+    }
+    
+    const { documentCount } = shardStatistics;
+    const index = chooseIndex(target.filters, shardStatistics);
+    const matches = Math.round(documentCount * estimateSelectivity(target.filters, shardStatistics));
+    
+    return {
+      ...target,
+      filters: orderFilters(target.filters, shardStatistics),
+      ...(index && { index: index.name }),
+      estimate: {
+        scanned: index ? Math.round(documentCount * index.selectivity) : documentCount,
+        matches
+      }
+    };
   });
   
-  // Currently, we don't have enough information to optimize the plan
-  // In the future, we could use metadata about the shards to determine
-  // which ones are likely to contain relevant data
+  targets.sort((a, b) => targetCost(b) - targetCost(a));
   
-  // For now, just return the original plan
-  return plan;
+  return { ...plan, targets };
 }
 
 /**
  * Estimates the cost of executing a query plan
  * 
+ * Each shard costs 1 unit, plus 1 unit per CONFIG.QUERY_COST_DOCUMENTS_PER_UNIT
+ * documents it is estimated to read. Merging and sorting the results of the
+ * shards multiply the cost.
+ * 
  * @param plan The query plan to estimate
  * @returns An estimated cost (higher is more expensive)
  */
 export function estimateQueryCost(plan: QueryPlan): number {
-  // Basic cost model: 1 cost unit per shard
-  let cost = plan.targets.length;
+  // Basic cost model: 1 cost unit per shard, plus the documents it reads
+  let cost = plan.targets.reduce((total, target) => total + targetCost(target), 0);
   
   // Additional cost for merging results
   if (plan.requiresMerge) {
@@ -170,32 +279,60 @@ export function isQueryPlanTooExpensive(plan: QueryPlan): boolean {
 /**
  * Splits a query plan into smaller, more manageable plans
  * 
+ * Targets are added to a plan in order until it has maxTargetsPerPlan
+ * targets, or until the next target would take its cost over maxCost. A
+ * target that costs more than maxCost on its own gets a plan of its own.
+ * 
  * @param plan The query plan to split
  * @param maxTargetsPerPlan Maximum number of targets per plan
+ * @param maxCost Maximum cost of each plan
  * @returns An array of smaller query plans
  */
-export function splitQueryPlan(plan: QueryPlan, maxTargetsPerPlan: number = 5): QueryPlan[] {
-  if (plan.targets.length <= maxTargetsPerPlan) {
+export function splitQueryPlan(
+  plan: QueryPlan,
+  maxTargetsPerPlan: number = 5,
+  maxCost: number = MAX_QUERY_COST
+): QueryPlan[] {
+  if (plan.targets.length <= maxTargetsPerPlan && estimateQueryCost(plan) <= maxCost) {
     return [plan];
   }
   
   logger.debug('Splitting query plan', { 
     collection: plan.collection,
     targetCount: plan.targets.length,
-    maxTargetsPerPlan
+    maxTargetsPerPlan,
+    maxCost
   });
   
   const plans: QueryPlan[] = [];
+  let chunkTargets: ShardTarget[] = [];
   
   // Split the targets into chunks
-  for (let i = 0; i < plan.targets.length; i += maxTargetsPerPlan) {
-    const chunkTargets = plan.targets.slice(i, i + maxTargetsPerPlan);
+  for (const target of plan.targets) {
+    const candidate = [...chunkTargets, target];
     
-    plans.push({
-      ...plan,
-      targets: chunkTargets
-    });
+    if (chunkTargets.length > 0 && (
+      candidate.length > maxTargetsPerPlan ||
+      estimateQueryCost({ ...plan, targets: candidate }) > maxCost
+    )) {
+      plans.push({ ...plan, targets: chunkTargets });
+      chunkTargets = [target];
+    } else {
+      chunkTargets = candidate;
+    }
   }
   
+  plans.push({ ...plan, targets: chunkTargets });
+  
   return plans;
 }
+
+/**
+ * Estimates the cost of querying a single shard
+ * 
+ * @param target The shard target
+ * @returns 1 unit, plus the documents the shard is estimated to read
+ */
+function targetCost(target: ShardTarget): number {
+  return 1 + (target.estimate?.scanned ?? 0) / CONFIG.QUERY_COST_DOCUMENTS_PER_UNIT;
+}
@@ -0,0 +1,509 @@
+/**
+ * Collection Statistics
+ *
+ * This module computes the statistics a shard keeps about each of its
+ * collections, and the estimates the query planner derives from them.
+ *
+ * The statistics of a collection hold its document count and, for each field
+ * (up to CONFIG.STATISTICS_MAX_FIELDS, including nested fields), the number of
+ * documents that have it, its number of distinct values, the most common type
+ * of its values and their range. Fields leading a secondary index also get an
+ * equi-depth histogram, built from a sample of their values.
+ *
+ * Statistics are recomputed periodically rather than on every write, so they
+ * are only ever used for decisions that affect the cost of a query, never its
+ * results.
+ */
+
+import { Document, IndexDefinition, QueryFilter, QueryFilterNode } from '../types';
+import { CONFIG } from '../config';
+import { compareValues } from './compare';
+import { isFilterGroup, valueType, ValueType } from './matcher';
+
+/**
+ * Bucket of an equi-depth histogram: the number of values up to (and
+ * including) `upper` and greater than the upper bound of the previous bucket
+ */
+export interface HistogramBucket {
+  upper: number | string;
+  count: number;
+}
+
+/**
+ * Statistics of a field of a collection
+ */
+export interface FieldStatistics {
+  // Number of documents with a value for the field
+  count: number;
+  
+  // Estimated number of distinct values
+  distinct: number;
+  
+  // Most common type of the values
+  type: ValueType;
+  
+  // Smallest and largest values of that type (numbers and strings only)
+  min?: number | string;
+  max?: number | string;
+  
+  // Histogram of the values of that type (indexed fields only)
+  histogram?: HistogramBucket[];
+}
+
+/**
+ * Statistics of a collection stored in a shard
+ */
+export interface CollectionStatistics {
+  collection: string;
+  documentCount: number;
+  fields: Record<string, FieldStatistics>;
+  
+  // Secondary indexes of the collection that are ready to be used
+  indexes: { name: string; fields: string[] }[];
+  
+  computedAt: number;
+}
+
+/**
+ * Values of a field collected while scanning a collection
+ */
+interface FieldCollector {
+  count: number;
+  types: Map<ValueType, number>;
+  
+  // Distinct values seen, until there are CONFIG.STATISTICS_MAX_DISTINCT, and
+  // the number of values seen by then
+  distinct: Set<string>;
+  countAtLimit?: number;
+  
+  ranges: { number?: [number, number]; string?: [string, string] };
+  
+  // Reservoir sample of the values (histogram fields only)
+  sample?: (number | string)[];
+}
+
+/**
+ * Estimated selectivity of the operators whose selectivity the statistics do
+ * not tell
+ */
+const DEFAULT_SELECTIVITY: Record<string, number> = {
+  '=': 0.1,
+  range: 1 / 3,
+  contains: 0.1,
+  starts_with: 0.1,
+  ends_with: 0.1,
+  regex: 0.2,
+  size: 0.1,
+  all: 0.05,
+  elem_match: 0.1,
+  type: 0.5,
+  exists: 0.5,
+  search: 0.1
+};
+
+/**
+ * Relative cost of evaluating a filter in memory, by operator
+ */
+const EVALUATION_COST: Record<string, number> = {
+  contains: 2,
+  ends_with: 2,
+  all: 3,
+  elem_match: 4,
+  regex: 5,
+  search: 5,
+  near: 2,
+  within_radius: 2,
+  within_polygon: 5,
+  nearest_neighbors: 5
+};
+
+/**
+ * Operators an index on a field can be searched with
+ */
+const INDEXABLE_OPERATORS = ['=', 'in', '>', '>=', '<', '<='];
+
+/**
+ * Computes the statistics of a collection
+ *
+ * @param collection The collection
+ * @param documents The live documents of the collection
+ * @param indexes Secondary indexes of the collection
+ * @param now Current time
+ * @returns The statistics
+ */
+export function computeCollectionStatistics(
+  collection: string,
+  documents: Iterable<Document>,
+  indexes: IndexDefinition[],
+  now: number
+): CollectionStatistics {
+  const ready = indexes
+    .filter(index => index.status === 'ready' && index.type === undefined)
+    .map(({ name, fields }) => ({ name, fields }));
+  const histogramFields = new Set(ready.map(index => index.fields[0]));
+  
+  const collectors = new Map<string, FieldCollector>();
+  let documentCount = 0;
+  
+  for (const document of documents) {
+    documentCount++;
+    collectFields(document, '', 1, collectors, histogramFields);
+  }
+  
+  const fields: Record<string, FieldStatistics> = {};
+  for (const [field, collector] of collectors) {
+    fields[field] = summarizeField(collector);
+  }
+  
+  return { collection, documentCount, fields, indexes: ready, computedAt: now };
+}
+
+/**
+ * Estimates the fraction of the documents of a collection that match filters,
+ * assuming that the filters are independent
+ *
+ * @param filters The filters and groups of filters
+ * @param statistics Statistics of the collection
+ * @returns The estimated fraction, between 0 and 1
+ */
+export function estimateSelectivity(filters: QueryFilterNode[], statistics: CollectionStatistics): number {
+  return filters.reduce((selectivity, node) => selectivity * nodeSelectivity(node, statistics), 1);
+}
+
+/**
+ * Orders filters so that the cheapest and most selective are evaluated first,
+ * which lets the evaluation of most documents stop early. Alternatives of
+ * `or` groups are ordered so that the likeliest to match come first.
+ *
+ * @param filters The filters and groups of filters
+ * @param statistics Statistics of the collection
+ * @returns The filters, reordered
+ */
+export function orderFilters(filters: QueryFilterNode[], statistics: CollectionStatistics): QueryFilterNode[] {
+  return rankNodes(filters.map(node => orderNode(node, statistics)), statistics, false);
+}
+
+/**
+ * Chooses the secondary index that selects the fewest documents for filters,
+ * if any selects few enough (CONFIG.INDEX_SELECTIVITY_THRESHOLD) to be
+ * cheaper than a scan of the collection
+ *
+ * @param filters The filters and groups of filters
+ * @param statistics Statistics of the collection
+ * @returns The name of the index and the fraction of the documents it selects
+ */
+export function chooseIndex(
+  filters: QueryFilterNode[],
+  statistics: CollectionStatistics
+): { name: string; selectivity: number } | undefined {
+  let best: { name: string; selectivity: number } | undefined;
+  
+  for (const index of statistics.indexes) {
+    // Filters on a prefix of the index fields: equalities on every field but
+    // the last, which can also be searched by range
+    let selectivity = 1;
+    for (const field of index.fields) {
+      const indexed = filters.filter((node): node is QueryFilter =>
+        !isFilterGroup(node) && node.field === field && INDEXABLE_OPERATORS.includes(node.operator)
+      );
+      if (indexed.length === 0) {
+        break;
+      }
+      
+      selectivity *= estimateSelectivity(indexed, statistics);
+      if (!indexed.some(filter => filter.operator === '=')) {
+        break;
+      }
+    }
+    
+    if (selectivity < CONFIG.INDEX_SELECTIVITY_THRESHOLD && (!best || selectivity < best.selectivity)) {
+      best = { name: index.name, selectivity };
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * Collects the fields of a (nested) object
+ */
+function collectFields(
+  object: Record<string, any>,
+  prefix: string,
+  depth: number,
+  collectors: Map<string, FieldCollector>,
+  histogramFields: Set<string>
+): void {
+  for (const [key, value] of Object.entries(object)) {
+    const field = prefix + key;
+    
+    let collector = collectors.get(field);
+    if (!collector) {
+      if (collectors.size >= CONFIG.STATISTICS_MAX_FIELDS) {
+        continue;
+      }
+      
+      collector = {
+        count: 0,
+        types: new Map(),
+        distinct: new Set(),
+        ranges: {},
+        ...(histogramFields.has(field) && { sample: [] })
+      };
+      collectors.set(field, collector);
+    }
+    
+    collectValue(collector, value);
+    
+    if (valueType(value) === 'object' && depth < CONFIG.STATISTICS_MAX_DEPTH) {
+      collectFields(value, `${field}.`, depth + 1, collectors, histogramFields);
+    }
+  }
+}
+
+/**
+ * Adds a value of a field to its statistics
+ */
+function collectValue(collector: FieldCollector, value: any): void {
+  const type = valueType(value)!;
+  
+  collector.count++;
+  collector.types.set(type, (collector.types.get(type) || 0) + 1);
+  
+  if (collector.countAtLimit === undefined) {
+    collector.distinct.add(JSON.stringify(value));
+    if (collector.distinct.size >= CONFIG.STATISTICS_MAX_DISTINCT) {
+      collector.countAtLimit = collector.count;
+    }
+  }
+  
+  if (type !== 'number' && type !== 'string') {
+    return;
+  }
+  
+  const range = collector.ranges[type];
+  if (!range) {
+    collector.ranges[type] = [value, value] as any;
+  } else if (value < range[0]) {
+    range[0] = value;
+  } else if (value > range[1]) {
+    range[1] = value;
+  }
+  
+  const sample = collector.sample;
+  if (sample) {
+    const seen = (collector.types.get('number') || 0) + (collector.types.get('string') || 0);
+    if (sample.length < CONFIG.STATISTICS_SAMPLE_SIZE) {
+      sample.push(value);
+    } else {
+      const slot = Math.floor(Math.random() * seen);
+      if (slot < sample.length) {
+        sample[slot] = value;
+      }
+    }
+  }
+}
+
+/**
+ * Summarizes the values collected for a field
+ */
+function summarizeField(collector: FieldCollector): FieldStatistics {
+  let type: ValueType = 'null';
+  let typeCount = 0;
+  for (const [candidate, count] of collector.types) {
+    if (count > typeCount) {
+      type = candidate;
+      typeCount = count;
+    }
+  }
+  
+  // Past the limit, distinct values are assumed to keep appearing at the
+  // rate they did until then
+  const distinct = collector.countAtLimit === undefined
+    ? collector.distinct.size
+    : Math.min(collector.count, Math.round(collector.distinct.size * collector.count / collector.countAtLimit));
+  
+  const statistics: FieldStatistics = { count: collector.count, distinct, type };
+  
+  if (type === 'number' || type === 'string') {
+    [statistics.min, statistics.max] = collector.ranges[type]!;
+    
+    const sample = collector.sample?.filter(value => typeof value === type);
+    if (sample && sample.length > 0) {
+      statistics.histogram = buildHistogram(sample, typeCount);
+    }
+  }
+  
+  return statistics;
+}
+
+/**
+ * Builds an equi-depth histogram from a sample of values of the same type
+ *
+ * @param sample The sampled values
+ * @param count Number of values the sample was taken from
+ */
+function buildHistogram(sample: (number | string)[], count: number): HistogramBucket[] {
+  const sorted = [...sample].sort(compareValues);
+  const bucketCount = Math.min(CONFIG.STATISTICS_HISTOGRAM_BUCKETS, sorted.length);
+  const buckets: HistogramBucket[] = [];
+  
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const start = Math.floor(bucket * sorted.length / bucketCount);
+    const end = Math.floor((bucket + 1) * sorted.length / bucketCount);
+    buckets.push({ upper: sorted[end - 1], count: (end - start) * count / sorted.length });
+  }
+  
+  return buckets;
+}
+
+/**
+ * Estimates the fraction of the documents that match a filter or a group
+ */
+function nodeSelectivity(node: QueryFilterNode, statistics: CollectionStatistics): number {
+  if (!isFilterGroup(node)) {
+    return filterSelectivity(node, statistics);
+  }
+  
+  if ('and' in node) {
+    return estimateSelectivity(node.and, statistics);
+  }
+  
+  if ('or' in node) {
+    return 1 - node.or.reduce((none, alternative) => none * (1 - nodeSelectivity(alternative, statistics)), 1);
+  }
+  
+  return 1 - nodeSelectivity(node.not, statistics);
+}
+
+/**
+ * Estimates the fraction of the documents that match a filter
+ */
+function filterSelectivity(filter: QueryFilter, statistics: CollectionStatistics): number {
+  const field = statistics.fields[filter.field];
+  const { operator, value } = filter;
+  
+  if (!field || statistics.documentCount === 0) {
+    const selectivity = DEFAULT_SELECTIVITY[isRange(operator) ? 'range' : operator] ?? DEFAULT_SELECTIVITY['='];
+    return operator === '!=' || operator === 'not_in' ? 1 - selectivity : selectivity;
+  }
+  
+  const presence = Math.min(1, field.count / statistics.documentCount);
+  const equality = presence / Math.max(1, field.distinct);
+  
+  switch (operator) {
+    case '=': return equality;
+    case '!=': return 1 - equality;
+    case 'in': return Math.min(presence, equality * (value as any[]).length);
+    case 'not_in': return 1 - Math.min(presence, equality * (value as any[]).length);
+    case 'exists': return value ? presence : 1 - presence;
+    case 'type': return value === field.type ? presence : presence * (1 - DEFAULT_SELECTIVITY.type);
+    case '>':
+    case '>=':
+      return presence * (1 - fractionBelow(field, value));
+    case '<':
+    case '<=':
+      return presence * fractionBelow(field, value);
+    default:
+      return presence * (DEFAULT_SELECTIVITY[operator] ?? DEFAULT_SELECTIVITY['=']);
+  }
+}
+
+/**
+ * Estimates the fraction of the values of a field that are lower than a value
+ */
+function fractionBelow(field: FieldStatistics, value: any): number {
+  if (typeof value !== field.type || field.min === undefined || field.max === undefined) {
+    return DEFAULT_SELECTIVITY.range;
+  }
+  
+  if (compareValues(value, field.min) <= 0) {
+    return 0;
+  }
+  
+  if (compareValues(value, field.max) > 0) {
+    return 1;
+  }
+  
+  if (field.histogram) {
+    const total = field.histogram.reduce((sum, bucket) => sum + bucket.count, 0);
+    let below = 0;
+    for (const bucket of field.histogram) {
+      if (compareValues(bucket.upper, value) < 0) {
+        below += bucket.count;
+      } else {
+        // The value falls in this bucket: count half of it
+        below += bucket.count / 2;
+        break;
+      }
+    }
+    
+    return total > 0 ? below / total : DEFAULT_SELECTIVITY.range;
+  }
+  
+  // Without a histogram, numbers are assumed to be spread evenly over their range
+  if (typeof value === 'number') {
+    return (value - (field.min as number)) / ((field.max as number) - (field.min as number));
+  }
+  
+  return DEFAULT_SELECTIVITY.range;
+}
+
+/**
+ * Orders the filters inside a group
+ */
+function orderNode(node: QueryFilterNode, statistics: CollectionStatistics): QueryFilterNode {
+  if (!isFilterGroup(node)) {
+    return node;
+  }
+  
+  if ('and' in node) {
+    return { and: orderFilters(node.and, statistics) };
+  }
+  
+  if ('or' in node) {
+    return { or: rankNodes(node.or.map(alternative => orderNode(alternative, statistics)), statistics, true) };
+  }
+  
+  return { not: orderNode(node.not, statistics) };
+}
+
+/**
+ * Sorts filters by cost per document they settle: a filter settles the
+ * documents it rejects (in a conjunction) or accepts (in a disjunction)
+ */
+function rankNodes(nodes: QueryFilterNode[], statistics: CollectionStatistics, disjunction: boolean): QueryFilterNode[] {
+  const ranks = new Map(nodes.map(node => {
+    const selectivity = nodeSelectivity(node, statistics);
+    const settled = disjunction ? selectivity : 1 - selectivity;
+    return [node, evaluationCost(node) / Math.max(settled, 0.001)];
+  }));
+  
+  return [...nodes].sort((a, b) => ranks.get(a)! - ranks.get(b)!);
+}
+
+/**
+ * Estimates the relative cost of evaluating a filter or a group in memory
+ */
+function evaluationCost(node: QueryFilterNode): number {
+  if (!isFilterGroup(node)) {
+    return EVALUATION_COST[node.operator] ?? 1;
+  }
+  
+  if ('and' in node) {
+    return node.and.reduce((cost, child) => cost + evaluationCost(child), 0);
+  }
+  
+  if ('or' in node) {
+    return node.or.reduce((cost, child) => cost + evaluationCost(child), 0);
+  }
+  
+  return evaluationCost(node.not);
+}
+
+/**
+ * Checks whether an operator compares ranges of values
+ */
+function isRange(operator: string): boolean {
+  return operator === '>' || operator === '>=' || operator === '<' || operator === '<=';
+}
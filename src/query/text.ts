@@ -0,0 +1,378 @@
+/**
+ * Full-Text Search
+ *
+ * This module implements the text analysis and relevance scoring behind the
+ * `search` filter operator. Text is analyzed into terms by lowercasing it,
+ * removing diacritics, splitting it into words, dropping English stop words
+ * and stemming English words with the Porter algorithm, so that a search for
+ * "wireless headphone" matches "Wireless Headphones".
+ *
+ * A search matches the documents containing any of its terms, which queries
+ * rank with BM25: a term weighs more the rarer it is in the collection, and
+ * counts more the more often it occurs in a document, with diminishing
+ * returns, relative to the length of the document. Since each shard only
+ * holds part of a collection, the worker gathers the statistics of the
+ * searched terms from every shard and the shards score their documents with
+ * the merged statistics, so that their scores can be compared.
+ */
+
+import { Document, ErrorCode, QueryFilter, QueryFilterNode } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { CONFIG } from '../config';
+import { getNestedValue, SortSpec } from './compare';
+
+/**
+ * Terms of a text with their number of occurrences
+ */
+export interface AnalyzedText {
+  // Number of terms of the text
+  length: number;
+  
+  // Occurrences of each term (possibly only the searched terms)
+  frequencies: Record<string, number>;
+}
+
+/**
+ * Statistics of the searched terms over the documents with a text field
+ */
+export interface TextStatistics {
+  // Number of documents whose field holds text
+  documentCount: number;
+  
+  // Total number of terms of the field over those documents
+  totalLength: number;
+  
+  // Number of documents containing each searched term
+  documentFrequencies: Record<string, number>;
+}
+
+/**
+ * Order of search results unless a query sorts them otherwise: by
+ * decreasing BM25 score, which shards return in the `_score` field
+ */
+export const SCORE_SORT: SortSpec[] = [{ field: '_score', direction: 'desc' }];
+
+/**
+ * English words too common to be worth indexing
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it',
+  'no', 'not', 'of', 'on', 'or', 'such', 'that', 'the', 'their', 'then', 'there', 'these',
+  'they', 'this', 'to', 'was', 'will', 'with'
+]);
+
+/**
+ * Analyzes a text into its terms, in order
+ *
+ * @param text The text
+ * @returns The terms
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .split(/[^\p{L}\p{N}]+/u);
+  
+  const terms: string[] = [];
+  for (const word of words) {
+    if (word && word.length <= CONFIG.MAX_TERM_LENGTH && !STOP_WORDS.has(word)) {
+      terms.push(/^[a-z]+$/.test(word) ? stem(word) : word);
+    }
+  }
+  
+  return terms;
+}
+
+/**
+ * Analyzes the value of a text field: a string, or an array whose string
+ * elements are analyzed as separate texts
+ *
+ * @param value The field value
+ * @returns The terms of the text, or undefined if the value holds no text
+ */
+export function analyzeText(value: any): AnalyzedText | undefined {
+  const texts = typeof value === 'string'
+    ? [value]
+    : Array.isArray(value) ? value.filter(element => typeof element === 'string') : [];
+  
+  if (texts.length === 0) {
+    return undefined;
+  }
+  
+  const analyzed: AnalyzedText = { length: 0, frequencies: {} };
+  for (const text of texts) {
+    for (const term of tokenize(text)) {
+      analyzed.length++;
+      analyzed.frequencies[term] = (analyzed.frequencies[term] ?? 0) + 1;
+    }
+  }
+  
+  return analyzed;
+}
+
+/**
+ * Gets the distinct terms of the text of a search filter
+ *
+ * @param text The searched text
+ * @returns The terms, in order of first occurrence
+ */
+export function searchTerms(text: string): string[] {
+  return [...new Set(tokenize(text))];
+}
+
+/**
+ * Checks whether the value of a text field contains any of the searched terms
+ *
+ * @param value The field value
+ * @param terms The searched terms
+ */
+export function matchesText(value: any, terms: string[]): boolean {
+  const analyzed = analyzeText(value);
+  
+  return analyzed !== undefined && terms.some(term => analyzed.frequencies[term] !== undefined);
+}
+
+/**
+ * Scores the relevance of a text to searched terms with BM25
+ *
+ * @param text The terms of the text
+ * @param terms The searched terms
+ * @param statistics Statistics of the searched terms over the collection
+ * @returns The score, 0 if the text contains none of the terms
+ */
+export function bm25Score(text: AnalyzedText, terms: string[], statistics: TextStatistics): number {
+  const { TEXT_BM25_K1: k1, TEXT_BM25_B: b } = CONFIG;
+  const { documentCount, totalLength, documentFrequencies } = statistics;
+  const relativeLength = totalLength > 0 ? text.length * documentCount / totalLength : 1;
+  
+  let score = 0;
+  for (const term of terms) {
+    const frequency = text.frequencies[term] ?? 0;
+    if (frequency === 0) {
+      continue;
+    }
+    
+    const documentFrequency = documentFrequencies[term] ?? 0;
+    const idf = Math.log(1 + Math.max(0, documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    score += idf * frequency * (k1 + 1) / (frequency + k1 * (1 - b + b * relativeLength));
+  }
+  
+  return score;
+}
+
+/**
+ * Analyzes a text field of documents in memory, for shards searching a field
+ * without a text index
+ *
+ * @param documents The documents
+ * @param field The text field
+ * @param terms The searched terms
+ * @returns The frequencies of the terms in the documents containing any of
+ *   them (by document ID), and the statistics of the terms
+ */
+export function analyzeDocuments(
+  documents: Iterable<Document>,
+  field: string,
+  terms: string[]
+): { postings: Map<string, AnalyzedText>; statistics: TextStatistics } {
+  const postings = new Map<string, AnalyzedText>();
+  const statistics: TextStatistics = { documentCount: 0, totalLength: 0, documentFrequencies: {} };
+  
+  for (const document of documents) {
+    const analyzed = analyzeText(getNestedValue(document, field));
+    if (!analyzed) {
+      continue;
+    }
+    
+    statistics.documentCount++;
+    statistics.totalLength += analyzed.length;
+    
+    const frequencies: Record<string, number> = {};
+    for (const term of terms) {
+      if (analyzed.frequencies[term] !== undefined) {
+        frequencies[term] = analyzed.frequencies[term];
+        statistics.documentFrequencies[term] = (statistics.documentFrequencies[term] ?? 0) + 1;
+      }
+    }
+    
+    if (Object.keys(frequencies).length > 0) {
+      postings.set(document._id, { length: analyzed.length, frequencies });
+    }
+  }
+  
+  return { postings, statistics };
+}
+
+/**
+ * Merges the statistics of searched terms computed by several shards
+ *
+ * @param parts The statistics of each shard
+ * @returns The statistics over all the shards
+ */
+export function mergeTextStatistics(parts: TextStatistics[]): TextStatistics {
+  const merged: TextStatistics = { documentCount: 0, totalLength: 0, documentFrequencies: {} };
+  
+  for (const part of parts) {
+    merged.documentCount += part.documentCount;
+    merged.totalLength += part.totalLength;
+    
+    for (const [term, count] of Object.entries(part.documentFrequencies)) {
+      merged.documentFrequencies[term] = (merged.documentFrequencies[term] ?? 0) + count;
+    }
+  }
+  
+  return merged;
+}
+
+/**
+ * Finds the search filter of a query. Queries are ranked by a single search,
+ * so they can have at most one, among their top-level filters; search filters
+ * nested in groups are only supported where documents are not ranked (for
+ * instance in subscriptions and aggregations).
+ *
+ * @param filters The filters of the query
+ * @returns The search filter, or undefined if there is none
+ * @throws ImpossibleDBError with INVALID_QUERY if the query has several
+ *   search filters, or one nested in a group
+ */
+export function findSearchFilter(filters: QueryFilterNode[]): QueryFilter | undefined {
+  const searches = filters.filter(
+    (node): node is QueryFilter => 'field' in node && node.operator === 'search'
+  );
+  
+  if (searches.length > 1) {
+    throw new ImpossibleDBError(ErrorCode.INVALID_QUERY, 'A query can have at most one search filter');
+  }
+  
+  if (filters.some(node => !('field' in node) && containsSearch(node))) {
+    throw new ImpossibleDBError(ErrorCode.INVALID_QUERY, 'Search filters cannot be nested in and, or or not groups');
+  }
+  
+  return searches[0];
+}
+
+/**
+ * Checks whether a filter or a group of filters contains a search filter
+ */
+function containsSearch(node: QueryFilterNode): boolean {
+  if ('and' in node) {
+    return node.and.some(containsSearch);
+  }
+  
+  if ('or' in node) {
+    return node.or.some(containsSearch);
+  }
+  
+  if ('not' in node) {
+    return containsSearch(node.not);
+  }
+  
+  return node.operator === 'search';
+}
+
+/**
+ * Suffixes replaced in step 2 of the Porter stemmer
+ */
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble',
+  alli: 'al', entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate',
+  ator: 'ate', alism: 'al', iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al',
+  iviti: 'ive', biliti: 'ble', logi: 'log'
+};
+
+/**
+ * Suffixes replaced in step 3 of the Porter stemmer
+ */
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: ''
+};
+
+// Consonant and vowel sequences of the Porter stemmer: a word is
+// [C](VC){m}[V], and m is its measure
+const CONSONANT = '[^aeiou]';
+const VOWEL = '[aeiouy]';
+const CONSONANTS = `${CONSONANT}[^aeiouy]*`;
+const VOWELS = `${VOWEL}[aeiou]*`;
+const MEASURE_ABOVE_0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`);
+const MEASURE_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`);
+const MEASURE_ABOVE_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`);
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?${VOWEL}`);
+const ENDS_CVC = new RegExp(`^${CONSONANTS}${VOWEL}[^aeiouwxy]$`);
+
+/**
+ * Stems an English word with the Porter algorithm, so that inflected forms
+ * of a word ("connected", "connecting", "connections") share a term
+ *
+ * @param word The word, in lowercase
+ * @returns The stem
+ */
+export function stem(word: string): string {
+  if (word.length < 3) {
+    return word;
+  }
+  
+  // An initial y is a consonant
+  const initialY = word[0] === 'y';
+  let w = initialY ? 'Y' + word.slice(1) : word;
+  let match: RegExpExecArray | null;
+  
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w)) || (match = /^(.+?)([^s])s$/.exec(w))) {
+    w = match[1] + match[2];
+  }
+  
+  // Step 1b: past participles and gerunds
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_ABOVE_0.test(match[1])) {
+      w = w.slice(0, -1);
+    }
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1];
+    if (/(at|bl|iz)$/.test(w)) {
+      w += 'e';
+    } else if (/([^aeiouylsz])\1$/.test(w)) {
+      w = w.slice(0, -1);
+    } else if (ENDS_CVC.test(w)) {
+      w += 'e';
+    }
+  }
+  
+  // Step 1c: final y
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1] + 'i';
+  }
+  
+  // Steps 2 and 3: derivational suffixes
+  if ((match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(w))
+    && MEASURE_ABOVE_0.test(match[1])) {
+    w = match[1] + STEP2_SUFFIXES[match[2]];
+  }
+  
+  if ((match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w)) && MEASURE_ABOVE_0.test(match[1])) {
+    w = match[1] + STEP3_SUFFIXES[match[2]];
+  }
+  
+  // Step 4: remaining suffixes of words with a measure above 1
+  if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))) {
+    if (MEASURE_ABOVE_1.test(match[1])) {
+      w = match[1];
+    }
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w)) && MEASURE_ABOVE_1.test(match[1] + match[2])) {
+    w = match[1] + match[2];
+  }
+  
+  // Step 5: final e and double l
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const base = match[1];
+    if (MEASURE_ABOVE_1.test(base) || (MEASURE_1.test(base) && !ENDS_CVC.test(base))) {
+      w = base;
+    }
+  }
+  
+  if (/ll$/.test(w) && MEASURE_ABOVE_1.test(w)) {
+    w = w.slice(0, -1);
+  }
+  
+  return initialY ? 'y' + w.slice(1) : w;
+}
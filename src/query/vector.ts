@@ -0,0 +1,245 @@
+/**
+ * Vector Search
+ *
+ * This module implements nearest neighbor queries on vector fields (arrays
+ * of numbers, such as embeddings). A 'nearest_neighbors' filter
+ * (`{ vector, k }`) matches the k documents whose field is the most similar
+ * to a vector among those matching the other filters of the query, which
+ * are ranked by similarity and returned with it in their `_score` field.
+ *
+ * The dimension of a vector field and the metric its vectors are compared
+ * with are those of its vector index, which every nearest neighbor query
+ * needs:
+ *
+ * - 'cosine': the cosine of the angle between the vectors
+ * - 'dot': the dot product of the vectors
+ * - 'l2': the Euclidean distance between the vectors, negated so that
+ *   higher scores are always more similar
+ *
+ * Vector indexes are IVF-flat indexes: the vectors of a collection are
+ * clustered with k-means when the index is built, and each vector is listed
+ * under its nearest centroid. Queries only compare the vectors of the lists
+ * whose centroids are the nearest to the queried vector, which makes their
+ * results approximate. Rebuilding an index clusters its vectors again.
+ *
+ * Each shard returns its own k nearest neighbors, and the worker keeps the
+ * k most similar of them, which are the k nearest neighbors in the whole
+ * collection.
+ */
+
+import { Document, ErrorCode, QueryFilter, QueryFilterNode, VectorMetric } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { CONFIG } from '../config';
+import { getNestedValue } from './compare';
+
+/**
+ * Value of a nearest_neighbors filter
+ */
+export interface NearestNeighborsFilterValue {
+  vector: number[];
+  
+  // Number of documents to return
+  k: number;
+}
+
+/**
+ * The metrics vectors can be compared with
+ */
+export const VECTOR_METRICS: VectorMetric[] = ['cosine', 'dot', 'l2'];
+
+/**
+ * Checks whether a value is a vector
+ *
+ * @param value The value
+ * @param dimensions The number of dimensions it must have, if any
+ */
+export function isVector(value: any, dimensions?: number): value is number[] {
+  return Array.isArray(value) &&
+    value.length > 0 &&
+    (dimensions === undefined || value.length === dimensions) &&
+    value.every(component => typeof component === 'number' && Number.isFinite(component));
+}
+
+/**
+ * Validates the value of a nearest_neighbors filter
+ *
+ * @param value The value of the filter
+ * @throws ImpossibleDBError with INVALID_QUERY if the value is invalid
+ */
+export function validateVectorFilterValue(value: any): void {
+  if (
+    !value || typeof value !== 'object' ||
+    !isVector(value.vector) || value.vector.length > CONFIG.MAX_VECTOR_DIMENSIONS ||
+    !Number.isInteger(value.k) || value.k < 1 || value.k > CONFIG.MAX_NEAREST_NEIGHBORS
+  ) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      `The value of a 'nearest_neighbors' filter must be an object with a vector of up to ${CONFIG.MAX_VECTOR_DIMENSIONS} numbers and a number k of neighbors from 1 to ${CONFIG.MAX_NEAREST_NEIGHBORS}`
+    );
+  }
+}
+
+/**
+ * Computes the similarity of two vectors of the same dimension
+ *
+ * @param a First vector
+ * @param b Second vector
+ * @param metric The metric to compare them with
+ * @returns The similarity, higher for more similar vectors
+ */
+export function similarity(a: number[], b: number[], metric: VectorMetric): number {
+  if (metric === 'l2') {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+      sum += (a[i] - b[i]) * (a[i] - b[i]);
+    }
+    return -Math.sqrt(sum);
+  }
+  
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  
+  if (metric === 'dot') {
+    return dot;
+  }
+  
+  // Zero vectors have no direction, and are similar to no vector
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Gets the documents most similar to the vector of a nearest_neighbors
+ * filter, with their similarity in their `_score` field
+ *
+ * @param documents The documents, whose field of the filter is a vector of
+ *   the same dimension as the vector of the filter
+ * @param filter The nearest_neighbors filter
+ * @param metric The metric of the vector field
+ * @returns Up to k documents, from the most similar
+ */
+export function nearestNeighbors(documents: Document[], filter: QueryFilter, metric: VectorMetric): Document[] {
+  const { vector, k } = filter.value as NearestNeighborsFilterValue;
+  
+  return documents
+    .map(document => ({ ...document, _score: similarity(getNestedValue(document, filter.field), vector, metric) }))
+    .sort((a, b) => b._score - a._score)
+    .slice(0, k);
+}
+
+/**
+ * Gets the number of lists a vector index of a number of vectors is
+ * clustered in: about the square root of the number of vectors, so that the
+ * lists are about as many as the vectors of each list
+ *
+ * @param vectorCount The number of vectors
+ */
+export function listCount(vectorCount: number): number {
+  return Math.min(CONFIG.MAX_VECTOR_INDEX_LISTS, Math.max(1, Math.round(Math.sqrt(vectorCount))));
+}
+
+/**
+ * Clusters vectors with k-means
+ *
+ * The centroids start at vectors spread over the array, so that the same
+ * vectors always give the same centroids.
+ *
+ * @param vectors The vectors, all of the same dimension
+ * @param count The number of clusters
+ * @param metric The metric vectors are assigned to the most similar
+ *   centroid with
+ * @returns The centroids of the clusters (fewer than asked for if there are
+ *   fewer vectors)
+ */
+export function trainCentroids(vectors: number[][], count: number, metric: VectorMetric): number[][] {
+  const clusters = Math.min(count, vectors.length);
+  let centroids = Array.from({ length: clusters }, (_, i) => [...vectors[Math.floor(i * vectors.length / clusters)]]);
+  
+  for (let iteration = 0; iteration < CONFIG.VECTOR_INDEX_TRAINING_ITERATIONS; iteration++) {
+    const sums = centroids.map(centroid => new Array<number>(centroid.length).fill(0));
+    const sizes = new Array<number>(clusters).fill(0);
+    
+    for (const vector of vectors) {
+      const [cluster] = nearestCentroids(vector, centroids, 1, metric);
+      sizes[cluster]++;
+      for (let i = 0; i < vector.length; i++) {
+        sums[cluster][i] += vector[i];
+      }
+    }
+    
+    // Clusters left empty keep their centroid
+    centroids = centroids.map((centroid, cluster) =>
+      sizes[cluster] === 0 ? centroid : sums[cluster].map(sum => sum / sizes[cluster])
+    );
+  }
+  
+  return centroids;
+}
+
+/**
+ * Gets the centroids most similar to a vector
+ *
+ * @param vector The vector
+ * @param centroids The centroids
+ * @param count The number of centroids to return
+ * @param metric The metric to compare the vector to the centroids with
+ * @returns The positions of the centroids in the array, from the most similar
+ */
+export function nearestCentroids(vector: number[], centroids: number[][], count: number, metric: VectorMetric): number[] {
+  return centroids
+    .map((centroid, position) => ({ position, score: similarity(vector, centroid, metric) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(({ position }) => position);
+}
+
+/**
+ * Finds the nearest_neighbors filter of a query. Its results are the k
+ * documents most similar to a single vector, so a query can have at most one,
+ * among its top-level filters.
+ *
+ * @param filters The filters of the query
+ * @returns The filter, or undefined if there is none
+ * @throws ImpossibleDBError with INVALID_QUERY if the query has several
+ *   nearest_neighbors filters, or one nested in a group
+ */
+export function findVectorFilter(filters: QueryFilterNode[]): QueryFilter | undefined {
+  const vectorFilters = filters.filter(
+    (node): node is QueryFilter => 'field' in node && node.operator === 'nearest_neighbors'
+  );
+  
+  if (vectorFilters.length > 1) {
+    throw new ImpossibleDBError(ErrorCode.INVALID_QUERY, 'A query can have at most one nearest_neighbors filter');
+  }
+  
+  if (filters.some(node => !('field' in node) && containsNearestNeighbors(node))) {
+    throw new ImpossibleDBError(ErrorCode.INVALID_QUERY, 'Nearest_neighbors filters cannot be nested in and, or or not groups');
+  }
+  
+  return vectorFilters[0];
+}
+
+/**
+ * Checks whether a filter or a group of filters contains a nearest_neighbors
+ * filter
+ */
+function containsNearestNeighbors(node: QueryFilterNode): boolean {
+  if ('and' in node) {
+    return node.and.some(containsNearestNeighbors);
+  }
+  
+  if ('or' in node) {
+    return node.or.some(containsNearestNeighbors);
+  }
+  
+  if ('not' in node) {
+    return containsNearestNeighbors(node.not);
+  }
+  
+  return node.operator === 'nearest_neighbors';
+}
@@ -0,0 +1,163 @@
+/**
+ * Change Feed
+ *
+ * This module merges the change logs of the shards of a collection into a
+ * single change feed. Sequence numbers are local to a shard, so a position in
+ * the feed is a set of checkpoints: the sequence number of the last change
+ * read from each shard. The checkpoints are returned both as they are and
+ * encoded in an opaque cursor, which the next request passes as `since`.
+ *
+ * Changes of different shards are ordered by time (ties are broken by shard
+ * order). The changes of a shard are always returned in log order, without
+ * gaps, so the checkpoints never skip a change.
+ */
+
+import { ChangeFeedResult, ChangeLogEntry, ErrorCode } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { CONFIG } from '../config';
+
+/**
+ * Changes read from the change log of a shard
+ */
+export interface ShardChanges {
+  changes: ChangeLogEntry[];
+  
+  // Whether the shard has more changes after these
+  hasMore: boolean;
+}
+
+/**
+ * Encodes change feed checkpoints as a cursor
+ *
+ * @param checkpoints Sequence number of the last change read from each shard
+ * @returns The cursor
+ */
+export function encodeCheckpoints(checkpoints: Record<string, number>): string {
+  return btoa(JSON.stringify(checkpoints))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes a change feed cursor
+ *
+ * @param cursor The cursor
+ * @returns The checkpoints encoded by the cursor
+ * @throws ImpossibleDBError with INVALID_REQUEST if the cursor is malformed
+ */
+export function decodeCheckpoints(cursor: string): Record<string, number> {
+  let checkpoints: any;
+  try {
+    checkpoints = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    checkpoints = undefined;
+  }
+  
+  if (
+    !checkpoints ||
+    typeof checkpoints !== 'object' ||
+    Array.isArray(checkpoints) ||
+    !Object.values(checkpoints).every(seq => Number.isSafeInteger(seq) && (seq as number) >= 0)
+  ) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Invalid change feed cursor'
+    );
+  }
+  
+  return checkpoints;
+}
+
+/**
+ * Parses a sequence number sent as a query parameter
+ *
+ * @param value The parameter value
+ * @returns The sequence number, or undefined if the parameter is absent
+ * @throws ImpossibleDBError if the value is not a non-negative integer
+ */
+export function parseSequence(value: string | null): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(Number(value))) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Sequence number must be a non-negative integer'
+    );
+  }
+  
+  return Number(value);
+}
+
+/**
+ * Parses the maximum number of changes to return
+ *
+ * @param value The `limit` query parameter
+ * @returns The limit, CONFIG.DEFAULT_CHANGES_LIMIT if the parameter is absent
+ * @throws ImpossibleDBError if the value is not between 1 and
+ *   CONFIG.MAX_CHANGES_PER_REQUEST
+ */
+export function parseChangesLimit(value: string | null): number {
+  if (value === null) {
+    return CONFIG.DEFAULT_CHANGES_LIMIT;
+  }
+  
+  const limit = Number(value);
+  if (!/^\d+$/.test(value) || limit < 1 || limit > CONFIG.MAX_CHANGES_PER_REQUEST) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      `Limit must be an integer between 1 and ${CONFIG.MAX_CHANGES_PER_REQUEST}`
+    );
+  }
+  
+  return limit;
+}
+
+/**
+ * Merges the changes read from the shards of a collection
+ *
+ * @param shardChanges The changes read from each shard, after its checkpoint
+ * @param checkpoints The checkpoints the changes were read from
+ * @param limit Maximum number of changes to return
+ * @returns The page of the change feed
+ */
+export function mergeChangeFeeds(
+  shardChanges: (ShardChanges & { shardId: string })[],
+  checkpoints: Record<string, number>,
+  limit: number
+): ChangeFeedResult {
+  // Merge the lists by taking the earliest of their next changes, so each
+  // shard's changes stay in log order even if its clock went backwards
+  const positions = shardChanges.map(() => 0);
+  const changes: ChangeLogEntry[] = [];
+  const nextCheckpoints = { ...checkpoints };
+  
+  while (changes.length < limit) {
+    let next = -1;
+    for (let i = 0; i < shardChanges.length; i++) {
+      const candidate = shardChanges[i].changes[positions[i]];
+      if (candidate && (next === -1 || candidate.timestamp < shardChanges[next].changes[positions[next]].timestamp)) {
+        next = i;
+      }
+    }
+    
+    if (next === -1) {
+      break;
+    }
+    
+    const { shardId } = shardChanges[next];
+    const change = shardChanges[next].changes[positions[next]++];
+    
+    changes.push({ ...change, shardId });
+    nextCheckpoints[shardId] = change.seq;
+  }
+  
+  return {
+    changes,
+    checkpoints: nextCheckpoints,
+    cursor: encodeCheckpoints(nextCheckpoints),
+    hasMore: shardChanges.some((shard, i) => shard.hasMore || positions[i] < shard.changes.length)
+  };
+}
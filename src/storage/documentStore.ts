@@ -0,0 +1,1225 @@
+/**
+ * Document Store
+ *
+ * This module implements the SQL persistence layer of a StorageObject on top
+ * of the Durable Object SQLite storage API. Documents of every collection are
+ * kept in a single `documents` table, keyed by collection and document ID,
+ * with the full document (including its metadata fields) stored as JSON text
+ * in the `data` column.
+ *
+ * Expired documents (whose `_expiresAt` has passed) are invisible to every
+ * read, which is why reads take the current time, and are physically
+ * removed by `purgeExpired()`.
+ *
+ * Writes are also appended to the `changes` table, the change log of the
+ * shard, whose `seq` column orders them. Old changes are removed by
+ * `trimChanges()`, which remembers the last sequence number it removed so
+ * readers can tell when changes they have not read are gone.
+ *
+ * Collections that keep history also copy the versions that writes replace
+ * or delete to the `document_versions` table. Each archived version records
+ * the time it stopped being current (`valid_until`), which is what
+ * point-in-time reads look up.
+ *
+ * The statistics of each collection are kept in `collection_statistics`,
+ * along with the last sequence number of the change log they reflect.
+ *
+ * Full-text indexes are inverted indexes: `text_postings` lists the
+ * documents containing each term of the indexed field, with its number of
+ * occurrences, and `text_lengths` the number of terms of each document.
+ * Geospatial indexes keep the geohash of the point of each document in
+ * `geo_points`. Vector indexes keep the centroids of the clusters of their
+ * vectors in `vector_lists`, computed when they are built, and the cluster
+ * of the vector of each document in `vector_entries`. Writes update these
+ * indexes along with the documents, and reject documents whose vector
+ * field does not have the dimension of its index.
+ *
+ * The schema is versioned: MIGRATIONS lists the statements that bring a shard
+ * from one schema version to the next, and `migrate()` applies the ones that
+ * have not run yet when the StorageObject starts.
+ */
+
+import { ChangeEvent, ChangeLogEntry, CollectionConfig, Document, ErrorCode, IndexDefinition } from '../types';
+import { createLogger } from '../utils/logger';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { SqlFragment } from './sql';
+import { createIndexStatement, dropIndexStatement, sqlIndexName } from './indexes';
+import { CollectionStatistics } from '../query/statistics';
+import { AnalyzedText, analyzeText, TextStatistics } from '../query/text';
+import { getNestedValue } from '../query/compare';
+import { geohash, pointOf } from '../query/geo';
+import { isVector, listCount, nearestCentroids, trainCentroids } from '../query/vector';
+import { CONFIG } from '../config';
+
+const logger = createLogger('DocumentStore');
+
+/**
+ * Schema migrations, in order. Entry N upgrades the schema from version N to
+ * version N + 1. Existing entries must never be changed once released.
+ */
+const MIGRATIONS: string[][] = [
+  // Version 1: documents and secondary index definitions
+  [
+    `CREATE TABLE documents (
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (collection, id)
+    )`,
+    `CREATE TABLE indexes (
+      collection TEXT NOT NULL,
+      name TEXT NOT NULL,
+      definition TEXT NOT NULL,
+      PRIMARY KEY (collection, name)
+    )`
+  ],
+  
+  // Version 2: document expiry and collection settings
+  [
+    'ALTER TABLE documents ADD COLUMN expires_at INTEGER',
+    'CREATE INDEX documents_expires_at ON documents (expires_at) WHERE expires_at IS NOT NULL',
+    `CREATE TABLE collection_configs (
+      collection TEXT PRIMARY KEY,
+      config TEXT NOT NULL
+    )`
+  ],
+  
+  // Version 3: change log
+  [
+    `CREATE TABLE changes (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      type TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      timestamp INTEGER NOT NULL,
+      data TEXT
+    )`,
+    'CREATE INDEX changes_collection_seq ON changes (collection, seq)',
+    `CREATE TABLE change_log_trims (
+      collection TEXT PRIMARY KEY,
+      seq INTEGER NOT NULL
+    )`
+  ],
+  
+  // Version 4: document version history
+  [
+    `CREATE TABLE document_versions (
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      valid_until INTEGER NOT NULL,
+      PRIMARY KEY (collection, id, version)
+    )`,
+    'CREATE INDEX document_versions_valid_until ON document_versions (collection, valid_until)'
+  ],
+  
+  // Version 5: collection statistics
+  [
+    `CREATE TABLE collection_statistics (
+      collection TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      seq INTEGER NOT NULL
+    )`
+  ],
+  
+  // Version 6: full-text indexes
+  [
+    `CREATE TABLE text_postings (
+      collection TEXT NOT NULL,
+      index_name TEXT NOT NULL,
+      term TEXT NOT NULL,
+      id TEXT NOT NULL,
+      frequency INTEGER NOT NULL,
+      PRIMARY KEY (collection, index_name, term, id)
+    )`,
+    'CREATE INDEX text_postings_id ON text_postings (collection, index_name, id)',
+    `CREATE TABLE text_lengths (
+      collection TEXT NOT NULL,
+      index_name TEXT NOT NULL,
+      id TEXT NOT NULL,
+      length INTEGER NOT NULL,
+      PRIMARY KEY (collection, index_name, id)
+    )`
+  ],
+  
+  // Version 7: geospatial indexes
+  [
+    `CREATE TABLE geo_points (
+      collection TEXT NOT NULL,
+      index_name TEXT NOT NULL,
+      id TEXT NOT NULL,
+      cell TEXT NOT NULL,
+      PRIMARY KEY (collection, index_name, id)
+    )`,
+    'CREATE INDEX geo_points_cell ON geo_points (collection, index_name, cell)'
+  ],
+  
+  // Version 8: vector indexes
+  [
+    `CREATE TABLE vector_lists (
+      collection TEXT NOT NULL,
+      index_name TEXT NOT NULL,
+      list INTEGER NOT NULL,
+      centroid TEXT NOT NULL,
+      PRIMARY KEY (collection, index_name, list)
+    )`,
+    `CREATE TABLE vector_entries (
+      collection TEXT NOT NULL,
+      index_name TEXT NOT NULL,
+      id TEXT NOT NULL,
+      list INTEGER NOT NULL,
+      PRIMARY KEY (collection, index_name, id)
+    )`,
+    'CREATE INDEX vector_entries_list ON vector_entries (collection, index_name, list)'
+  ],
+  
+  // Version 9: change log lookups by document
+  [
+    'CREATE INDEX changes_collection_id_seq ON changes (collection, id, seq)'
+  ]
+];
+
+/**
+ * Tables holding the entries of the documents of full-text, geospatial and
+ * vector indexes
+ */
+const INDEX_TABLES: Record<NonNullable<IndexDefinition['type']>, string[]> = {
+  text: ['text_postings', 'text_lengths'],
+  geo: ['geo_points'],
+  vector: ['vector_entries']
+};
+
+/**
+ * Condition selecting the documents that have not expired at time `?`
+ */
+const LIVE = '(expires_at IS NULL OR expires_at > ?)';
+
+/**
+ * Result of a query executed in SQL
+ */
+export interface StoreQueryResult {
+  // Documents in the requested page
+  documents: Document[];
+  
+  // Number of documents matching the filters, before pagination
+  total: number;
+  
+  // Number of rows SQLite read to count and select the documents
+  scanned: number;
+}
+
+/**
+ * Document count of a collection stored in the shard
+ */
+export interface CollectionStats {
+  collection: string;
+  documentCount: number;
+}
+
+export class DocumentStore {
+  private storage: DurableObjectStorage;
+  
+  // Full-text, geospatial and vector indexes of each collection, which
+  // writes keep up to date
+  private maintainedIndexCache = new Map<string, IndexDefinition[]>();
+  
+  // Centroids of the lists of each vector index, by collection and index name
+  private vectorListCache = new Map<string, number[][]>();
+  
+  constructor(storage: DurableObjectStorage) {
+    this.storage = storage;
+  }
+  
+  /**
+   * Applies the schema migrations that have not run yet
+   */
+  migrate(): void {
+    const sql = this.storage.sql;
+    sql.exec('CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+    
+    const row = sql.exec<{ value: string }>("SELECT value FROM meta WHERE key = 'schema_version'").toArray()[0];
+    const previousVersion = row ? Number(row.value) : 0;
+    
+    if (previousVersion < MIGRATIONS.length) {
+      this.storage.transactionSync(() => {
+        for (let version = previousVersion; version < MIGRATIONS.length; version++) {
+          for (const statement of MIGRATIONS[version]) {
+            sql.exec(statement);
+          }
+        }
+        
+        sql.exec(
+          "INSERT OR REPLACE INTO meta (key, value) VALUES ('schema_version', ?)",
+          String(MIGRATIONS.length)
+        );
+      });
+      
+      logger.info('Schema migrated', { from: previousVersion, to: MIGRATIONS.length });
+    }
+  }
+  
+  /**
+   * Runs a function in a transaction: either all of its writes are applied,
+   * or none of them if it throws
+   */
+  transaction<T>(fn: () => T): T {
+    return this.storage.transactionSync(fn);
+  }
+  
+  /**
+   * Gets a document
+   *
+   * @param now Current time, documents that expired by then are not returned
+   * @returns The document, or undefined if it does not exist
+   */
+  get(collection: string, id: string, now: number): Document | undefined {
+    const row = this.storage.sql.exec<{ data: string }>(
+      `SELECT data FROM documents WHERE collection = ? AND id = ? AND ${LIVE}`,
+      collection,
+      id,
+      now
+    ).toArray()[0];
+    
+    return row ? JSON.parse(row.data) : undefined;
+  }
+  
+  /**
+   * Creates or replaces a document
+   *
+   * @throws ImpossibleDBError with INVALID_DOCUMENT if a vector field of the
+   *   document does not have the dimension of its vector index, in which
+   *   case nothing is written
+   */
+  put(document: Document): void {
+    const indexes = this.maintainedIndexes(document._collection);
+    for (const index of indexes) {
+      if (index.type === 'vector') {
+        vectorOf(index, document);
+      }
+    }
+    
+    this.storage.sql.exec(
+      'INSERT OR REPLACE INTO documents (collection, id, data, expires_at) VALUES (?, ?, ?, ?)',
+      document._collection,
+      document._id,
+      JSON.stringify(document),
+      document._expiresAt ?? null
+    );
+    
+    for (const index of indexes) {
+      this.indexDocument(index, document);
+    }
+  }
+  
+  /**
+   * Deletes a document (whether or not it has expired)
+   *
+   * @returns Whether the document existed
+   */
+  delete(collection: string, id: string): boolean {
+    const deleted = this.storage.sql.exec(
+      'DELETE FROM documents WHERE collection = ? AND id = ? RETURNING id',
+      collection,
+      id
+    ).toArray();
+    
+    for (const index of this.maintainedIndexes(collection)) {
+      this.unindexDocument(index, id);
+    }
+    
+    return deleted.length > 0;
+  }
+  
+  /**
+   * Gets every live document of a collection, ordered by ID
+   */
+  scan(collection: string, now: number): Document[] {
+    return this.storage.sql.exec<{ data: string }>(
+      `SELECT data FROM documents WHERE collection = ? AND ${LIVE} ORDER BY id`,
+      collection,
+      now
+    ).toArray().map(row => JSON.parse(row.data));
+  }
+  
+  /**
+   * Iterates over the live documents of a collection matching a condition,
+   * reading them one at a time rather than all at once
+   *
+   * @param stats Receives the number of rows SQLite read, once every document
+   *   has been read
+   */
+  *matching(collection: string, where: SqlFragment, now: number, stats?: { scanned: number }): Generator<Document> {
+    const rows = this.storage.sql.exec<{ data: string }>(
+      `SELECT data FROM documents WHERE collection = ? AND ${LIVE} AND (${where.sql})`,
+      collection,
+      now,
+      ...where.params
+    );
+    
+    for (const row of rows) {
+      yield JSON.parse(row.data);
+    }
+    
+    if (stats) {
+      stats.scanned = rows.rowsRead ?? 0;
+    }
+  }
+  
+  /**
+   * Runs a query compiled to SQL
+   *
+   * @param collection The collection to query
+   * @param where Condition the documents must match
+   * @param orderBy ORDER BY clause
+   * @param limit Maximum number of documents to return
+   * @param offset Number of matching documents to skip
+   * @param now Current time, documents that expired by then are not returned
+   * @param after Condition selecting the documents after a cursor; unlike
+   *   `where`, it does not restrict the total
+   * @param index Secondary index SQLite should use, if it can
+   */
+  query(
+    collection: string,
+    where: SqlFragment,
+    orderBy: string,
+    limit: number,
+    offset: number,
+    now: number,
+    after: SqlFragment = { sql: '1', params: [] },
+    index?: string
+  ): StoreQueryResult {
+    const condition = `collection = ? AND ${LIVE} AND (${where.sql})`;
+    
+    const count = this.execIndexed<{ total: number }>(
+      table => `SELECT COUNT(*) AS total FROM ${table} WHERE ${condition}`,
+      collection,
+      index,
+      [collection, now, ...where.params]
+    );
+    const { total } = count.one();
+    
+    const page = this.execIndexed<{ data: string }>(
+      table => pageStatement(table, condition, after, orderBy),
+      collection,
+      index,
+      [
+        collection,
+        now,
+        ...where.params,
+        ...after.params,
+        limit,
+        offset
+      ]
+    );
+    const documents = page.toArray().map(row => JSON.parse(row.data));
+    
+    return { documents, total, scanned: (count.rowsRead ?? 0) + (page.rowsRead ?? 0) };
+  }
+  
+  /**
+   * Gets the SQLite query plan of a query compiled to SQL, without running it
+   *
+   * @param collection The collection to query
+   * @param where Condition the documents must match
+   * @param orderBy ORDER BY clause
+   * @param now Current time
+   * @param after Condition selecting the documents after a cursor
+   * @param index Secondary index SQLite should use, if it can
+   * @returns The steps of the plan (EXPLAIN QUERY PLAN)
+   */
+  explain(
+    collection: string,
+    where: SqlFragment,
+    orderBy: string,
+    now: number,
+    after: SqlFragment = { sql: '1', params: [] },
+    index?: string
+  ): string[] {
+    const condition = `collection = ? AND ${LIVE} AND (${where.sql})`;
+    
+    return this.execIndexed<{ detail: string }>(
+      table => `EXPLAIN QUERY PLAN ${pageStatement(table, condition, after, orderBy)}`,
+      collection,
+      index,
+      [collection, now, ...where.params, ...after.params, 0, 0]
+    ).toArray().map(row => row.detail);
+  }
+  
+  /**
+   * Runs a statement reading the documents table through a secondary index,
+   * or directly if SQLite cannot use the index for it
+   *
+   * @param statement Builds the statement from the table to read
+   * @param collection The collection the index belongs to
+   * @param index The index, if any
+   * @param params Parameters of the statement
+   */
+  private execIndexed<T extends Record<string, SqlStorageValue>>(
+    statement: (table: string) => string,
+    collection: string,
+    index: string | undefined,
+    params: any[]
+  ): SqlStorageCursor<T> {
+    if (index) {
+      try {
+        return this.storage.sql.exec<T>(statement(`documents INDEXED BY "${sqlIndexName(collection, index)}"`), ...params);
+      } catch (error) {
+        logger.debug('Index cannot be used for query', { collection, index, error: (error as Error).message });
+      }
+    }
+    
+    return this.storage.sql.exec<T>(statement('documents'), ...params);
+  }
+  
+  /**
+   * Counts the documents stored for a collection, including expired documents
+   * that have not been purged yet
+   */
+  count(collection: string): number {
+    return this.storage.sql.exec<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM documents WHERE collection = ?',
+      collection
+    ).one().total;
+  }
+  
+  /**
+   * Lists the collections stored in the shard with their live document counts
+   */
+  collections(now: number): CollectionStats[] {
+    return this.storage.sql.exec<{ collection: string; documentCount: number }>(
+      `SELECT collection, COUNT(*) AS documentCount FROM documents WHERE ${LIVE} GROUP BY collection ORDER BY collection`,
+      now
+    ).toArray();
+  }
+  
+  /**
+   * Deletes documents that expired by a given time
+   *
+   * @param now Current time
+   * @param limit Maximum number of documents to delete
+   * @returns The deleted documents
+   */
+  purgeExpired(now: number, limit: number): Document[] {
+    const purged: Document[] = this.storage.sql.exec<{ data: string }>(
+      `DELETE FROM documents WHERE rowid IN (
+        SELECT rowid FROM documents WHERE expires_at <= ? LIMIT ?
+      ) RETURNING data`,
+      now,
+      limit
+    ).toArray().map(row => JSON.parse(row.data));
+    
+    for (const document of purged) {
+      for (const index of this.maintainedIndexes(document._collection)) {
+        this.unindexDocument(index, document._id);
+      }
+    }
+    
+    return purged;
+  }
+  
+  /**
+   * Gets the earliest expiry time of the stored documents
+   *
+   * @returns The expiry time, or undefined if no document expires
+   */
+  nextExpiry(): number | undefined {
+    const { next } = this.storage.sql.exec<{ next: number | null }>(
+      'SELECT MIN(expires_at) AS next FROM documents WHERE expires_at IS NOT NULL'
+    ).one();
+    
+    return next ?? undefined;
+  }
+  
+  /**
+   * Appends a change to the change log
+   *
+   * @returns The sequence number of the change
+   */
+  appendChange(change: ChangeEvent): number {
+    return this.storage.sql.exec<{ seq: number }>(
+      `INSERT INTO changes (collection, id, type, version, timestamp, data)
+        VALUES (?, ?, ?, ?, ?, ?) RETURNING seq`,
+      change.collection,
+      change.id,
+      change.type,
+      change.version,
+      change.timestamp,
+      change.document ? JSON.stringify(change.document) : null
+    ).one().seq;
+  }
+  
+  /**
+   * Gets the changes of a collection that follow a sequence number, in order
+   *
+   * @param since Sequence number of the last change already read
+   * @param limit Maximum number of changes to return
+   */
+  changesSince(collection: string, since: number, limit: number): ChangeLogEntry[] {
+    return this.storage.sql.exec<ChangeRow>(
+      `SELECT seq, id, type, version, timestamp, data FROM changes
+        WHERE collection = ? AND seq > ? ORDER BY seq LIMIT ?`,
+      collection,
+      since,
+      limit
+    ).toArray().map(row => changeFromRow(collection, row));
+  }
+  
+  /**
+   * Gets the last change of a document made at or before a sequence number
+   *
+   * @returns The change, or undefined if the change log has none (the
+   *   document did not exist yet, or its changes were trimmed)
+   */
+  lastChangeBefore(collection: string, id: string, seq: number): ChangeLogEntry | undefined {
+    const row = this.storage.sql.exec<ChangeRow>(
+      `SELECT seq, id, type, version, timestamp, data FROM changes
+        WHERE collection = ? AND id = ? AND seq <= ? ORDER BY seq DESC LIMIT 1`,
+      collection,
+      id,
+      seq
+    ).toArray()[0];
+    
+    return row && changeFromRow(collection, row);
+  }
+  
+  /**
+   * Deletes the changes of a collection made before a given time
+   *
+   * @returns The number of changes deleted
+   */
+  trimChanges(collection: string, before: number): number {
+    return this.transaction(() => {
+      const { last } = this.storage.sql.exec<{ last: number | null }>(
+        'SELECT MAX(seq) AS last FROM changes WHERE collection = ? AND timestamp < ?',
+        collection,
+        before
+      ).one();
+      
+      if (last === null) {
+        return 0;
+      }
+      
+      // Changes are removed up to a sequence number, so the log stays gapless
+      const trimmed = this.storage.sql.exec(
+        'DELETE FROM changes WHERE collection = ? AND seq <= ? RETURNING seq',
+        collection,
+        last
+      ).toArray().length;
+      
+      this.storage.sql.exec(
+        'INSERT OR REPLACE INTO change_log_trims (collection, seq) VALUES (?, ?)',
+        collection,
+        last
+      );
+      
+      return trimmed;
+    });
+  }
+  
+  /**
+   * Gets the sequence number of the last change of a collection deleted by
+   * `trimChanges()`, or 0 if none was
+   */
+  trimmedSeq(collection: string): number {
+    const row = this.storage.sql.exec<{ seq: number }>(
+      'SELECT seq FROM change_log_trims WHERE collection = ?',
+      collection
+    ).toArray()[0];
+    
+    return row ? row.seq : 0;
+  }
+  
+  /**
+   * Lists the collections that have changes in the change log
+   */
+  changeLogCollections(): string[] {
+    return this.storage.sql.exec<{ collection: string }>(
+      'SELECT DISTINCT collection FROM changes'
+    ).toArray().map(row => row.collection);
+  }
+  
+  /**
+   * Archives a version of a document that was replaced or deleted
+   *
+   * @param document The archived version
+   * @param validUntil Time the version stopped being current
+   * @param maxVersions Number of versions of the document to keep, if limited
+   */
+  archiveVersion(document: Document, validUntil: number, maxVersions?: number): void {
+    const sql = this.storage.sql;
+    
+    sql.exec(
+      `INSERT OR REPLACE INTO document_versions (collection, id, version, data, updated_at, valid_until)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+      document._collection,
+      document._id,
+      document._version,
+      JSON.stringify(document),
+      document._updatedAt,
+      validUntil
+    );
+    
+    if (maxVersions !== undefined) {
+      sql.exec(
+        `DELETE FROM document_versions WHERE collection = ? AND id = ? AND version NOT IN (
+          SELECT version FROM document_versions WHERE collection = ? AND id = ? ORDER BY version DESC LIMIT ?
+        )`,
+        document._collection,
+        document._id,
+        document._collection,
+        document._id,
+        maxVersions
+      );
+    }
+  }
+  
+  /**
+   * Gets an archived version of a document
+   *
+   * @returns The version, or undefined if it was not archived (or was trimmed)
+   */
+  getVersion(collection: string, id: string, version: number): Document | undefined {
+    const row = this.storage.sql.exec<{ data: string }>(
+      'SELECT data FROM document_versions WHERE collection = ? AND id = ? AND version = ?',
+      collection,
+      id,
+      version
+    ).toArray()[0];
+    
+    return row ? JSON.parse(row.data) : undefined;
+  }
+  
+  /**
+   * Gets the archived version of a document that was current at a given time
+   *
+   * @returns The version, or undefined if none was archived for that time
+   */
+  getVersionAt(collection: string, id: string, time: number): Document | undefined {
+    const row = this.storage.sql.exec<{ data: string }>(
+      `SELECT data FROM document_versions
+        WHERE collection = ? AND id = ? AND updated_at <= ? AND valid_until > ?
+        ORDER BY version DESC LIMIT 1`,
+      collection,
+      id,
+      time,
+      time
+    ).toArray()[0];
+    
+    return row ? JSON.parse(row.data) : undefined;
+  }
+  
+  /**
+   * Gets the latest archived version number of a document
+   *
+   * @returns The version number, or 0 if no version is archived
+   */
+  latestArchivedVersion(collection: string, id: string): number {
+    const { latest } = this.storage.sql.exec<{ latest: number | null }>(
+      'SELECT MAX(version) AS latest FROM document_versions WHERE collection = ? AND id = ?',
+      collection,
+      id
+    ).one();
+    
+    return latest ?? 0;
+  }
+  
+  /**
+   * Deletes the archived versions of a collection that stopped being current
+   * before a given time
+   *
+   * @returns The number of versions deleted
+   */
+  trimHistory(collection: string, before: number): number {
+    return this.storage.sql.exec(
+      'DELETE FROM document_versions WHERE collection = ? AND valid_until < ? RETURNING version',
+      collection,
+      before
+    ).toArray().length;
+  }
+  
+  /**
+   * Lists the collections that have archived versions
+   */
+  historyCollections(): string[] {
+    return this.storage.sql.exec<{ collection: string }>(
+      'SELECT DISTINCT collection FROM document_versions'
+    ).toArray().map(row => row.collection);
+  }
+  
+  /**
+   * Gets the settings of a collection
+   */
+  getConfig(collection: string): CollectionConfig {
+    const row = this.storage.sql.exec<{ config: string }>(
+      'SELECT config FROM collection_configs WHERE collection = ?',
+      collection
+    ).toArray()[0];
+    
+    return row ? JSON.parse(row.config) : {};
+  }
+  
+  /**
+   * Replaces the settings of a collection
+   */
+  saveConfig(collection: string, config: CollectionConfig): void {
+    this.storage.sql.exec(
+      'INSERT OR REPLACE INTO collection_configs (collection, config) VALUES (?, ?)',
+      collection,
+      JSON.stringify(config)
+    );
+  }
+  
+  /**
+   * Gets the statistics of a collection, if they were computed
+   *
+   * @returns The statistics, and the last change log sequence number they reflect
+   */
+  getStatistics(collection: string): { statistics: CollectionStatistics; seq: number } | undefined {
+    const row = this.storage.sql.exec<{ data: string; seq: number }>(
+      'SELECT data, seq FROM collection_statistics WHERE collection = ?',
+      collection
+    ).toArray()[0];
+    
+    return row ? { statistics: JSON.parse(row.data), seq: row.seq } : undefined;
+  }
+  
+  /**
+   * Replaces the statistics of a collection
+   *
+   * @param seq Last change log sequence number the statistics reflect
+   */
+  saveStatistics(statistics: CollectionStatistics, seq: number): void {
+    this.storage.sql.exec(
+      'INSERT OR REPLACE INTO collection_statistics (collection, data, seq) VALUES (?, ?, ?)',
+      statistics.collection,
+      JSON.stringify(statistics),
+      seq
+    );
+  }
+  
+  /**
+   * Gets the last sequence number of the change log of a collection
+   *
+   * @returns The sequence number, or 0 if the collection has no changes
+   */
+  lastChangeSeq(collection: string): number {
+    const { last } = this.storage.sql.exec<{ last: number | null }>(
+      'SELECT MAX(seq) AS last FROM changes WHERE collection = ?',
+      collection
+    ).one();
+    
+    return last ?? 0;
+  }
+  
+  /**
+   * Counts the changes of a collection that follow a sequence number
+   */
+  countChangesSince(collection: string, since: number): number {
+    return this.storage.sql.exec<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM changes WHERE collection = ? AND seq > ?',
+      collection,
+      since
+    ).one().total;
+  }
+  
+  /**
+   * Lists the secondary indexes of a collection
+   */
+  listIndexes(collection: string): IndexDefinition[] {
+    return this.storage.sql.exec<{ definition: string }>(
+      'SELECT definition FROM indexes WHERE collection = ? ORDER BY name',
+      collection
+    ).toArray().map(row => JSON.parse(row.definition));
+  }
+  
+  /**
+   * Saves a secondary index definition and creates its SQL index, which
+   * SQLite builds from the existing documents immediately (full-text,
+   * geospatial and vector indexes must have been built with `rebuildIndex()`)
+   */
+  saveIndex(index: IndexDefinition): void {
+    this.transaction(() => {
+      if (index.type === undefined) {
+        this.storage.sql.exec(createIndexStatement(index));
+      }
+      this.storage.sql.exec(
+        'INSERT OR REPLACE INTO indexes (collection, name, definition) VALUES (?, ?, ?)',
+        index.collection,
+        index.name,
+        JSON.stringify(index)
+      );
+    });
+    
+    this.maintainedIndexCache.delete(index.collection);
+  }
+  
+  /**
+   * Rebuilds the SQL index backing a secondary index, or the entries of a
+   * full-text, geospatial or vector index, from the stored documents (vector
+   * indexes cluster the vectors of the documents again)
+   *
+   * @throws ImpossibleDBError with INVALID_DOCUMENT if a document has a
+   *   vector field without the dimension of its vector index
+   */
+  rebuildIndex(index: IndexDefinition): void {
+    this.transaction(() => {
+      if (index.type !== undefined) {
+        this.clearIndexEntries(index.collection, index.name);
+        
+        const documents = this.storage.sql.exec<{ data: string }>(
+          'SELECT data FROM documents WHERE collection = ?',
+          index.collection
+        ).toArray().map(row => JSON.parse(row.data) as Document);
+        
+        if (index.type === 'vector') {
+          this.trainVectorLists(index, documents);
+        }
+        
+        for (const document of documents) {
+          this.indexDocument(index, document);
+        }
+      } else {
+        this.storage.sql.exec(dropIndexStatement(index.collection, index.name));
+        this.storage.sql.exec(createIndexStatement(index));
+      }
+    });
+  }
+  
+  /**
+   * Drops a secondary index definition and its SQL index or entries
+   */
+  dropIndex(collection: string, name: string): void {
+    this.transaction(() => {
+      this.storage.sql.exec(dropIndexStatement(collection, name));
+      this.clearIndexEntries(collection, name);
+      this.storage.sql.exec('DELETE FROM indexes WHERE collection = ? AND name = ?', collection, name);
+    });
+    
+    this.maintainedIndexCache.delete(collection);
+  }
+  
+  /**
+   * Gets the statistics of searched terms in a full-text index
+   *
+   * @param index The full-text index
+   * @param terms The searched terms
+   */
+  textStatistics(index: IndexDefinition, terms: string[]): TextStatistics {
+    const { documentCount, totalLength } = this.storage.sql.exec<{ documentCount: number; totalLength: number }>(
+      `SELECT COUNT(*) AS documentCount, IFNULL(SUM(length), 0) AS totalLength
+      FROM text_lengths WHERE collection = ? AND index_name = ?`,
+      index.collection,
+      index.name
+    ).one();
+    
+    const rows = this.storage.sql.exec<{ term: string; documentFrequency: number }>(
+      `SELECT term, COUNT(*) AS documentFrequency FROM text_postings
+      WHERE collection = ? AND index_name = ? AND term IN (SELECT value FROM json_each(?))
+      GROUP BY term`,
+      index.collection,
+      index.name,
+      JSON.stringify(terms)
+    ).toArray();
+    
+    return {
+      documentCount,
+      totalLength,
+      documentFrequencies: Object.fromEntries(rows.map(row => [row.term, row.documentFrequency]))
+    };
+  }
+  
+  /**
+   * Gets the documents of a full-text index that contain any of the searched
+   * terms
+   *
+   * @param index The full-text index
+   * @param terms The searched terms
+   * @returns The number of terms of each document and its occurrences of the
+   *   searched terms, by document ID
+   */
+  textPostings(index: IndexDefinition, terms: string[]): Map<string, AnalyzedText> {
+    const rows = this.storage.sql.exec<{ id: string; term: string; frequency: number; length: number }>(
+      `SELECT p.id, p.term, p.frequency, l.length FROM text_postings p
+      JOIN text_lengths l ON l.collection = p.collection AND l.index_name = p.index_name AND l.id = p.id
+      WHERE p.collection = ? AND p.index_name = ? AND p.term IN (SELECT value FROM json_each(?))`,
+      index.collection,
+      index.name,
+      JSON.stringify(terms)
+    );
+    
+    const postings = new Map<string, AnalyzedText>();
+    for (const row of rows) {
+      const posting = postings.get(row.id) ?? { length: row.length, frequencies: {} };
+      posting.frequencies[row.term] = row.frequency;
+      postings.set(row.id, posting);
+    }
+    
+    return postings;
+  }
+  
+  /**
+   * Gets the IDs of the documents of a geospatial index whose point lies in
+   * any of the given cells
+   *
+   * @param index The geospatial index
+   * @param cells Geohashes of the cells (the empty geohash covers every point)
+   */
+  geoCandidates(index: IndexDefinition, cells: string[]): string[] {
+    const ids = new Set<string>();
+    
+    // Every geohash character sorts before '{', so the points of a cell are
+    // the range of geohashes starting with its geohash
+    for (const cell of cells) {
+      const rows = this.storage.sql.exec<{ id: string }>(
+        'SELECT id FROM geo_points WHERE collection = ? AND index_name = ? AND cell >= ? AND cell < ?',
+        index.collection,
+        index.name,
+        cell,
+        `${cell}{`
+      );
+      for (const row of rows) {
+        ids.add(row.id);
+      }
+    }
+    
+    return [...ids];
+  }
+  
+  /**
+   * Gets the IDs of the documents of a vector index whose vector is in the
+   * lists whose centroids are the nearest to a vector
+   *
+   * @param index The vector index
+   * @param vector The vector
+   * @param probes The number of lists to look up (every list if omitted)
+   * @returns The IDs, and whether every list was looked up
+   */
+  vectorCandidates(index: IndexDefinition, vector: number[], probes?: number): { ids: string[]; complete: boolean } {
+    const centroids = this.vectorLists(index);
+    
+    if (probes === undefined || probes >= centroids.length) {
+      const rows = this.storage.sql.exec<{ id: string }>(
+        'SELECT id FROM vector_entries WHERE collection = ? AND index_name = ?',
+        index.collection,
+        index.name
+      );
+      return { ids: rows.toArray().map(row => row.id), complete: true };
+    }
+    
+    const rows = this.storage.sql.exec<{ id: string }>(
+      `SELECT id FROM vector_entries
+      WHERE collection = ? AND index_name = ? AND list IN (SELECT value FROM json_each(?))`,
+      index.collection,
+      index.name,
+      JSON.stringify(nearestCentroids(vector, centroids, probes, index.metric!))
+    );
+    return { ids: rows.toArray().map(row => row.id), complete: false };
+  }
+  
+  /**
+   * Gets the full-text, geospatial and vector indexes of a collection
+   */
+  private maintainedIndexes(collection: string): IndexDefinition[] {
+    let indexes = this.maintainedIndexCache.get(collection);
+    if (!indexes) {
+      indexes = this.listIndexes(collection).filter(index => index.type !== undefined);
+      this.maintainedIndexCache.set(collection, indexes);
+    }
+    
+    return indexes;
+  }
+  
+  /**
+   * Gets the centroids of the lists of a vector index, by list number
+   */
+  private vectorLists(index: IndexDefinition): number[][] {
+    const key = `${index.collection}/${index.name}`;
+    let centroids = this.vectorListCache.get(key);
+    if (!centroids) {
+      centroids = this.storage.sql.exec<{ centroid: string }>(
+        'SELECT centroid FROM vector_lists WHERE collection = ? AND index_name = ? ORDER BY list',
+        index.collection,
+        index.name
+      ).toArray().map(row => JSON.parse(row.centroid));
+      this.vectorListCache.set(key, centroids);
+    }
+    
+    return centroids;
+  }
+  
+  /**
+   * Clusters the vectors of documents into the lists of a vector index,
+   * replacing its previous lists
+   */
+  private trainVectorLists(index: IndexDefinition, documents: Document[]): void {
+    const vectors = documents
+      .map(document => getNestedValue(document, index.fields[0]))
+      .filter(value => isVector(value, index.dimensions));
+    
+    // Large indexes are clustered with vectors spread over the collection
+    const step = Math.max(1, vectors.length / CONFIG.MAX_VECTOR_TRAINING_VECTORS);
+    const sample = vectors.length <= CONFIG.MAX_VECTOR_TRAINING_VECTORS
+      ? vectors
+      : Array.from({ length: CONFIG.MAX_VECTOR_TRAINING_VECTORS }, (_, i) => vectors[Math.floor(i * step)]);
+    
+    const centroids = trainCentroids(sample, listCount(vectors.length), index.metric!);
+    centroids.forEach((centroid, list) => {
+      this.storage.sql.exec(
+        'INSERT INTO vector_lists (collection, index_name, list, centroid) VALUES (?, ?, ?, ?)',
+        index.collection,
+        index.name,
+        list,
+        JSON.stringify(centroid)
+      );
+    });
+    
+    this.vectorListCache.set(`${index.collection}/${index.name}`, centroids);
+  }
+  
+  /**
+   * Replaces the entries of a document in a full-text, geospatial or vector
+   * index
+   *
+   * @throws ImpossibleDBError with INVALID_DOCUMENT if the field of a vector
+   *   index is not a vector of its dimension
+   */
+  private indexDocument(index: IndexDefinition, document: Document): void {
+    this.unindexDocument(index, document._id);
+    
+    if (index.type === 'vector') {
+      const vector = vectorOf(index, document);
+      if (!vector) {
+        return;
+      }
+      
+      // Vectors written since the index was built go to the nearest list
+      const centroids = this.vectorLists(index);
+      this.storage.sql.exec(
+        'INSERT INTO vector_entries (collection, index_name, id, list) VALUES (?, ?, ?, ?)',
+        index.collection,
+        index.name,
+        document._id,
+        centroids.length > 0 ? nearestCentroids(vector, centroids, 1, index.metric!)[0] : 0
+      );
+      return;
+    }
+    
+    if (index.type === 'geo') {
+      const point = pointOf(getNestedValue(document, index.fields[0]));
+      if (point) {
+        this.storage.sql.exec(
+          'INSERT INTO geo_points (collection, index_name, id, cell) VALUES (?, ?, ?, ?)',
+          index.collection,
+          index.name,
+          document._id,
+          geohash(point, CONFIG.GEO_CELL_PRECISION)
+        );
+      }
+      return;
+    }
+    
+    const analyzed = analyzeText(getNestedValue(document, index.fields[0]));
+    if (!analyzed) {
+      return;
+    }
+    
+    this.storage.sql.exec(
+      'INSERT INTO text_lengths (collection, index_name, id, length) VALUES (?, ?, ?, ?)',
+      index.collection,
+      index.name,
+      document._id,
+      analyzed.length
+    );
+    this.storage.sql.exec(
+      `INSERT INTO text_postings (collection, index_name, term, id, frequency)
+      SELECT ?, ?, key, ?, value FROM json_each(?)`,
+      index.collection,
+      index.name,
+      document._id,
+      JSON.stringify(analyzed.frequencies)
+    );
+  }
+  
+  /**
+   * Removes the entries of a document from a full-text, geospatial or vector
+   * index
+   */
+  private unindexDocument(index: IndexDefinition, id: string): void {
+    for (const table of INDEX_TABLES[index.type!]) {
+      this.storage.sql.exec(
+        `DELETE FROM ${table} WHERE collection = ? AND index_name = ? AND id = ?`,
+        index.collection,
+        index.name,
+        id
+      );
+    }
+  }
+  
+  /**
+   * Removes every entry of an index from the tables of full-text,
+   * geospatial and vector indexes
+   */
+  private clearIndexEntries(collection: string, name: string): void {
+    for (const table of [...Object.values(INDEX_TABLES).flat(), 'vector_lists']) {
+      this.storage.sql.exec(`DELETE FROM ${table} WHERE collection = ? AND index_name = ?`, collection, name);
+    }
+    
+    this.vectorListCache.delete(`${collection}/${name}`);
+  }
+}
+
+/**
+ * Row of the change log
+ */
+type ChangeRow = {
+  seq: number;
+  id: string;
+  type: ChangeEvent['type'];
+  version: number;
+  timestamp: number;
+  data: string | null;
+};
+
+/**
+ * Builds a change from its row in the change log
+ */
+function changeFromRow(collection: string, { data, ...change }: ChangeRow): ChangeLogEntry {
+  return {
+    ...change,
+    collection,
+    ...(data !== null && { document: JSON.parse(data) })
+  };
+}
+
+/**
+ * Gets the vector of a document in a vector index
+ *
+ * @returns The vector, or undefined if the document has no vector field
+ * @throws ImpossibleDBError with INVALID_DOCUMENT if the field is not a
+ *   vector of the dimension of the index
+ */
+function vectorOf(index: IndexDefinition, document: Document): number[] | undefined {
+  const value = getNestedValue(document, index.fields[0]);
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  
+  if (!isVector(value, index.dimensions)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_DOCUMENT,
+      `Field ${index.fields[0]} must be a vector of ${index.dimensions} numbers (vector index ${index.name})`
+    );
+  }
+  
+  return value;
+}
+
+/**
+ * Builds the statement selecting a page of the documents matching a condition
+ */
+function pageStatement(table: string, condition: string, after: SqlFragment, orderBy: string): string {
+  return `SELECT data FROM ${table} WHERE ${condition} AND (${after.sql}) ${orderBy} LIMIT ? OFFSET ?`;
+}
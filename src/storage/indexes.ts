@@ -0,0 +1,186 @@
+/**
+ * Secondary Indexes
+ *
+ * This module contains the secondary index support used by StorageObject:
+ * validating index definitions and translating them into SQLite expression
+ * indexes on the documents table.
+ *
+ * Each secondary index is a SQL index over the collection column followed by
+ * the JSON expressions of its fields. The expressions are generated by the
+ * same code that compiles query filters, so the SQLite query planner can use
+ * the index for equality and range filters on those fields.
+ *
+ * Full-text indexes (type 'text'), geospatial indexes (type 'geo') and
+ * vector indexes (type 'vector') are not SQL indexes: the DocumentStore
+ * keeps the terms, the geohash or the cluster of their field in tables of
+ * its own.
+ */
+
+import { IndexDefinition, ErrorCode } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { fieldExpression } from './sql';
+import { CONFIG } from '../config';
+import { VECTOR_METRICS } from '../query/vector';
+
+/**
+ * Maximum number of fields in a compound index
+ */
+export const MAX_INDEX_FIELDS = 4;
+
+/**
+ * Validates and normalizes an index definition received from a client
+ *
+ * @param collection The collection the index belongs to
+ * @param input The raw index definition
+ * @returns A normalized index definition (status is 'building')
+ * @throws ImpossibleDBError if the definition is invalid
+ */
+export function normalizeIndexDefinition(collection: string, input: any): IndexDefinition {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Index definition must be an object'
+    );
+  }
+  
+  const fields = input.fields;
+  if (!Array.isArray(fields) || fields.length === 0) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Index must have at least one field'
+    );
+  }
+  
+  const type: IndexDefinition['type'] = input.type;
+  if (type !== undefined && type !== 'text' && type !== 'geo' && type !== 'vector') {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      "Index type must be 'text', 'geo' or 'vector' if given"
+    );
+  }
+  
+  if (type === 'vector') {
+    if (!Number.isInteger(input.dimensions) || input.dimensions < 1 || input.dimensions > CONFIG.MAX_VECTOR_DIMENSIONS) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        `A vector index must have a number of dimensions from 1 to ${CONFIG.MAX_VECTOR_DIMENSIONS}`
+      );
+    }
+    
+    if (input.metric !== undefined && !VECTOR_METRICS.includes(input.metric)) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        `Vector index metric must be one of: ${VECTOR_METRICS.join(', ')}`
+      );
+    }
+  } else if (input.dimensions !== undefined || input.metric !== undefined) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Only vector indexes have dimensions and a metric'
+    );
+  }
+  
+  if (type !== undefined && fields.length > 1) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      `A ${type} index must have a single field`
+    );
+  }
+  
+  if (fields.length > MAX_INDEX_FIELDS) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      `Index cannot have more than ${MAX_INDEX_FIELDS} fields`
+    );
+  }
+  
+  for (const field of fields) {
+    if (!field || typeof field !== 'string' || !/^[a-zA-Z0-9_]+(\.[a-zA-Z0-9_]+)*$/.test(field) || !fieldExpression(field)) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        `Invalid index field: ${field}`
+      );
+    }
+  }
+  
+  if (new Set(fields).size !== fields.length) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Index fields must be unique'
+    );
+  }
+  
+  const name = input.name ?? (fields.join('_').replace(/\./g, '_') + (type ? `_${type}` : ''));
+  if (typeof name !== 'string' || !/^[a-zA-Z0-9_]{1,64}$/.test(name)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Index name can only contain up to 64 alphanumeric characters and underscores'
+    );
+  }
+  
+  return {
+    name,
+    collection,
+    fields: [...fields],
+    ...(type && { type }),
+    ...(type === 'vector' && { dimensions: input.dimensions, metric: input.metric ?? 'cosine' }),
+    status: 'building',
+    createdAt: Date.now()
+  };
+}
+
+/**
+ * Gets the name of the SQL index backing a secondary index. The collection
+ * name length is included so that names stay unique even though collection
+ * and index names may both contain underscores.
+ *
+ * @param collection Collection name
+ * @param indexName Index name
+ * @returns The SQL index name
+ */
+export function sqlIndexName(collection: string, indexName: string): string {
+  return `idx_${collection.length}_${collection}_${indexName}`;
+}
+
+/**
+ * Builds the statement creating the SQL index backing a secondary index
+ *
+ * @param index The index definition
+ * @returns The CREATE INDEX statement
+ */
+export function createIndexStatement(index: IndexDefinition): string {
+  const expressions = index.fields.map(field => fieldExpression(field)!);
+  
+  return `CREATE INDEX IF NOT EXISTS "${sqlIndexName(index.collection, index.name)}" ` +
+    `ON documents (collection, ${expressions.join(', ')})`;
+}
+
+/**
+ * Builds the statement dropping the SQL index backing a secondary index
+ *
+ * @param collection Collection name
+ * @param indexName Index name
+ * @returns The DROP INDEX statement
+ */
+export function dropIndexStatement(collection: string, indexName: string): string {
+  return `DROP INDEX IF EXISTS "${sqlIndexName(collection, indexName)}"`;
+}
+
+/**
+ * Finds the secondary index a SQLite query plan uses, if any
+ *
+ * @param sqlPlan Steps of the query plan (EXPLAIN QUERY PLAN)
+ * @param indexes Secondary indexes of the collection
+ * @returns The name of the index used, or undefined
+ */
+export function indexUsedByPlan(sqlPlan: string[], indexes: IndexDefinition[]): string | undefined {
+  for (const step of sqlPlan) {
+    const match = /USING (?:COVERING )?INDEX "?([^\s"]+)"?/.exec(step);
+    const index = match && indexes.find(index => sqlIndexName(index.collection, index.name) === match[1]);
+    if (index) {
+      return index.name;
+    }
+  }
+  
+  return undefined;
+}
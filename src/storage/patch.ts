@@ -0,0 +1,468 @@
+/**
+ * Document Patches
+ *
+ * This module applies partial updates to the user fields of a document. Two
+ * formats are supported:
+ *
+ * - RFC 6902 JSON Patch: an array of operations (add, remove, replace, move,
+ *   copy, test) addressing fields with JSON Pointers such as "/address/city"
+ * - Update operators: an object such as { $set: { 'address.city': 'NYC' } }
+ *   addressing fields with dot notation ($set, $unset, $inc, $push, $pull,
+ *   $addToSet, $min, $max)
+ *
+ * Patches are applied to a copy of the document, so a patch that fails
+ * partway leaves the original untouched.
+ */
+
+import { ErrorCode } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { compareValues } from '../query/compare';
+
+/**
+ * RFC 6902 JSON Patch operation
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  value?: any;
+  from?: string;
+}
+
+/**
+ * Update operators, each mapping field paths (dot notation) to values
+ */
+export interface UpdateOperators {
+  $set?: Record<string, any>;
+  $unset?: Record<string, any>;
+  $inc?: Record<string, number>;
+  $push?: Record<string, any>;
+  $pull?: Record<string, any>;
+  $addToSet?: Record<string, any>;
+  $min?: Record<string, any>;
+  $max?: Record<string, any>;
+}
+
+/**
+ * A patch in either supported format
+ */
+export type DocumentPatch = JsonPatchOperation[] | UpdateOperators;
+
+/**
+ * Metadata fields that patches cannot modify, and `_expectedVersion`, which
+ * PUT bodies use as a write condition and so cannot be stored either
+ */
+const RESERVED_FIELDS = ['_id', '_collection', '_version', '_createdAt', '_updatedAt', '_expiresAt', '_expectedVersion'];
+
+/**
+ * Path segments that would reach object prototypes
+ */
+const FORBIDDEN_SEGMENTS = ['__proto__', 'prototype', 'constructor'];
+
+/**
+ * Applies a patch to the user fields of a document
+ *
+ * @param fields The document's user fields (left unchanged)
+ * @param patch A JSON Patch array or an update operators object
+ * @returns The patched fields
+ * @throws ImpossibleDBError with INVALID_REQUEST if the patch is invalid or
+ *   cannot be applied, or CONFLICT if a JSON Patch 'test' operation fails
+ */
+export function applyPatch(fields: Record<string, any>, patch: DocumentPatch): Record<string, any> {
+  if (Array.isArray(patch)) {
+    return applyJsonPatch(fields, patch);
+  }
+  
+  if (patch && typeof patch === 'object') {
+    return applyUpdateOperators(fields, patch);
+  }
+  
+  throw invalidPatch('Patch must be a JSON Patch array or an update operators object');
+}
+
+/**
+ * Applies an RFC 6902 JSON Patch
+ *
+ * @param fields The document's user fields (left unchanged)
+ * @param operations The patch operations, applied in order
+ * @returns The patched fields
+ */
+export function applyJsonPatch(fields: Record<string, any>, operations: JsonPatchOperation[]): Record<string, any> {
+  const document = structuredClone(fields);
+  
+  for (const operation of operations) {
+    if (!operation || typeof operation !== 'object' || typeof operation.path !== 'string') {
+      throw invalidPatch('Each JSON Patch operation must be an object with a path');
+    }
+    
+    const path = parsePointer(operation.path);
+    
+    switch (operation.op) {
+      case 'add':
+        requireValue(operation);
+        addValue(document, path, structuredClone(operation.value));
+        break;
+      case 'remove':
+        removeValue(document, path);
+        break;
+      case 'replace':
+        requireValue(operation);
+        removeValue(document, path);
+        addValue(document, path, structuredClone(operation.value));
+        break;
+      case 'move': {
+        const from = parsePointer(requireFrom(operation));
+        if (from.length < path.length && from.every((segment, i) => segment === path[i])) {
+          throw invalidPatch(`Cannot move ${operation.from} into one of its children`);
+        }
+        
+        const value = getValue(document, from, operation.from!);
+        removeValue(document, from);
+        addValue(document, path, value);
+        break;
+      }
+      case 'copy': {
+        const from = parsePointer(requireFrom(operation));
+        addValue(document, path, structuredClone(getValue(document, from, operation.from!)));
+        break;
+      }
+      case 'test':
+        requireValue(operation);
+        if (!deepEqual(getValue(document, path, operation.path), operation.value)) {
+          throw new ImpossibleDBError(
+            ErrorCode.CONFLICT,
+            `JSON Patch test failed at ${operation.path}`,
+            { path: operation.path }
+          );
+        }
+        break;
+      default:
+        throw invalidPatch(`Unsupported JSON Patch operation: ${(operation as any).op}`);
+    }
+  }
+  
+  return document;
+}
+
+/**
+ * Applies update operators
+ *
+ * Operators are applied in the order they appear in the object, and fields
+ * within an operator in the order they are listed. Missing intermediate
+ * objects are created.
+ *
+ * @param fields The document's user fields (left unchanged)
+ * @param update The update operators
+ * @returns The patched fields
+ */
+export function applyUpdateOperators(fields: Record<string, any>, update: UpdateOperators): Record<string, any> {
+  const document = structuredClone(fields);
+  const entries = Object.entries(update);
+  
+  if (entries.length === 0) {
+    throw invalidPatch('Update must contain at least one operator');
+  }
+  
+  for (const [operator, assignments] of entries) {
+    if (!assignments || typeof assignments !== 'object' || Array.isArray(assignments)) {
+      throw invalidPatch(`${operator} must map field paths to values`);
+    }
+    
+    for (const [field, value] of Object.entries(assignments)) {
+      const path = parseFieldPath(field);
+      
+      switch (operator) {
+        case '$set':
+          setValue(document, path, structuredClone(value));
+          break;
+        case '$unset':
+          unsetValue(document, path);
+          break;
+        case '$inc': {
+          const current = lookup(document, path);
+          if (typeof value !== 'number' || (current !== undefined && typeof current !== 'number')) {
+            throw invalidPatch(`$inc requires numbers, but ${field} is not a number`);
+          }
+          
+          setValue(document, path, (current ?? 0) + value);
+          break;
+        }
+        case '$push':
+          setValue(document, path, [...arrayAt(document, path, operator, field), ...eachValue(value)]);
+          break;
+        case '$addToSet': {
+          const array = [...arrayAt(document, path, operator, field)];
+          for (const item of eachValue(value)) {
+            if (!array.some(existing => deepEqual(existing, item))) {
+              array.push(item);
+            }
+          }
+          
+          setValue(document, path, array);
+          break;
+        }
+        case '$pull': {
+          const current = lookup(document, path);
+          if (current !== undefined) {
+            setValue(document, path, arrayAt(document, path, operator, field).filter(item => !deepEqual(item, value)));
+          }
+          break;
+        }
+        case '$min':
+        case '$max': {
+          const current = lookup(document, path);
+          const comparison = current === undefined ? 0 : compareValues(value, current);
+          
+          if (current === undefined || (operator === '$min' ? comparison < 0 : comparison > 0)) {
+            setValue(document, path, structuredClone(value));
+          }
+          break;
+        }
+        default:
+          throw invalidPatch(`Unsupported update operator: ${operator}`);
+      }
+    }
+  }
+  
+  return document;
+}
+
+/**
+ * Parses a JSON Pointer (RFC 6901) into path segments
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '' || !pointer.startsWith('/')) {
+    throw invalidPatch(`Invalid JSON Pointer: '${pointer}' (patches cannot replace the whole document)`);
+  }
+  
+  return checkPath(
+    pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~')),
+    pointer
+  );
+}
+
+/**
+ * Parses a dot-notation field path into path segments
+ */
+function parseFieldPath(field: string): string[] {
+  const segments = field.split('.');
+  
+  if (segments.some(segment => segment === '')) {
+    throw invalidPatch(`Invalid field path: '${field}'`);
+  }
+  
+  return checkPath(segments, field);
+}
+
+/**
+ * Rejects paths that would modify metadata fields or object prototypes
+ */
+function checkPath(segments: string[], path: string): string[] {
+  if (RESERVED_FIELDS.includes(segments[0])) {
+    throw invalidPatch(`Cannot modify reserved field '${segments[0]}'`);
+  }
+  
+  if (segments.some(segment => FORBIDDEN_SEGMENTS.includes(segment))) {
+    throw invalidPatch(`Invalid path: '${path}'`);
+  }
+  
+  return segments;
+}
+
+/**
+ * Gets the container holding the last segment of a path, optionally creating
+ * missing intermediate objects
+ */
+function parentOf(document: any, path: string[], create: boolean): any {
+  let current = document;
+  
+  for (const segment of path.slice(0, -1)) {
+    let next = Array.isArray(current) ? current[arrayIndex(current, segment, false)] : current[segment];
+    
+    if (next === undefined && create && !Array.isArray(current)) {
+      next = current[segment] = {};
+    }
+    
+    if (next === null || typeof next !== 'object') {
+      throw invalidPatch(`Path not found: ${path.join('.')}`);
+    }
+    
+    current = next;
+  }
+  
+  return current;
+}
+
+/**
+ * Converts a path segment to an index into an array
+ *
+ * @param allowEnd Whether the index just past the last element ('-' or length) is valid
+ */
+function arrayIndex(array: any[], segment: string, allowEnd: boolean): number {
+  if (allowEnd && segment === '-') {
+    return array.length;
+  }
+  
+  const index = /^(0|[1-9]\d*)$/.test(segment) ? Number(segment) : NaN;
+  if (Number.isNaN(index) || index > array.length || (!allowEnd && index === array.length)) {
+    throw invalidPatch(`Invalid array index: ${segment}`);
+  }
+  
+  return index;
+}
+
+/**
+ * Gets the value at a path, failing if it does not exist
+ */
+function getValue(document: any, path: string[], pointer: string): any {
+  const parent = parentOf(document, path, false);
+  const key = path[path.length - 1];
+  const value = Array.isArray(parent) ? parent[arrayIndex(parent, key, false)] : parent[key];
+  
+  if (value === undefined) {
+    throw invalidPatch(`Path not found: ${pointer}`);
+  }
+  
+  return value;
+}
+
+/**
+ * JSON Patch 'add': inserts into arrays, sets object members
+ */
+function addValue(document: any, path: string[], value: any): void {
+  const parent = parentOf(document, path, false);
+  const key = path[path.length - 1];
+  
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+}
+
+/**
+ * JSON Patch 'remove': the value must exist
+ */
+function removeValue(document: any, path: string[]): void {
+  const parent = parentOf(document, path, false);
+  const key = path[path.length - 1];
+  
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false), 1);
+  } else if (Object.prototype.hasOwnProperty.call(parent, key)) {
+    delete parent[key];
+  } else {
+    throw invalidPatch(`Path not found: ${path.join('/')}`);
+  }
+}
+
+/**
+ * Gets the value at a dot-notation path, or undefined if any part is missing
+ */
+function lookup(document: any, path: string[]): any {
+  return path.reduce((current, segment) => {
+    return current !== null && typeof current === 'object' ? current[segment] : undefined;
+  }, document);
+}
+
+/**
+ * Sets the value at a dot-notation path, creating missing objects
+ */
+function setValue(document: any, path: string[], value: any): void {
+  const parent = parentOf(document, path, true);
+  const key = path[path.length - 1];
+  
+  if (Array.isArray(parent)) {
+    parent[arrayIndex(parent, key, true)] = value;
+  } else {
+    parent[key] = value;
+  }
+}
+
+/**
+ * Removes the value at a dot-notation path (array elements are set to null,
+ * so the positions of the other elements do not change)
+ */
+function unsetValue(document: any, path: string[]): void {
+  const parent = lookup(document, path.slice(0, -1));
+  const key = path[path.length - 1];
+  
+  if (Array.isArray(parent)) {
+    if (key in parent) {
+      parent[Number(key)] = null;
+    }
+  } else if (parent !== null && typeof parent === 'object') {
+    delete parent[key];
+  }
+}
+
+/**
+ * Gets the array an array operator applies to (an empty array if missing)
+ */
+function arrayAt(document: any, path: string[], operator: string, field: string): any[] {
+  const current = lookup(document, path);
+  
+  if (current === undefined) {
+    return [];
+  }
+  
+  if (!Array.isArray(current)) {
+    throw invalidPatch(`${operator} requires an array, but ${field} is not an array`);
+  }
+  
+  return current;
+}
+
+/**
+ * Gets the values added by $push/$addToSet, which accept { $each: [...] }
+ */
+function eachValue(value: any): any[] {
+  if (value && typeof value === 'object' && !Array.isArray(value) && '$each' in value) {
+    if (!Array.isArray(value.$each)) {
+      throw invalidPatch('$each must be an array');
+    }
+    
+    return structuredClone(value.$each);
+  }
+  
+  return [structuredClone(value)];
+}
+
+function requireValue(operation: JsonPatchOperation): void {
+  if (!('value' in operation)) {
+    throw invalidPatch(`JSON Patch '${operation.op}' operation requires a value`);
+  }
+}
+
+function requireFrom(operation: JsonPatchOperation): string {
+  if (typeof operation.from !== 'string') {
+    throw invalidPatch(`JSON Patch '${operation.op}' operation requires a from path`);
+  }
+  
+  return operation.from;
+}
+
+/**
+ * Compares two JSON values structurally
+ */
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  
+  return keysA.length === keysB.length && keysA.every(key => deepEqual(a[key], b[key]));
+}
+
+function invalidPatch(message: string): ImpossibleDBError {
+  return new ImpossibleDBError(ErrorCode.INVALID_REQUEST, message);
+}
@@ -0,0 +1,645 @@
+/**
+ * Collection Schemas
+ *
+ * This module validates documents against the JSON Schema of their
+ * collection. Schemas use a subset of JSON Schema draft 2020-12:
+ *
+ * - Any value: type, enum, const, allOf, anyOf, oneOf, not, if/then/else,
+ *   and $ref to the root schema ('#') or one of its $defs ('#/$defs/name')
+ * - Numbers: minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf
+ * - Strings: minLength, maxLength, pattern, format (date, date-time, email,
+ *   uri, uuid)
+ * - Arrays: items, prefixItems, contains, minItems, maxItems, uniqueItems
+ * - Objects: properties, patternProperties, additionalProperties, required,
+ *   dependentRequired, minProperties, maxProperties
+ *
+ * Annotations ($schema, $id, $comment, title, description, default,
+ * examples, deprecated, readOnly, writeOnly) are allowed and ignored, and
+ * any other keyword is rejected when the schema is registered, so that no
+ * constraint is silently skipped. Patterns must be safe regular expressions
+ * (see compileRegex).
+ *
+ * Documents are validated without their metadata fields. Each error gives
+ * the JSON Pointer of the invalid value in the document (`path`), such as
+ * "/address/zip", and what it should be (`message`).
+ */
+
+import { ErrorCode, JsonSchema, SchemaMode } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { CONFIG } from '../config';
+import { compileRegex } from '../query/matcher';
+
+/**
+ * A value of a document that does not match its schema
+ */
+export interface SchemaError {
+  // JSON Pointer of the value in the document ('' for the document itself)
+  path: string;
+  message: string;
+}
+
+/**
+ * The validation of a document against the schema of its collection
+ */
+interface ValidationContext {
+  // The collection schema, which references are resolved in
+  root: JsonSchema;
+  // Number of subschemas the document has been validated against so far
+  evaluations: number;
+}
+
+/**
+ * Thrown to give up validating a document that takes more than
+ * CONFIG.MAX_SCHEMA_EVALUATIONS subschema evaluations
+ */
+const TOO_COMPLEX = new Error('Schema validation too complex');
+
+/**
+ * The schema enforcement modes
+ */
+export const SCHEMA_MODES: SchemaMode[] = ['strict', 'warn', 'off'];
+
+/**
+ * Keywords that do not constrain values
+ */
+const ANNOTATIONS = ['$schema', '$id', '$comment', 'title', 'description', 'default', 'examples', 'deprecated', 'readOnly', 'writeOnly'];
+
+/**
+ * Types the type keyword can name
+ */
+const TYPES = ['string', 'number', 'integer', 'boolean', 'null', 'array', 'object'];
+
+/**
+ * Checks of the formats the format keyword can name
+ */
+const FORMATS: Record<string, (value: string) => boolean> = {
+  'date': value => /^\d{4}-\d{2}-\d{2}$/.test(value) && isValidDate(value),
+  'date-time': value =>
+    /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) && isValidDate(value.slice(0, 10)),
+  'email': value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  'uri': value => /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/.test(value),
+  'uuid': value => /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/.test(value)
+};
+
+/**
+ * Validates a collection schema
+ *
+ * @param schema The schema
+ * @throws ImpossibleDBError with INVALID_REQUEST if the schema uses an
+ *   unsupported keyword or a keyword with an invalid value, naming where
+ */
+export function validateSchema(schema: any): void {
+  if (!isObject(schema)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Collection schema must be an object'
+    );
+  }
+  
+  checkSchema(schema, '', schema);
+}
+
+/**
+ * Validates a value against a schema
+ *
+ * @param value The value, such as the fields of a document
+ * @param schema The schema, which must have been validated with
+ *   validateSchema
+ * @returns The errors, at most CONFIG.MAX_SCHEMA_ERRORS (none if the value
+ *   matches the schema), or a single error if validating the value takes
+ *   more than CONFIG.MAX_SCHEMA_EVALUATIONS subschema evaluations
+ */
+export function schemaErrors(value: any, schema: JsonSchema): SchemaError[] {
+  const errors: SchemaError[] = [];
+  try {
+    validateValue(value, schema, '', { root: schema, evaluations: 0 }, errors, 0);
+  } catch (error) {
+    if (error !== TOO_COMPLEX) {
+      throw error;
+    }
+    return [{
+      path: '',
+      message: `is too complex to validate (more than ${CONFIG.MAX_SCHEMA_EVALUATIONS} subschema evaluations)`
+    }];
+  }
+  
+  return errors.slice(0, CONFIG.MAX_SCHEMA_ERRORS);
+}
+
+/**
+ * Checks a schema or a subschema of a collection schema
+ *
+ * @param schema The schema
+ * @param location JSON Pointer of the schema in the collection schema
+ * @param root The collection schema
+ */
+function checkSchema(schema: any, location: string, root: Record<string, any>): void {
+  const invalid = (keyword: string, expected: string) => new ImpossibleDBError(
+    ErrorCode.INVALID_REQUEST,
+    `Invalid schema: '${keyword}' at '${location || '/'}' must be ${expected}`
+  );
+  
+  if (typeof schema === 'boolean') {
+    return;
+  }
+  
+  if (!isObject(schema)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      `Invalid schema: '${location || '/'}' must be a schema (an object or a boolean)`
+    );
+  }
+  
+  for (const [keyword, value] of Object.entries(schema)) {
+    const at = `${location}/${escapePointer(keyword)}`;
+    
+    switch (keyword) {
+      case 'type': {
+        const types = Array.isArray(value) ? value : [value];
+        if (types.length === 0 || !types.every(type => TYPES.includes(type))) {
+          throw invalid(keyword, `one or an array of: ${TYPES.join(', ')}`);
+        }
+        break;
+      }
+      case 'enum':
+        if (!Array.isArray(value) || value.length === 0) {
+          throw invalid(keyword, 'a non-empty array');
+        }
+        break;
+      case 'const':
+        break;
+      case 'minimum':
+      case 'maximum':
+      case 'exclusiveMinimum':
+      case 'exclusiveMaximum':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw invalid(keyword, 'a number');
+        }
+        break;
+      case 'multipleOf':
+        if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+          throw invalid(keyword, 'a positive number');
+        }
+        break;
+      case 'minLength':
+      case 'maxLength':
+      case 'minItems':
+      case 'maxItems':
+      case 'minProperties':
+      case 'maxProperties':
+        if (!Number.isInteger(value) || value < 0) {
+          throw invalid(keyword, 'a non-negative integer');
+        }
+        break;
+      case 'uniqueItems':
+        if (typeof value !== 'boolean') {
+          throw invalid(keyword, 'a boolean');
+        }
+        break;
+      case 'pattern':
+        if (typeof value !== 'string') {
+          throw invalid(keyword, 'a regular expression');
+        }
+        checkPattern(value, at);
+        break;
+      case 'format':
+        if (!Object.keys(FORMATS).includes(value)) {
+          throw invalid(keyword, `one of: ${Object.keys(FORMATS).join(', ')}`);
+        }
+        break;
+      case 'required':
+        if (!Array.isArray(value) || !value.every(name => typeof name === 'string')) {
+          throw invalid(keyword, 'an array of property names');
+        }
+        break;
+      case 'dependentRequired':
+        if (!isObject(value) || !Object.values(value).every(names => Array.isArray(names) && names.every(name => typeof name === 'string'))) {
+          throw invalid(keyword, 'an object of arrays of property names');
+        }
+        break;
+      case 'properties':
+      case '$defs':
+        if (!isObject(value)) {
+          throw invalid(keyword, 'an object of schemas');
+        }
+        for (const [name, subschema] of Object.entries(value)) {
+          checkSchema(subschema, `${at}/${escapePointer(name)}`, root);
+        }
+        break;
+      case 'patternProperties':
+        if (!isObject(value)) {
+          throw invalid(keyword, 'an object of schemas');
+        }
+        for (const [pattern, subschema] of Object.entries(value)) {
+          checkPattern(pattern, `${at}/${escapePointer(pattern)}`);
+          checkSchema(subschema, `${at}/${escapePointer(pattern)}`, root);
+        }
+        break;
+      case 'allOf':
+      case 'anyOf':
+      case 'oneOf':
+      case 'prefixItems':
+        if (!Array.isArray(value) || value.length === 0) {
+          throw invalid(keyword, 'a non-empty array of schemas');
+        }
+        value.forEach((subschema, index) => checkSchema(subschema, `${at}/${index}`, root));
+        break;
+      case 'not':
+      case 'if':
+      case 'then':
+      case 'else':
+      case 'items':
+      case 'contains':
+      case 'additionalProperties':
+        checkSchema(value, at, root);
+        break;
+      case '$ref':
+        if (typeof value !== 'string' || resolveRef(value, root) === undefined) {
+          throw invalid(keyword, "'#' or a reference to one of the $defs of the schema ('#/$defs/name')");
+        }
+        break;
+      default:
+        if (!ANNOTATIONS.includes(keyword)) {
+          throw new ImpossibleDBError(
+            ErrorCode.INVALID_REQUEST,
+            `Invalid schema: unsupported keyword '${keyword}' at '${location || '/'}'`
+          );
+        }
+    }
+  }
+}
+
+/**
+ * Checks that a pattern of a schema is a safe regular expression
+ */
+function checkPattern(pattern: string, location: string): void {
+  try {
+    compileRegex({ pattern, flags: 'u' });
+  } catch (error) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      `Invalid schema: pattern at '${location}': ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Validates a value against a schema, adding the errors found to an array
+ *
+ * @param value The value
+ * @param schema The schema
+ * @param path JSON Pointer of the value in the document
+ * @param context The validation of the document the value is part of
+ * @param errors The errors found so far
+ * @param depth Number of references followed to reach the schema
+ */
+function validateValue(
+  value: any,
+  schema: JsonSchema,
+  path: string,
+  context: ValidationContext,
+  errors: SchemaError[],
+  depth: number
+): void {
+  if (errors.length >= CONFIG.MAX_SCHEMA_ERRORS) {
+    return;
+  }
+  
+  // Combinations of references can take exponential time to evaluate, and
+  // the errors of a combination are dropped when it is evaluated with
+  // matches(), so the whole validation is given up once the budget is spent
+  if (++context.evaluations > CONFIG.MAX_SCHEMA_EVALUATIONS) {
+    throw TOO_COMPLEX;
+  }
+  
+  const fail = (message: string) => {
+    errors.push({ path, message });
+  };
+  
+  if (typeof schema === 'boolean') {
+    if (!schema) {
+      fail('is not allowed');
+    }
+    return;
+  }
+  
+  if (schema.$ref !== undefined) {
+    // References to the root schema can recurse as deep as the document
+    if (depth >= CONFIG.MAX_SCHEMA_DEPTH) {
+      fail(`is nested too deeply to be validated (more than ${CONFIG.MAX_SCHEMA_DEPTH} references)`);
+      return;
+    }
+    validateValue(value, resolveRef(schema.$ref, context.root)!, path, context, errors, depth + 1);
+  }
+  
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) {
+      fail(`must be of type ${types.join(' or ')}`);
+      return;
+    }
+  }
+  
+  if (schema.enum !== undefined && !schema.enum.some((allowed: any) => equal(value, allowed))) {
+    fail(`must be one of: ${schema.enum.map((allowed: any) => JSON.stringify(allowed)).join(', ')}`);
+  }
+  
+  if (schema.const !== undefined && !equal(value, schema.const)) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+  
+  if (typeof value === 'number') {
+    validateNumber(value, schema, fail);
+  } else if (typeof value === 'string') {
+    validateString(value, schema, fail);
+  } else if (Array.isArray(value)) {
+    validateArray(value, schema, path, context, errors, depth, fail);
+  } else if (isObject(value)) {
+    validateObject(value, schema, path, context, errors, depth, fail);
+  }
+  
+  validateCombinations(value, schema, path, context, errors, depth, fail);
+}
+
+/**
+ * Validates a number against the number keywords of a schema
+ */
+function validateNumber(value: number, schema: Record<string, any>, fail: (message: string) => void): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    fail(`must be at least ${schema.minimum}`);
+  }
+  
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    fail(`must be at most ${schema.maximum}`);
+  }
+  
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    fail(`must be greater than ${schema.exclusiveMinimum}`);
+  }
+  
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    fail(`must be less than ${schema.exclusiveMaximum}`);
+  }
+  
+  // Quotients within rounding errors of an integer count as integers
+  if (schema.multipleOf !== undefined) {
+    const quotient = value / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      fail(`must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+}
+
+/**
+ * Validates a string against the string keywords of a schema
+ */
+function validateString(value: string, schema: Record<string, any>, fail: (message: string) => void): void {
+  // Lengths count characters, not UTF-16 code units
+  const length = [...value].length;
+  
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    fail(`must have at least ${schema.minLength} characters`);
+  }
+  
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    fail(`must have at most ${schema.maxLength} characters`);
+  }
+  
+  if (schema.pattern !== undefined && !compileRegex({ pattern: schema.pattern, flags: 'u' }).test(value)) {
+    fail(`must match the pattern ${schema.pattern}`);
+  }
+  
+  if (schema.format !== undefined && !FORMATS[schema.format](value)) {
+    fail(`must be a valid ${schema.format}`);
+  }
+}
+
+/**
+ * Validates an array against the array keywords of a schema
+ */
+function validateArray(
+  value: any[],
+  schema: Record<string, any>,
+  path: string,
+  context: ValidationContext,
+  errors: SchemaError[],
+  depth: number,
+  fail: (message: string) => void
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    fail(`must have at least ${schema.minItems} items`);
+  }
+  
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    fail(`must have at most ${schema.maxItems} items`);
+  }
+  
+  if (schema.uniqueItems && value.some((item, index) => value.findIndex(other => equal(item, other)) !== index)) {
+    fail('must not have duplicate items');
+  }
+  
+  const prefixItems: JsonSchema[] = schema.prefixItems ?? [];
+  value.forEach((item, index) => {
+    const itemSchema = index < prefixItems.length ? prefixItems[index] : schema.items;
+    if (itemSchema !== undefined) {
+      validateValue(item, itemSchema, `${path}/${index}`, context, errors, depth);
+    }
+  });
+  
+  if (schema.contains !== undefined && !value.some(item => matches(item, schema.contains, context, depth))) {
+    fail('must contain an item matching the contains schema');
+  }
+}
+
+/**
+ * Validates an object against the object keywords of a schema
+ */
+function validateObject(
+  value: Record<string, any>,
+  schema: Record<string, any>,
+  path: string,
+  context: ValidationContext,
+  errors: SchemaError[],
+  depth: number,
+  fail: (message: string) => void
+): void {
+  const names = Object.keys(value);
+  
+  if (schema.minProperties !== undefined && names.length < schema.minProperties) {
+    fail(`must have at least ${schema.minProperties} properties`);
+  }
+  
+  if (schema.maxProperties !== undefined && names.length > schema.maxProperties) {
+    fail(`must have at most ${schema.maxProperties} properties`);
+  }
+  
+  for (const name of schema.required ?? []) {
+    if (!(name in value)) {
+      errors.push({ path: `${path}/${escapePointer(name)}`, message: 'is required' });
+    }
+  }
+  
+  for (const [name, dependencies] of Object.entries<string[]>(schema.dependentRequired ?? {})) {
+    for (const dependency of name in value ? dependencies : []) {
+      if (!(dependency in value)) {
+        errors.push({ path: `${path}/${escapePointer(dependency)}`, message: `is required when ${name} is present` });
+      }
+    }
+  }
+  
+  const properties: Record<string, JsonSchema> = schema.properties ?? {};
+  const patternProperties = Object.entries<JsonSchema>(schema.patternProperties ?? {})
+    .map(([pattern, propertySchema]) => ({ regex: compileRegex({ pattern, flags: 'u' }), propertySchema }));
+  
+  for (const name of names) {
+    const at = `${path}/${escapePointer(name)}`;
+    let described = false;
+    
+    if (Object.prototype.hasOwnProperty.call(properties, name)) {
+      validateValue(value[name], properties[name], at, context, errors, depth);
+      described = true;
+    }
+    
+    for (const { regex, propertySchema } of patternProperties) {
+      if (regex.test(name)) {
+        validateValue(value[name], propertySchema, at, context, errors, depth);
+        described = true;
+      }
+    }
+    
+    if (!described && schema.additionalProperties !== undefined) {
+      if (schema.additionalProperties === false) {
+        errors.push({ path: at, message: 'is not an allowed property' });
+      } else {
+        validateValue(value[name], schema.additionalProperties, at, context, errors, depth);
+      }
+    }
+  }
+}
+
+/**
+ * Validates a value against the combination keywords of a schema (allOf,
+ * anyOf, oneOf, not, if/then/else)
+ */
+function validateCombinations(
+  value: any,
+  schema: Record<string, any>,
+  path: string,
+  context: ValidationContext,
+  errors: SchemaError[],
+  depth: number,
+  fail: (message: string) => void
+): void {
+  for (const subschema of schema.allOf ?? []) {
+    validateValue(value, subschema, path, context, errors, depth);
+  }
+  
+  if (schema.anyOf !== undefined && !schema.anyOf.some((subschema: JsonSchema) => matches(value, subschema, context, depth))) {
+    fail('must match at least one of the anyOf schemas');
+  }
+  
+  if (schema.oneOf !== undefined) {
+    const matching = schema.oneOf.filter((subschema: JsonSchema) => matches(value, subschema, context, depth)).length;
+    if (matching !== 1) {
+      fail(`must match exactly one of the oneOf schemas (matches ${matching})`);
+    }
+  }
+  
+  if (schema.not !== undefined && matches(value, schema.not, context, depth)) {
+    fail('must not match the not schema');
+  }
+  
+  if (schema.if !== undefined) {
+    const branch = matches(value, schema.if, context, depth) ? schema.then : schema.else;
+    if (branch !== undefined) {
+      validateValue(value, branch, path, context, errors, depth);
+    }
+  }
+}
+
+/**
+ * Checks whether a value matches a schema
+ */
+function matches(value: any, schema: JsonSchema, context: ValidationContext, depth: number): boolean {
+  const errors: SchemaError[] = [];
+  validateValue(value, schema, '', context, errors, depth);
+  
+  return errors.length === 0;
+}
+
+/**
+ * Resolves a reference to the root schema or one of its $defs
+ *
+ * @returns The referenced schema, or undefined if there is none
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  if (ref === '#') {
+    return root;
+  }
+  
+  const match = /^#\/\$defs\/([^/]+)$/.exec(ref);
+  const definitions = typeof root === 'object' ? root.$defs : undefined;
+  const name = match && match[1].replace(/~1/g, '/').replace(/~0/g, '~');
+  
+  return name !== null && isObject(definitions) && Object.prototype.hasOwnProperty.call(definitions, name)
+    ? definitions[name]
+    : undefined;
+}
+
+/**
+ * Checks whether a value has a JSON Schema type
+ */
+function hasType(value: any, type: string): boolean {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number';
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return isObject(value);
+    default: return typeof value === type;
+  }
+}
+
+/**
+ * Checks whether two JSON values are equal (object properties in any order)
+ */
+function equal(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => equal(item, b[index]));
+  }
+  
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && equal(a[key], b[key]));
+  }
+  
+  return false;
+}
+
+/**
+ * Checks whether a value is a JSON object
+ */
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether a date (YYYY-MM-DD) exists
+ */
+function isValidDate(date: string): boolean {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+/**
+ * Escapes a property name as a JSON Pointer segment
+ */
+function escapePointer(name: string): string {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,406 @@
+/**
+ * SQL Query Compilation
+ *
+ * This module translates query filters and sort specifications into SQL
+ * fragments that run against the documents table of a StorageObject, where
+ * every document is stored as JSON text in the `data` column.
+ *
+ * The generated SQL keeps the semantics of the in-memory query evaluation
+ * (see query/matcher.ts): equality is type-strict (1 never equals '1' or
+ * true), and range operators only match values of the same type as the
+ * filter value. Conditions that are unknown (NULL) in SQL are treated as not
+ * matching, also when negated. Queries that use a field path which cannot be
+ * expressed as a JSON path, a regex filter (SQLite has no regular
+ * expressions), a search filter (text is analyzed in JavaScript), a
+ * geospatial filter or a nearest_neighbors filter are not compiled, and the
+ * caller falls back to evaluating them in memory.
+ */
+
+import { QueryFilter, QueryFilterNode } from '../types';
+import { SortSpec } from '../query/compare';
+import { isFilterGroup } from '../query/matcher';
+import { CursorPosition } from '../query/cursor';
+
+/**
+ * A parameterized SQL fragment
+ */
+export interface SqlFragment {
+  sql: string;
+  params: SqlStorageValue[];
+}
+
+/**
+ * Field path segments that can be safely inlined into a JSON path literal.
+ * Purely numeric segments are excluded: in memory they also address array
+ * elements, which a quoted JSON path key does not.
+ */
+const FIELD_SEGMENT_PATTERN = /^(?!\d+$)[a-zA-Z0-9_$-]+$/;
+
+/**
+ * JSON types that number and string filter values are compared with
+ */
+const NUMERIC_TYPES = `('integer', 'real')`;
+const TEXT_TYPES = `('text')`;
+
+/**
+ * JSON types matched by each value type of the `type` operator
+ */
+const VALUE_TYPE_JSON_TYPES: Record<string, string> = {
+  string: TEXT_TYPES,
+  number: NUMERIC_TYPES,
+  boolean: `('true', 'false')`,
+  null: `('null')`,
+  array: `('array')`,
+  object: `('object')`
+};
+
+/**
+ * Converts a dot-notation field path into a SQLite JSON path
+ *
+ * @param field The field path (e.g. "address.city")
+ * @returns The JSON path (e.g. '$."address"."city"'), or undefined if the
+ *   field path cannot be expressed safely
+ */
+export function jsonPath(field: string): string | undefined {
+  const segments = field.split('.');
+  
+  if (!segments.every(segment => FIELD_SEGMENT_PATTERN.test(segment))) {
+    return undefined;
+  }
+  
+  return '$' + segments.map(segment => `."${segment}"`).join('');
+}
+
+/**
+ * Builds the SQL expression extracting a field from the document JSON
+ *
+ * @param field The field path
+ * @returns The SQL expression, or undefined if the field cannot be compiled
+ */
+export function fieldExpression(field: string): string | undefined {
+  const path = jsonPath(field);
+  return path ? `json_extract(data, '${path}')` : undefined;
+}
+
+/**
+ * Compiles a list of filters into a SQL condition (all filters must match)
+ *
+ * @param filters The query filters and groups of filters
+ * @returns The SQL condition, or undefined if any filter cannot be compiled
+ */
+export function compileFilters(filters: QueryFilterNode[] = []): SqlFragment | undefined {
+  if (filters.length === 0) {
+    return { sql: '1', params: [] };
+  }
+  
+  return compileConditions(filters, 'data', 0);
+}
+
+/**
+ * Compiles a sort specification into an ORDER BY clause. Ties are always
+ * broken by document ID.
+ *
+ * @param sort The sort specification
+ * @returns The ORDER BY clause, or undefined if a sort field cannot be compiled
+ */
+export function compileSort(sort: SortSpec[] = []): string | undefined {
+  const terms: string[] = [];
+  
+  for (const { field, direction } of sort) {
+    const expression = fieldExpression(field);
+    if (!expression) {
+      return undefined;
+    }
+    
+    terms.push(`${expression} ${direction === 'desc' ? 'DESC' : 'ASC'}`);
+  }
+  
+  terms.push('id ASC');
+  return `ORDER BY ${terms.join(', ')}`;
+}
+
+/**
+ * Compiles a cursor position into a SQL condition selecting the documents
+ * that come after it in the order produced by compileSort()
+ *
+ * SQLite orders NULL before numbers and numbers before text, but comparisons
+ * with NULL are never true, so NULL sort values are handled explicitly.
+ *
+ * @param position The cursor position
+ * @param sort The sort specification of the query
+ * @returns The SQL condition, or undefined if a sort field cannot be compiled
+ */
+export function compileCursor(position: CursorPosition, sort: SortSpec[] = []): SqlFragment | undefined {
+  const keys: { expression: string; direction: 'asc' | 'desc'; value: SqlStorageValue }[] = [];
+  
+  for (let i = 0; i < sort.length; i++) {
+    const expression = fieldExpression(sort[i].field);
+    if (!expression) {
+      return undefined;
+    }
+    
+    keys.push({ expression, direction: sort[i].direction, value: position.values[i] });
+  }
+  
+  keys.push({ expression: 'id', direction: 'asc', value: position.id });
+  
+  // (k1 after v1) OR (k1 = v1 AND k2 after v2) OR ...
+  const branches: string[] = [];
+  const params: SqlStorageValue[] = [];
+  
+  keys.forEach((key, i) => {
+    const conditions: string[] = [];
+    
+    for (const previous of keys.slice(0, i)) {
+      conditions.push(`${previous.expression} IS ?`);
+      params.push(previous.value);
+    }
+    
+    if (key.value === null) {
+      conditions.push(key.direction === 'asc' ? `${key.expression} IS NOT NULL` : '0');
+    } else {
+      conditions.push(key.direction === 'asc'
+        ? `${key.expression} > ?`
+        : `(${key.expression} < ? OR ${key.expression} IS NULL)`);
+      params.push(key.value);
+    }
+    
+    branches.push(`(${conditions.join(' AND ')})`);
+  });
+  
+  return { sql: branches.join(' OR '), params };
+}
+
+/**
+ * Builds the condition selecting documents by ID
+ *
+ * @param ids The IDs of the documents
+ * @returns The SQL condition
+ */
+export function compileIds(ids: string[]): SqlFragment {
+  return { sql: 'id IN (SELECT value FROM json_each(?))', params: [JSON.stringify(ids)] };
+}
+
+/**
+ * Compiles filters on the JSON value of a SQL expression
+ *
+ * @param filters The filters and groups of filters
+ * @param source SQL expression holding the JSON text the filter fields are in
+ * @param depth Nesting depth of elem_match filters, used to name tables
+ * @param operator Whether all ('AND') or any ('OR') of the filters must match
+ */
+function compileConditions(
+  filters: QueryFilterNode[],
+  source: string,
+  depth: number,
+  operator: 'AND' | 'OR' = 'AND'
+): SqlFragment | undefined {
+  const conditions: string[] = [];
+  const params: SqlStorageValue[] = [];
+  
+  for (const filter of filters) {
+    const compiled = compileNode(filter, source, depth);
+    if (!compiled) {
+      return undefined;
+    }
+    
+    conditions.push(`(${compiled.sql})`);
+    params.push(...compiled.params);
+  }
+  
+  return { sql: conditions.join(` ${operator} `), params };
+}
+
+/**
+ * Compiles a filter or a group of filters into a SQL condition
+ */
+function compileNode(node: QueryFilterNode, source: string, depth: number): SqlFragment | undefined {
+  if (!isFilterGroup(node)) {
+    return compileFilter(node, source, depth);
+  }
+  
+  if ('and' in node) {
+    return compileConditions(node.and, source, depth);
+  }
+  
+  if ('or' in node) {
+    return compileConditions(node.or, source, depth, 'OR');
+  }
+  
+  const negated = compileNode(node.not, source, depth);
+  return negated && negate(negated);
+}
+
+/**
+ * Compiles a single filter into a SQL condition
+ */
+function compileFilter(filter: QueryFilter, source: string, depth: number): SqlFragment | undefined {
+  const path = jsonPath(filter.field);
+  if (!path) {
+    return undefined;
+  }
+  
+  const value = `json_extract(${source}, '${path}')`;
+  const type = `json_type(${source}, '${path}')`;
+  const { operator } = filter;
+  
+  switch (operator) {
+    case '=':
+      return compileEquality(value, type, filter.value);
+    case '!=':
+      // Documents without the field (or with a value of another type) are
+      // not equal to the value
+      return negate(compileEquality(value, type, filter.value));
+    case '>':
+    case '>=':
+    case '<':
+    case '<=': {
+      const types = comparableTypes(filter.value);
+      if (!types) {
+        return { sql: '0', params: [] };
+      }
+      
+      return {
+        sql: `${value} ${operator} ? AND ${type} IN ${types}`,
+        params: [filter.value]
+      };
+    }
+    case 'in':
+      return compileIn(value, type, filter.value);
+    case 'not_in':
+      return negate(compileIn(value, type, filter.value));
+    case 'contains': {
+      const element = compileEquality('e.value', 'e.type', filter.value);
+      const inArray = {
+        sql: `${type} = 'array' AND EXISTS (SELECT 1 FROM json_each(${source}, '${path}') AS e WHERE ${element.sql})`,
+        params: element.params
+      };
+      
+      if (typeof filter.value !== 'string') {
+        return inArray;
+      }
+      
+      return {
+        sql: `(${type} = 'text' AND instr(${value}, ?) > 0) OR (${inArray.sql})`,
+        params: [filter.value, ...inArray.params]
+      };
+    }
+    case 'starts_with':
+      return {
+        sql: `${type} = 'text' AND substr(${value}, 1, length(?)) = ?`,
+        params: [filter.value, filter.value]
+      };
+    case 'ends_with':
+      return {
+        sql: `${type} = 'text' AND length(${value}) >= length(?) AND substr(${value}, length(${value}) - length(?) + 1) = ?`,
+        params: [filter.value, filter.value, filter.value]
+      };
+    case 'exists':
+      return { sql: filter.value ? `${type} IS NOT NULL` : `${type} IS NULL`, params: [] };
+    case 'type':
+      return { sql: `IFNULL(${type} IN ${VALUE_TYPE_JSON_TYPES[filter.value]}, 0)`, params: [] };
+    case 'size':
+      return {
+        sql: `${type} = 'array' AND json_array_length(${source}, '${path}') = ?`,
+        params: [filter.value]
+      };
+    case 'all': {
+      const conditions = [`${type} = 'array'`];
+      const params: SqlStorageValue[] = [];
+      
+      for (const item of filter.value as any[]) {
+        const element = compileEquality('e.value', 'e.type', item);
+        conditions.push(`EXISTS (SELECT 1 FROM json_each(${source}, '${path}') AS e WHERE ${element.sql})`);
+        params.push(...element.params);
+      }
+      
+      return { sql: conditions.join(' AND '), params };
+    }
+    case 'elem_match': {
+      // Element fields can only be extracted from objects, and CASE makes
+      // sure SQLite does not try to extract them from other elements
+      const alias = `m${depth}`;
+      const element = compileConditions(filter.value, `${alias}.value`, depth + 1);
+      if (!element) {
+        return undefined;
+      }
+      
+      return {
+        sql: `${type} = 'array' AND EXISTS (SELECT 1 FROM json_each(${source}, '${path}') AS ${alias} ` +
+          `WHERE CASE WHEN ${alias}.type = 'object' THEN (${element.sql}) ELSE 0 END)`,
+        params: element.params
+      };
+    }
+    default:
+      // Regular expressions, searches, geospatial filters and nearest
+      // neighbors are evaluated in memory
+      return undefined;
+  }
+}
+
+/**
+ * Compiles a type-strict equality condition
+ *
+ * @param value SQL expression of the compared value
+ * @param type SQL expression of its JSON type
+ * @param expected The value it must equal
+ */
+function compileEquality(value: string, type: string, expected: any): SqlFragment {
+  if (expected === null) {
+    return { sql: `${type} = 'null'`, params: [] };
+  }
+  
+  if (typeof expected === 'boolean') {
+    return { sql: `${type} = '${expected ? 'true' : 'false'}'`, params: [] };
+  }
+  
+  const types = comparableTypes(expected);
+  if (!types) {
+    // Objects and arrays never compare equal
+    return { sql: '0', params: [] };
+  }
+  
+  return {
+    sql: `${value} = ? AND ${type} IN ${types}`,
+    params: [expected]
+  };
+}
+
+/**
+ * Compiles a condition matching values equal to one of a list of values
+ */
+function compileIn(value: string, type: string, values: any[]): SqlFragment {
+  if (values.length === 0) {
+    return { sql: '0', params: [] };
+  }
+  
+  const equalities = values.map(item => compileEquality(value, type, item));
+  
+  return {
+    sql: equalities.map(equality => `(${equality.sql})`).join(' OR '),
+    params: equalities.flatMap(equality => equality.params)
+  };
+}
+
+/**
+ * Negates a condition, treating an unknown (NULL) result as not matching the
+ * original condition
+ */
+function negate(condition: SqlFragment): SqlFragment {
+  return { sql: `NOT IFNULL((${condition.sql}), 0)`, params: condition.params };
+}
+
+/**
+ * Gets the JSON types a number or string value can be compared with
+ */
+function comparableTypes(value: any): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return NUMERIC_TYPES;
+  }
+  
+  if (typeof value === 'string') {
+    return TEXT_TYPES;
+  }
+  
+  return undefined;
+}
@@ -0,0 +1,216 @@
+/**
+ * Change Subscriptions
+ *
+ * This module defines the subscriptions clients open over WebSockets to be
+ * notified of document changes, and computes the change events that writes
+ * produce for them. A subscription watches a single document, a whole
+ * collection, or the documents of a collection matching filters.
+ *
+ * Each shard sends the changes of its change log with their sequence number.
+ * A client that reconnects resumes where it left off by sending back the
+ * sequence number of the last change it received from the shard (`since`),
+ * and the changes it missed are replayed from the change log, deletes and
+ * documents that stopped matching the filters included.
+ */
+
+import { ChangeEvent, ChangeLogEntry, Document, QueryFilterNode, ErrorCode } from '../types';
+import { ImpossibleDBError } from '../utils/errorHandler';
+import { validateCollectionName, validateDocumentId, validateQueryFilters } from '../utils/validation';
+
+/**
+ * Documents a subscriber is notified about
+ */
+export interface Subscription {
+  collection: string;
+  
+  // Only this document, if set
+  id?: string;
+  
+  // Only documents matching all of these filters, if set
+  filters?: QueryFilterNode[];
+}
+
+/**
+ * Response header in which a shard accepting a subscription gives the
+ * sequence number the subscription starts from
+ */
+export const SUBSCRIPTION_SEQ_HEADER = 'X-Subscription-Seq';
+
+/**
+ * Checks whether a document matches the filters of a subscription
+ */
+export type DocumentMatcher = (document: Document, filters: QueryFilterNode[]) => boolean;
+
+/**
+ * Parses and validates the query parameters of a subscribe request that
+ * define the subscription: `id` and `filters` (a JSON array of query
+ * filters). The point to resume from (`since`) is parsed by the caller.
+ *
+ * @param collection The collection subscribed to
+ * @param params The query parameters
+ * @returns The subscription
+ * @throws ImpossibleDBError if a parameter is invalid
+ */
+export function parseSubscriptionRequest(collection: string, params: URLSearchParams): Subscription {
+  validateCollectionName(collection);
+  
+  const subscription: Subscription = { collection };
+  const id = params.get('id');
+  const filters = params.get('filters');
+  
+  if (id !== null && filters !== null) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'A subscription cannot have both a document ID and filters'
+    );
+  }
+  
+  if (id !== null) {
+    validateDocumentId(id);
+    subscription.id = id;
+  }
+  
+  if (filters !== null) {
+    try {
+      subscription.filters = JSON.parse(filters);
+    } catch {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        'Subscription filters must be a JSON array'
+      );
+    }
+    
+    validateQueryFilters(subscription.filters!);
+  }
+  
+  return subscription;
+}
+
+/**
+ * Computes the change event a write produces for a subscription
+ *
+ * @param subscription The subscription
+ * @param before The document before the write (undefined if it was created)
+ * @param after The document after the write (undefined if it was deleted)
+ * @param timestamp Time of the write
+ * @param matches Checks whether a document matches the subscription's filters
+ * @returns The event, or undefined if the subscriber is not concerned
+ */
+export function changeEventFor(
+  subscription: Subscription,
+  before: Document | undefined,
+  after: Document | undefined,
+  timestamp: number,
+  matches: DocumentMatcher
+): ChangeEvent | undefined {
+  const document = after || before;
+  if (!document || !isWatched(subscription, document)) {
+    return undefined;
+  }
+  
+  const matchedBefore = !!before && matchesFilters(subscription, before, matches);
+  const matchesAfter = !!after && matchesFilters(subscription, after, matches);
+  
+  if (!matchedBefore && !matchesAfter) {
+    return undefined;
+  }
+  
+  if (!matchesAfter) {
+    return event('delete', document, timestamp);
+  }
+  
+  return event(matchedBefore ? 'update' : 'insert', after!, timestamp);
+}
+
+/**
+ * Computes the events a resuming subscriber missed
+ *
+ * Whether a document matched the filters before a change is known from its
+ * previous change. When the change log no longer has it, the subscriber is
+ * assumed to have seen the document: the change is replayed as an update if
+ * the document matches, and as a delete otherwise.
+ *
+ * @param subscription The subscription
+ * @param changes The changes of the collection made since the subscriber's
+ *   resume point, in log order
+ * @param previousChange Gets the last change of a document made before
+ *   `changes`, if the change log still has it
+ * @param matches Checks whether a document matches the subscription's filters
+ * @returns The missed events, oldest first, with the sequence number of
+ *   their change
+ */
+export function replayEvents(
+  subscription: Subscription,
+  changes: ChangeLogEntry[],
+  previousChange: (id: string) => ChangeLogEntry | undefined,
+  matches: DocumentMatcher
+): ChangeLogEntry[] {
+  // The documents after the changes replayed so far (undefined if deleted)
+  const documents = new Map<string, Document | undefined>();
+  const events: ChangeLogEntry[] = [];
+  
+  for (const change of changes) {
+    const watched = change.collection === subscription.collection &&
+      (subscription.id === undefined || change.id === subscription.id);
+    if (!watched) {
+      continue;
+    }
+    
+    // The document before the change, null if it is not known. Inserts
+    // create the document, and deletes do not log one.
+    let before: Document | undefined | null = documents.get(change.id);
+    if (!documents.has(change.id) && change.type !== 'insert') {
+      const previous = previousChange(change.id);
+      before = previous ? previous.document : null;
+    }
+    
+    const after = change.document;
+    documents.set(change.id, after);
+    
+    let replayed: ChangeEvent | undefined;
+    if (before !== null) {
+      replayed = changeEventFor(subscription, before, after, change.timestamp, matches);
+    } else if (after && matchesFilters(subscription, after, matches)) {
+      replayed = event('update', after, change.timestamp);
+    } else {
+      const { collection, id, version, timestamp } = change;
+      replayed = { type: 'delete', collection, id, version, timestamp };
+    }
+    
+    if (replayed) {
+      events.push({ ...replayed, seq: change.seq });
+    }
+  }
+  
+  return events;
+}
+
+/**
+ * Checks whether a document is in the collection (and is the document) a
+ * subscription watches
+ */
+function isWatched(subscription: Subscription, document: Document): boolean {
+  return document._collection === subscription.collection &&
+    (subscription.id === undefined || document._id === subscription.id);
+}
+
+/**
+ * Checks whether a document matches the filters of a subscription, if any
+ */
+function matchesFilters(subscription: Subscription, document: Document, matches: DocumentMatcher): boolean {
+  return !subscription.filters || subscription.filters.length === 0 || matches(document, subscription.filters);
+}
+
+/**
+ * Builds a change event
+ */
+function event(type: ChangeEvent['type'], document: Document, timestamp: number): ChangeEvent {
+  return {
+    type,
+    collection: document._collection,
+    id: document._id,
+    version: document._version,
+    timestamp,
+    ...(type !== 'delete' && { document })
+  };
+}
@@ -4,27 +4,174 @@
  * This file contains common TypeScript interfaces and types used throughout the ImpossibleDB system.
  */
 
+import type { AggregationResult } from './query/aggregator';
+import type { QueryExplanation, QueryProfile } from './query/explain';
+import type { RegexFilterValue, ValueType } from './query/matcher';
+import type { GeoPoint, NearFilterValue, RadiusFilterValue } from './query/geo';
+import type { NearestNeighborsFilterValue } from './query/vector';
+
 /**
- * Document interface representing a stored document
+ * Metadata fields the database maintains in every document
  */
-export interface Document {
+export interface DocumentMetadata {
   _id: string;
   _collection: string;
   _version: number;
   _createdAt: number;
   _updatedAt: number;
+  
+  // Time (ms since epoch) after which the document expires, if any
+  _expiresAt?: number;
+}
+
+/**
+ * Document interface representing a stored document
+ */
+export interface Document extends DocumentMetadata {
   [key: string]: any;
 }
 
+/**
+ * Stored document of a typed collection, whose fields have the type T
+ */
+export type TypedDocument<T> = T & DocumentMetadata;
+
+/**
+ * Fields of a document written to a typed collection, whose fields have the
+ * type T. The database sets the metadata fields, except for an optional ID
+ * and expiry.
+ */
+export type NewDocument<T> = Omit<T, keyof DocumentMetadata> & Partial<DocumentMetadata>;
+
+/**
+ * Types field paths end at
+ */
+type FieldLeaf = string | number | boolean | bigint | symbol | null | undefined | Date;
+
+/**
+ * Dot-separated paths of the fields of documents of type T, nested objects
+ * and array elements (by position) included, down to a depth of five fields
+ * 
+ * Documents without a declared type, such as Document, have any path.
+ */
+export type FieldPath<T, Depth extends unknown[] = []> =
+  0 extends (1 & T) ? string :
+  Depth['length'] extends 5 ? never :
+  T extends FieldLeaf ? never :
+  T extends readonly (infer E)[] ? `${number}` | `${number}.${FieldPath<NonNullable<E>, [...Depth, unknown]>}` :
+  string extends keyof T ? string :
+  { [K in keyof T & string]: K | `${K}.${FieldPath<NonNullable<T[K]>, [...Depth, unknown]>}` }[keyof T & string];
+
+/**
+ * Type of the field at a path of documents of type T
+ */
+export type FieldValue<T, P extends string> =
+  0 extends (1 & T) ? any :
+  P extends `${infer K}.${infer Rest}` ? FieldValue<NonNullable<PropertyValue<T, K>>, Rest> :
+  PropertyValue<T, P>;
+
+/**
+ * Type of a property of an object, or of an element of an array
+ */
+type PropertyValue<T, K extends string> =
+  T extends readonly (infer E)[] ? (K extends `${number}` ? E : never) :
+  K extends keyof T ? T[K] :
+  never;
+
+/**
+ * Type of the value of a filter with an operator on a field of type V
+ * (any value if the field has no declared type)
+ */
+export type OperatorValue<V, O extends QueryOperator> =
+  0 extends (1 & V) ? any :
+  O extends '=' | '!=' ? V :
+  O extends '>' | '>=' | '<' | '<=' ? NonNullable<V> :
+  O extends 'in' | 'not_in' ? V[] :
+  O extends 'contains' ? (NonNullable<V> extends string ? string : NonNullable<V> extends readonly (infer E)[] ? E : never) :
+  O extends 'starts_with' | 'ends_with' | 'search' ? (NonNullable<V> extends string ? string : never) :
+  O extends 'all' ? (NonNullable<V> extends readonly (infer E)[] ? E[] : never) :
+  O extends 'size' ? (NonNullable<V> extends readonly unknown[] ? number : never) :
+  O extends 'exists' ? boolean :
+  O extends 'type' ? ValueType :
+  O extends 'regex' ? (NonNullable<V> extends string ? RegexFilterValue : never) :
+  O extends 'elem_match' ? (NonNullable<V> extends readonly unknown[] ? QueryFilterNode[] : never) :
+  O extends 'near' ? NearFilterValue :
+  O extends 'within_radius' ? RadiusFilterValue :
+  O extends 'within_box' ? [GeoPoint, GeoPoint] :
+  O extends 'within_polygon' ? GeoPoint[] :
+  O extends 'nearest_neighbors' ? (NonNullable<V> extends readonly number[] ? NearestNeighborsFilterValue : never) :
+  never;
+
+/**
+ * Query filter operators
+ * 
+ * - Comparisons: '=', '!=', '>', '>=', '<', '<='
+ * - 'in' / 'not_in': the field equals one (none) of the values of an array
+ * - 'contains': a string field contains a substring, or an array field
+ *   contains an element
+ * - 'starts_with' / 'ends_with': a string field starts (ends) with a string
+ * - 'exists': the field is present (value true) or absent (value false)
+ * - 'type': the field has a type ('string', 'number', 'boolean', 'null',
+ *   'array' or 'object')
+ * - 'regex': a string field matches a regular expression
+ * - 'size': an array field has a number of elements
+ * - 'all': an array field contains all the values of an array
+ * - 'elem_match': an array field has an object element matching all the
+ *   filters of an array, whose fields are relative to the element
+ * - 'search': a text field contains any of the words of a string, after
+ *   stemming; queries rank the documents matching a search by relevance
+ * - 'near', 'within_radius', 'within_box', 'within_polygon': a GeoJSON point
+ *   field is near a point or within an area (see query/geo.ts); queries sort
+ *   the documents near a point by distance
+ * - 'nearest_neighbors': a vector field is among the k most similar to a
+ *   vector, by the metric of its vector index (see query/vector.ts); queries
+ *   rank these documents by similarity
+ */
+export type QueryOperator =
+  | '=' | '!=' | '>' | '>=' | '<' | '<='
+  | 'in' | 'not_in' | 'contains' | 'starts_with' | 'ends_with'
+  | 'exists' | 'type' | 'regex'
+  | 'size' | 'all' | 'elem_match' | 'search'
+  | 'near' | 'within_box' | 'within_polygon' | 'within_radius'
+  | 'nearest_neighbors';
+
+/**
+ * Join of the documents of another collection to the results of a query:
+ * each result gets the documents of `from` whose `foreignField` equals its
+ * `localField` (or one of its elements, if it is an array), embedded as an
+ * array under `as`
+ */
+export interface QueryLookup {
+  from: string;
+  localField: string;
+  foreignField: string;
+  as: string;
+}
+
 /**
  * Query filter for filtering documents
  */
 export interface QueryFilter {
   field: string;
-  operator: '=' | '!=' | '>' | '>=' | '<' | '<=';
+  operator: QueryOperator;
   value: any;
 }
 
+/**
+ * Filters combined with a logical operator: documents matching all ('and')
+ * or any ('or') of the filters, or not matching a filter ('not')
+ */
+export type QueryFilterGroup =
+  | { and: QueryFilterNode[] }
+  | { or: QueryFilterNode[] }
+  | { not: QueryFilterNode };
+
+/**
+ * Node of a filter tree: a filter or a group of filters. Lists of nodes
+ * (such as the filters of a query) match documents matching all of them.
+ */
+export type QueryFilterNode = QueryFilter | QueryFilterGroup;
+
 /**
  * Query options for pagination and sorting
  */
@@ -32,20 +179,235 @@ export interface QueryOptions {
   limit?: number;
   offset?: number;
   sort?: { field: string; direction: 'asc' | 'desc' }[];
+  
+  // Cursor returned as `nextCursor` by the previous page of the same query
+  after?: string;
+  
+  // Return the plan of the query instead of executing it
+  explain?: boolean;
+  
+  // Execute the query and return a profile of its execution with the results
+  profile?: boolean;
 }
 
 /**
  * Query result interface
  */
-export interface QueryResult {
-  results: Document[];
+export interface QueryResult<T = Document> {
+  results: T[];
+  
+  // Results of the aggregations of an aggregation query, which returns no
+  // documents
+  aggregations?: AggregationResult[];
+  
+  // Plan of an explained query, which returns no documents
+  explain?: QueryExplanation;
+  
+  // Profile of a profiled query
+  profile?: QueryProfile;
+  
   metadata: {
     total: number;
     limit: number;
     offset: number;
+    
+    // Cursor of the next page, if there may be more results
+    nextCursor?: string;
   };
 }
 
+/**
+ * Secondary index declared on a collection
+ */
+export interface IndexDefinition {
+  name: string;
+  collection: string;
+  
+  // Indexed fields (dot notation), in key order
+  fields: string[];
+  
+  // 'text' for full-text indexes, which index the words of a single text
+  // field for search filters, and 'geo' for geospatial indexes, which index
+  // the cells of a single GeoJSON point field for geospatial filters, and
+  // 'vector' for vector indexes, which cluster the vectors of a single field
+  // for nearest_neighbors filters; other indexes are SQL indexes
+  type?: 'text' | 'geo' | 'vector';
+  
+  // Number of components of the vectors of a vector index, which every
+  // document of the collection with the field must have
+  dimensions?: number;
+  
+  // Metric the vectors of a vector index are compared with
+  metric?: VectorMetric;
+  
+  // 'building' until every existing document has been indexed
+  status: 'building' | 'ready';
+  createdAt: number;
+  builtAt?: number;
+}
+
+/**
+ * Metric vectors are compared with: the cosine of their angle, their dot
+ * product, or their Euclidean (L2) distance
+ */
+export type VectorMetric = 'cosine' | 'dot' | 'l2';
+
+/**
+ * Per-collection settings, applied by every shard holding the collection
+ */
+export interface CollectionConfig {
+  // Time to live (in seconds) of documents written without an explicit expiry
+  defaultTtl?: number;
+  
+  // Time (in seconds) changes are kept in the change log of each shard
+  changeLogRetention?: number;
+  
+  // Keeps the versions of documents that writes replace or delete, if set
+  history?: HistoryConfig;
+  
+  // JSON Schema the documents of the collection must match, if set
+  schema?: JsonSchema;
+  
+  // Enforcement of the schema on writes (defaults to 'strict')
+  schemaMode?: SchemaMode;
+}
+
+/**
+ * A JSON Schema (boolean schemas accept every value or none)
+ */
+export type JsonSchema = boolean | Record<string, any>;
+
+/**
+ * Enforcement of the schema of a collection on writes: 'strict' rejects
+ * documents that do not match it, 'warn' writes them and logs a warning,
+ * and 'off' does not validate documents
+ */
+export type SchemaMode = 'strict' | 'warn' | 'off';
+
+/**
+ * Retention of the document versions kept by a collection's history
+ * 
+ * Without any limit, every version is kept.
+ */
+export interface HistoryConfig {
+  // Number of past versions kept per document
+  maxVersions?: number;
+  
+  // Time (in seconds) a version is kept after it stopped being current
+  maxAge?: number;
+}
+
+/**
+ * Document change delivered to subscribers
+ * 
+ * For subscriptions with filters, a document that starts matching them is
+ * an insert, and a document that stops matching them is a delete.
+ */
+export interface ChangeEvent<T = Document> {
+  type: 'insert' | 'update' | 'delete';
+  collection: string;
+  id: string;
+  
+  // Version of the document after the change (the deleted version for deletes)
+  version: number;
+  
+  // Time of the change (ms since epoch)
+  timestamp: number;
+  
+  // The document after the change (absent for deletes)
+  document?: T;
+}
+
+/**
+ * Entry of the change log of a shard
+ * 
+ * Every write of a shard is appended to its change log. Expired documents
+ * purged by the shard are logged as deletes.
+ */
+export interface ChangeLogEntry extends ChangeEvent {
+  // Position in the change log of the shard, increasing with every write
+  seq: number;
+  
+  // Shard the change was made on (set in merged change feeds)
+  shardId?: string;
+}
+
+/**
+ * Page of the change feed of a collection
+ */
+export interface ChangeFeedResult {
+  // Changes of every shard, ordered by time
+  changes: ChangeLogEntry[];
+  
+  // Sequence number of the last change returned for each shard
+  checkpoints: Record<string, number>;
+  
+  // Token to pass as `since` to get the changes that follow
+  cursor: string;
+  
+  // Whether more changes are already available
+  hasMore: boolean;
+}
+
+/**
+ * Message sent to change subscribers
+ * 
+ * The first message of a subscription only carries its cursor. Every other
+ * message is a change event, with the position of the change in the change
+ * log of its shard. A subscriber that reconnects passes the cursor of the
+ * last message it received as `since` to resume from there.
+ */
+export interface SubscriptionMessage extends Partial<ChangeLogEntry> {
+  // Checkpoints of the subscription after this message, encoded like the
+  // cursors of the change feed
+  cursor: string;
+}
+
+/**
+ * Operation of a batch request
+ * 
+ * 'create' fails if the document already exists, 'update' fails if it does
+ * not, and 'put' creates or replaces it. Deleting a missing document succeeds
+ * unless an expected version is given.
+ */
+export interface BatchOperation {
+  op: 'get' | 'create' | 'put' | 'update' | 'delete';
+  collection: string;
+  id: string;
+  
+  // Document fields to write (create, put and update)
+  document?: Record<string, any>;
+  
+  // If provided, only write if the document's version matches
+  expectedVersion?: number;
+  
+  // Time to live in seconds of the written document
+  ttl?: number;
+}
+
+/**
+ * Result of one operation of a batch request
+ */
+export interface BatchItemResult {
+  // HTTP status the operation would have had as a single request
+  status: number;
+  
+  // The document read or written
+  document?: Document;
+  
+  // Whether a delete removed an existing document
+  deleted?: boolean;
+  
+  error?: ErrorResponse['error'];
+}
+
+/**
+ * Result of a batch request, with one result per operation in request order
+ */
+export interface BatchResult {
+  results: BatchItemResult[];
+}
+
 /**
  * Error codes for standardized error handling
  */
@@ -68,6 +430,7 @@ export enum ErrorCode {
   // Query errors
   INVALID_QUERY = 'INVALID_QUERY',
   QUERY_TIMEOUT = 'QUERY_TIMEOUT',
+  QUERY_TOO_EXPENSIVE = 'QUERY_TOO_EXPENSIVE',
   
   // Transaction errors
   TRANSACTION_CONFLICT = 'TRANSACTION_CONFLICT',
@@ -78,6 +441,9 @@ export enum ErrorCode {
   NO_SHARDS_AVAILABLE = 'NO_SHARDS_AVAILABLE',
   SHARD_NOT_FOUND = 'SHARD_NOT_FOUND',
   
+  // Change feed errors
+  CHANGES_EXPIRED = 'CHANGES_EXPIRED',
+  
   // System errors
   SYSTEM_OVERLOADED = 'SYSTEM_OVERLOADED',
   MAINTENANCE_MODE = 'MAINTENANCE_MODE'
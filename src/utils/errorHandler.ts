@@ -62,6 +62,9 @@ export class ImpossibleDBError extends Error {
 function getStatusCodeForError(code: ErrorCode): number {
   switch (code) {
     case ErrorCode.INVALID_REQUEST:
+    case ErrorCode.INVALID_QUERY:
+    case ErrorCode.INVALID_DOCUMENT:
+    case ErrorCode.QUERY_TOO_EXPENSIVE:
       return 400;
     case ErrorCode.UNAUTHORIZED:
       return 401;
@@ -75,6 +78,10 @@ function getStatusCodeForError(code: ErrorCode): number {
     case ErrorCode.DOCUMENT_ALREADY_EXISTS:
     case ErrorCode.TRANSACTION_CONFLICT:
       return 409;
+    case ErrorCode.CHANGES_EXPIRED:
+      return 410;
+    case ErrorCode.DOCUMENT_TOO_LARGE:
+      return 413;
     case ErrorCode.QUERY_TIMEOUT:
     case ErrorCode.TRANSACTION_TIMEOUT:
       return 408;
@@ -0,0 +1,70 @@
+/**
+ * ETag Utility
+ *
+ * This file provides helpers for the entity tags used for optimistic
+ * concurrency. A document's entity tag is its `_version` in double quotes,
+ * e.g. "3", so it changes on every write.
+ */
+
+/**
+ * Parsed value of an If-Match or If-None-Match header
+ */
+export interface ETagCondition {
+  // True for '*', which matches any existing document
+  any: boolean;
+  
+  // Versions listed in the header
+  versions: number[];
+}
+
+/**
+ * Formats the entity tag of a document version
+ *
+ * @param version The document version
+ * @returns The entity tag
+ */
+export function formatETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Parses an If-Match or If-None-Match header
+ *
+ * Weak tags (W/"3") are accepted, since versions identify documents exactly.
+ * Tags that are not versions can never match and are ignored.
+ *
+ * @param header The header value
+ * @returns The parsed condition, or undefined if the header is absent
+ */
+export function parseETagCondition(header: string | null): ETagCondition | undefined {
+  if (header === null) {
+    return undefined;
+  }
+  
+  if (header.trim() === '*') {
+    return { any: true, versions: [] };
+  }
+  
+  const versions = header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1'))
+    .filter(tag => /^\d+$/.test(tag))
+    .map(Number);
+  
+  return { any: false, versions };
+}
+
+/**
+ * Checks whether a document version satisfies a parsed condition
+ *
+ * @param condition The parsed condition
+ * @param version The current document version, or undefined if the document does not exist
+ * @returns Whether the condition matches
+ */
+export function matchesETag(condition: ETagCondition, version: number | undefined): boolean {
+  if (version === undefined) {
+    return false;
+  }
+  
+  return condition.any || condition.versions.includes(version);
+}
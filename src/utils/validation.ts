@@ -8,6 +8,14 @@
 import { ErrorCode } from '../types';
 import { ImpossibleDBError } from './errorHandler';
 import { CONFIG } from '../config';
+import { createLogger } from './logger';
+import { compileRegex, QUERY_OPERATORS, VALUE_TYPES } from '../query/matcher';
+import { searchTerms } from '../query/text';
+import { validateGeoFilterValue } from '../query/geo';
+import { validateVectorFilterValue } from '../query/vector';
+import { SCHEMA_MODES, validateSchema } from '../storage/schema';
+
+const logger = createLogger('Validation');
 
 /**
  * Validates a document ID
@@ -83,7 +91,7 @@ export function validateCollectionName(collection: string): void {
   }
   
   // Disallow reserved collection names
-  const reservedNames = ['__collections', '__system', '__metadata', '__index'];
+  const reservedNames = ['__collections', '__system', '__metadata', '__index', '__config', '__subscribe', '__stats', '__search', '__changes'];
   if (reservedNames.includes(collection)) {
     throw new ImpossibleDBError(
       ErrorCode.INVALID_REQUEST,
@@ -128,51 +136,395 @@ export function validateDocument(document: any): void {
 }
 
 /**
- * Validates query filters
+ * Validates an explicit document expiry time
  * 
- * @param filters The filters to validate
- * @throws ImpossibleDBError if the filters are invalid
+ * @param expiresAt The expiry time (ms since epoch), or null for no expiry
+ * @throws ImpossibleDBError if the expiry time is invalid
  */
-export function validateQueryFilters(filters: any[]): void {
-  if (!Array.isArray(filters)) {
+export function validateExpiresAt(expiresAt: any): void {
+  if (expiresAt !== null && (typeof expiresAt !== 'number' || !Number.isFinite(expiresAt) || expiresAt <= 0)) {
     throw new ImpossibleDBError(
-      ErrorCode.INVALID_QUERY,
-      'Filters must be an array'
+      ErrorCode.INVALID_DOCUMENT,
+      '_expiresAt must be a timestamp in milliseconds or null'
+    );
+  }
+}
+
+/**
+ * Validates a time to live
+ * 
+ * @param ttl The time to live in seconds
+ * @throws ImpossibleDBError if the time to live is invalid
+ */
+export function validateTtl(ttl: any): void {
+  if (typeof ttl !== 'number' || !Number.isFinite(ttl) || ttl <= 0) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'TTL must be a positive number of seconds'
+    );
+  }
+}
+
+/**
+ * Validates a collection configuration
+ * 
+ * @param config The configuration to validate
+ * @throws ImpossibleDBError if the configuration is invalid
+ */
+export function validateCollectionConfig(config: any): void {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Collection config must be an object'
     );
   }
   
-  for (const filter of filters) {
-    if (!filter || typeof filter !== 'object') {
+  const knownSettings = ['defaultTtl', 'changeLogRetention', 'history', 'schema', 'schemaMode'];
+  for (const key of Object.keys(config)) {
+    if (!knownSettings.includes(key)) {
       throw new ImpossibleDBError(
-        ErrorCode.INVALID_QUERY,
-        'Each filter must be an object'
+        ErrorCode.INVALID_REQUEST,
+        `Unknown collection setting '${key}'`
+      );
+    }
+  }
+  
+  if (config.defaultTtl !== undefined && config.defaultTtl !== null) {
+    validateTtl(config.defaultTtl);
+  }
+  
+  if (config.changeLogRetention !== undefined && config.changeLogRetention !== null) {
+    if (typeof config.changeLogRetention !== 'number' || !Number.isFinite(config.changeLogRetention) || config.changeLogRetention <= 0) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Change log retention must be a positive number of seconds'
+      );
+    }
+  }
+  
+  if (config.history !== undefined && config.history !== null) {
+    validateHistoryConfig(config.history);
+  }
+  
+  if (config.schema !== undefined && config.schema !== null) {
+    validateSchema(config.schema);
+  }
+  
+  if (config.schemaMode !== undefined && config.schemaMode !== null && !SCHEMA_MODES.includes(config.schemaMode)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      `Schema mode must be one of: ${SCHEMA_MODES.join(', ')}`
+    );
+  }
+}
+
+/**
+ * Validates the history settings of a collection
+ * 
+ * @param history The history settings to validate
+ * @throws ImpossibleDBError if the settings are invalid
+ */
+function validateHistoryConfig(history: any): void {
+  if (typeof history !== 'object' || Array.isArray(history)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Collection history settings must be an object'
+    );
+  }
+  
+  for (const key of Object.keys(history)) {
+    if (key !== 'maxVersions' && key !== 'maxAge') {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        `Unknown history setting '${key}'`
+      );
+    }
+  }
+  
+  if (history.maxVersions !== undefined && (!Number.isInteger(history.maxVersions) || history.maxVersions <= 0)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'History maxVersions must be a positive integer'
+    );
+  }
+  
+  if (history.maxAge !== undefined && (typeof history.maxAge !== 'number' || !Number.isFinite(history.maxAge) || history.maxAge <= 0)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'History maxAge must be a positive number of seconds'
+    );
+  }
+}
+
+/**
+ * Validates the version read parameters of a document request: `version`
+ * (a version number) or `asOf` (a time, in milliseconds since the epoch or as
+ * an ISO 8601 date)
+ * 
+ * @param params The query parameters
+ * @returns The requested version or time, if any
+ * @throws ImpossibleDBError if a parameter is invalid
+ */
+export function parseVersionParams(params: URLSearchParams): { version?: number; asOf?: number } {
+  const version = params.get('version');
+  const asOf = params.get('asOf');
+  
+  if (version !== null && asOf !== null) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      "Cannot read a document with both 'version' and 'asOf'"
+    );
+  }
+  
+  if (version !== null) {
+    if (!/^\d+$/.test(version) || Number(version) === 0) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Version must be a positive integer'
       );
     }
     
-    if (!filter.field || typeof filter.field !== 'string') {
+    return { version: Number(version) };
+  }
+  
+  if (asOf !== null) {
+    const time = /^\d+$/.test(asOf) ? Number(asOf) : Date.parse(asOf);
+    if (Number.isNaN(time)) {
       throw new ImpossibleDBError(
-        ErrorCode.INVALID_QUERY,
-        'Filter must have a valid field name'
+        ErrorCode.INVALID_REQUEST,
+        "'asOf' must be a timestamp in milliseconds or an ISO 8601 date"
       );
     }
     
-    const validOperators = ['=', '!=', '>', '>=', '<', '<='];
-    if (!filter.operator || !validOperators.includes(filter.operator)) {
+    return { asOf: time };
+  }
+  
+  return {};
+}
+
+/**
+ * Validates the operations of a batch request
+ * 
+ * Only the shape of the batch is checked here. Problems with individual
+ * documents (invalid fields, version conflicts...) are reported per operation.
+ * 
+ * @param operations The operations to validate
+ * @throws ImpossibleDBError if the batch is invalid
+ */
+export function validateBatchOperations(operations: any): void {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Batch operations must be a non-empty array'
+    );
+  }
+  
+  if (operations.length > CONFIG.MAX_BATCH_SIZE) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      `A batch cannot contain more than ${CONFIG.MAX_BATCH_SIZE} operations`
+    );
+  }
+  
+  const validOperations = ['get', 'create', 'put', 'update', 'delete'];
+  for (const operation of operations) {
+    if (!operation || typeof operation !== 'object') {
       throw new ImpossibleDBError(
-        ErrorCode.INVALID_QUERY,
-        `Filter operator must be one of: ${validOperators.join(', ')}`
+        ErrorCode.INVALID_REQUEST,
+        'Each batch operation must be an object'
       );
     }
     
-    if (filter.value === undefined) {
+    if (!validOperations.includes(operation.op)) {
       throw new ImpossibleDBError(
-        ErrorCode.INVALID_QUERY,
-        'Filter must have a value'
+        ErrorCode.INVALID_REQUEST,
+        `Batch operation must be one of: ${validOperations.join(', ')}`
+      );
+    }
+    
+    validateCollectionName(operation.collection);
+    validateDocumentId(operation.id);
+    
+    if (operation.expectedVersion !== undefined &&
+        (!Number.isInteger(operation.expectedVersion) || operation.expectedVersion < 0)) {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_REQUEST,
+        'Expected version must be a non-negative integer'
       );
     }
   }
 }
 
+/**
+ * Validates query filters, which can be filters or groups of filters
+ * 
+ * @param filters The filters to validate
+ * @param depth Nesting depth of the filters (in groups and elem_match filters)
+ * @throws ImpossibleDBError if the filters are invalid
+ */
+export function validateQueryFilters(filters: any[], depth = 0): void {
+  if (!Array.isArray(filters)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Filters must be an array'
+    );
+  }
+  
+  if (depth > CONFIG.MAX_FILTER_DEPTH) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      `Filters cannot be nested more than ${CONFIG.MAX_FILTER_DEPTH} levels deep`
+    );
+  }
+  
+  for (const filter of filters) {
+    validateQueryFilterNode(filter, depth);
+  }
+}
+
+/**
+ * Validates a filter or a group of filters ({ and: [...] }, { or: [...] } or
+ * { not: filter })
+ * 
+ * @param node The filter or group to validate
+ * @param depth Nesting depth of the node
+ * @throws ImpossibleDBError if the filter or group is invalid
+ */
+export function validateQueryFilterNode(node: any, depth = 0): void {
+  if (!node || typeof node !== 'object') {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Each filter must be an object'
+    );
+  }
+  
+  const logic = ['and', 'or', 'not'].filter(key => key in node);
+  if (logic.length === 0) {
+    validateQueryFilter(node, depth);
+    return;
+  }
+  
+  if (logic.length > 1 || Object.keys(node).length > 1) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'A filter group must have exactly one of: and, or, not'
+    );
+  }
+  
+  if (logic[0] === 'not') {
+    validateQueryFilters([node.not], depth + 1);
+    return;
+  }
+  
+  const filters = node[logic[0]];
+  if (!Array.isArray(filters) || filters.length === 0) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      `The '${logic[0]}' of a filter group must be a non-empty array of filters`
+    );
+  }
+  
+  validateQueryFilters(filters, depth + 1);
+}
+
+/**
+ * Validates a query filter, including the value its operator expects
+ * 
+ * @param filter The filter to validate
+ * @param depth Nesting depth of the filter
+ * @throws ImpossibleDBError if the filter is invalid
+ */
+export function validateQueryFilter(filter: any, depth = 0): void {
+  if (!filter || typeof filter !== 'object') {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Each filter must be an object'
+    );
+  }
+  
+  if (!filter.field || typeof filter.field !== 'string') {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Filter must have a valid field name'
+    );
+  }
+  
+  if (!filter.operator || !QUERY_OPERATORS.includes(filter.operator)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      `Filter operator must be one of: ${QUERY_OPERATORS.join(', ')}`
+    );
+  }
+  
+  if (filter.value === undefined) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Filter must have a value'
+    );
+  }
+  
+  const invalidValue = (expected: string) => new ImpossibleDBError(
+    ErrorCode.INVALID_QUERY,
+    `The value of a '${filter.operator}' filter must be ${expected}`
+  );
+  
+  switch (filter.operator) {
+    case 'in':
+    case 'not_in':
+    case 'all':
+      if (!Array.isArray(filter.value) || filter.value.length > CONFIG.MAX_FILTER_VALUES) {
+        throw invalidValue(`an array of at most ${CONFIG.MAX_FILTER_VALUES} values`);
+      }
+      break;
+    case 'starts_with':
+    case 'ends_with':
+      if (typeof filter.value !== 'string') {
+        throw invalidValue('a string');
+      }
+      break;
+    case 'exists':
+      if (typeof filter.value !== 'boolean') {
+        throw invalidValue('a boolean');
+      }
+      break;
+    case 'type':
+      if (!VALUE_TYPES.includes(filter.value)) {
+        throw invalidValue(`one of: ${VALUE_TYPES.join(', ')}`);
+      }
+      break;
+    case 'regex':
+      compileRegex(filter.value);
+      break;
+    case 'size':
+      if (!Number.isInteger(filter.value) || filter.value < 0) {
+        throw invalidValue('a non-negative integer');
+      }
+      break;
+    case 'elem_match':
+      if (!Array.isArray(filter.value) || filter.value.length === 0) {
+        throw invalidValue('a non-empty array of filters');
+      }
+      validateQueryFilters(filter.value, depth + 1);
+      break;
+    case 'search': {
+      const terms = typeof filter.value === 'string' ? searchTerms(filter.value) : [];
+      if (terms.length === 0 || terms.length > CONFIG.MAX_SEARCH_TERMS) {
+        throw invalidValue(`a string of 1 to ${CONFIG.MAX_SEARCH_TERMS} distinct words (not counting stop words)`);
+      }
+      break;
+    }
+    case 'near':
+    case 'within_box':
+    case 'within_polygon':
+    case 'within_radius':
+      validateGeoFilterValue(filter.operator, filter.value);
+      break;
+    case 'nearest_neighbors':
+      validateVectorFilterValue(filter.value);
+      break;
+  }
+}
+
 /**
  * Validates query options
  * 
@@ -212,6 +564,29 @@ export function validateQueryOptions(options: any): void {
     }
   }
   
+  if (options.after !== undefined && (typeof options.after !== 'string' || !options.after)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'Cursor must be a non-empty string'
+    );
+  }
+  
+  for (const flag of ['explain', 'profile']) {
+    if (options[flag] !== undefined && typeof options[flag] !== 'boolean') {
+      throw new ImpossibleDBError(
+        ErrorCode.INVALID_QUERY,
+        `The ${flag} option must be a boolean`
+      );
+    }
+  }
+  
+  if (options.explain && options.profile) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_QUERY,
+      'A query cannot be both explained and profiled'
+    );
+  }
+  
   if (options.sort !== undefined) {
     if (!Array.isArray(options.sort)) {
       throw new ImpossibleDBError(
@@ -244,3 +619,33 @@ export function validateQueryOptions(options: any): void {
     }
   }
 }
+
+/**
+ * Reads the JSON body of a request, which must be an object
+ * 
+ * @param request The request
+ * @param kind Kind of request, for logging
+ * @returns The body, whose fields still have to be validated
+ * @throws ImpossibleDBError with INVALID_REQUEST if the body is not a JSON object
+ */
+export async function readJsonObject<T extends object>(request: Request, kind: string): Promise<Partial<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    logger.warn(`Invalid JSON in ${kind} request body`, { error: (error as Error).message });
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Invalid JSON in request body'
+    );
+  }
+  
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ImpossibleDBError(
+      ErrorCode.INVALID_REQUEST,
+      'Request body must be a JSON object'
+    );
+  }
+  
+  return body as Partial<T>;
+}
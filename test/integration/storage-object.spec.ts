@@ -0,0 +1,335 @@
+/// <reference types="@cloudflare/vitest-pool-workers" />
+/**
+ * StorageObject Integration Tests
+ *
+ * This file contains tests that drive the StorageObject Durable Object
+ * through fetch in the Workers runtime, on its SQLite storage.
+ */
+
+import { env, runInDurableObject, runDurableObjectAlarm } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { StorageObject } from '../../src/objects/StorageObject';
+import { CONFIG } from '../../src/config';
+import { ErrorCode } from '../../src/types';
+import { SUBSCRIPTION_SEQ_HEADER } from '../../src/storage/subscriptions';
+
+let shardCount = 0;
+
+// Storage is not isolated between tests (see vitest.config.mts), so every
+// test gets a shard of its own
+function newShard(): DurableObjectStub {
+  shardCount++;
+  return env.STORAGE_OBJECT.get(env.STORAGE_OBJECT.idFromName(`shard${shardCount}`));
+}
+
+function send(
+  shard: DurableObjectStub,
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  return shard.fetch(`http://shard${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+async function json(response: Response): Promise<Record<string, any>> {
+  return await response.json();
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function countRows(shard: DurableObjectStub, sql: string): Promise<number> {
+  return runInDurableObject(shard, (_instance: StorageObject, state) => {
+    return state.storage.sql.exec<{ count: number }>(sql).one().count;
+  });
+}
+
+describe('StorageObject', () => {
+  describe('SQL storage', () => {
+    it('should store documents in SQL tables and query them there', async () => {
+      const shard = newShard();
+      
+      expect((await send(shard, 'PUT', '/users/u1', { name: 'Alice', age: 25 })).status).toBe(201);
+      expect((await send(shard, 'PUT', '/users/u2', { name: 'Bob', age: 30 })).status).toBe(201);
+      
+      const result = await json(await send(shard, 'POST', '/query', {
+        collection: 'users',
+        filters: [{ field: 'age', operator: '>', value: 25 }]
+      }));
+      expect(result.results.map((doc: any) => doc._id)).toEqual(['u2']);
+      
+      expect(await countRows(shard, "SELECT COUNT(*) AS count FROM documents WHERE collection = 'users'")).toBe(2);
+    });
+    
+    it('should migrate the documents and indexes of key-value storage', async () => {
+      const shard = newShard();
+      const doc = (id: string, age: number) => ({
+        _id: id, _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1, age
+      });
+      
+      const keys = await runInDurableObject(shard, async (_instance: StorageObject, state) => {
+        await state.storage.put<any>({
+          '__collections': { users: ['u1', 'u2'] },
+          '__indexes': { users: [{ name: 'by_age', collection: 'users', fields: ['age'], status: 'building', createdAt: 1 }] },
+          'users:u1': doc('u1', 25),
+          'users:u2': doc('u2', 30)
+        });
+        
+        // The migration runs when the object loads
+        const object = new StorageObject(state);
+        await state.blockConcurrencyWhile(async () => {});
+        
+        const response = await object.fetch(new Request('http://shard/users/u2'));
+        expect(await json(response)).toMatchObject({ _id: 'u2', age: 30 });
+        
+        return (await state.storage.list()).size;
+      });
+      
+      expect(keys).toBe(0);
+      expect(await countRows(shard, 'SELECT COUNT(*) AS count FROM documents')).toBe(2);
+      
+      const { index } = await json(await send(shard, 'GET', '/__index/users/by_age'));
+      expect(index).toMatchObject({ fields: ['age'], status: 'ready' });
+    });
+  });
+  
+  describe('request bodies', () => {
+    it('should reject bodies that are not JSON objects', async () => {
+      const shard = newShard();
+      
+      for (const path of ['/batch', '/query', '/pipeline', '/__search/users']) {
+        for (const body of [null, [], 42]) {
+          const response = await send(shard, 'POST', path, body);
+          expect(response.status).toBe(400);
+          expect((await json(response)).error).toMatchObject({
+            code: ErrorCode.INVALID_REQUEST,
+            message: 'Request body must be a JSON object'
+          });
+        }
+      }
+    });
+  });
+  
+  describe('index administration', () => {
+    it('should create, list, rebuild and drop indexes', async () => {
+      const shard = newShard();
+      await send(shard, 'PUT', '/users/u1', { name: 'Alice', age: 25 });
+      
+      const created = await send(shard, 'POST', '/__index/users', { name: 'by_age', fields: ['age'] });
+      expect(created.status).toBe(201);
+      expect(await json(created)).toMatchObject({ index: { name: 'by_age', status: 'ready' }, indexedDocuments: 1 });
+      
+      const duplicate = await send(shard, 'POST', '/__index/users', { name: 'by_age', fields: ['age'] });
+      expect(duplicate.status).toBe(409);
+      
+      const { indexes } = await json(await send(shard, 'GET', '/__index/users'));
+      expect(indexes.map((index: any) => index.name)).toEqual(['by_age']);
+      
+      const explained = await json(await send(shard, 'POST', '/query', {
+        collection: 'users',
+        filters: [{ field: 'age', operator: '>', value: 20 }],
+        options: { explain: true }
+      }));
+      expect(explained.shardPlan).toMatchObject({ pushedDown: true, index: 'by_age' });
+      
+      expect(await json(await send(shard, 'POST', '/__index/users/by_age/build'))).toMatchObject({ indexedDocuments: 1 });
+      expect(await json(await send(shard, 'DELETE', '/__index/users/by_age'))).toEqual({ dropped: true, collection: 'users', name: 'by_age' });
+      expect((await send(shard, 'GET', '/__index/users/by_age')).status).toBe(404);
+    });
+  });
+  
+  describe('expiry', () => {
+    it('should purge expired documents when the alarm runs', async () => {
+      const shard = newShard();
+      await send(shard, 'PUT', '/sessions/s1', { user: 'u1' }, { [CONFIG.TTL_HEADER]: '0.05' });
+      await send(shard, 'PUT', '/sessions/s2', { user: 'u2' });
+      
+      await wait(60);
+      expect((await send(shard, 'GET', '/sessions/s1')).status).toBe(404);
+      
+      // The runtime may have run the alarm already, which then schedules the
+      // next change log trim
+      expect(await runDurableObjectAlarm(shard)).toBe(true);
+      
+      expect(await countRows(shard, "SELECT COUNT(*) AS count FROM documents WHERE id = 's1'")).toBe(0);
+      expect((await send(shard, 'GET', '/sessions/s2')).status).toBe(200);
+      
+      const { changes } = await json(await send(shard, 'GET', '/__changes/sessions'));
+      expect(changes.map(({ type, id }: any) => `${type} ${id}`)).toEqual(['insert s1', 'insert s2', 'delete s1']);
+    });
+  });
+  
+  describe('conditional writes', () => {
+    it('should only create documents with POST or If-None-Match: *', async () => {
+      const shard = newShard();
+      
+      expect((await send(shard, 'POST', '/users/u1', { name: 'Alice' })).status).toBe(201);
+      
+      const again = await send(shard, 'POST', '/users/u1', { name: 'Alice' });
+      expect(again.status).toBe(409);
+      expect((await json(again)).error.code).toBe(ErrorCode.DOCUMENT_ALREADY_EXISTS);
+      
+      expect((await send(shard, 'PUT', '/users/u1', { name: 'Alice' }, { 'If-None-Match': '*' })).status).toBe(409);
+      expect((await send(shard, 'PUT', '/users/u2', { name: 'Bob' }, { 'If-None-Match': '*' })).status).toBe(201);
+    });
+    
+    it('should only replace documents with If-Match: *', async () => {
+      const shard = newShard();
+      
+      const missing = await send(shard, 'PUT', '/users/u1', { name: 'Alice' }, { 'If-Match': '*' });
+      expect(missing.status).toBe(404);
+      expect((await json(missing)).error.code).toBe(ErrorCode.DOCUMENT_NOT_FOUND);
+      
+      await send(shard, 'PUT', '/users/u1', { name: 'Alice' });
+      const replaced = await send(shard, 'PUT', '/users/u1', { name: 'Alicia' }, { 'If-Match': '*' });
+      expect(replaced.status).toBe(200);
+      expect(await json(replaced)).toMatchObject({ name: 'Alicia', _version: 2 });
+    });
+  });
+  
+  describe('optimistic concurrency', () => {
+    it('should return the version of documents as their ETag', async () => {
+      const shard = newShard();
+      
+      expect((await send(shard, 'PUT', '/users/u1', { name: 'Alice' })).headers.get('ETag')).toBe('"1"');
+      expect((await send(shard, 'PUT', '/users/u1', { name: 'Alicia' })).headers.get('ETag')).toBe('"2"');
+      expect((await send(shard, 'GET', '/users/u1')).headers.get('ETag')).toBe('"2"');
+    });
+    
+    it('should answer 304 when If-None-Match has the current ETag', async () => {
+      const shard = newShard();
+      await send(shard, 'PUT', '/users/u1', { name: 'Alice' });
+      
+      const notModified = await send(shard, 'GET', '/users/u1', undefined, { 'If-None-Match': '"1"' });
+      expect(notModified.status).toBe(304);
+      expect(notModified.headers.get('ETag')).toBe('"1"');
+      expect(await notModified.text()).toBe('');
+      
+      await send(shard, 'PUT', '/users/u1', { name: 'Alicia' });
+      const modified = await send(shard, 'GET', '/users/u1', undefined, { 'If-None-Match': '"1"' });
+      expect(modified.status).toBe(200);
+      expect(await json(modified)).toMatchObject({ name: 'Alicia', _version: 2 });
+    });
+    
+    it('should reject writes made against another version with 409', async () => {
+      const shard = newShard();
+      await send(shard, 'PUT', '/users/u1', { name: 'Alice' });
+      await send(shard, 'PUT', '/users/u1', { name: 'Alicia' });
+      
+      const stale = await send(shard, 'PUT', '/users/u1', { name: 'Al' }, { 'If-Match': '"1"' });
+      expect(stale.status).toBe(409);
+      expect((await json(stale)).error.code).toBe(ErrorCode.CONFLICT);
+      
+      const conflict = await send(shard, 'PUT', '/users/u1', { name: 'Al', _expectedVersion: 1 });
+      expect(conflict.status).toBe(409);
+      expect((await json(conflict)).error.details).toEqual({ expectedVersion: 1, currentVersion: 2 });
+      
+      expect((await send(shard, 'DELETE', '/users/u1', { _expectedVersion: 1 })).status).toBe(409);
+      expect((await send(shard, 'GET', '/users/u1')).status).toBe(200);
+    });
+    
+    it('should apply writes made against the current version', async () => {
+      const shard = newShard();
+      await send(shard, 'PUT', '/users/u1', { name: 'Alice' });
+      
+      const matched = await send(shard, 'PUT', '/users/u1', { name: 'Alicia' }, { 'If-Match': '"1"' });
+      expect(matched.status).toBe(200);
+      
+      // The expected version is a condition, not a field of the document
+      const updated = await json(await send(shard, 'PUT', '/users/u1', { name: 'Al', _expectedVersion: 2 }));
+      expect(updated).toMatchObject({ name: 'Al', _version: 3 });
+      expect(updated).not.toHaveProperty('_expectedVersion');
+      
+      expect((await send(shard, 'PUT', '/users/u2', { name: 'Bob', _expectedVersion: 0 })).status).toBe(201);
+      expect(await json(await send(shard, 'DELETE', '/users/u1', { _expectedVersion: 3 }))).toMatchObject({ deleted: true });
+    });
+    
+    it('should store expectedVersion fields without the underscore', async () => {
+      const shard = newShard();
+      await send(shard, 'PUT', '/users/u1', { name: 'Alice' });
+      
+      const updated = await send(shard, 'PUT', '/users/u1', { name: 'Alicia', expectedVersion: 5 });
+      expect(updated.status).toBe(200);
+      expect(await json(updated)).toMatchObject({ name: 'Alicia', expectedVersion: 5, _version: 2 });
+      
+      const patched = await send(shard, 'PATCH', '/users/u1', { $set: { _expectedVersion: 2 } });
+      expect(patched.status).toBe(400);
+    });
+  });
+  
+  describe('change log', () => {
+    it('should log the changes of a collection in order', async () => {
+      const shard = newShard();
+      await send(shard, 'PUT', '/users/u1', { name: 'Alice' });
+      await send(shard, 'PUT', '/users/u1', { name: 'Alicia' });
+      await send(shard, 'DELETE', '/users/u1');
+      
+      const { changes, hasMore } = await json(await send(shard, 'GET', '/__changes/users?limit=2'));
+      expect(changes.map(({ type, version }: any) => `${type} ${version}`)).toEqual(['insert 1', 'update 2']);
+      expect(changes[1].document).toMatchObject({ name: 'Alicia' });
+      expect(hasMore).toBe(true);
+      
+      const next = await json(await send(shard, 'GET', `/__changes/users?since=${changes[1].seq}`));
+      expect(next.changes.map(({ type }: any) => type)).toEqual(['delete']);
+      expect(next.hasMore).toBe(false);
+    });
+    
+    it('should trim changes older than the retention of the collection', async () => {
+      const shard = newShard();
+      await send(shard, 'PUT', '/__config/users', { changeLogRetention: 0.05 });
+      await send(shard, 'PUT', '/users/u1', { name: 'Alice' });
+      
+      await wait(60);
+      await send(shard, 'PUT', '/users/u2', { name: 'Bob' });
+      
+      expect(await runDurableObjectAlarm(shard)).toBe(true);
+      
+      const { changes } = await json(await send(shard, 'GET', '/__changes/users'));
+      expect(changes.map(({ id }: any) => id)).toEqual(['u2']);
+      
+      const expired = await send(shard, 'GET', '/__changes/users?since=0');
+      expect(expired.status).toBe(410);
+      expect((await json(expired)).error.code).toBe(ErrorCode.CHANGES_EXPIRED);
+    });
+  });
+  
+  describe('subscriptions', () => {
+    it('should replay the changes that follow the sequence number a subscriber resumes from', async () => {
+      const shard = newShard();
+      await send(shard, 'PUT', '/users/u1', { status: 'online' });
+      await send(shard, 'PUT', '/users/u2', { status: 'online' });
+      const since = (await json(await send(shard, 'GET', '/__changes/users'))).changes[1].seq;
+      
+      await send(shard, 'PUT', '/users/u1', { status: 'offline' });
+      await send(shard, 'DELETE', '/users/u2');
+      await send(shard, 'PUT', '/users/u3', { status: 'online' });
+      
+      const filters = JSON.stringify([{ field: 'status', operator: '=', value: 'online' }]);
+      const response = await shard.fetch(
+        `http://shard/__subscribe/users?since=${since}&filters=${encodeURIComponent(filters)}`,
+        { headers: { Upgrade: 'websocket' } }
+      );
+      expect(response.status).toBe(101);
+      expect(response.headers.get(SUBSCRIPTION_SEQ_HEADER)).toBe(String(since));
+      
+      const messages: Record<string, any>[] = [];
+      response.webSocket!.addEventListener('message', message => messages.push(JSON.parse(message.data as string)));
+      response.webSocket!.accept();
+      
+      await send(shard, 'PUT', '/users/u4', { status: 'online' });
+      while (messages.length < 4) {
+        await wait(10);
+      }
+      response.webSocket!.close();
+      
+      expect(messages.map(({ type, id }) => `${type} ${id}`)).toEqual(['delete u1', 'delete u2', 'insert u3', 'insert u4']);
+      expect(messages.map(({ seq }) => seq)).toEqual([since + 1, since + 2, since + 3, since + 4]);
+    });
+  });
+});
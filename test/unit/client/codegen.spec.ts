@@ -0,0 +1,89 @@
+/**
+ * Code Generation Tests
+ *
+ * This file contains tests for the generation of TypeScript types from the
+ * schemas of collections.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateTypeScript } from '../../../src/client/codegen';
+
+describe('TypeScript Code Generation', () => {
+  it('should generate an interface per collection and a type per definition', () => {
+    const source = generateTypeScript({
+      order_items: {
+        type: 'object',
+        description: 'An item of an order',
+        required: ['sku', 'quantity'],
+        additionalProperties: false,
+        properties: {
+          sku: { type: 'string', pattern: '^[A-Z]\\d+$' },
+          quantity: { type: 'integer', minimum: 1, description: 'Number of units' },
+          status: { enum: ['pending', 'shipped'] },
+          'gift-wrap': { type: ['boolean', 'null'] },
+          shipping: { $ref: '#/$defs/address' },
+          tags: { type: 'array', items: { anyOf: [{ type: 'string' }, { type: 'number' }] } },
+          location: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], items: false },
+          attributes: { type: 'object', additionalProperties: { type: 'string' } }
+        },
+        $defs: {
+          address: {
+            type: 'object',
+            required: ['city'],
+            properties: { city: { type: 'string' }, zip: { type: 'string' } }
+          }
+        }
+      }
+    });
+    
+    expect(source).toBe([
+      '// Generated from the schemas of ImpossibleDB collections, do not edit',
+      '',
+      '/**',
+      ' * An item of an order',
+      ' */',
+      'export interface OrderItems {',
+      '  sku: string;',
+      '  /**',
+      '   * Number of units',
+      '   */',
+      '  quantity: number;',
+      '  status?: "pending" | "shipped";',
+      '  "gift-wrap"?: boolean | null;',
+      '  shipping?: OrderItemsAddress;',
+      '  tags?: (string | number)[];',
+      '  location?: [number, number];',
+      '  attributes?: {',
+      '    [key: string]: string;',
+      '  };',
+      '}',
+      '',
+      '/**',
+      ' * The address definition of the order_items collection schema',
+      ' */',
+      'export interface OrderItemsAddress {',
+      '  city: string;',
+      '  zip?: string;',
+      '}',
+      ''
+    ].join('\n'));
+  });
+  
+  it('should name types after schema titles and declare non-object schemas as aliases', () => {
+    const source = generateTypeScript({
+      users: {
+        title: 'User',
+        allOf: [{ $ref: '#/$defs/named' }, { type: 'object', properties: { manager: { $ref: '#' } } }],
+        $defs: { named: { type: 'object', properties: { name: { type: 'string' } } } }
+      }
+    });
+    
+    expect(source).toContain('export type User = UserNamed & {\n  manager?: User;\n};');
+    expect(source).toContain('export interface UserNamed {\n  name?: string;\n}');
+  });
+  
+  it('should reject schemas generating types with the same name', () => {
+    expect(() => generateTypeScript({ users: { title: 'Account' }, admins: { title: 'Account' } }))
+      .toThrow('Cannot generate two types named Account');
+  });
+});
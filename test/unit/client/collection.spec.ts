@@ -19,7 +19,12 @@ describe('Collection', () => {
   let executeUpdateMock: any;
   let executeDeleteMock: any;
   let createTransactionMock: any;
-  let mockTransaction: Transaction;
+  let executePatchMock: any;
+  let executeBatchMock: any;
+  let executeSubscribeMock: any;
+  let executeRestoreMock: any;
+  let executeAggregateMock: any;
+let mockTransaction: Transaction;
   
   beforeEach(() => {
     executeQueryMock = vi.fn().mockResolvedValue({
@@ -76,6 +81,29 @@ describe('Collection', () => {
     
     createTransactionMock = vi.fn().mockReturnValue(mockTransaction);
     
+    executePatchMock = vi.fn().mockImplementation((collection, id) => {
+      return Promise.resolve({
+        _id: id,
+        _collection: collection,
+        _version: 2,
+        _createdAt: Date.now(),
+        _updatedAt: Date.now(),
+        loginCount: 1
+      });
+    });
+    
+    executeBatchMock = vi.fn().mockImplementation(operations => {
+      return Promise.resolve(operations.map(() => ({ status: 200 })));
+    });
+    
+    executeSubscribeMock = vi.fn().mockReturnValue({ unsubscribe: vi.fn() });
+    
+    executeRestoreMock = vi.fn().mockImplementation((collection, id, version) => {
+      return Promise.resolve({ _id: id, _collection: collection, _version: version + 10, name: 'Restored' });
+    });
+    
+    executeAggregateMock = vi.fn().mockResolvedValue([{ city: 'NYC', count: 2 }]);
+    
     collection = new Collection(
       'users',
       executeQueryMock,
@@ -83,7 +111,12 @@ describe('Collection', () => {
       executeReadMock,
       executeUpdateMock,
       executeDeleteMock,
-      createTransactionMock
+      createTransactionMock,
+      executePatchMock,
+      executeBatchMock,
+      executeSubscribeMock,
+      executeRestoreMock,
+      executeAggregateMock
     );
   });
   
@@ -92,8 +125,8 @@ describe('Collection', () => {
   });
   
   it('should throw an error if created with an invalid name', () => {
-    expect(() => new Collection('', executeQueryMock, executeCreateMock, executeReadMock, executeUpdateMock, executeDeleteMock, createTransactionMock)).toThrow(ImpossibleDBError);
-    expect(() => new Collection(null as any, executeQueryMock, executeCreateMock, executeReadMock, executeUpdateMock, executeDeleteMock, createTransactionMock)).toThrow(ImpossibleDBError);
+    expect(() => new Collection('', executeQueryMock, executeCreateMock, executeReadMock, executeUpdateMock, executeDeleteMock, createTransactionMock, executePatchMock, executeBatchMock, executeSubscribeMock, executeRestoreMock, executeAggregateMock)).toThrow(ImpossibleDBError);
+    expect(() => new Collection(null as any, executeQueryMock, executeCreateMock, executeReadMock, executeUpdateMock, executeDeleteMock, createTransactionMock, executePatchMock, executeBatchMock, executeSubscribeMock, executeRestoreMock, executeAggregateMock)).toThrow(ImpossibleDBError);
   });
   
   it('should create a query builder for the collection', () => {
@@ -117,6 +150,110 @@ describe('Collection', () => {
     );
   });
   
+  it('should build extended filters', () => {
+    const { filters } = collection.query()
+      .whereIn('role', ['admin', 'staff'])
+      .startsWith('name', 'Al')
+      .exists('email')
+      .matches('name', '^al', 'i')
+      .containsAll('tags', ['a', 'b'])
+      .elemMatch('items', item => item.equals('sku', 'A1').greaterThan('quantity', 2))
+      .build();
+    
+    expect(filters).toEqual([
+      { field: 'role', operator: 'in', value: ['admin', 'staff'] },
+      { field: 'name', operator: 'starts_with', value: 'Al' },
+      { field: 'email', operator: 'exists', value: true },
+      { field: 'name', operator: 'regex', value: { pattern: '^al', flags: 'i' } },
+      { field: 'tags', operator: 'all', value: ['a', 'b'] },
+      {
+        field: 'items',
+        operator: 'elem_match',
+        value: [
+          { field: 'sku', operator: '=', value: 'A1' },
+          { field: 'quantity', operator: '>', value: 2 }
+        ]
+      }
+    ]);
+  });
+  
+  it('should build full-text searches', () => {
+    const { filters } = collection.query().search('description', 'wireless headphones').build();
+    
+    expect(filters).toEqual([{ field: 'description', operator: 'search', value: 'wireless headphones' }]);
+  });
+  
+  it('should build geospatial filters', () => {
+    const { filters } = collection.query()
+      .near('location', [-73.98, 40.75], 2000)
+      .withinRadius('location', [-73.98, 40.75], 500)
+      .withinBox('location', [-74, 40.7], [-73.9, 40.8])
+      .withinPolygon('location', [[-74, 40.7], [-73.9, 40.7], [-73.95, 40.8]])
+      .build();
+    
+    expect(filters).toEqual([
+      { field: 'location', operator: 'near', value: { point: [-73.98, 40.75], maxDistance: 2000 } },
+      { field: 'location', operator: 'within_radius', value: { center: [-73.98, 40.75], radius: 500 } },
+      { field: 'location', operator: 'within_box', value: [[-74, 40.7], [-73.9, 40.8]] },
+      { field: 'location', operator: 'within_polygon', value: [[-74, 40.7], [-73.9, 40.7], [-73.95, 40.8]] }
+    ]);
+    expect(collection.query().near('location', [0, 0]).build().filters).toEqual([{ field: 'location', operator: 'near', value: { point: [0, 0] } }]);
+  });
+  
+  it('should build nearest neighbor filters', () => {
+    const { filters } = collection.query().nearestNeighbors('embedding', [0.1, 0.2, 0.3], 5).equals('lang', 'en').build();
+    
+    expect(filters).toEqual([
+      { field: 'embedding', operator: 'nearest_neighbors', value: { vector: [0.1, 0.2, 0.3], k: 5 } },
+      { field: 'lang', operator: '=', value: 'en' }
+    ]);
+  });
+  
+  it('should build OR and NOT groups of filters', () => {
+    const { filters } = collection.query()
+      .or(q => q.equals('role', 'admin'), q => q.equals('role', 'owner').exists('verifiedAt'))
+      .not(q => q.equals('status', 'archived'))
+      .build();
+    
+    expect(filters).toEqual([
+      {
+        or: [
+          { field: 'role', operator: '=', value: 'admin' },
+          {
+            and: [
+              { field: 'role', operator: '=', value: 'owner' },
+              { field: 'verifiedAt', operator: 'exists', value: true }
+            ]
+          }
+        ]
+      },
+      { not: { field: 'status', operator: '=', value: 'archived' } }
+    ]);
+    expect(() => collection.query().or()).toThrow(ImpossibleDBError);
+    expect(() => collection.query().not(q => q)).toThrow(ImpossibleDBError);
+  });
+  
+  it('should explain or profile a query', () => {
+    expect(collection.query().limit(5).explain().getOptions()).toEqual({ limit: 5, explain: true });
+    expect(collection.query().explain().profile().getOptions()).toEqual({ profile: true });
+  });
+  
+  it('should join documents of other collections to the results of a query', async () => {
+    await collection.find(collection.query().lookup('orders', '_id', 'userId', 'orders'));
+    
+    expect(executeQueryMock.mock.calls[0][5]).toEqual([{ from: 'orders', localField: '_id', foreignField: 'userId', as: 'orders' }]);
+    expect(() => collection.query().lookup('orders', '', 'userId', 'orders')).toThrow('Lookup localField must be a non-empty string');
+    expect(() => collection.query().lookup('orders', '_id', 'userId', 'orders').subscribe(() => {})).toThrow(ImpossibleDBError);
+  });
+  
+  it('should run an aggregation pipeline', async () => {
+    const pipeline = [{ group: { by: { city: '$city' }, accumulators: { count: { count: true as const } } } }];
+    
+    await expect(collection.aggregate(pipeline)).resolves.toEqual([{ city: 'NYC', count: 2 }]);
+    expect(executeAggregateMock).toHaveBeenCalledWith('users', pipeline);
+    await expect(collection.aggregate([{ limit: 0 }])).rejects.toThrow('Limit stage must be a positive integer');
+  });
+  
   it('should throw an error if executing a query for a different collection', async () => {
     const queryBuilder = new QueryBuilder('products');
     
@@ -128,7 +265,7 @@ describe('Collection', () => {
     
     expect(doc._id).toBe('user1');
     expect(doc._collection).toBe('users');
-    expect(executeReadMock).toHaveBeenCalledWith('users', 'user1');
+    expect(executeReadMock).toHaveBeenCalledWith('users', 'user1', undefined);
   });
   
   it('should throw an error if finding a document with an invalid ID', async () => {
@@ -193,6 +330,18 @@ describe('Collection', () => {
     await expect(collection.update('user1', null as any)).rejects.toThrow(ImpossibleDBError);
   });
   
+  it('should patch a document', async () => {
+    const doc = await collection.patch('user1', { $inc: { loginCount: 1 } }, { expectedVersion: 1 });
+    
+    expect(doc.loginCount).toBe(1);
+    expect(executePatchMock).toHaveBeenCalledWith('users', 'user1', { $inc: { loginCount: 1 } }, { expectedVersion: 1 });
+  });
+  
+  it('should throw an error if patching with an invalid ID or patch', async () => {
+    await expect(collection.patch('', [])).rejects.toThrow(ImpossibleDBError);
+    await expect(collection.patch('user1', null as any)).rejects.toThrow(ImpossibleDBError);
+  });
+  
   it('should delete a document', async () => {
     await collection.delete('user1');
     
@@ -204,10 +353,144 @@ describe('Collection', () => {
     await expect(collection.delete(null as any)).rejects.toThrow(ImpossibleDBError);
   });
   
+  it('should create documents in bulk', async () => {
+    const results = await collection.bulkCreate([{ _id: 'user1', name: 'A' }, { name: 'B' }], { failIfExists: true, ttl: 60 });
+    
+    expect(results).toHaveLength(2);
+    
+    const [operations] = executeBatchMock.mock.calls[0];
+    expect(operations[0]).toEqual({ op: 'create', collection: 'users', id: 'user1', document: { _id: 'user1', name: 'A' }, ttl: 60 });
+    expect(operations[1].op).toBe('create');
+    expect(typeof operations[1].id).toBe('string');
+  });
+  
+  it('should read, update and delete documents in bulk', async () => {
+    await collection.bulkGet(['user1', 'user2']);
+    await collection.bulkUpdate([{ id: 'user1', document: { name: 'A' }, expectedVersion: 2 }]);
+    await collection.bulkUpdate([{ id: 'user2', document: { name: 'B' } }], { upsert: true });
+    await collection.bulkDelete(['user1']);
+    
+    expect(executeBatchMock.mock.calls.map((call: any[]) => call[0])).toEqual([
+      [{ op: 'get', collection: 'users', id: 'user1' }, { op: 'get', collection: 'users', id: 'user2' }],
+      [{ op: 'update', collection: 'users', id: 'user1', document: { name: 'A' }, expectedVersion: 2, ttl: undefined }],
+      [{ op: 'put', collection: 'users', id: 'user2', document: { name: 'B' }, expectedVersion: undefined, ttl: undefined }],
+      [{ op: 'delete', collection: 'users', id: 'user1' }]
+    ]);
+  });
+  
+  it('should throw an error for invalid bulk inputs', async () => {
+    await expect(collection.bulkCreate([null as any])).rejects.toThrow(ImpossibleDBError);
+    await expect(collection.bulkGet(['user1', ''])).rejects.toThrow(ImpossibleDBError);
+    await expect(collection.bulkUpdate([{ document: {} } as any])).rejects.toThrow(ImpossibleDBError);
+    await expect(collection.bulkDelete('user1' as any)).rejects.toThrow(ImpossibleDBError);
+    expect(executeBatchMock).not.toHaveBeenCalled();
+  });
+  
+  it('should iterate over every page of a query', async () => {
+    executeQueryMock
+      .mockResolvedValueOnce({
+        results: [{ _id: 'user1' }, { _id: 'user2' }],
+        metadata: { total: 3, limit: 2, offset: 1, nextCursor: 'cursor1' }
+      })
+      .mockResolvedValueOnce({
+        results: [{ _id: 'user3' }],
+        metadata: { total: 3, limit: 2, offset: 0 }
+      });
+    
+    const ids: string[] = [];
+    for await (const doc of collection.query().sortAsc('name').limit(2).offset(1).iterate()) {
+      ids.push(doc._id);
+    }
+    
+    expect(ids).toEqual(['user1', 'user2', 'user3']);
+    expect(executeQueryMock.mock.calls[0][3]).toEqual({ sort: [{ field: 'name', direction: 'asc' }], limit: 2, offset: 1 });
+    expect(executeQueryMock.mock.calls[1][3]).toEqual({ sort: [{ field: 'name', direction: 'asc' }], limit: 2, after: 'cursor1' });
+  });
+  
+  it('should find past versions of a document', async () => {
+    const asOf = new Date('2024-05-01T00:00:00Z');
+    
+    await collection.findById('user1', { version: 2 });
+    await collection.findByIdOrNull('user1', { asOf });
+    
+    expect(executeReadMock).toHaveBeenCalledWith('users', 'user1', { version: 2 });
+    expect(executeReadMock).toHaveBeenCalledWith('users', 'user1', { asOf });
+    await expect(collection.findById('user1', { version: 2, asOf })).rejects.toThrow('Cannot find a document by both version and time');
+  });
+  
+  it('should restore a past version of a document', async () => {
+    const restored = await collection.restore('user1', 2, { expectedVersion: 5 });
+    
+    expect(restored._version).toBe(12);
+    expect(executeRestoreMock).toHaveBeenCalledWith('users', 'user1', 2, { expectedVersion: 5 });
+    await expect(collection.restore('user1', 0)).rejects.toThrow('Version must be a positive integer');
+  });
+  
+  it('should subscribe to the changes of a query or a document', () => {
+    const callback = vi.fn();
+    
+    const subscription = collection.query().where('status', '=', 'online').sortAsc('name').subscribe(callback);
+    collection.subscribe('user1', callback);
+    
+    expect(subscription.unsubscribe).toBeDefined();
+    expect(executeSubscribeMock).toHaveBeenCalledWith('users', { filters: [{ field: 'status', operator: '=', value: 'online' }] }, callback);
+    expect(executeSubscribeMock).toHaveBeenCalledWith('users', { id: 'user1' }, callback);
+    expect(() => collection.subscribe('', callback)).toThrow(ImpossibleDBError);
+  });
+  
   it('should create a transaction', () => {
     const transaction = collection.transaction();
     
     expect(transaction).toBe(mockTransaction);
     expect(createTransactionMock).toHaveBeenCalled();
   });
+  
+  it('should type the documents and queries of typed collections', async () => {
+    interface User {
+      name: string;
+      age?: number;
+      tags: string[];
+      address: { city: string; zip?: string };
+      orders: { sku: string; quantity: number }[];
+    }
+    
+    const users = new Collection<User>('users', executeQueryMock, executeCreateMock, executeReadMock, executeUpdateMock, executeDeleteMock, createTransactionMock, executePatchMock, executeBatchMock, executeSubscribeMock, executeRestoreMock, executeAggregateMock);
+    
+    const user = await users.findById('user1');
+    const name: string = user.name;
+    const version: number = user._version;
+    expect([name, version]).toEqual(['Test Document', 1]);
+    
+    await users.create({ name: 'Alice', tags: [], address: { city: 'NYC' }, orders: [] });
+    await users.update('user1', { age: 30 });
+    // @ts-expect-error documents must have the fields of the collection type
+    await users.create({ name: 'Bob' });
+    // @ts-expect-error fields must have the type of the collection type
+    await users.update('user1', { age: 'thirty' });
+    
+    const query = users.query()
+      .where('age', '>=', 18)
+      .where('address.city', 'in', ['NYC', 'LA'])
+      .contains('tags', 'admin')
+      .startsWith('address.zip', '10')
+      .elemMatch('orders', order => order.equals('sku', 'A1').greaterThan('quantity', 2))
+      .sortDesc('_createdAt');
+    expect(query.getFilters()).toHaveLength(5);
+    
+    // @ts-expect-error unknown fields are rejected
+    users.query().where('agee', '=', 18);
+    // @ts-expect-error values must have the type of the field
+    users.query().where('age', '>', 'eighteen');
+    // @ts-expect-error array operators need array fields
+    users.query().containsAll('name', ['A']);
+    // @ts-expect-error sums need number fields
+    users.query().sum('name');
+    
+    const { results } = await users.find(query);
+    const cities: string[] = results.map(result => result.address.city);
+    expect(cities).toEqual([]);
+    
+    // Untyped collections accept any field
+    collection.query().where('anything.at.all', 'contains', 42);
+  });
 });
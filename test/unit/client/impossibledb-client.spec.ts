@@ -11,12 +11,14 @@ import { Collection } from '../../../src/client/Collection';
 import { Transaction } from '../../../src/client/Transaction';
 import { Document, ErrorCode } from '../../../src/types';
 import { ImpossibleDBError } from '../../../src/utils/errorHandler';
+import { CONFIG } from '../../../src/config';
 
 // Create a mock HttpClient class
 class MockHttpClient {
   get = vi.fn();
   post = vi.fn();
   put = vi.fn();
+  patch = vi.fn();
   delete = vi.fn();
 }
 
@@ -119,6 +121,26 @@ describe('ImpossibleDBClient', () => {
     });
   });
   
+  describe('generateTypes', () => {
+    it('should generate the types of collections from their schemas', async () => {
+      mockHttpClient.get.mockResolvedValueOnce({
+        collection: 'users',
+        config: { schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } } }
+      });
+      
+      const source = await client.generateTypes(['users']);
+      
+      expect(mockHttpClient.get).toHaveBeenCalledWith('collections/users/config', expect.anything());
+      expect(source).toContain('export interface Users {\n  name: string;\n}');
+    });
+    
+    it('should throw an error if a collection has no schema', async () => {
+      mockHttpClient.get.mockResolvedValueOnce({ collection: 'logs', config: {} });
+      
+      await expect(client.generateTypes(['logs'])).rejects.toThrow('Collection logs has no schema');
+    });
+  });
+  
   describe('createTransaction', () => {
     it('should create a Transaction instance', () => {
       const transaction = client.createTransaction();
@@ -187,6 +209,29 @@ describe('ImpossibleDBClient', () => {
         await expect(usersCollection.findById('')).rejects.toThrow(ImpossibleDBError);
         await expect(usersCollection.findById('')).rejects.toThrow('Document ID is required and must be a string');
       });
+      
+      it('should send the version or time to read in the query string', async () => {
+        await usersCollection.findById('123', { version: 4 });
+        await usersCollection.findById('123', { asOf: new Date(1620000000000) });
+        
+        expect(mockHttpClient.get.mock.calls[0][0]).toBe('collections/users/documents/123?version=4');
+        expect(mockHttpClient.get.mock.calls[1][0]).toBe('collections/users/documents/123?asOf=1620000000000');
+      });
+    });
+    
+    describe('restore', () => {
+      it('should restore a version with a POST request', async () => {
+        mockHttpClient.post.mockResolvedValue({ _id: '123', _version: 6 });
+        
+        const document = await usersCollection.restore('123', 2, { expectedVersion: 5 });
+        
+        expect(mockHttpClient.post).toHaveBeenCalledWith(
+          'collections/users/documents/123/restore',
+          { version: 2 },
+          expect.objectContaining({ headers: { 'If-Match': '"5"' } })
+        );
+        expect(document._version).toBe(6);
+      });
     });
     
     describe('create', () => {
@@ -226,6 +271,35 @@ describe('ImpossibleDBClient', () => {
         await expect(usersCollection.create(null as any)).rejects.toThrow(ImpossibleDBError);
         await expect(usersCollection.create(null as any)).rejects.toThrow('Document must be an object');
       });
+      
+      it('should send the TTL in a request header', async () => {
+        mockHttpClient.post.mockResolvedValue({});
+        
+        await usersCollection.create({ token: 'abc' }, { ttl: 3600 });
+        
+        expect(mockHttpClient.post).toHaveBeenCalledWith(
+          'collections/users/documents',
+          expect.any(Object),
+          expect.objectContaining({ headers: { 'X-Document-TTL': '3600' } })
+        );
+      });
+      
+      it('should reject an invalid TTL', async () => {
+        await expect(usersCollection.create({ token: 'abc' }, { ttl: -1 })).rejects.toThrow('TTL must be a positive number of seconds');
+        expect(mockHttpClient.post).not.toHaveBeenCalled();
+      });
+      
+      it('should only create a new document with failIfExists', async () => {
+        mockHttpClient.post.mockResolvedValue({});
+        
+        await usersCollection.create({ _id: '123', name: 'Test User' }, { failIfExists: true });
+        
+        expect(mockHttpClient.post).toHaveBeenCalledWith(
+          'collections/users/documents',
+          expect.any(Object),
+          expect.objectContaining({ headers: { 'If-None-Match': '*' } })
+        );
+      });
     });
     
     describe('update', () => {
@@ -257,6 +331,40 @@ describe('ImpossibleDBClient', () => {
         expect(document).toEqual(mockUpdatedDocument);
       });
       
+      it('should send the TTL in a request header', async () => {
+        mockHttpClient.put.mockResolvedValue({});
+        
+        await usersCollection.update('123', { name: 'Updated User' }, { ttl: 60 });
+        
+        expect(mockHttpClient.put).toHaveBeenCalledWith(
+          'collections/users/documents/123',
+          { name: 'Updated User' },
+          expect.objectContaining({ headers: { 'X-Document-TTL': '60', 'If-Match': '*' } })
+        );
+      });
+      
+      it('should send the expected version as an If-Match header', async () => {
+        mockHttpClient.put.mockResolvedValue({});
+        
+        await usersCollection.update('123', { name: 'Updated User' }, { expectedVersion: 2 });
+        
+        expect(mockHttpClient.put).toHaveBeenCalledWith(
+          'collections/users/documents/123',
+          { name: 'Updated User' },
+          expect.objectContaining({ headers: { 'If-Match': '"2"' } })
+        );
+      });
+      
+      it('should require the document to exist unless upserting', async () => {
+        mockHttpClient.put.mockResolvedValue({});
+        
+        await usersCollection.update('123', { name: 'Updated User' });
+        await usersCollection.update('123', { name: 'Updated User' }, { upsert: true });
+        
+        expect(mockHttpClient.put.mock.calls[0][2].headers).toEqual({ 'If-Match': '*' });
+        expect(mockHttpClient.put.mock.calls[1][2].headers).toBeUndefined();
+      });
+      
       it('should throw an error if document ID is not provided', async () => {
         await expect(usersCollection.update('', { name: 'Updated User' })).rejects.toThrow(ImpossibleDBError);
         await expect(usersCollection.update('', { name: 'Updated User' })).rejects.toThrow('Document ID is required and must be a string');
@@ -268,6 +376,22 @@ describe('ImpossibleDBClient', () => {
       });
     });
     
+    describe('patch', () => {
+      it('should send the patch with a PATCH request', async () => {
+        const patch = [{ op: 'add' as const, path: '/tags/-', value: 'new' }];
+        mockHttpClient.patch.mockResolvedValue({ _id: '123', tags: ['new'] });
+        
+        const document = await usersCollection.patch('123', patch, { expectedVersion: 3 });
+        
+        expect(mockHttpClient.patch).toHaveBeenCalledWith(
+          'collections/users/documents/123',
+          patch,
+          expect.objectContaining({ headers: { 'If-Match': '"3"' } })
+        );
+        expect(document.tags).toEqual(['new']);
+      });
+    });
+    
     describe('delete', () => {
       it('should delete a document', async () => {
         mockHttpClient.delete.mockResolvedValue(undefined);
@@ -280,6 +404,27 @@ describe('ImpossibleDBClient', () => {
         );
       });
       
+      it('should send the expected version as an If-Match header', async () => {
+        mockHttpClient.delete.mockResolvedValue(undefined);
+        
+        await usersCollection.delete('123', { expectedVersion: 5 });
+        
+        expect(mockHttpClient.delete).toHaveBeenCalledWith(
+          'collections/users/documents/123',
+          expect.objectContaining({ headers: { 'If-Match': '"5"' } })
+        );
+      });
+      
+      it('should require the document to exist with failIfNotExists', async () => {
+        mockHttpClient.delete.mockResolvedValue(undefined);
+        
+        await usersCollection.delete('123');
+        await usersCollection.delete('123', { failIfNotExists: true });
+        
+        expect(mockHttpClient.delete.mock.calls[0][1].headers).toBeUndefined();
+        expect(mockHttpClient.delete.mock.calls[1][1].headers).toEqual({ 'If-Match': '*' });
+      });
+      
       it('should throw an error if document ID is not provided', async () => {
         await expect(usersCollection.delete('')).rejects.toThrow(ImpossibleDBError);
         await expect(usersCollection.delete('')).rejects.toThrow('Document ID is required and must be a string');
@@ -287,6 +432,96 @@ describe('ImpossibleDBClient', () => {
     });
   });
   
+  describe('batch', () => {
+    it('should split operations into requests of at most MAX_BATCH_SIZE operations', async () => {
+      mockHttpClient.post.mockImplementation((_path: string, data: any) =>
+        Promise.resolve({ results: data.operations.map((operation: any) => ({ status: 200, id: operation.id })) })
+      );
+      
+      const operations = Array.from({ length: CONFIG.MAX_BATCH_SIZE + 1 }, (_, i) => ({
+        op: 'delete' as const,
+        collection: 'users',
+        id: `user${i}`
+      }));
+      
+      const results = await client.batch(operations);
+      
+      expect(mockHttpClient.post).toHaveBeenCalledTimes(2);
+      expect(mockHttpClient.post.mock.calls[0][0]).toBe('batch');
+      expect(mockHttpClient.post.mock.calls[0][1].operations).toHaveLength(CONFIG.MAX_BATCH_SIZE);
+      expect(mockHttpClient.post.mock.calls[1][1].operations).toEqual([operations[CONFIG.MAX_BATCH_SIZE]]);
+      expect(results.map((result: any) => result.id)).toEqual(operations.map(operation => operation.id));
+    });
+    
+    it('should throw an error if operations are not an array', async () => {
+      await expect(client.batch(null as any)).rejects.toThrow('Batch operations must be an array');
+    });
+  });
+  
+  describe('subscribe', () => {
+    class MockWebSocket extends EventTarget {
+      static instances: MockWebSocket[] = [];
+      close = vi.fn();
+      
+      constructor(public url: string) {
+        super();
+        MockWebSocket.instances.push(this);
+      }
+      
+      receive(event: Record<string, any>) {
+        this.dispatchEvent(Object.assign(new Event('message'), { data: JSON.stringify(event) }));
+      }
+    }
+    
+    beforeEach(() => {
+      MockWebSocket.instances = [];
+      vi.useFakeTimers();
+      vi.stubGlobal('WebSocket', MockWebSocket);
+    });
+    
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+    
+    it('should deliver change events and resume from the last cursor on reconnect', () => {
+      const callback = vi.fn();
+      const subscription = client.collection('users').subscribe('user1', callback);
+      
+      const [socket] = MockWebSocket.instances;
+      expect(socket.url).toBe('wss://api.impossibledb.com/subscribe/users?id=user1');
+      
+      socket.dispatchEvent(new Event('open'));
+      socket.receive({ cursor: 'opened' });
+      expect(callback).not.toHaveBeenCalled();
+      
+      socket.receive({ type: 'update', collection: 'users', id: 'user1', version: 4, timestamp: 1000, seq: 12, shardId: 'shard1', cursor: 'after12' });
+      expect(callback).toHaveBeenCalledWith(expect.objectContaining({ type: 'update', version: 4, seq: 12 }));
+      expect(callback.mock.calls[0][0]).not.toHaveProperty('cursor');
+      
+      socket.dispatchEvent(new Event('close'));
+      vi.advanceTimersByTime(1000);
+      
+      const reconnected = new URL(MockWebSocket.instances[1].url);
+      expect(reconnected.searchParams.get('since')).toBe('after12');
+      expect(reconnected.searchParams.get('id')).toBe('user1');
+      
+      subscription.unsubscribe();
+      expect(MockWebSocket.instances[1].close).toHaveBeenCalled();
+      
+      MockWebSocket.instances[1].dispatchEvent(new Event('close'));
+      vi.advanceTimersByTime(60000);
+      expect(MockWebSocket.instances).toHaveLength(2);
+    });
+    
+    it('should send query filters', () => {
+      client.collection('users').query().where('age', '>', 21).subscribe(vi.fn());
+      
+      const url = new URL(MockWebSocket.instances[0].url);
+      expect(JSON.parse(url.searchParams.get('filters')!)).toEqual([{ field: 'age', operator: '>', value: 21 }]);
+    });
+  });
+  
   describe('transaction', () => {
     it('should execute a transaction', async () => {
       const mockTransactionResult = {
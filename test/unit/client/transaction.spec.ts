@@ -6,6 +6,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { Transaction } from '../../../src/client/Transaction';
+import { Collection } from '../../../src/client/Collection';
 import { TransactionOperationType, TransactionStatus, ErrorCode } from '../../../src/types';
 import { ImpossibleDBError } from '../../../src/utils/errorHandler';
 
@@ -36,6 +37,17 @@ describe('Transaction', () => {
     expect(() => new Transaction(null as any, executeTransactionMock)).toThrow(ImpossibleDBError);
   });
   
+  it('should accept typed collections instead of collection names', () => {
+    const users = { getName: () => 'users' } as Collection<{ name: string; age: number }>;
+    
+    transaction.write(users, 'user1', { name: 'Alice', age: 30 }).read(users, 'user2').delete(users, 'user3');
+    // @ts-expect-error documents written to typed collections are type-checked
+    expect(() => transaction.write(users, 'user4', { name: 'Bob', age: 'unknown' })).not.toThrow();
+    
+    expect(transaction.getOperations().map(operation => operation.collection)).toEqual(['users', 'users', 'users', 'users']);
+    expect(transaction.getOperations()[0].data).toEqual({ name: 'Alice', age: 30, _id: 'user1', _collection: 'users' });
+  });
+  
   it('should add a read operation', () => {
     transaction.read('users', 'user1');
     
@@ -0,0 +1,35 @@
+/**
+ * Test Helpers
+ *
+ * This file contains helpers shared by the unit tests.
+ */
+
+import { Document, ErrorCode } from '../../src/types';
+import { ImpossibleDBError } from '../../src/utils/errorHandler';
+
+/**
+ * Creates a stored document, with the metadata of a first version unless the
+ * fields override it
+ *
+ * @param collection The collection of the document
+ * @param id The ID of the document
+ * @param fields The fields of the document
+ */
+export function makeDocument(collection: string, id: string, fields: Record<string, any> = {}): Document {
+  return { _id: id, _collection: collection, _version: 1, _createdAt: 1, _updatedAt: 1, ...fields };
+}
+
+/**
+ * Calls a function and returns the code of the ImpossibleDBError it throws
+ *
+ * @param fn The function to call
+ * @returns The error code, or undefined if the function did not throw
+ */
+export function errorCode(fn: () => unknown): ErrorCode | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return (error as ImpossibleDBError).code;
+  }
+  return undefined;
+}
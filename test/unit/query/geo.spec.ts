@@ -0,0 +1,127 @@
+/**
+ * Geospatial Query Tests
+ *
+ * This file contains tests for the matching of points against geospatial
+ * filters and for the geohash cells that index lookups scan.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  coveringCells,
+  distance,
+  distanceTo,
+  findGeoFilter,
+  geohash,
+  GeoPoint,
+  matchesGeo,
+  validateGeoFilterValue
+} from '../../../src/query/geo';
+import { QueryFilter } from '../../../src/types';
+import { makeDocument } from '../helpers';
+
+function point(coordinates: GeoPoint) {
+  return { type: 'Point', coordinates };
+}
+
+const timesSquare: GeoPoint = [-73.9855, 40.758];
+const centralPark: GeoPoint = [-73.9654, 40.7829];
+const brooklynBridge: GeoPoint = [-73.9969, 40.7061];
+
+describe('Geospatial Queries', () => {
+  describe('distance', () => {
+    it('should compute great-circle distances in meters', () => {
+      expect(distance(timesSquare, timesSquare)).toBe(0);
+      expect(distance([0, 0], [0, 1])).toBeCloseTo(111195, 0);
+      expect(distance(timesSquare, centralPark)).toBeCloseTo(3245, 0);
+      expect(distance([0, 0], [180, 0])).toBeCloseTo(Math.PI * 6371008.8, 0);
+      expect(distance([179.9, 0], [-179.9, 0])).toBeCloseTo(distance([0, 0], [0.2, 0]), 6);
+    });
+  });
+  
+  describe('geohash', () => {
+    it('should encode points as geohashes whose prefixes are the cells containing them', () => {
+      expect(geohash([-5.6, 42.6], 5)).toBe('ezs42');
+      expect(geohash(timesSquare, 12).startsWith(geohash(timesSquare, 6))).toBe(true);
+      expect(geohash([180, 90], 2)).toBe('zz');
+    });
+  });
+  
+  describe('validateGeoFilterValue', () => {
+    it('should reject malformed points, boxes and polygons', () => {
+      expect(() => validateGeoFilterValue('near', { point: timesSquare, maxDistance: 500 })).not.toThrow();
+      expect(() => validateGeoFilterValue('near', { point: [200, 0] })).toThrow("The value of a 'near' filter must be an object with a point");
+      expect(() => validateGeoFilterValue('near', { point: timesSquare, maxDistance: -1 })).toThrow();
+      expect(() => validateGeoFilterValue('within_radius', { center: timesSquare })).toThrow();
+      expect(() => validateGeoFilterValue('within_box', [centralPark, brooklynBridge])).toThrow();
+      expect(() => validateGeoFilterValue('within_box', [brooklynBridge, centralPark])).not.toThrow();
+      expect(() => validateGeoFilterValue('within_polygon', [timesSquare, centralPark])).toThrow();
+    });
+  });
+  
+  describe('matchesGeo', () => {
+    it('should match GeoJSON points within a distance, a box or a polygon', () => {
+      const triangle = [[-74.01, 40.7], [-73.95, 40.7], [-73.97, 40.8]];
+      
+      expect(matchesGeo('near', point(centralPark), { point: timesSquare })).toBe(true);
+      expect(matchesGeo('near', point(centralPark), { point: timesSquare, maxDistance: 3000 })).toBe(false);
+      expect(matchesGeo('within_radius', point(centralPark), { center: timesSquare, radius: 3500 })).toBe(true);
+      expect(matchesGeo('within_box', point(timesSquare), [brooklynBridge, centralPark])).toBe(true);
+      expect(matchesGeo('within_box', point([-74.1, 40.75]), [brooklynBridge, centralPark])).toBe(false);
+      expect(matchesGeo('within_polygon', point(timesSquare), triangle)).toBe(true);
+      expect(matchesGeo('within_polygon', point([-73.99, 40.79]), triangle)).toBe(false);
+      expect(matchesGeo('within_polygon', point([-73.98, 40.7]), triangle)).toBe(true);
+      expect(matchesGeo('near', timesSquare, { point: timesSquare })).toBe(false);
+      expect(matchesGeo('near', { type: 'LineString', coordinates: [timesSquare] }, { point: timesSquare })).toBe(false);
+    });
+    
+    it('should give the distance of documents from the point of a near filter', () => {
+      const filter: QueryFilter = { field: 'location', operator: 'near', value: { point: timesSquare } };
+      const document = makeDocument('stores', 's1', { location: point(centralPark) });
+      
+      expect(distanceTo(document, filter)).toBe(distance(centralPark, timesSquare));
+      expect(distanceTo({ ...document, location: 'NYC' }, filter)).toBeUndefined();
+    });
+  });
+  
+  describe('coveringCells', () => {
+    it('should cover every point a filter can match with few cells', () => {
+      const filters: QueryFilter[] = [
+        { field: 'location', operator: 'near', value: { point: timesSquare, maxDistance: 4000 } },
+        { field: 'location', operator: 'within_box', value: [brooklynBridge, centralPark] },
+        { field: 'location', operator: 'within_polygon', value: [[-74.01, 40.7], [-73.95, 40.7], [-73.97, 40.8]] },
+        { field: 'location', operator: 'within_radius', value: { center: [179.99, 0], radius: 5000 } }
+      ];
+      
+      for (const filter of filters) {
+        const cells = coveringCells(filter);
+        const inside = [timesSquare, centralPark, brooklynBridge, [-179.99, 0] as GeoPoint]
+          .filter(candidate => matchesGeo(filter.operator, point(candidate), filter.value));
+        
+        expect(cells.length).toBeGreaterThan(0);
+        expect(cells.length).toBeLessThanOrEqual(16);
+        expect(cells.every(cell => cell.length > 0)).toBe(true);
+        expect(inside.length).toBeGreaterThan(0);
+        for (const candidate of inside) {
+          expect(cells.some(cell => geohash(candidate, 12).startsWith(cell))).toBe(true);
+        }
+      }
+    });
+    
+    it('should scan every cell for near filters without a maximum distance', () => {
+      expect(coveringCells({ field: 'location', operator: 'near', value: { point: timesSquare } })).toEqual(['']);
+    });
+  });
+  
+  describe('findGeoFilter', () => {
+    it('should prefer the single top-level near filter of a query', () => {
+      const near: QueryFilter = { field: 'location', operator: 'near', value: { point: timesSquare } };
+      const box: QueryFilter = { field: 'location', operator: 'within_box', value: [brooklynBridge, centralPark] };
+      
+      expect(findGeoFilter([box, near])).toBe(near);
+      expect(findGeoFilter([box])).toBe(box);
+      expect(findGeoFilter([{ not: box }])).toBeUndefined();
+      expect(() => findGeoFilter([near, near])).toThrow('at most one near filter');
+      expect(() => findGeoFilter([{ and: [box, { not: near }] }])).toThrow('cannot be nested');
+    });
+  });
+});
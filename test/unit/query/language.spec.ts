@@ -0,0 +1,102 @@
+/**
+ * Query Language Tests
+ *
+ * This file contains tests for the parsing of queries written in the SQL-like
+ * query language.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTextQuery } from '../../../src/query/language';
+import { expressionToFilters } from '../../../src/query/parser';
+import { AggregationOperation } from '../../../src/query/aggregator';
+import { ErrorCode } from '../../../src/types';
+import { ImpossibleDBError } from '../../../src/utils/errorHandler';
+
+function syntaxError(text: string): ImpossibleDBError {
+  try {
+    parseTextQuery(text);
+  } catch (error) {
+    return error as ImpossibleDBError;
+  }
+  throw new Error(`Expected a syntax error in: ${text}`);
+}
+
+describe('Query Language', () => {
+  it('should parse filters, projection, sorting and pagination', () => {
+    const { query, aggregations } = parseTextQuery(
+      "SELECT name, age FROM users WHERE age > 30 AND (city = 'NYC' OR vip = true) ORDER BY age DESC, name LIMIT 20 OFFSET 40"
+    );
+    
+    expect(query.collection).toBe('users');
+    expect(query.projection).toEqual(['name', 'age']);
+    expect(query.options).toEqual({
+      sort: [{ field: 'age', direction: 'desc' }, { field: 'name', direction: 'asc' }],
+      limit: 20,
+      offset: 40
+    });
+    expect(expressionToFilters(query.expression)).toEqual([
+      { field: 'age', operator: '>', value: 30 },
+      { or: [{ field: 'city', operator: '=', value: 'NYC' }, { field: 'vip', operator: '=', value: true }] }
+    ]);
+    expect(aggregations).toEqual([]);
+  });
+  
+  it('should parse every kind of condition', () => {
+    const { query } = parseTextQuery(`
+      select * from "order" where not status in ('cancelled', 'refunded')
+        and total <= -1.5e2 and tags contains 'gift' and notes is not null
+        and name like 'Al%' and code not like 'A_1%' and \`customer.id\` <> 'it''s'
+    `);
+    
+    expect(query.collection).toBe('order');
+    expect(query.projection).toBeUndefined();
+    
+    // Groups (here the negations) follow the plain conditions
+    expect(expressionToFilters(query.expression)).toEqual([
+      { field: 'total', operator: '<=', value: -150 },
+      { field: 'tags', operator: 'contains', value: 'gift' },
+      { field: 'notes', operator: '!=', value: null },
+      { field: 'name', operator: 'starts_with', value: 'Al' },
+      { field: 'customer.id', operator: '!=', value: "it's" },
+      { not: { field: 'status', operator: 'in', value: ['cancelled', 'refunded'] } },
+      { not: { field: 'code', operator: 'regex', value: { pattern: '^A.1.*$', flags: 's' } } }
+    ]);
+  });
+  
+  it('should parse aggregates and groups', () => {
+    const { query, aggregations } = parseTextQuery(
+      'SELECT city, COUNT(*), AVG(age), max(stats.score) FROM users WHERE age > 30 GROUP BY city;'
+    );
+    
+    expect(query.projection).toEqual(['city']);
+    expect(aggregations).toEqual([
+      { operation: AggregationOperation.COUNT },
+      { operation: AggregationOperation.AVG, field: 'age' },
+      { operation: AggregationOperation.MAX, field: 'stats.score' },
+      { operation: AggregationOperation.GROUP_BY, groupBy: ['city'] }
+    ]);
+    
+    expect(() => parseTextQuery('SELECT name, COUNT(*) FROM users GROUP BY city'))
+      .toThrow("Field 'name' must appear in GROUP BY");
+  });
+  
+  it('should report the position of syntax errors', () => {
+    const error = syntaxError('SELECT name\nFROM users\nWHERE age >> 30');
+    
+    expect(error.code).toBe(ErrorCode.INVALID_QUERY);
+    expect(error.message).toBe("Syntax error at line 3, column 12: expected a value but found '>'");
+    expect(error.details).toEqual({ position: { offset: 34, line: 3, column: 12 } });
+    
+    expect(syntaxError('SELECT * FROM users WHERE').message).toContain('expected a field name but found the end of the query');
+    expect(syntaxError("SELECT * FROM users WHERE name = 'Al").message).toContain('column 34: unterminated string');
+    expect(syntaxError('SELECT * FROM users LIMIT 2.5').message).toContain("expected a limit but found '2.5'");
+    expect(syntaxError('SELECT * FROM users WHERE a = 1 b = 2').message).toContain("expected the end of the query but found 'b'");
+    expect(syntaxError('SELECT * FROM users WHERE a # 1').message).toContain("column 29: unexpected character '#'");
+  });
+  
+  it('should validate the parsed query', () => {
+    expect(() => parseTextQuery('   ')).toThrow('Query text is required');
+    expect(() => parseTextQuery("SELECT * FROM users WHERE name LIKE '(a+)+%_'")).not.toThrow();
+    expect(() => parseTextQuery('SELECT * FROM users WHERE tags IN ()')).toThrow('Syntax error');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Lookup Tests
+ *
+ * This file contains tests for the validation of lookups and for the joining
+ * of foreign documents to query results.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { applyLookups, validateLookups } from '../../../src/query/lookup';
+import { CONFIG } from '../../../src/config';
+import { Document, QueryLookup } from '../../../src/types';
+import { makeDocument } from '../helpers';
+
+const users = [
+  makeDocument('users', 'u1', { name: 'Alice', team: 't1' }),
+  makeDocument('users', 'u2', { name: 'Bob', team: 't1' }),
+  makeDocument('users', 'u3', { name: 'Carol', team: 't2' })
+];
+
+// Fetches the users whose foreign field is one of the keys
+function fetchUsers(lookup: QueryLookup, keys: any[]): Promise<Document[]> {
+  return Promise.resolve(users.filter(user => keys.includes(user[lookup.foreignField])));
+}
+
+describe('Lookups', () => {
+  describe('validateLookups', () => {
+    it('should accept valid lookups', () => {
+      expect(() => validateLookups([
+        { from: 'users', localField: 'userId', foreignField: '_id', as: 'user' },
+        { from: 'teams', localField: 'user.team', foreignField: '_id', as: 'team' }
+      ])).not.toThrow();
+    });
+    
+    it('should reject invalid lookups', () => {
+      const lookup = { from: 'users', localField: 'userId', foreignField: '_id', as: 'user' };
+      
+      expect(() => validateLookups(lookup)).toThrow('Lookups must be an array');
+      expect(() => validateLookups([null])).toThrow('Lookup must be an object');
+      expect(() => validateLookups([{ ...lookup, from: '__stats' }])).toThrow('Invalid lookup collection');
+      expect(() => validateLookups([{ ...lookup, foreignField: 42 }])).toThrow('Lookup foreignField must be a non-empty string');
+      expect(() => validateLookups([{ ...lookup, as: '_user' }])).toThrow('Lookup as must be a field name');
+      expect(() => validateLookups([lookup, lookup])).toThrow("Two lookups cannot both be embedded as 'user'");
+      expect(() => validateLookups(Array.from({ length: CONFIG.MAX_LOOKUPS + 1 }, (_, i) => ({ ...lookup, as: `user${i}` }))))
+        .toThrow(`more than ${CONFIG.MAX_LOOKUPS} lookups`);
+    });
+  });
+  
+  describe('applyLookups', () => {
+    it('should embed the matching foreign documents under the lookup field', async () => {
+      const orders = [
+        makeDocument('orders', 'o1', { userId: 'u1' }),
+        makeDocument('orders', 'o2', { userId: 'u4' }),
+        makeDocument('orders', 'o3', {})
+      ];
+      
+      const joined = await applyLookups(orders, [{ from: 'users', localField: 'userId', foreignField: '_id', as: 'user' }], fetchUsers);
+      
+      expect(joined.map(order => order.user)).toEqual([[users[0]], [], []]);
+      expect(orders[0].user).toBeUndefined();
+    });
+    
+    it('should join on the elements of array fields and on non-unique foreign fields', async () => {
+      const teams = [makeDocument('teams', 't1', { members: ['u1', 'u3'] }), makeDocument('teams', 't2', { members: [] })];
+      
+      const joined = await applyLookups(teams, [
+        { from: 'users', localField: 'members', foreignField: '_id', as: 'memberDocs' },
+        { from: 'users', localField: '_id', foreignField: 'team', as: 'users' }
+      ], fetchUsers);
+      
+      expect(joined[0].memberDocs).toEqual([users[0], users[2]]);
+      expect(joined[0].users).toEqual([users[0], users[1]]);
+      expect(joined[1]).toMatchObject({ memberDocs: [], users: [users[2]] });
+    });
+    
+    it('should fetch the foreign documents of each lookup once, with distinct keys', async () => {
+      const orders = ['u1', 'u2', 'u1', 'u2'].map((userId, i) => makeDocument('orders', `o${i}`, { userId }));
+      const fetch = vi.fn(fetchUsers);
+      
+      await applyLookups(orders, [{ from: 'users', localField: 'userId', foreignField: '_id', as: 'user' }], fetch);
+      
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(fetch.mock.calls[0][1]).toEqual(['u1', 'u2']);
+    });
+    
+    it('should reject lookups joining on too many values', async () => {
+      const orders = Array.from({ length: CONFIG.MAX_LOOKUP_KEYS + 1 }, (_, i) => makeDocument('orders', `o${i}`, { userId: `u${i}` }));
+      const fetch = vi.fn(fetchUsers);
+      
+      await expect(applyLookups(orders, [{ from: 'users', localField: 'userId', foreignField: '_id', as: 'user' }], fetch))
+        .rejects.toThrow(`more than ${CONFIG.MAX_LOOKUP_KEYS}`);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+});
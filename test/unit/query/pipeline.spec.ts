@@ -0,0 +1,196 @@
+/**
+ * Aggregation Pipeline Tests
+ *
+ * This file contains tests for the validation and evaluation of aggregation
+ * pipelines, and for their execution split between shards and the worker.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateExpression,
+  mergeShardPipelines,
+  PipelineStage,
+  runPipeline,
+  runShardPipeline,
+  splitPipeline,
+  validatePipeline
+} from '../../../src/query/pipeline';
+import { CONFIG } from '../../../src/config';
+import { Document } from '../../../src/types';
+import { matchesFilters } from '../../../src/query/matcher';
+import { makeDocument } from '../helpers';
+
+const orders = [
+  makeDocument('orders', 'o1', { city: 'NYC', status: 'paid', items: [{ product: 'pen', price: 2 }, { product: 'ink', price: 8 }] }),
+  makeDocument('orders', 'o2', { city: 'LA', status: 'paid', items: [{ product: 'pen', price: 3 }] }),
+  makeDocument('orders', 'o3', { city: 'NYC', status: 'open', items: [{ product: 'pad', price: 5 }] }),
+  makeDocument('orders', 'o4', { city: 'SF', status: 'paid', items: [] }),
+  makeDocument('orders', 'o5', { city: 'NYC', status: 'paid', items: [{ product: 'pad', price: 4 }, { product: 'pen', price: 1 }] })
+];
+
+// Runs a pipeline split between two shards holding the given documents
+function runSplit(shards: Document[][], stages: PipelineStage[]): Record<string, any>[] {
+  const split = splitPipeline(stages);
+  
+  return mergeShardPipelines(split, shards.map(documents => runShardPipeline(
+    documents.filter(document => matchesFilters(document, split.filters)),
+    split
+  )));
+}
+
+describe('Aggregation Pipelines', () => {
+  describe('validatePipeline', () => {
+    it('should accept valid pipelines', () => {
+      expect(() => validatePipeline([
+        { match: [{ field: 'status', operator: '=', value: 'paid' }] },
+        { addFields: { total: { add: ['$price', { multiply: ['$price', 0.2] }] } } },
+        { unwind: 'items' },
+        { group: { by: { city: '$city' }, accumulators: { n: { count: true }, products: { addToSet: '$items.product' } } } },
+        { having: [{ field: 'n', operator: '>', value: 1 }] },
+        { sort: [{ field: 'n', direction: 'desc' }] },
+        { limit: 5 },
+        { project: { city: true, n: true, label: { concat: ['$city', ':', { literal: '$' }] } } },
+        { count: 'cities' }
+      ])).not.toThrow();
+    });
+    
+    it('should reject invalid pipelines', () => {
+      expect(() => validatePipeline([])).toThrow('Pipeline must be a non-empty array of stages');
+      expect(() => validatePipeline([{ skip: 1 }])).toThrow('Pipeline stage must be an object with one of');
+      expect(() => validatePipeline([{ limit: 1, sort: [] }])).toThrow('Pipeline stage must be an object with one of');
+      expect(() => validatePipeline([{ having: [] }])).toThrow('A having stage must follow a group or count stage');
+      expect(() => validatePipeline([{ match: [{ field: 'a', operator: 'like', value: 1 }] }])).toThrow();
+      expect(() => validatePipeline([{ addFields: { total: { pow: [2, 3] } } }])).toThrow('Expression operator must be one of');
+      expect(() => validatePipeline([{ addFields: { total: { subtract: [1] } } }])).toThrow('The subtract operator takes 2 arguments');
+      expect(() => validatePipeline([{ addFields: { total: '$' } }])).toThrow('Invalid field reference: $');
+      expect(() => validatePipeline([{ project: { name: false } }])).toThrow('must be true or an expression');
+      expect(() => validatePipeline([{ group: { by: {}, accumulators: { n: { count: 1 } } } }])).toThrow('{ count: true }');
+      expect(() => validatePipeline([{ group: { by: { n: '$n' }, accumulators: { n: { sum: '$n' } } } }])).toThrow('Invalid accumulator name: n');
+      expect(() => validatePipeline([{ group: { by: {}, accumulators: { n: { median: '$n' } } } }])).toThrow('Accumulator must be an object with one of');
+      expect(() => validatePipeline([{ unwind: '$items' }])).toThrow('Unwind stage must be a field path');
+      expect(() => validatePipeline(Array.from({ length: CONFIG.MAX_PIPELINE_STAGES + 1 }, () => ({ limit: 1 }))))
+        .toThrow(`more than ${CONFIG.MAX_PIPELINE_STAGES} stages`);
+    });
+  });
+  
+  describe('evaluateExpression', () => {
+    const document = { price: 10, tax: 2, name: 'Pen', tags: ['a', 'b'], nested: { flag: true } };
+    
+    it('should evaluate field references, constants and operators', () => {
+      expect(evaluateExpression('$nested.flag', document)).toBe(true);
+      expect(evaluateExpression('$missing', document)).toBeUndefined();
+      expect(evaluateExpression({ literal: '$price' }, document)).toBe('$price');
+      expect(evaluateExpression({ add: ['$price', '$tax', 1] }, document)).toBe(13);
+      expect(evaluateExpression({ divide: ['$price', 0] }, document)).toBeNull();
+      expect(evaluateExpression({ multiply: ['$price', '$name'] }, document)).toBeNull();
+      expect(evaluateExpression({ concat: [{ toUpper: '$name' }, '-', '$name'] }, document)).toBe('PEN-Pen');
+      expect(evaluateExpression({ size: '$tags' }, document)).toBe(2);
+      expect(evaluateExpression({ cond: [{ gt: ['$price', 5] }, 'high', 'low'] }, document)).toBe('high');
+      expect(evaluateExpression({ eq: ['$nested.flag', 1] }, document)).toBe(false);
+      expect(evaluateExpression({ and: [{ ne: ['$name', 'Ink'] }, { not: { lt: ['$price', 5] } }] }, document)).toBe(true);
+      expect(evaluateExpression({ ifNull: ['$missing', 'default'] }, document)).toBe('default');
+      expect(evaluateExpression(['$price', 1], document)).toEqual([10, 1]);
+    });
+  });
+  
+  describe('runPipeline', () => {
+    it('should unwind, group with accumulators, filter groups, sort and limit', () => {
+      const results = runPipeline(orders, [
+        { match: [{ field: 'status', operator: '=', value: 'paid' }] },
+        { unwind: 'items' },
+        { group: {
+          by: { product: '$items.product' },
+          accumulators: {
+            orders: { count: true },
+            revenue: { sum: '$items.price' },
+            average: { avg: '$items.price' },
+            cheapest: { min: '$items.price' },
+            cities: { addToSet: '$city' },
+            prices: { push: '$items.price' }
+          }
+        } },
+        { having: [{ field: 'orders', operator: '>', value: 1 }] },
+        { sort: [{ field: 'revenue', direction: 'desc' }] },
+        { limit: 1 }
+      ]);
+      
+      expect(results).toEqual([
+        { product: 'pen', orders: 3, revenue: 6, average: 2, cheapest: 1, cities: ['NYC', 'LA'], prices: [2, 3, 1] }
+      ]);
+    });
+    
+    it('should group by several values, reshape documents and count them', () => {
+      expect(runPipeline(orders, [
+        { group: { by: { city: '$city', status: '$status' }, accumulators: { orders: { count: true } } } },
+        { sort: [{ field: 'orders', direction: 'desc' }, { field: 'city', direction: 'asc' }] },
+        { addFields: { 'key.label': { concat: ['$city', '/', '$status'] } } },
+        { project: { label: '$key.label', orders: true } }
+      ])).toEqual([
+        { label: 'NYC/paid', orders: 2 },
+        { label: 'LA/paid', orders: 1 },
+        { label: 'NYC/open', orders: 1 },
+        { label: 'SF/paid', orders: 1 }
+      ]);
+      
+      expect(runPipeline(orders, [{ unwind: 'items' }, { count: 'items' }])).toEqual([{ items: 6 }]);
+      expect(runPipeline([], [{ count: 'items' }])).toEqual([{ items: 0 }]);
+      expect(runPipeline([], [{ group: { by: { city: '$city' }, accumulators: { n: { count: true } } } }])).toEqual([]);
+    });
+    
+    it('should not modify the documents', () => {
+      runPipeline(orders, [{ unwind: 'items' }, { addFields: { 'items.total': { multiply: ['$items.price', 2] } } }]);
+      
+      expect(orders[0].items[0]).toEqual({ product: 'pen', price: 2 });
+    });
+    
+    it('should reject pipelines passing too many documents between stages', () => {
+      const documents = Array.from({ length: CONFIG.MAX_PIPELINE_DOCUMENTS + 1 }, (_, i) => makeDocument('orders', `o${i}`));
+      
+      expect(() => runPipeline(documents, [{ project: { _id: true } }])).toThrow(`more than ${CONFIG.MAX_PIPELINE_DOCUMENTS} documents`);
+      expect(runPipeline(documents, [{ count: 'n' }])).toEqual([{ n: CONFIG.MAX_PIPELINE_DOCUMENTS + 1 }]);
+    });
+  });
+  
+  describe('splitPipeline', () => {
+    it('should split pipelines at their first stage that needs every shard', () => {
+      const match: PipelineStage = { match: [{ field: 'status', operator: '=', value: 'paid' }] };
+      const group: PipelineStage = { group: { by: { city: '$city' }, accumulators: { n: { count: true } } } };
+      
+      expect(splitPipeline([match, { unwind: 'items' }, group, { limit: 2 }])).toEqual({
+        filters: match.match,
+        shardStages: [{ unwind: 'items' }],
+        group: group.group,
+        workerStages: [{ limit: 2 }]
+      });
+      expect(splitPipeline([{ sort: [{ field: 'city', direction: 'asc' }] }, { limit: 2 }, match])).toEqual({
+        filters: [],
+        shardStages: [{ sort: [{ field: 'city', direction: 'asc' }] }, { limit: 2 }],
+        workerStages: [{ sort: [{ field: 'city', direction: 'asc' }] }, { limit: 2 }, match]
+      });
+      expect(splitPipeline([match, { count: 'n' }])).toMatchObject({ group: { by: {}, accumulators: { n: { count: true } } }, workerStages: [] });
+    });
+    
+    it('should return the results of the whole pipeline once the shard results are merged', () => {
+      const shards = [orders.slice(0, 2), orders.slice(2)];
+      const pipelines: PipelineStage[][] = [
+        [
+          { match: [{ field: 'status', operator: '=', value: 'paid' }] },
+          { unwind: 'items' },
+          { group: { by: { product: '$items.product' }, accumulators: {
+            revenue: { sum: '$items.price' },
+            average: { avg: '$items.price' },
+            highest: { max: '$items.price' },
+            cities: { addToSet: '$city' }
+          } } },
+          { sort: [{ field: 'product', direction: 'asc' }] }
+        ],
+        [{ unwind: 'items' }, { sort: [{ field: 'items.price', direction: 'desc' }] }, { limit: 3 }, { project: { price: '$items.price' } }],
+        [{ match: [{ field: 'city', operator: '=', value: 'NYC' }] }, { count: 'orders' }]
+      ];
+      
+      for (const stages of pipelines) {
+        expect(runSplit(shards, stages)).toEqual(runPipeline(orders, stages));
+      }
+    });
+  });
+});
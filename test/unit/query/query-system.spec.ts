@@ -9,11 +9,29 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { parseQuery, QueryExpression, LogicalOperator } from '../../../src/query/parser';
-import { createQueryPlan, optimizeQueryPlan } from '../../../src/query/planner';
+import { parseQuery, QueryExpression, LogicalOperator, expressionToFilters, stringifyExpression } from '../../../src/query/parser';
+import {
+  createQueryPlan,
+  estimateQueryCost,
+  isQueryPlanTooExpensive,
+  optimizeQueryPlan,
+  splitQueryPlan
+} from '../../../src/query/planner';
+import { CollectionStatistics } from '../../../src/query/statistics';
 import { executeQueryPlan } from '../../../src/query/executor';
-import { aggregate, AggregationOperation, AggregationSpec } from '../../../src/query/aggregator';
-import { Document, QueryFilter } from '../../../src/types';
+import { encodeCursor, decodeCursor, compareToCursor } from '../../../src/query/cursor';
+import {
+  aggregate,
+  AggregationOperation,
+  AggregationSpec,
+  computePartialAggregations,
+  finalizeAggregations,
+  mergePartialAggregations
+} from '../../../src/query/aggregator';
+import { compileRegex, matchesFilter, matchesFilters } from '../../../src/query/matcher';
+import { Document, QueryFilter, QueryFilterNode, ErrorCode } from '../../../src/types';
+import { ImpossibleDBError } from '../../../src/utils/errorHandler';
+import { CONFIG } from '../../../src/config';
 
 describe('Query Parser', () => {
   it('should parse a simple query', () => {
@@ -82,6 +100,94 @@ describe('Query Parser', () => {
     expect(result.collection).toBe('users');
     expect(result.expression.conditions.length).toBe(0);
   });
+  
+  it('should parse nested OR and NOT groups', () => {
+    const filters: QueryFilterNode[] = [
+      { field: 'active', operator: '=', value: true },
+      {
+        or: [
+          { field: 'role', operator: '=', value: 'admin' },
+          { not: { field: 'age', operator: '<', value: 18 } }
+        ]
+      }
+    ];
+    
+    const { expression } = parseQuery('users', filters);
+    
+    expect(expression.conditions).toHaveLength(1);
+    expect(expression.subExpressions?.[0].logicalOperator).toBe(LogicalOperator.OR);
+    expect(expression.subExpressions?.[0].subExpressions?.[0].logicalOperator).toBe(LogicalOperator.NOT);
+    expect(stringifyExpression(expression)).toBe('active = true AND (role = "admin" OR (NOT age < 18))');
+    expect(expressionToFilters(expression)).toEqual(filters);
+  });
+  
+  it('should reject malformed filter groups', () => {
+    const parse = (filter: any) => () => parseQuery('users', [filter]);
+    
+    expect(parse({ or: [] })).toThrow('non-empty array');
+    expect(parse({ and: [{ field: 'a', operator: '=', value: 1 }], not: { field: 'b', operator: '=', value: 1 } }))
+      .toThrow('exactly one of');
+    expect(parse({ not: { or: 'nope' } })).toThrow(ImpossibleDBError);
+    
+    let deep: any = { field: 'a', operator: '=', value: 1 };
+    for (let i = 0; i < 10; i++) {
+      deep = { not: deep };
+    }
+    expect(parse(deep)).toThrow('nested');
+  });
+  
+  it('should validate the values of extended operators', () => {
+    const parse = (filter: any) => () => parseQuery('users', [filter]);
+    
+    expect(parse({ field: 'tags', operator: 'in', value: ['a', 'b'] })).not.toThrow();
+    expect(parse({ field: 'tags', operator: 'in', value: 'a' })).toThrow(ImpossibleDBError);
+    expect(parse({ field: 'name', operator: 'starts_with', value: 1 })).toThrow(ImpossibleDBError);
+    expect(parse({ field: 'name', operator: 'exists', value: 'yes' })).toThrow(ImpossibleDBError);
+    expect(parse({ field: 'name', operator: 'type', value: 'date' })).toThrow(ImpossibleDBError);
+    expect(parse({ field: 'tags', operator: 'size', value: -1 })).toThrow(ImpossibleDBError);
+    expect(parse({ field: 'items', operator: 'elem_match', value: [{ field: 'sku', operator: 'like', value: 'A' }] }))
+      .toThrow(ImpossibleDBError);
+    expect(parse({ field: 'name', operator: 'like', value: 'A%' })).toThrow(ImpossibleDBError);
+    expect(parse({ field: 'bio', operator: 'search', value: 'the of' })).toThrow(ImpossibleDBError);
+  });
+  
+  it('should rank searches by score unless they are sorted otherwise', () => {
+    const search: QueryFilter = { field: 'bio', operator: 'search', value: 'wireless headphones' };
+    
+    expect(parseQuery('products', [search]).options.sort).toEqual([{ field: '_score', direction: 'desc' }]);
+    expect(parseQuery('products', [search], undefined, { sort: [{ field: 'price', direction: 'asc' }] }).options.sort)
+      .toEqual([{ field: 'price', direction: 'asc' }]);
+    expect(() => parseQuery('products', [search, search])).toThrow('at most one search filter');
+    expect(() => parseQuery('products', [{ or: [search] }])).toThrow('cannot be nested');
+  });
+  
+  it('should sort near queries by distance unless they are sorted otherwise', () => {
+    const near: QueryFilter = { field: 'location', operator: 'near', value: { point: [-73.98, 40.75], maxDistance: 1000 } };
+    const box: QueryFilter = { field: 'location', operator: 'within_box', value: [[-74, 40.7], [-73.9, 40.8]] };
+    
+    expect(parseQuery('stores', [near, box]).options.sort).toEqual([{ field: '_distance', direction: 'asc' }]);
+    expect(parseQuery('stores', [box]).options.sort).toBeUndefined();
+    expect(() => parseQuery('stores', [near, near])).toThrow('at most one near filter');
+    expect(() => parseQuery('stores', [near, { field: 'bio', operator: 'search', value: 'coffee' }]))
+      .toThrow('cannot have both a search filter and a near filter');
+    expect(() => parseQuery('stores', [{ field: 'location', operator: 'near', value: { point: [0, 91] } }]))
+      .toThrow(ImpossibleDBError);
+  });
+  
+  it('should rank nearest neighbors by similarity and return at most k of them', () => {
+    const nearest: QueryFilter = { field: 'embedding', operator: 'nearest_neighbors', value: { vector: [1, 0], k: 5 } };
+    
+    expect(parseQuery('articles', [nearest]).options).toEqual({ sort: [{ field: '_score', direction: 'desc' }], limit: 5 });
+    expect(parseQuery('articles', [nearest], undefined, { limit: 20, offset: 2 }).options.limit).toBe(5);
+    expect(parseQuery('articles', [nearest], undefined, { limit: 3 }).options.limit).toBe(3);
+    expect(() => parseQuery('articles', [nearest], undefined, { sort: [{ field: 'date', direction: 'desc' }] }))
+      .toThrow('sorted by similarity');
+    expect(() => parseQuery('articles', [nearest], undefined, { after: 'abc' })).toThrow('paginated with offsets');
+    expect(() => parseQuery('articles', [nearest, { field: 'title', operator: 'search', value: 'news' }]))
+      .toThrow('cannot be combined with a search filter or a near filter');
+    expect(() => parseQuery('articles', [nearest], undefined, undefined, [{ operation: AggregationOperation.COUNT }]))
+      .toThrow('cannot be combined with aggregations');
+  });
 });
 
 describe('Query Planner', () => {
@@ -131,6 +237,85 @@ describe('Query Planner', () => {
     // Currently, optimization doesn't change the plan, but we should still test it
     expect(optimizedPlan.targets.length).toBe(plan.targets.length);
   });
+  
+  it('should optimize the targets of a query plan with collection statistics', () => {
+    const statistics = (documentCount: number): CollectionStatistics => ({
+      collection: 'users',
+      documentCount,
+      fields: {
+        age: { count: documentCount, distinct: 100, type: 'number', min: 0, max: 100 },
+        name: { count: documentCount, distinct: documentCount, type: 'string' }
+      },
+      indexes: [{ name: 'age', fields: ['age'] }],
+      computedAt: 1
+    });
+    
+    const parsedQuery = parseQuery('users', [
+      { field: 'name', operator: 'regex', value: '^A' },
+      { field: 'age', operator: '<', value: 10 }
+    ]);
+    const plan = optimizeQueryPlan(
+      createQueryPlan(parsedQuery, ['shard1', 'shard2', 'shard3']),
+      { shard1: statistics(1000), shard2: statistics(50000) }
+    );
+    
+    // Every shard is still queried, the most expensive first
+    expect(plan.targets.map(target => target.shardId)).toEqual(['shard2', 'shard1', 'shard3']);
+    expect(plan.targets[0]).toMatchObject({ index: 'age', estimate: { scanned: 5000, matches: 1000 } });
+    expect(plan.targets[0].filters).toEqual([
+      { field: 'age', operator: '<', value: 10 },
+      { field: 'name', operator: 'regex', value: '^A' }
+    ]);
+    expect(plan.targets[2].index).toBeUndefined();
+    expect(plan.targets[2].estimate).toBeUndefined();
+    
+    expect(estimateQueryCost(plan)).toBeCloseTo((1.5 + 1.01 + 1) * 1.5);
+  });
+  
+  it('should split plans by target count and by cost', () => {
+    const plan = createQueryPlan(parseQuery('users'), ['s1', 's2', 's3', 's4', 's5', 's6', 's7']);
+    
+    expect(splitQueryPlan(plan).map(part => part.targets.length)).toEqual([5, 2]);
+    
+    plan.targets.forEach(target => {
+      target.estimate = { scanned: 300000, matches: 300000 };
+    });
+    
+    expect(isQueryPlanTooExpensive(plan)).toBe(true);
+    expect(splitQueryPlan(plan).map(part => part.targets.length)).toEqual([2, 2, 2, 1]);
+    expect(splitQueryPlan(plan).some(part => isQueryPlanTooExpensive(part))).toBe(false);
+  });
+  
+  it('should ask each shard for enough results to cover the requested page', () => {
+    const parsedQuery = parseQuery('users', [], undefined, {
+      limit: 10,
+      offset: 20,
+      sort: [{ field: 'age', direction: 'asc' }]
+    });
+    
+    const plan = createQueryPlan(parsedQuery, ['shard1', 'shard2']);
+    
+    for (const target of plan.targets) {
+      expect(target.options.limit).toBe(30);
+      expect(target.options.offset).toBeUndefined();
+      expect(target.options.sort).toEqual([{ field: 'age', direction: 'asc' }]);
+    }
+  });
+  
+  it('should reject pages past the results a shard can return', () => {
+    const page = (offset: number, limit?: number) => () => createQueryPlan(parseQuery('users', [], undefined, { limit, offset }), ['shard1']);
+    
+    expect(page(CONFIG.MAX_QUERY_RESULTS - 10, 10)().targets[0].options.limit).toBe(CONFIG.MAX_QUERY_RESULTS);
+    expect(page(CONFIG.MAX_QUERY_RESULTS - 10, 11)).toThrow('use cursors');
+    expect(page(CONFIG.MAX_QUERY_RESULTS + 1)).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_QUERY }));
+  });
+  
+  it('should apply the default limit to pages with an offset but no limit', () => {
+    const page = (offset: number) => () => createQueryPlan(parseQuery('users', [], undefined, { offset }), ['shard1']);
+    
+    expect(page(0)().targets[0].options.limit).toBe(CONFIG.MAX_QUERY_RESULTS);
+    expect(page(10)).toThrow(expect.objectContaining({ code: ErrorCode.INVALID_QUERY, details: { offset: 10, limit: CONFIG.MAX_QUERY_RESULTS } }));
+  });
 });
 
 describe('Query Executor', () => {
@@ -224,6 +409,436 @@ describe('Query Executor', () => {
     expect(result.results[0].name).toBe('Bob'); // Bob has higher age, should be first
     expect(result.results[1].name).toBe('Alice');
   });
+  
+  it('should paginate and project the merged results', async () => {
+    const parsedQuery = parseQuery('users', [], ['name'], {
+      limit: 2,
+      offset: 1,
+      sort: [{ field: 'age', direction: 'asc' }]
+    });
+    
+    const plan = createQueryPlan(parsedQuery, ['shard1', 'shard2']);
+    
+    const fetchShardData = vi.fn()
+      .mockImplementationOnce(() => Promise.resolve({
+        shardId: 'shard1',
+        results: [
+          { _id: '1', _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1, name: 'Alice', age: 25 },
+          { _id: '3', _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1, name: 'Charlie', age: 35 }
+        ],
+        total: 2
+      }))
+      .mockImplementationOnce(() => Promise.resolve({
+        shardId: 'shard2',
+        results: [
+          { _id: '2', _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1, name: 'Bob', age: 30 },
+          { _id: '4', _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1, name: 'Dave', age: 40 }
+        ],
+        total: 2
+      }));
+    
+    const result = await executeQueryPlan(plan, fetchShardData);
+    
+    expect(result.metadata).toEqual({ total: 4, limit: 2, offset: 1, nextCursor: expect.any(String) });
+    expect(result.results.map(doc => doc.name)).toEqual(['Bob', 'Charlie']);
+    expect(result.results[0].age).toBeUndefined();
+  });
+  
+  it('should merge search results by score and keep their scores when projecting them', async () => {
+    const parsedQuery = parseQuery('products', [{ field: 'name', operator: 'search', value: 'headphones' }], ['name']);
+    const plan = createQueryPlan(parsedQuery, ['shard1', 'shard2']);
+    const product = (id: string, score: number) =>
+      ({ _id: id, _collection: 'products', _version: 1, _createdAt: 1, _updatedAt: 1, name: id, price: 1, _score: score });
+    
+    const fetchShardData = vi.fn()
+      .mockImplementationOnce(() => Promise.resolve({ shardId: 'shard1', results: [product('a', 2.5), product('b', 0.5)], total: 2 }))
+      .mockImplementationOnce(() => Promise.resolve({ shardId: 'shard2', results: [product('c', 1.5)], total: 1 }));
+    
+    const result = await executeQueryPlan(plan, fetchShardData);
+    
+    expect(result.results.map(doc => [doc.name, doc._score])).toEqual([['a', 2.5], ['c', 1.5], ['b', 0.5]]);
+    expect(result.results[0].price).toBeUndefined();
+  });
+  
+  it('should merge near results by distance and keep their distances when projecting them', async () => {
+    const parsedQuery = parseQuery('stores', [{ field: 'location', operator: 'near', value: { point: [0, 0] } }], ['name'], { limit: 2 });
+    const plan = createQueryPlan(parsedQuery, ['shard1', 'shard2']);
+    const store = (id: string, distance: number) =>
+      ({ _id: id, _collection: 'stores', _version: 1, _createdAt: 1, _updatedAt: 1, name: id, location: {}, _distance: distance });
+    
+    const fetchShardData = vi.fn()
+      .mockImplementationOnce(() => Promise.resolve({ shardId: 'shard1', results: [store('a', 10), store('b', 300)], total: 2 }))
+      .mockImplementationOnce(() => Promise.resolve({ shardId: 'shard2', results: [store('c', 25)], total: 1 }));
+    
+    const result = await executeQueryPlan(plan, fetchShardData);
+    
+    expect(result.results.map(doc => [doc.name, doc._distance])).toEqual([['a', 10], ['c', 25]]);
+    expect(result.results[0].location).toBeUndefined();
+  });
+  
+  it('should keep the k most similar nearest neighbors of every shard', async () => {
+    const nearest: QueryFilter = { field: 'embedding', operator: 'nearest_neighbors', value: { vector: [1, 0], k: 3 } };
+    const plan = createQueryPlan(parseQuery('articles', [nearest], undefined, { limit: 2, offset: 1 }), ['shard1', 'shard2']);
+    const article = (id: string, score: number) =>
+      ({ _id: id, _collection: 'articles', _version: 1, _createdAt: 1, _updatedAt: 1, _score: score });
+    
+    expect(plan.nearestNeighbors).toBe(3);
+    expect(plan.targets[0].options).toMatchObject({ limit: 3, offset: undefined });
+    
+    const fetchShardData = vi.fn()
+      .mockImplementationOnce(() => Promise.resolve({ shardId: 'shard1', results: [article('a', 0.9), article('b', 0.4), article('c', 0.1)], total: 3 }))
+      .mockImplementationOnce(() => Promise.resolve({ shardId: 'shard2', results: [article('d', 0.8), article('e', 0.7), article('f', 0.2)], total: 3 }));
+    
+    const result = await executeQueryPlan(plan, fetchShardData);
+    
+    expect(result.results.map(doc => doc._id)).toEqual(['d', 'e']);
+    expect(result.metadata).toEqual({ total: 3, limit: 2, offset: 1 });
+  });
+  
+  it('should join the documents of lookups to the merged page and then project it', async () => {
+    const lookups = [{ from: 'users', localField: 'userId', foreignField: '_id', as: 'user' }];
+    const plan = createQueryPlan(parseQuery('orders', [], ['total'], { limit: 10 }, undefined, lookups), ['shard1']);
+    
+    const fetchShardData = vi.fn().mockResolvedValue({
+      shardId: 'shard1',
+      results: [
+        { _id: 'o1', _collection: 'orders', _version: 1, _createdAt: 1, _updatedAt: 1, userId: 'u1', total: 10 },
+        { _id: 'o2', _collection: 'orders', _version: 1, _createdAt: 1, _updatedAt: 1, userId: 'u2', total: 20 }
+      ],
+      total: 2
+    });
+    const alice = { _id: 'u1', _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1, name: 'Alice' };
+    const fetchLookup = vi.fn().mockResolvedValue([alice]);
+    
+    const result = await executeQueryPlan(plan, fetchShardData, { fetchLookup });
+    
+    expect(fetchLookup).toHaveBeenCalledWith(lookups[0], ['u1', 'u2']);
+    expect(result.results).toEqual([
+      { _id: 'o1', _collection: 'orders', _version: 1, _createdAt: 1, _updatedAt: 1, total: 10, user: [alice] },
+      { _id: 'o2', _collection: 'orders', _version: 1, _createdAt: 1, _updatedAt: 1, total: 20, user: [] }
+    ]);
+    
+    await expect(executeQueryPlan(plan, fetchShardData)).rejects.toThrow('Lookups are not supported by this executor');
+    expect(() => parseQuery('orders', [], undefined, {}, [{ operation: AggregationOperation.COUNT }], lookups))
+      .toThrow('Lookups cannot be combined with aggregations');
+  });
+  
+  it('should apply the offset when a single shard is queried', async () => {
+    const parsedQuery = parseQuery('users', [], undefined, { limit: 1, offset: 1 });
+    const plan = createQueryPlan(parsedQuery, ['shard1']);
+    
+    const fetchShardData = vi.fn().mockResolvedValue({
+      shardId: 'shard1',
+      results: [
+        { _id: '1', _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1, name: 'Alice' },
+        { _id: '2', _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1, name: 'Bob' }
+      ],
+      total: 2
+    });
+    
+    const result = await executeQueryPlan(plan, fetchShardData);
+    
+    expect(result.results.map(doc => doc.name)).toEqual(['Bob']);
+  });
+  
+  it('should fail the query when a shard fails and continueOnError is disabled', async () => {
+    const parsedQuery = parseQuery('users');
+    const plan = createQueryPlan(parsedQuery, ['shard1', 'shard2']);
+    
+    const fetchShardData = vi.fn()
+      .mockResolvedValueOnce({ shardId: 'shard1', results: [], total: 0 })
+      .mockRejectedValue(new ImpossibleDBError(ErrorCode.INVALID_QUERY, 'Bad filter'));
+    
+    await expect(executeQueryPlan(plan, fetchShardData, { continueOnError: false }))
+      .rejects.toMatchObject({ code: ErrorCode.INVALID_QUERY });
+    
+    // Client errors are not retried
+    expect(fetchShardData).toHaveBeenCalledTimes(2);
+  });
+  
+  it('should return a cursor to the last document of a full page', async () => {
+    const sort = [{ field: 'age', direction: 'desc' as const }];
+    const plan = createQueryPlan(parseQuery('users', [], ['name'], { limit: 2, sort }), ['shard1', 'shard2']);
+    
+    const fetchShardData = vi.fn().mockImplementation(target => Promise.resolve({
+      shardId: target.shardId,
+      results: target.shardId === 'shard1'
+        ? [{ _id: '1', _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1, name: 'Alice', age: 40 }]
+        : [
+          { _id: '2', _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1, name: 'Bob', age: 30 },
+          { _id: '3', _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1, name: 'Carol', age: 20 }
+        ],
+      total: target.shardId === 'shard1' ? 1 : 5
+    }));
+    
+    const result = await executeQueryPlan(plan, fetchShardData);
+    
+    expect(result.results.map(doc => doc.name)).toEqual(['Alice', 'Bob']);
+    expect(decodeCursor(result.metadata.nextCursor!, sort)).toEqual({ values: [30], id: '2' });
+  });
+  
+  it('should not return a cursor once every shard is exhausted', async () => {
+    const plan = createQueryPlan(parseQuery('users', [], undefined, { limit: 2 }), ['shard1', 'shard2']);
+    
+    const fetchShardData = vi.fn().mockImplementation(target => Promise.resolve({
+      shardId: target.shardId,
+      results: [{ _id: target.shardId, _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1 }],
+      total: 1
+    }));
+    
+    const result = await executeQueryPlan(plan, fetchShardData);
+    
+    expect(result.results).toHaveLength(2);
+    expect(result.metadata.nextCursor).toBeUndefined();
+  });
+  
+  it('should page unsorted queries over several shards without skipping documents', async () => {
+    const shards: Record<string, string[]> = { shardA: ['a1', 'a5', 'a6'], shardB: ['a2', 'a3'] };
+    
+    // Shards return the documents after the cursor in ID order
+    const fetchShardData = vi.fn().mockImplementation(target => {
+      const position = target.options.after ? decodeCursor(target.options.after) : undefined;
+      const results = shards[target.shardId]
+        .map(id => ({ _id: id, _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1 }))
+        .filter(doc => !position || compareToCursor(doc, position) > 0)
+        .slice(0, target.options.limit);
+      return Promise.resolve({ shardId: target.shardId, results, total: results.length });
+    });
+    
+    const ids: string[] = [];
+    let after: string | undefined;
+    do {
+      const plan = createQueryPlan(parseQuery('users', [], undefined, { limit: 2, after }), ['shardA', 'shardB']);
+      const result = await executeQueryPlan(plan, fetchShardData);
+      ids.push(...result.results.map(doc => doc._id));
+      after = result.metadata.nextCursor;
+    } while (after);
+    
+    expect(ids).toEqual(['a1', 'a2', 'a3', 'a5', 'a6']);
+  });
+  
+  it('should explain queries with the plan of every shard', async () => {
+    const plan = createQueryPlan(parseQuery('users', [{ field: 'age', operator: '>', value: 21 }], undefined, { explain: true }), ['shard1', 'shard2']);
+    
+    expect(plan.targets[0].options.explain).toBe(true);
+    
+    const fetchShardData = vi.fn().mockImplementation(target => Promise.resolve({
+      shardId: target.shardId,
+      results: [],
+      total: 0,
+      shardPlan: { pushedDown: true, index: 'age', sqlPlan: ['SEARCH documents USING INDEX idx_5_users_age (collection=? AND <expr>>?)'] }
+    }));
+    
+    const result = await executeQueryPlan(plan, fetchShardData);
+    
+    expect(result.results).toEqual([]);
+    expect(result.explain).toEqual({
+      plan,
+      cost: estimateQueryCost(plan),
+      shards: ['shard1', 'shard2'],
+      shardPlans: [
+        { shardId: 'shard1', pushedDown: true, index: 'age', sqlPlan: expect.any(Array) },
+        { shardId: 'shard2', pushedDown: true, index: 'age', sqlPlan: expect.any(Array) }
+      ]
+    });
+    expect(result.profile).toBeUndefined();
+  });
+  
+  it('should profile the shards and the merge of executed queries', async () => {
+    const plan = createQueryPlan(parseQuery('users', [], undefined, { profile: true }), ['shard1', 'shard2']);
+    
+    const fetchShardData = vi.fn()
+      .mockRejectedValueOnce(new Error('Shard unavailable'))
+      .mockImplementation(target => Promise.resolve({
+        shardId: target.shardId,
+        results: [{ _id: target.shardId, _collection: 'users', _version: 1, _createdAt: 1, _updatedAt: 1 }],
+        total: 1,
+        work: { pushedDown: false, scanned: 3, returned: 1, durationMs: 2 }
+      }));
+    
+    const result = await executeQueryPlan(plan, fetchShardData);
+    
+    expect(result.results).toHaveLength(2);
+    expect(result.profile!.cost).toBe(estimateQueryCost(plan));
+    expect(result.profile!.merge.documents).toBe(2);
+    expect(result.profile!.shards).toEqual([
+      { shardId: 'shard1', pushedDown: false, scanned: 3, returned: 1, durationMs: 2, totalMs: expect.any(Number), retries: 1 },
+      { shardId: 'shard2', pushedDown: false, scanned: 3, returned: 1, durationMs: 2, totalMs: expect.any(Number), retries: 0 }
+    ]);
+  });
+  
+  it('should execute expensive plans in batches and reject plans too expensive for one shard', async () => {
+    const plan = createQueryPlan(parseQuery('users'), ['s1', 's2', 's3']);
+    plan.targets.forEach(target => {
+      target.estimate = { scanned: 400000, matches: 1 };
+    });
+    
+    let running = 0;
+    let maxRunning = 0;
+    const fetchShardData = vi.fn().mockImplementation(async target => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await Promise.resolve();
+      running--;
+      return { shardId: target.shardId, results: [], total: 1 };
+    });
+    
+    const result = await executeQueryPlan(plan, fetchShardData);
+    
+    expect(result.metadata.total).toBe(3);
+    expect(maxRunning).toBe(1);
+    
+    plan.targets[0].estimate = { scanned: 10000000, matches: 1 };
+    
+    await expect(executeQueryPlan(plan, fetchShardData)).rejects.toMatchObject({ code: ErrorCode.QUERY_TOO_EXPENSIVE });
+  });
+  
+  it('should reject queries that are both explained and profiled', () => {
+    expect(() => parseQuery('users', [], undefined, { explain: true, profile: true })).toThrow('both explained and profiled');
+    expect(() => parseQuery('users', [], undefined, { explain: 'yes' as any })).toThrow('The explain option must be a boolean');
+  });
+});
+
+describe('Query Cursors', () => {
+  const sort = [{ field: 'age', direction: 'asc' as const }];
+  
+  it('should encode the sort values and ID of a document', () => {
+    const cursor = encodeCursor({ _id: 'u1', age: 30, name: 'Zoë' }, sort);
+    
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, sort)).toEqual({ values: [30], id: 'u1' });
+    expect(decodeCursor(encodeCursor({ _id: 'Zoë', active: true }, [{ field: 'active', direction: 'asc' }]), [{ field: 'active', direction: 'asc' }]))
+      .toEqual({ values: [1], id: 'Zoë' });
+  });
+  
+  it('should reject malformed cursors and cursors of another sort order', () => {
+    expect(() => decodeCursor('not a cursor', sort)).toThrow('Invalid cursor');
+    expect(() => decodeCursor(encodeCursor({ _id: 'u1', age: 30 }, sort), [{ field: 'age', direction: 'desc' }]))
+      .toThrow('different sort order');
+    expect(() => parseQuery('users', [], undefined, { after: encodeCursor({ _id: 'u1' }), sort }))
+      .toThrow(ImpossibleDBError);
+  });
+  
+  it('should only keep documents after the cursor', () => {
+    const position = decodeCursor(encodeCursor({ _id: 'b', age: 30 }, sort), sort);
+    const documents = [
+      { _id: 'a', age: 30 },
+      { _id: 'c', age: 30 },
+      { _id: 'z' },
+      { _id: 'd', age: 31 }
+    ];
+    
+    expect(documents.filter(doc => compareToCursor(doc, position, sort) > 0).map(doc => doc._id)).toEqual(['c', 'd']);
+  });
+});
+
+describe('Filter Matching', () => {
+  const doc = {
+    name: 'Alice',
+    age: 30,
+    nickname: null,
+    tags: ['admin', 'staff', 1],
+    items: [{ sku: 'A1', quantity: 3 }, { sku: 'B2', quantity: 1 }, 'A1']
+  };
+  const matches = (field: string, operator: any, value: any) => matchesFilter(doc, { field, operator, value });
+  
+  it('should match values in and not in a list', () => {
+    expect(matches('age', 'in', [20, 30])).toBe(true);
+    expect(matches('age', 'in', ['30'])).toBe(false);
+    expect(matches('age', 'not_in', ['30'])).toBe(true);
+    expect(matches('missing', 'not_in', [30])).toBe(true);
+  });
+  
+  it('should match substrings, prefixes, suffixes and array elements', () => {
+    expect(matches('name', 'contains', 'lic')).toBe(true);
+    expect(matches('tags', 'contains', 'staff')).toBe(true);
+    expect(matches('tags', 'contains', '1')).toBe(false);
+    expect(matches('tags', 'contains', 'sta')).toBe(false);
+    expect(matches('name', 'starts_with', 'Al')).toBe(true);
+    expect(matches('name', 'ends_with', 'ce')).toBe(true);
+    expect(matches('age', 'starts_with', '3')).toBe(false);
+  });
+  
+  it('should match field presence and types', () => {
+    expect(matches('nickname', 'exists', true)).toBe(true);
+    expect(matches('email', 'exists', false)).toBe(true);
+    expect(matches('nickname', 'type', 'null')).toBe(true);
+    expect(matches('tags', 'type', 'array')).toBe(true);
+    expect(matches('items.0', 'type', 'object')).toBe(true);
+    expect(matches('email', 'type', 'null')).toBe(false);
+  });
+  
+  it('should match array sizes, elements and element fields', () => {
+    expect(matches('tags', 'size', 3)).toBe(true);
+    expect(matches('tags', 'all', ['staff', 'admin'])).toBe(true);
+    expect(matches('tags', 'all', ['staff', 'guest'])).toBe(false);
+    expect(matches('items', 'elem_match', [
+      { field: 'sku', operator: '=', value: 'A1' },
+      { field: 'quantity', operator: '>', value: 2 }
+    ])).toBe(true);
+    expect(matches('items', 'elem_match', [
+      { field: 'sku', operator: '=', value: 'B2' },
+      { field: 'quantity', operator: '>', value: 2 }
+    ])).toBe(false);
+  });
+  
+  it('should match groups of filters', () => {
+    const adult = { field: 'age', operator: '>=', value: 18 } as const;
+    
+    expect(matchesFilters(doc, [{ or: [{ field: 'name', operator: '=', value: 'Bob' }, adult] }])).toBe(true);
+    expect(matchesFilters(doc, [{ not: adult }])).toBe(false);
+    expect(matchesFilters(doc, [{ not: { field: 'email', operator: '=', value: 'a@b.c' } }])).toBe(true);
+    expect(matchesFilters(doc, [{ not: { and: [adult, { field: 'tags', operator: 'contains', value: 'guest' }] } }])).toBe(true);
+    expect(matchesFilters(doc, [{ field: 'items', operator: 'elem_match', value: [{ or: [{ field: 'quantity', operator: '>', value: 5 }, { field: 'sku', operator: '=', value: 'B2' }] }] }]))
+      .toBe(true);
+  });
+  
+  it('should match searches on the stemmed words of text fields', () => {
+    const article = { title: 'Connecting Wireless Headphones', tags: ['audio', 'Bluetooth'] };
+    const search = (field: string, value: string) => matchesFilter(article, { field, operator: 'search', value });
+    
+    expect(search('title', 'headphone connection')).toBe(true);
+    expect(search('title', 'speakers or wireless')).toBe(true);
+    expect(search('title', 'speakers')).toBe(false);
+    expect(search('tags', 'bluetooth')).toBe(true);
+    expect(matchesFilter(doc, { field: 'age', operator: 'search', value: '30' })).toBe(false);
+  });
+  
+  it('should match geospatial filters on GeoJSON points', () => {
+    const store = { location: { type: 'Point', coordinates: [-73.9855, 40.758] } };
+    const geo = (operator: any, value: any) => matchesFilter(store, { field: 'location', operator, value });
+    
+    expect(geo('near', { point: [-73.9654, 40.7829], maxDistance: 3500 })).toBe(true);
+    expect(geo('within_radius', { center: [-73.9654, 40.7829], radius: 3000 })).toBe(false);
+    expect(geo('within_box', [[-74, 40.7], [-73.9, 40.8]])).toBe(true);
+    expect(geo('within_polygon', [[-74, 40.7], [-73.9, 40.7], [-73.9, 40.75]])).toBe(false);
+    expect(matches('name', 'near', { point: [0, 0] })).toBe(false);
+  });
+  
+  it('should match vectors of the dimension of nearest_neighbors filters', () => {
+    const article = { embedding: [0.1, 0.2], title: 'News' };
+    const nearest = (field: string, vector: number[]) =>
+      matchesFilter(article, { field, operator: 'nearest_neighbors', value: { vector, k: 1 } });
+    
+    expect(nearest('embedding', [1, 0])).toBe(true);
+    expect(nearest('embedding', [1, 0, 0])).toBe(false);
+    expect(nearest('title', [1, 0])).toBe(false);
+  });
+  
+  it('should match regular expressions on strings', () => {
+    expect(matches('name', 'regex', '^al')).toBe(false);
+    expect(matches('name', 'regex', { pattern: '^al', flags: 'i' })).toBe(true);
+    expect(matches('age', 'regex', '3')).toBe(false);
+  });
+  
+  it('should reject unsafe regular expressions', () => {
+    expect(() => compileRegex('(a+)+$')).toThrow('cannot repeat groups');
+    expect(() => compileRegex('(\\w*)*')).toThrow('cannot repeat groups');
+    expect(() => compileRegex('(a)\\1')).toThrow('back-references');
+    expect(() => compileRegex('a'.repeat(1000))).toThrow('cannot be longer');
+    expect(() => compileRegex({ pattern: 'a', flags: 'g' })).toThrow('flags');
+    expect(() => compileRegex('(')).toThrow('Invalid regex pattern');
+    expect(compileRegex('^(ab)+[a-z]{2,}$').test('ababcd')).toBe(true);
+  });
 });
 
 describe('Query Aggregator', () => {
@@ -356,4 +971,58 @@ describe('Query Aggregator', () => {
     expect(results[1].operation).toBe(AggregationOperation.AVG);
     expect(results[2].operation).toBe(AggregationOperation.GROUP_BY);
   });
+  
+  it('should merge partial aggregations into the results of the whole', () => {
+    const specs: AggregationSpec[] = [
+      { operation: AggregationOperation.COUNT },
+      { operation: AggregationOperation.SUM, field: 'age' },
+      { operation: AggregationOperation.AVG, field: 'age' },
+      { operation: AggregationOperation.MIN, field: 'age' },
+      { operation: AggregationOperation.MAX, field: 'age' },
+      { operation: AggregationOperation.GROUP_BY, groupBy: ['department'] }
+    ];
+    
+    const first = computePartialAggregations(testData.slice(0, 2), specs);
+    const second = computePartialAggregations(testData.slice(2), specs);
+    const empty = computePartialAggregations([], specs);
+    
+    expect(first.total + second.total).toBe(5);
+    expect(JSON.parse(JSON.stringify(second.partials[2]))).toEqual({ operation: 'avg', field: 'age', sum: 120, count: 3 });
+    
+    const results = finalizeAggregations(mergePartialAggregations(specs, [first.partials, empty.partials, second.partials]));
+    const expected = aggregate(testData, specs);
+    
+    expect(results.slice(0, 5)).toEqual(expected.slice(0, 5));
+    expect(results[5].value).toBe(2);
+    expect(results[5].groups).toEqual({
+      Engineering: { count: 3, department: 'Engineering' },
+      Marketing: { count: 2, department: 'Marketing' }
+    });
+  });
+  
+  it('should execute aggregation plans without returning documents', async () => {
+    const specs = [{ operation: AggregationOperation.AVG, field: 'age' }];
+    const plan = createQueryPlan(parseQuery('users', [], undefined, { limit: 10, sort: [{ field: 'age', direction: 'asc' }] }, specs), ['s1', 's2']);
+    
+    expect(plan.targets.map(target => target.options)).toEqual([{}, {}]);
+    expect(plan.targets[0].aggregations).toEqual(specs);
+    
+    const result = await executeQueryPlan(plan, async target => ({
+      shardId: target.shardId,
+      results: [],
+      total: 2,
+      aggregations: computePartialAggregations(target.shardId === 's1' ? testData.slice(0, 2) : testData.slice(3), specs).partials
+    }));
+    
+    expect(result.results).toEqual([]);
+    expect(result.aggregations).toEqual([{ operation: AggregationOperation.AVG, field: 'age', value: 35 }]);
+    expect(result.metadata.total).toBe(4);
+  });
+  
+  it('should reject invalid aggregations', () => {
+    expect(() => parseQuery('users', [], undefined, {}, [{ operation: 'median' as any, field: 'age' }])).toThrow('must be one of');
+    expect(() => parseQuery('users', [], undefined, {}, [{ operation: AggregationOperation.SUM }])).toThrow('Field is required');
+    expect(() => parseQuery('users', [], undefined, {}, [{ operation: AggregationOperation.GROUP_BY, groupBy: [] }]))
+      .toThrow('groupBy fields are required');
+  });
 });
@@ -0,0 +1,114 @@
+/**
+ * Collection Statistics Tests
+ *
+ * This file contains tests for the computation of collection statistics and
+ * for the estimates the query planner derives from them.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  chooseIndex,
+  CollectionStatistics,
+  computeCollectionStatistics,
+  estimateSelectivity,
+  orderFilters
+} from '../../../src/query/statistics';
+import { IndexDefinition } from '../../../src/types';
+import { makeDocument } from '../helpers';
+
+function index(name: string, fields: string[], status: IndexDefinition['status'] = 'ready'): IndexDefinition {
+  return { name, collection: 'users', fields, status, createdAt: 1 };
+}
+
+// 100 users: ages 0 to 99, 4 cities, every other user active, one in ten with a nickname
+const users = Array.from({ length: 100 }, (_, i) => makeDocument('users', `u${i}`, {
+  age: i,
+  city: ['NYC', 'LA', 'SF', 'Boston'][i % 4],
+  active: i % 2 === 0,
+  address: { zip: String(10000 + i) },
+  ...(i % 10 === 0 && { nickname: `n${i}` })
+}));
+
+describe('Collection Statistics', () => {
+  const statistics = computeCollectionStatistics('users', users, [index('age', ['age']), index('city', ['city'], 'building')], 42);
+  
+  describe('computeCollectionStatistics', () => {
+    it('should count documents, values and distinct values of every field', () => {
+      expect(statistics.documentCount).toBe(100);
+      expect(statistics.computedAt).toBe(42);
+      expect(statistics.indexes).toEqual([{ name: 'age', fields: ['age'] }]);
+      
+      expect(statistics.fields.city).toEqual({ count: 100, distinct: 4, type: 'string', min: 'Boston', max: 'SF' });
+      expect(statistics.fields.nickname).toMatchObject({ count: 10, distinct: 10 });
+      expect(statistics.fields.active).toEqual({ count: 100, distinct: 2, type: 'boolean' });
+      expect(statistics.fields['address.zip']).toMatchObject({ count: 100, distinct: 100, min: '10000', max: '10099' });
+      expect(statistics.fields._id.distinct).toBe(100);
+    });
+    
+    it('should build histograms of the fields leading a ready index', () => {
+      const { histogram } = statistics.fields.age;
+      
+      expect(statistics.fields.age).toMatchObject({ min: 0, max: 99, type: 'number' });
+      expect(histogram).toHaveLength(16);
+      expect(histogram!.reduce((total, bucket) => total + bucket.count, 0)).toBe(100);
+      expect(histogram![histogram!.length - 1].upper).toBe(99);
+      expect(statistics.fields.city.histogram).toBeUndefined();
+    });
+  });
+  
+  describe('estimateSelectivity', () => {
+    it('should estimate the fraction of the documents matching filters', () => {
+      expect(estimateSelectivity([{ field: 'city', operator: '=', value: 'LA' }], statistics)).toBeCloseTo(0.25);
+      expect(estimateSelectivity([{ field: 'city', operator: 'in', value: ['LA', 'SF'] }], statistics)).toBeCloseTo(0.5);
+      expect(estimateSelectivity([{ field: 'nickname', operator: 'exists', value: true }], statistics)).toBeCloseTo(0.1);
+      expect(estimateSelectivity([{ field: 'age', operator: '<', value: 25 }], statistics)).toBeCloseTo(0.25, 1);
+      expect(estimateSelectivity([{ field: 'age', operator: '>=', value: 100 }], statistics)).toBe(0);
+      
+      expect(estimateSelectivity([
+        { field: 'city', operator: '=', value: 'LA' },
+        { or: [{ field: 'active', operator: '=', value: true }, { not: { field: 'age', operator: '<', value: 200 } }] }
+      ], statistics)).toBeCloseTo(0.125);
+    });
+  });
+  
+  describe('orderFilters', () => {
+    it('should evaluate the cheapest and most selective filters first', () => {
+      const ordered = orderFilters([
+        { field: 'active', operator: '=', value: true },
+        { field: 'nickname', operator: 'regex', value: '^n' },
+        { field: 'city', operator: '=', value: 'LA' },
+        { or: [{ field: 'age', operator: '>', value: 98 }, { field: 'age', operator: '<', value: 90 }] }
+      ], statistics);
+      
+      expect(ordered).toEqual([
+        { field: 'city', operator: '=', value: 'LA' },
+        { field: 'active', operator: '=', value: true },
+        { field: 'nickname', operator: 'regex', value: '^n' },
+        { or: [{ field: 'age', operator: '<', value: 90 }, { field: 'age', operator: '>', value: 98 }] }
+      ]);
+    });
+  });
+  
+  describe('chooseIndex', () => {
+    const indexed: CollectionStatistics = computeCollectionStatistics(
+      'users',
+      users,
+      [index('age', ['age']), index('city_age', ['city', 'age'])],
+      42
+    );
+    
+    it('should choose the index selecting the fewest documents', () => {
+      expect(chooseIndex([{ field: 'age', operator: '<', value: 10 }], indexed)).toEqual({ name: 'age', selectivity: expect.any(Number) });
+      expect(chooseIndex([
+        { field: 'age', operator: '<', value: 20 },
+        { field: 'city', operator: '=', value: 'LA' }
+      ], indexed)!.name).toBe('city_age');
+    });
+    
+    it('should not choose an index that selects too many documents', () => {
+      expect(chooseIndex([{ field: 'age', operator: '>', value: 10 }], indexed)).toBeUndefined();
+      expect(chooseIndex([{ field: 'active', operator: '=', value: true }], indexed)).toBeUndefined();
+      expect(chooseIndex([{ or: [{ field: 'age', operator: '=', value: 1 }] }], indexed)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Full-Text Search Tests
+ *
+ * This file contains tests for the analysis of text into terms and for the
+ * BM25 scoring of search results across shards.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeDocuments,
+  analyzeText,
+  bm25Score,
+  findSearchFilter,
+  mergeTextStatistics,
+  searchTerms,
+  stem,
+  tokenize
+} from '../../../src/query/text';
+import { makeDocument } from '../helpers';
+
+const products = [
+  makeDocument('products', 'p1', { description: 'Wireless headphones with noise cancelling' }),
+  makeDocument('products', 'p2', { description: 'Wired headphones' }),
+  makeDocument('products', 'p3', { description: 'Wireless mouse, wireless keyboard and wireless charger for a wireless desk setup with many accessories' }),
+  makeDocument('products', 'p4', { description: 'Bluetooth speaker' }),
+  makeDocument('products', 'p5', { description: 42 })
+];
+
+describe('Full-Text Search', () => {
+  describe('stem', () => {
+    it('should reduce the inflected forms of English words to their stem', () => {
+      expect(['caresses', 'ponies', 'running', 'agreed', 'happy', 'relational', 'generalization', 'hopeful'].map(stem))
+        .toEqual(['caress', 'poni', 'run', 'agre', 'happi', 'relat', 'gener', 'hope']);
+      expect(['connect', 'connected', 'connecting', 'connection', 'connections'].map(stem))
+        .toEqual(Array(5).fill('connect'));
+      expect(stem('is')).toBe('is');
+    });
+  });
+  
+  describe('tokenize', () => {
+    it('should lowercase, split, drop stop words and stem text', () => {
+      expect(tokenize('The Wireless HEADPHONES are great, aren\'t they?')).toEqual(['wireless', 'headphon', 'great', 'aren', 't']);
+      expect(tokenize('Café crème: 2 cups')).toEqual(['cafe', 'creme', '2', 'cup']);
+      expect(searchTerms('wireless headphones, wireless headphone')).toEqual(['wireless', 'headphon']);
+    });
+    
+    it('should analyze strings and the strings of arrays', () => {
+      expect(analyzeText('red shoes and red socks')).toEqual({ length: 4, frequencies: { red: 2, shoe: 1, sock: 1 } });
+      expect(analyzeText(['red', 3, 'blue'])).toEqual({ length: 2, frequencies: { red: 1, blue: 1 } });
+      expect(analyzeText(42)).toBeUndefined();
+    });
+  });
+  
+  describe('bm25Score', () => {
+    it('should rank documents by the rarity and frequency of the terms they contain', () => {
+      const terms = searchTerms('wireless headphones');
+      const { postings, statistics } = analyzeDocuments(products, 'description', terms);
+      
+      expect(statistics).toEqual({ documentCount: 4, totalLength: 19, documentFrequencies: { wireless: 2, headphon: 2 } });
+      expect([...postings.keys()]).toEqual(['p1', 'p2', 'p3']);
+      
+      const scores = Object.fromEntries([...postings].map(([id, text]) => [id, bm25Score(text, terms, statistics)]));
+      
+      // Matching both terms beats repeating one, which beats matching one once
+      expect(scores.p1).toBeGreaterThan(scores.p3);
+      expect(scores.p3).toBeGreaterThan(scores.p2);
+      expect(bm25Score({ length: 2, frequencies: {} }, terms, statistics)).toBe(0);
+    });
+    
+    it('should score documents alike whichever shard holds them once statistics are merged', () => {
+      const terms = searchTerms('wireless headphones');
+      const shards = [products.slice(0, 2), products.slice(2)].map(documents => analyzeDocuments(documents, 'description', terms));
+      const merged = mergeTextStatistics(shards.map(shard => shard.statistics));
+      const whole = analyzeDocuments(products, 'description', terms);
+      
+      expect(merged).toEqual(whole.statistics);
+      expect(bm25Score(shards[1].postings.get('p3')!, terms, merged)).toBe(bm25Score(whole.postings.get('p3')!, terms, whole.statistics));
+    });
+  });
+  
+  describe('findSearchFilter', () => {
+    it('should find the single top-level search filter of a query', () => {
+      const search = { field: 'description', operator: 'search' as const, value: 'wireless' };
+      const price = { field: 'price', operator: '<' as const, value: 100 };
+      
+      expect(findSearchFilter([price, search])).toBe(search);
+      expect(findSearchFilter([price, { not: price }])).toBeUndefined();
+      expect(() => findSearchFilter([search, search])).toThrow('at most one search filter');
+      expect(() => findSearchFilter([{ and: [price, { not: search }] }])).toThrow('cannot be nested');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Vector Search Tests
+ *
+ * This file contains tests for the comparison of vectors, the clustering of
+ * the lists of vector indexes and the ranking of nearest neighbors.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findVectorFilter,
+  isVector,
+  listCount,
+  nearestCentroids,
+  nearestNeighbors,
+  similarity,
+  trainCentroids,
+  validateVectorFilterValue
+} from '../../../src/query/vector';
+import { CONFIG } from '../../../src/config';
+import { QueryFilter } from '../../../src/types';
+import { makeDocument } from '../helpers';
+
+describe('Vector Search', () => {
+  describe('similarity', () => {
+    it('should compare vectors by cosine, dot product or negated Euclidean distance', () => {
+      expect(similarity([1, 0], [2, 0], 'cosine')).toBe(1);
+      expect(similarity([1, 0], [0, 3], 'cosine')).toBe(0);
+      expect(similarity([1, 1], [-1, -1], 'cosine')).toBeCloseTo(-1);
+      expect(similarity([0, 0], [1, 1], 'cosine')).toBe(0);
+      expect(similarity([1, 2], [3, 4], 'dot')).toBe(11);
+      expect(similarity([1, 2], [4, 6], 'l2')).toBe(-5);
+    });
+    
+    it('should only accept arrays of finite numbers as vectors', () => {
+      expect(isVector([0.1, -2, 3])).toBe(true);
+      expect(isVector([0.1, -2, 3], 2)).toBe(false);
+      expect(isVector([])).toBe(false);
+      expect(isVector([1, '2'])).toBe(false);
+      expect(isVector([1, NaN])).toBe(false);
+      expect(isVector({ 0: 1 })).toBe(false);
+    });
+  });
+  
+  describe('validateVectorFilterValue', () => {
+    it('should reject filters without a vector or a valid k', () => {
+      expect(() => validateVectorFilterValue({ vector: [1, 0], k: 3 })).not.toThrow();
+      expect(() => validateVectorFilterValue({ vector: [1, 0] })).toThrow("The value of a 'nearest_neighbors' filter");
+      expect(() => validateVectorFilterValue({ vector: [], k: 3 })).toThrow();
+      expect(() => validateVectorFilterValue({ vector: [1, 0], k: 1.5 })).toThrow();
+      expect(() => validateVectorFilterValue({ vector: [1, 0], k: CONFIG.MAX_NEAREST_NEIGHBORS + 1 })).toThrow();
+    });
+  });
+  
+  describe('nearestNeighbors', () => {
+    it('should rank the k most similar documents with their similarity', () => {
+      const filter: QueryFilter = { field: 'embedding', operator: 'nearest_neighbors', value: { vector: [1, 0], k: 2 } };
+      const articles = [
+        makeDocument('articles', 'a', { embedding: [0, 1] }),
+        makeDocument('articles', 'b', { embedding: [1, 0.1] }),
+        makeDocument('articles', 'c', { embedding: [1, 1] }),
+        makeDocument('articles', 'd', { embedding: [-1, 0] })
+      ];
+      
+      const cosine = nearestNeighbors(articles, filter, 'cosine');
+      expect(cosine.map(doc => doc._id)).toEqual(['b', 'c']);
+      expect(cosine[1]._score).toBeCloseTo(Math.SQRT1_2);
+      
+      expect(nearestNeighbors(articles, filter, 'l2').map(doc => doc._id)).toEqual(['b', 'c']);
+      expect(nearestNeighbors([makeDocument('articles', 'e', { embedding: [5, 5] }), ...articles], filter, 'dot').map(doc => doc._id)).toEqual(['e', 'b']);
+      expect(articles[0]._score).toBeUndefined();
+    });
+  });
+  
+  describe('trainCentroids', () => {
+    it('should find the centroids of clustered vectors', () => {
+      const vectors = [[0, 0], [10, 10], [0, 1], [10, 11], [1, 0], [11, 10]];
+      const centroids = trainCentroids(vectors, 2, 'l2');
+      
+      expect(centroids).toHaveLength(2);
+      expect(centroids.map(centroid => centroid.map(component => Math.round(component * 3) / 3)).sort())
+        .toEqual([[1 / 3, 1 / 3], [31 / 3, 31 / 3]]);
+      expect(nearestCentroids([9, 9], centroids, 2, 'l2').map(position => centroids[position][0] > 5)).toEqual([true, false]);
+    });
+    
+    it('should return fewer centroids than asked for when there are fewer vectors', () => {
+      expect(trainCentroids([[1, 2]], 4, 'cosine')).toEqual([[1, 2]]);
+      expect(trainCentroids([], 4, 'cosine')).toEqual([]);
+    });
+    
+    it('should cluster about the square root of the number of vectors in lists', () => {
+      expect(listCount(0)).toBe(1);
+      expect(listCount(10000)).toBe(100);
+      expect(listCount(1e9)).toBe(CONFIG.MAX_VECTOR_INDEX_LISTS);
+    });
+  });
+  
+  describe('findVectorFilter', () => {
+    it('should find the single top-level nearest_neighbors filter of a query', () => {
+      const nearest: QueryFilter = { field: 'embedding', operator: 'nearest_neighbors', value: { vector: [1, 0], k: 2 } };
+      const lang: QueryFilter = { field: 'lang', operator: '=', value: 'en' };
+      
+      expect(findVectorFilter([lang, nearest])).toBe(nearest);
+      expect(findVectorFilter([lang])).toBeUndefined();
+      expect(() => findVectorFilter([nearest, nearest])).toThrow('at most one nearest_neighbors filter');
+      expect(() => findVectorFilter([{ or: [lang, nearest] }])).toThrow('cannot be nested');
+    });
+  });
+});
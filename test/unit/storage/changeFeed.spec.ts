@@ -0,0 +1,96 @@
+/**
+ * Change Feed Tests
+ *
+ * This file contains tests for the merging of shard change logs into the
+ * change feed of a collection, and for change feed cursors.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  decodeCheckpoints,
+  encodeCheckpoints,
+  mergeChangeFeeds,
+  parseChangesLimit,
+  parseSequence
+} from '../../../src/storage/changeFeed';
+import { validateCollectionName } from '../../../src/utils/validation';
+import { ChangeLogEntry } from '../../../src/types';
+import { CONFIG } from '../../../src/config';
+
+function change(seq: number, timestamp: number, id = `doc${seq}`): ChangeLogEntry {
+  return { type: 'update', collection: 'users', id, version: 2, timestamp, seq };
+}
+
+describe('Change Feed', () => {
+  describe('mergeChangeFeeds', () => {
+    it('should order the changes of every shard by time', () => {
+      const result = mergeChangeFeeds([
+        { shardId: 'a', changes: [change(3, 100), change(4, 200)], hasMore: false },
+        { shardId: 'b', changes: [change(7, 100), change(8, 300)], hasMore: false }
+      ], {}, 10);
+      
+      expect(result.changes.map(({ shardId, seq }) => `${shardId}${seq}`)).toEqual(['a3', 'b7', 'a4', 'b8']);
+      expect(result.checkpoints).toEqual({ a: 4, b: 8 });
+      expect(decodeCheckpoints(result.cursor)).toEqual(result.checkpoints);
+      expect(result.hasMore).toBe(false);
+    });
+    
+    it('should only advance the checkpoints past the changes returned', () => {
+      const result = mergeChangeFeeds([
+        { shardId: 'a', changes: [change(3, 100), change(4, 400)], hasMore: true },
+        { shardId: 'b', changes: [change(7, 200), change(8, 300)], hasMore: false },
+        { shardId: 'c', changes: [], hasMore: false }
+      ], { a: 2, c: 5 }, 3);
+      
+      expect(result.changes.map(({ shardId, seq }) => `${shardId}${seq}`)).toEqual(['a3', 'b7', 'b8']);
+      expect(result.checkpoints).toEqual({ a: 3, b: 8, c: 5 });
+      expect(result.hasMore).toBe(true);
+    });
+    
+    it('should keep the changes of a shard in log order', () => {
+      const result = mergeChangeFeeds([
+        { shardId: 'a', changes: [change(1, 300), change(2, 100)], hasMore: false },
+        { shardId: 'b', changes: [change(5, 200)], hasMore: false }
+      ], {}, 2);
+      
+      expect(result.changes.map(({ shardId, seq }) => `${shardId}${seq}`)).toEqual(['b5', 'a1']);
+      expect(result.checkpoints).toEqual({ a: 1, b: 5 });
+    });
+    
+    it('should report more changes when a shard has more', () => {
+      const result = mergeChangeFeeds([{ shardId: 'a', changes: [change(1, 100)], hasMore: true }], {}, 10);
+      
+      expect(result.hasMore).toBe(true);
+    });
+  });
+  
+  describe('cursors and parameters', () => {
+    it('should round-trip checkpoints', () => {
+      const checkpoints = { 'a1b2': 12, 'c3d4': 0 };
+      
+      expect(decodeCheckpoints(encodeCheckpoints(checkpoints))).toEqual(checkpoints);
+    });
+    
+    it('should reject malformed cursors', () => {
+      expect(() => decodeCheckpoints('not a cursor')).toThrow('Invalid change feed cursor');
+      expect(() => decodeCheckpoints(encodeCheckpoints({ a: -1 }))).toThrow('Invalid change feed cursor');
+      expect(() => decodeCheckpoints(btoa('[1]'))).toThrow('Invalid change feed cursor');
+    });
+    
+    it('should parse sequence numbers and limits', () => {
+      expect(parseSequence(null)).toBeUndefined();
+      expect(parseSequence('42')).toBe(42);
+      expect(() => parseSequence('-1')).toThrow('Sequence number must be a non-negative integer');
+      
+      expect(parseChangesLimit(null)).toBe(CONFIG.DEFAULT_CHANGES_LIMIT);
+      expect(parseChangesLimit('5')).toBe(5);
+      expect(() => parseChangesLimit('0')).toThrow('Limit must be an integer');
+      expect(() => parseChangesLimit(String(CONFIG.MAX_CHANGES_PER_REQUEST + 1))).toThrow('Limit must be an integer');
+    });
+    
+    it('should reserve the change feed route as a collection name', () => {
+      expect(() => validateCollectionName('__changes')).toThrow("Collection name '__changes' is reserved for system use");
+      expect(() => validateCollectionName('changes')).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Secondary Index Tests
+ *
+ * This file contains tests for the index definitions and the SQL indexes
+ * backing them in the StorageObject.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeIndexDefinition,
+  sqlIndexName,
+  createIndexStatement,
+  dropIndexStatement,
+  indexUsedByPlan
+} from '../../../src/storage/indexes';
+import { fieldExpression } from '../../../src/storage/sql';
+import { ImpossibleDBError } from '../../../src/utils/errorHandler';
+
+describe('Secondary Indexes', () => {
+  describe('normalizeIndexDefinition', () => {
+    it('should derive the index name from its fields', () => {
+      const index = normalizeIndexDefinition('users', { fields: ['address.city', 'age'] });
+      
+      expect(index.name).toBe('address_city_age');
+      expect(index.collection).toBe('users');
+      expect(index.status).toBe('building');
+    });
+    
+    it('should reject invalid definitions', () => {
+      expect(() => normalizeIndexDefinition('users', { fields: [] })).toThrow(ImpossibleDBError);
+      expect(() => normalizeIndexDefinition('users', { fields: ['a', 'a'] })).toThrow('Index fields must be unique');
+      expect(() => normalizeIndexDefinition('users', { fields: ['a'], name: 'bad name' })).toThrow(ImpossibleDBError);
+      expect(() => normalizeIndexDefinition('users', { fields: ['tags.0'] })).toThrow('Invalid index field: tags.0');
+    });
+    
+    it('should accept full-text indexes on a single field', () => {
+      expect(normalizeIndexDefinition('products', { fields: ['details.description'], type: 'text' }))
+        .toMatchObject({ name: 'details_description_text', type: 'text', fields: ['details.description'] });
+      expect(normalizeIndexDefinition('products', { fields: ['name'] }).type).toBeUndefined();
+      expect(() => normalizeIndexDefinition('products', { fields: ['name', 'description'], type: 'text' }))
+        .toThrow('A text index must have a single field');
+      expect(() => normalizeIndexDefinition('products', { fields: ['name'], type: 'hash' })).toThrow("Index type must be 'text'");
+    });
+    
+    it('should accept geospatial indexes on a single field', () => {
+      expect(normalizeIndexDefinition('stores', { fields: ['location'], type: 'geo' }))
+        .toMatchObject({ name: 'location_geo', type: 'geo', fields: ['location'] });
+      expect(() => normalizeIndexDefinition('stores', { fields: ['location', 'area'], type: 'geo' }))
+        .toThrow('A geo index must have a single field');
+    });
+    
+    it('should accept vector indexes with a dimension and a metric', () => {
+      expect(normalizeIndexDefinition('articles', { fields: ['embedding'], type: 'vector', dimensions: 384 }))
+        .toMatchObject({ name: 'embedding_vector', type: 'vector', dimensions: 384, metric: 'cosine' });
+      expect(normalizeIndexDefinition('articles', { fields: ['embedding'], type: 'vector', dimensions: 3, metric: 'l2' }).metric)
+        .toBe('l2');
+      expect(() => normalizeIndexDefinition('articles', { fields: ['embedding'], type: 'vector' }))
+        .toThrow('A vector index must have a number of dimensions');
+      expect(() => normalizeIndexDefinition('articles', { fields: ['embedding'], type: 'vector', dimensions: 3, metric: 'hamming' }))
+        .toThrow('Vector index metric must be one of');
+      expect(() => normalizeIndexDefinition('articles', { fields: ['title'], dimensions: 3 }))
+        .toThrow('Only vector indexes have dimensions and a metric');
+    });
+  });
+  
+  describe('createIndexStatement', () => {
+    it('should index the collection followed by the field expressions', () => {
+      const index = normalizeIndexDefinition('users', { fields: ['address.city', 'age'] });
+      
+      expect(createIndexStatement(index)).toBe(
+        'CREATE INDEX IF NOT EXISTS "idx_5_users_address_city_age" ON documents ' +
+        `(collection, ${fieldExpression('address.city')}, ${fieldExpression('age')})`
+      );
+    });
+    
+    it('should give every collection and index name pair a distinct SQL name', () => {
+      expect(sqlIndexName('a_b', 'c')).not.toBe(sqlIndexName('a', 'b_c'));
+      expect(dropIndexStatement('users', 'age')).toBe('DROP INDEX IF EXISTS "idx_5_users_age"');
+    });
+  });
+  
+  describe('indexUsedByPlan', () => {
+    it('should find the secondary index a query plan searches', () => {
+      const indexes = [
+        normalizeIndexDefinition('users', { fields: ['age'] }),
+        normalizeIndexDefinition('users', { fields: ['name'] })
+      ];
+      
+      expect(indexUsedByPlan(['SEARCH documents USING INDEX idx_5_users_name (collection=? AND <expr>=?)'], indexes)).toBe('name');
+      expect(indexUsedByPlan(['SCAN documents USING COVERING INDEX idx_5_users_age'], indexes)).toBe('age');
+      expect(indexUsedByPlan(['SEARCH documents USING INDEX sqlite_autoindex_documents_1 (collection=?)'], indexes)).toBeUndefined();
+      expect(indexUsedByPlan(['SCAN documents'], indexes)).toBeUndefined();
+    });
+  });
+});
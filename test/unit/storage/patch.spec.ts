@@ -0,0 +1,136 @@
+/**
+ * Document Patch Tests
+ *
+ * This file contains tests for the JSON Patch and update operator support
+ * used by StorageObject PATCH requests.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyPatch, applyJsonPatch, applyUpdateOperators } from '../../../src/storage/patch';
+import { ErrorCode } from '../../../src/types';
+import { ImpossibleDBError } from '../../../src/utils/errorHandler';
+import { errorCode } from '../helpers';
+
+describe('Document Patches', () => {
+  const original = {
+    name: 'Alice',
+    address: { city: 'NYC', zip: '10001' },
+    tags: ['a', 'b'],
+    loginCount: 2
+  };
+  
+  describe('applyJsonPatch', () => {
+    it('should apply add, remove and replace operations', () => {
+      const patched = applyJsonPatch(original, [
+        { op: 'add', path: '/tags/1', value: 'x' },
+        { op: 'add', path: '/tags/-', value: 'z' },
+        { op: 'remove', path: '/address/zip' },
+        { op: 'replace', path: '/name', value: 'Bob' }
+      ]);
+      
+      expect(patched).toEqual({
+        name: 'Bob',
+        address: { city: 'NYC' },
+        tags: ['a', 'x', 'b', 'z'],
+        loginCount: 2
+      });
+    });
+    
+    it('should apply move and copy operations', () => {
+      const patched = applyJsonPatch(original, [
+        { op: 'copy', from: '/address/city', path: '/homeCity' },
+        { op: 'move', from: '/address/zip', path: '/zip' }
+      ]);
+      
+      expect(patched.homeCity).toBe('NYC');
+      expect(patched.zip).toBe('10001');
+      expect(patched.address).toEqual({ city: 'NYC' });
+    });
+    
+    it('should unescape JSON Pointer segments', () => {
+      expect(applyJsonPatch({}, [{ op: 'add', path: '/a~1b~0c', value: 1 }])).toEqual({ 'a/b~c': 1 });
+    });
+    
+    it('should fail with CONFLICT when a test operation fails', () => {
+      expect(applyJsonPatch(original, [{ op: 'test', path: '/address', value: { zip: '10001', city: 'NYC' } }]))
+        .toEqual(original);
+      expect(errorCode(() => applyJsonPatch(original, [{ op: 'test', path: '/name', value: 'Bob' }])))
+        .toBe(ErrorCode.CONFLICT);
+    });
+    
+    it('should reject operations on missing paths', () => {
+      expect(() => applyJsonPatch(original, [{ op: 'remove', path: '/missing' }])).toThrow('Path not found');
+      expect(() => applyJsonPatch(original, [{ op: 'add', path: '/missing/child', value: 1 }])).toThrow('Path not found');
+      expect(() => applyJsonPatch(original, [{ op: 'add', path: '/tags/5', value: 1 }])).toThrow('Invalid array index');
+    });
+  });
+  
+  describe('applyUpdateOperators', () => {
+    it('should set, unset and increment nested fields', () => {
+      const patched = applyUpdateOperators(original, {
+        $set: { 'address.city': 'LA', 'profile.theme': 'dark' },
+        $unset: { 'address.zip': '' },
+        $inc: { loginCount: 1, 'stats.visits': 5 }
+      });
+      
+      expect(patched.address).toEqual({ city: 'LA' });
+      expect(patched.profile).toEqual({ theme: 'dark' });
+      expect(patched.loginCount).toBe(3);
+      expect(patched.stats).toEqual({ visits: 5 });
+    });
+    
+    it('should update arrays', () => {
+      const patched = applyUpdateOperators(original, {
+        $push: { tags: { $each: ['c', 'a'] }, history: 'login' },
+        $pull: { tags: 'b' },
+        $addToSet: { roles: { $each: ['admin', 'admin', 'user'] } }
+      });
+      
+      expect(patched.tags).toEqual(['a', 'c', 'a']);
+      expect(patched.history).toEqual(['login']);
+      expect(patched.roles).toEqual(['admin', 'user']);
+    });
+    
+    it('should apply $min and $max', () => {
+      const patched = applyUpdateOperators(original, {
+        $min: { loginCount: 1, lowest: 7 },
+        $max: { 'address.zip': '00000' }
+      });
+      
+      expect(patched.loginCount).toBe(1);
+      expect(patched.lowest).toBe(7);
+      expect(patched.address.zip).toBe('10001');
+    });
+    
+    it('should reject operators applied to values of the wrong type', () => {
+      expect(() => applyUpdateOperators(original, { $inc: { name: 1 } })).toThrow('$inc requires numbers');
+      expect(() => applyUpdateOperators(original, { $push: { name: 'x' } })).toThrow('$push requires an array');
+      expect(() => applyUpdateOperators(original, { $rename: { name: 'fullName' } } as any)).toThrow('Unsupported update operator');
+    });
+  });
+  
+  describe('applyPatch', () => {
+    it('should leave the original document untouched when a patch fails', () => {
+      const fields = structuredClone(original);
+      
+      expect(() => applyPatch(fields, [
+        { op: 'replace', path: '/name', value: 'Bob' },
+        { op: 'remove', path: '/missing' }
+      ])).toThrow(ImpossibleDBError);
+      expect(fields).toEqual(original);
+    });
+    
+    it('should not modify metadata fields or object prototypes', () => {
+      expect(() => applyPatch(original, { $set: { _version: 10 } })).toThrow("Cannot modify reserved field '_version'");
+      expect(() => applyPatch(original, [{ op: 'remove', path: '/_id' }])).toThrow("Cannot modify reserved field '_id'");
+      expect(() => applyPatch(original, { $set: { _expectedVersion: 1 } })).toThrow("Cannot modify reserved field '_expectedVersion'");
+      expect(() => applyPatch(original, { $set: { '__proto__.polluted': true } })).toThrow('Invalid path');
+      expect(({} as any).polluted).toBeUndefined();
+    });
+    
+    it('should reject patches in an unknown format', () => {
+      expect(errorCode(() => applyPatch(original, 'name' as any))).toBe(ErrorCode.INVALID_REQUEST);
+      expect(() => applyPatch(original, [{ op: 'replace', path: '', value: {} }])).toThrow('Invalid JSON Pointer');
+    });
+  });
+});
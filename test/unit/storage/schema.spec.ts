@@ -0,0 +1,139 @@
+/**
+ * Collection Schema Tests
+ *
+ * This file contains tests for the JSON Schema validation of documents
+ * written to collections with a schema.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { schemaErrors, validateSchema } from '../../../src/storage/schema';
+import { validateCollectionConfig } from '../../../src/utils/validation';
+import { ErrorCode } from '../../../src/types';
+import { CONFIG } from '../../../src/config';
+import { errorCode } from '../helpers';
+
+const userSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  type: 'object',
+  required: ['name', 'email'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 50 },
+    email: { type: 'string', format: 'email' },
+    age: { type: 'integer', minimum: 0 },
+    role: { enum: ['admin', 'member'] },
+    tags: { type: 'array', items: { type: 'string' }, uniqueItems: true, maxItems: 3 },
+    address: { $ref: '#/$defs/address' }
+  },
+  $defs: {
+    address: {
+      type: 'object',
+      required: ['city'],
+      properties: {
+        city: { type: 'string' },
+        zip: { type: 'string', pattern: '^\\d{5}$' }
+      }
+    }
+  }
+};
+
+describe('Collection Schemas', () => {
+  describe('validateSchema', () => {
+    it('should accept schemas using the supported keywords', () => {
+      expect(() => validateSchema(userSchema)).not.toThrow();
+      expect(() => validateSchema({ if: { required: ['a'] }, then: true, else: false, not: { const: 1 } })).not.toThrow();
+    });
+    
+    it('should reject unsupported keywords and invalid keyword values, naming where they are', () => {
+      expect(() => validateSchema({ properties: { a: { unevaluatedProperties: false } } }))
+        .toThrow("unsupported keyword 'unevaluatedProperties' at '/properties/a'");
+      expect(() => validateSchema({ type: 'text' })).toThrow("'type' at '/' must be one or an array of");
+      expect(() => validateSchema({ items: { minLength: -1 } })).toThrow("'minLength' at '/items' must be a non-negative integer");
+      expect(() => validateSchema({ $ref: '#/$defs/missing' })).toThrow("'$ref' at '/'");
+      expect(() => validateSchema({ pattern: '(a+)+$' })).toThrow('pattern');
+      expect(errorCode(() => validateSchema([]))).toBe(ErrorCode.INVALID_REQUEST);
+    });
+  });
+  
+  describe('schemaErrors', () => {
+    it('should accept documents matching the schema', () => {
+      expect(schemaErrors({ name: 'Alice', email: 'alice@example.com', age: 30, tags: ['a'], address: { city: 'NYC', zip: '10001' } }, userSchema))
+        .toEqual([]);
+    });
+    
+    it('should report every invalid value with its JSON Pointer', () => {
+      expect(schemaErrors({
+        name: '',
+        age: 1.5,
+        role: 'owner',
+        tags: ['a', 'a', 3],
+        address: { zip: '1000' },
+        nickname: 'Al'
+      }, userSchema)).toEqual([
+        { path: '/email', message: 'is required' },
+        { path: '/name', message: 'must have at least 1 characters' },
+        { path: '/age', message: 'must be of type integer' },
+        { path: '/role', message: 'must be one of: "admin", "member"' },
+        { path: '/tags', message: 'must not have duplicate items' },
+        { path: '/tags/2', message: 'must be of type string' },
+        { path: '/address/city', message: 'is required' },
+        { path: '/address/zip', message: 'must match the pattern ^\\d{5}$' },
+        { path: '/nickname', message: 'is not an allowed property' }
+      ]);
+    });
+    
+    it('should validate formats, combinations and conditions', () => {
+      expect(schemaErrors('2024-02-30', { format: 'date' })).toEqual([{ path: '', message: 'must be a valid date' }]);
+      expect(schemaErrors('2024-02-29T12:00:00Z', { format: 'date-time' })).toEqual([]);
+      expect(schemaErrors(0.3, { multipleOf: 0.1 })).toEqual([]);
+      expect(schemaErrors(5, { oneOf: [{ minimum: 0 }, { maximum: 10 }] }))
+        .toEqual([{ path: '', message: 'must match exactly one of the oneOf schemas (matches 2)' }]);
+      
+      const shipping = {
+        if: { properties: { method: { const: 'mail' } } },
+        then: { required: ['address'] },
+        dependentRequired: { zip: ['city'] }
+      };
+      expect(schemaErrors({ method: 'mail', zip: '10001' }, shipping)).toEqual([
+        { path: '/city', message: 'is required when zip is present' },
+        { path: '/address', message: 'is required' }
+      ]);
+      expect(schemaErrors({ method: 'pickup' }, shipping)).toEqual([]);
+    });
+    
+    it('should stop at recursive references and cap the errors of a document', () => {
+      const tree = { type: 'object', properties: { child: { $ref: '#' } } };
+      let deep: Record<string, any> = {};
+      for (let i = 0; i < CONFIG.MAX_SCHEMA_DEPTH + 1; i++) {
+        deep = { child: deep };
+      }
+      
+      expect(schemaErrors({ child: { child: {} } }, tree)).toEqual([]);
+      expect(schemaErrors(deep, tree)[0].message).toContain('nested too deeply');
+      expect(schemaErrors(Array(50).fill('x'), { items: { type: 'number' } })).toHaveLength(CONFIG.MAX_SCHEMA_ERRORS);
+    });
+    
+    it('should give up on documents that take too many subschema evaluations', () => {
+      // Each level of references doubles the subschemas to evaluate
+      const branching = { anyOf: [{ $ref: '#' }, { $ref: '#' }] };
+      expect(() => validateSchema(branching)).not.toThrow();
+      
+      const started = Date.now();
+      expect(schemaErrors({ a: 1 }, branching)).toEqual([{
+        path: '',
+        message: `is too complex to validate (more than ${CONFIG.MAX_SCHEMA_EVALUATIONS} subschema evaluations)`
+      }]);
+      expect(schemaErrors({ a: 1 }, { not: branching })).toHaveLength(1);
+      expect(Date.now() - started).toBeLessThan(5000);
+    });
+  });
+  
+  describe('validateCollectionConfig', () => {
+    it('should validate the schema and schema mode of collection settings', () => {
+      expect(() => validateCollectionConfig({ schema: userSchema, schemaMode: 'warn' })).not.toThrow();
+      expect(() => validateCollectionConfig({ schema: null, schemaMode: null })).not.toThrow();
+      expect(() => validateCollectionConfig({ schemaMode: 'lenient' })).toThrow('Schema mode must be one of: strict, warn, off');
+      expect(errorCode(() => validateCollectionConfig({ schema: { type: 'date' } }))).toBe(ErrorCode.INVALID_REQUEST);
+    });
+  });
+});
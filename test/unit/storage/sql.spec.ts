@@ -0,0 +1,178 @@
+/**
+ * SQL Query Compilation Tests
+ *
+ * This file contains tests for the translation of query filters and sort
+ * specifications into SQL, and for the in-memory ordering that mirrors it.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { jsonPath, compileFilters, compileSort, compileCursor } from '../../../src/storage/sql';
+import { compareDocuments, compareValues } from '../../../src/query/compare';
+
+describe('SQL Query Compilation', () => {
+  describe('jsonPath', () => {
+    it('should quote every segment of a field path', () => {
+      expect(jsonPath('age')).toBe('$."age"');
+      expect(jsonPath('address.city')).toBe('$."address"."city"');
+    });
+    
+    it('should reject field paths that cannot be inlined safely', () => {
+      expect(jsonPath("name') OR 1=1 --")).toBeUndefined();
+      expect(jsonPath('a..b')).toBeUndefined();
+      expect(jsonPath('tags.0')).toBeUndefined();
+    });
+  });
+  
+  describe('compileFilters', () => {
+    it('should match every document without filters', () => {
+      expect(compileFilters([])).toEqual({ sql: '1', params: [] });
+    });
+    
+    it('should compile type-strict equality', () => {
+      expect(compileFilters([{ field: 'age', operator: '=', value: 30 }])).toEqual({
+        sql: `(json_extract(data, '$."age"') = ? AND json_type(data, '$."age"') IN ('integer', 'real'))`,
+        params: [30]
+      });
+      
+      expect(compileFilters([{ field: 'active', operator: '=', value: true }])).toEqual({
+        sql: `(json_type(data, '$."active"') = 'true')`,
+        params: []
+      });
+      
+      expect(compileFilters([{ field: 'nickname', operator: '=', value: null }])).toEqual({
+        sql: `(json_type(data, '$."nickname"') = 'null')`,
+        params: []
+      });
+    });
+    
+    it('should treat documents without the field as not equal', () => {
+      const compiled = compileFilters([{ field: 'city', operator: '!=', value: 'NYC' }]);
+      
+      expect(compiled?.sql).toBe(
+        `(NOT IFNULL((json_extract(data, '$."city"') = ? AND json_type(data, '$."city"') IN ('text')), 0))`
+      );
+      expect(compiled?.params).toEqual(['NYC']);
+    });
+    
+    it('should combine filters and only compare values of the same type', () => {
+      const compiled = compileFilters([
+        { field: 'age', operator: '>=', value: 18 },
+        { field: 'name', operator: '<', value: 'M' },
+        { field: 'tags', operator: '>', value: ['a'] }
+      ]);
+      
+      expect(compiled?.sql).toBe([
+        `(json_extract(data, '$."age"') >= ? AND json_type(data, '$."age"') IN ('integer', 'real'))`,
+        `(json_extract(data, '$."name"') < ? AND json_type(data, '$."name"') IN ('text'))`,
+        '(0)'
+      ].join(' AND '));
+      expect(compiled?.params).toEqual([18, 'M']);
+    });
+    
+    it('should not compile filters on unsupported field paths', () => {
+      expect(compileFilters([
+        { field: 'age', operator: '=', value: 30 },
+        { field: 'tags.0', operator: '=', value: 'a' }
+      ])).toBeUndefined();
+    });
+    
+    it('should compile extended operators', () => {
+      expect(compileFilters([{ field: 'age', operator: 'in', value: [30, null] }])).toEqual({
+        sql: `((json_extract(data, '$."age"') = ? AND json_type(data, '$."age"') IN ('integer', 'real')) OR (json_type(data, '$."age"') = 'null'))`,
+        params: [30]
+      });
+      expect(compileFilters([{ field: 'name', operator: 'starts_with', value: 'Al' }])).toEqual({
+        sql: `(json_type(data, '$."name"') = 'text' AND substr(json_extract(data, '$."name"'), 1, length(?)) = ?)`,
+        params: ['Al', 'Al']
+      });
+      expect(compileFilters([{ field: 'email', operator: 'exists', value: false }])?.sql)
+        .toBe(`(json_type(data, '$."email"') IS NULL)`);
+      expect(compileFilters([{ field: 'tags', operator: 'size', value: 2 }])).toEqual({
+        sql: `(json_type(data, '$."tags"') = 'array' AND json_array_length(data, '$."tags"') = ?)`,
+        params: [2]
+      });
+    });
+    
+    it('should compile element filters on the array elements', () => {
+      expect(compileFilters([{ field: 'items', operator: 'elem_match', value: [{ field: 'sku', operator: '=', value: 'A1' }] }])).toEqual({
+        sql: `(json_type(data, '$."items"') = 'array' AND EXISTS (SELECT 1 FROM json_each(data, '$."items"') AS m0 ` +
+          `WHERE CASE WHEN m0.type = 'object' THEN ((json_extract(m0.value, '$."sku"') = ? AND json_type(m0.value, '$."sku"') IN ('text'))) ELSE 0 END))`,
+        params: ['A1']
+      });
+    });
+    
+    it('should compile groups of filters', () => {
+      expect(compileFilters([{
+        or: [
+          { field: 'active', operator: '=', value: true },
+          { not: { field: 'age', operator: '<', value: 18 } }
+        ]
+      }])).toEqual({
+        sql: `((json_type(data, '$."active"') = 'true') OR ` +
+          `(NOT IFNULL((json_extract(data, '$."age"') < ? AND json_type(data, '$."age"') IN ('integer', 'real')), 0)))`,
+        params: [18]
+      });
+      expect(compileFilters([{ not: { field: 'name', operator: 'regex', value: '^A' } }])).toBeUndefined();
+    });
+    
+    it('should leave regular expressions to the in-memory evaluation', () => {
+      expect(compileFilters([{ field: 'name', operator: 'regex', value: '^A' }])).toBeUndefined();
+    });
+  });
+  
+  describe('compileSort', () => {
+    it('should break ties by document ID', () => {
+      expect(compileSort()).toBe('ORDER BY id ASC');
+      expect(compileSort([
+        { field: 'age', direction: 'desc' },
+        { field: 'name', direction: 'asc' }
+      ])).toBe(`ORDER BY json_extract(data, '$."age"') DESC, json_extract(data, '$."name"') ASC, id ASC`);
+    });
+  });
+  
+  describe('compileCursor', () => {
+    it('should select the documents after the cursor position', () => {
+      expect(compileCursor({ values: [30, null], id: 'u1' }, [
+        { field: 'age', direction: 'desc' },
+        { field: 'name', direction: 'asc' }
+      ])).toEqual({
+        sql: [
+          `((json_extract(data, '$."age"') < ? OR json_extract(data, '$."age"') IS NULL))`,
+          `(json_extract(data, '$."age"') IS ? AND json_extract(data, '$."name"') IS NOT NULL)`,
+          `(json_extract(data, '$."age"') IS ? AND json_extract(data, '$."name"') IS ? AND id > ?)`
+        ].join(' OR '),
+        params: [30, 30, 30, null, 'u1']
+      });
+    });
+    
+    it('should not compile cursors on unsupported sort fields', () => {
+      expect(compileCursor({ values: ['a'], id: 'u1' }, [{ field: 'tags.0', direction: 'asc' }])).toBeUndefined();
+    });
+  });
+  
+  describe('compareDocuments', () => {
+    it('should order missing values first, then numbers, then strings', () => {
+      const values = [undefined, null, -1, false, 0.5, true, 2, '', '10', 'a', { a: 1 }];
+      
+      for (let i = 0; i < values.length - 1; i++) {
+        expect(compareValues(values[i], values[i + 1])).toBeLessThanOrEqual(0);
+      }
+      
+      expect(compareValues(undefined, null)).toBe(0);
+      expect(compareValues('10', 9)).toBeGreaterThan(0);
+    });
+    
+    it('should sort like the compiled ORDER BY clause', () => {
+      const documents = [
+        { _id: 'd', age: 30 },
+        { _id: 'c', age: '30' },
+        { _id: 'b', age: 30 },
+        { _id: 'a' }
+      ];
+      
+      const sorted = [...documents].sort((x, y) => compareDocuments(x, y, [{ field: 'age', direction: 'desc' }]));
+      
+      expect(sorted.map(doc => doc._id)).toEqual(['c', 'b', 'd', 'a']);
+    });
+  });
+});
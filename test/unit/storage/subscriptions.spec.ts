@@ -0,0 +1,130 @@
+/**
+ * Change Subscription Tests
+ *
+ * This file contains tests for the parsing of subscribe requests and the
+ * change events computed for subscriptions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  changeEventFor,
+  parseSubscriptionRequest,
+  replayEvents,
+  Subscription
+} from '../../../src/storage/subscriptions';
+import { matchesFilters as matches } from '../../../src/query/matcher';
+import { ChangeLogEntry, ErrorCode } from '../../../src/types';
+import { ImpossibleDBError } from '../../../src/utils/errorHandler';
+import { makeDocument } from '../helpers';
+
+describe('Change Subscriptions', () => {
+  describe('parseSubscriptionRequest', () => {
+    it('should parse document and filter subscriptions', () => {
+      expect(parseSubscriptionRequest('users', new URLSearchParams('id=user1&since=5'))).toEqual({ collection: 'users', id: 'user1' });
+      
+      const filters = [{ field: 'status', operator: '=', value: 'online' }];
+      expect(parseSubscriptionRequest('users', new URLSearchParams({ filters: JSON.stringify(filters) }))).toEqual({
+        collection: 'users',
+        filters
+      });
+    });
+    
+    it('should reject invalid parameters', () => {
+      const parse = (query: string) => {
+        try {
+          parseSubscriptionRequest('users', new URLSearchParams(query));
+        } catch (error) {
+          return (error as ImpossibleDBError).code;
+        }
+        return undefined;
+      };
+      
+      expect(parse('filters=nope')).toBe(ErrorCode.INVALID_QUERY);
+      expect(parse('id=user1&filters=[]')).toBe(ErrorCode.INVALID_REQUEST);
+    });
+  });
+  
+  describe('changeEventFor', () => {
+    const online: Subscription = { collection: 'users', filters: [{ field: 'status', operator: '=', value: 'online' }] };
+    
+    it('should report inserts, updates and deletes of watched documents', () => {
+      const before = makeDocument('users', 'user1', { status: 'online' });
+      const after = makeDocument('users', 'user1', { status: 'online', name: 'Alice', _version: 2 });
+      
+      expect(changeEventFor({ collection: 'users' }, undefined, before, 100, matches)).toEqual({
+        type: 'insert', collection: 'users', id: 'user1', version: 1, timestamp: 100, document: before
+      });
+      expect(changeEventFor({ collection: 'users', id: 'user1' }, before, after, 200, matches)?.type).toBe('update');
+      expect(changeEventFor({ collection: 'users' }, after, undefined, 300, matches)).toEqual({
+        type: 'delete', collection: 'users', id: 'user1', version: 2, timestamp: 300
+      });
+    });
+    
+    it('should report documents entering and leaving the filters', () => {
+      const offline = makeDocument('users', 'user1', { status: 'offline' });
+      const online1 = makeDocument('users', 'user1', { status: 'online', _version: 2 });
+      
+      expect(changeEventFor(online, offline, online1, 200, matches)?.type).toBe('insert');
+      expect(changeEventFor(online, online1, offline, 300, matches)?.type).toBe('delete');
+      expect(changeEventFor(online, offline, offline, 400, matches)).toBeUndefined();
+    });
+    
+    it('should ignore other documents and collections', () => {
+      const other = makeDocument('posts', 'user2');
+      
+      expect(changeEventFor({ collection: 'users', id: 'user1' }, undefined, makeDocument('users', 'user2'), 100, matches)).toBeUndefined();
+      expect(changeEventFor({ collection: 'users' }, undefined, other, 100, matches)).toBeUndefined();
+    });
+  });
+  
+  describe('replayEvents', () => {
+    const online: Subscription = { collection: 'users', filters: [{ field: 'status', operator: '=', value: 'online' }] };
+    
+    const change = (seq: number, type: ChangeLogEntry['type'], id: string, fields: Record<string, any> = {}): ChangeLogEntry => {
+      const document = makeDocument('users', id, { _updatedAt: seq * 100, ...fields });
+      return {
+        seq, type, collection: document._collection, id, version: document._version, timestamp: seq * 100,
+        ...(type !== 'delete' && { document })
+      };
+    };
+    const noPreviousChange = () => undefined;
+    
+    it('should replay the changes of the log with their sequence number', () => {
+      const changes = [
+        change(5, 'insert', 'user1'),
+        change(6, 'update', 'user1', { _version: 2 }),
+        change(7, 'insert', 'user2', { _collection: 'posts' }),
+        change(8, 'delete', 'user1', { _version: 2 })
+      ];
+      
+      expect(replayEvents({ collection: 'users' }, changes, noPreviousChange, matches).map(event => [event.seq, event.type, event.id]))
+        .toEqual([[5, 'insert', 'user1'], [6, 'update', 'user1'], [8, 'delete', 'user1']]);
+      expect(replayEvents({ collection: 'users', id: 'user2' }, changes, noPreviousChange, matches)).toEqual([]);
+    });
+    
+    it('should replay documents leaving the filters as deletes', () => {
+      const previous = change(3, 'insert', 'user1', { status: 'online' });
+      const changes = [
+        change(5, 'update', 'user1', { status: 'offline', _version: 2 }),
+        change(6, 'update', 'user1', { status: 'away', _version: 3 }),
+        change(7, 'insert', 'user2', { status: 'offline' }),
+        change(8, 'delete', 'user2')
+      ];
+      
+      expect(replayEvents(online, changes, id => id === 'user1' ? previous : undefined, matches)).toEqual([
+        { seq: 5, type: 'delete', collection: 'users', id: 'user1', version: 2, timestamp: 500 }
+      ]);
+    });
+    
+    it('should replay the changes of documents whose previous change was trimmed', () => {
+      const changes = [
+        change(5, 'update', 'user1', { status: 'online', _version: 4 }),
+        change(6, 'update', 'user2', { status: 'offline', _version: 2 }),
+        change(7, 'delete', 'user3')
+      ];
+      
+      expect(replayEvents(online, changes, noPreviousChange, matches).map(event => [event.type, event.id]))
+        .toEqual([['update', 'user1'], ['delete', 'user2'], ['delete', 'user3']]);
+    });
+  });
+});
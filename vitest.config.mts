@@ -5,7 +5,9 @@ export default defineWorkersConfig({
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.toml' },
-				isolatedStorage: true,
+				// Isolated storage cannot roll back SQLite-backed Durable Objects,
+				// so tests use Durable Objects of their own instead
+				isolatedStorage: false,
 			},
 		},
 		coverage: {
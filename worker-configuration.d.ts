@@ -1,8 +1,27 @@
-// Generated by Wrangler by running `wrangler types --include-runtime=false` (hash: 2905fd8e181cd2f4083a615fa51f1913)
-// After adding bindings to `wrangler.jsonc`, regenerate this interface via `npm run cf-typegen`
+/* eslint-disable */
+// Generated by Wrangler by running `wrangler types --include-runtime=false` (hash: 51ff1291dc01156c4d9d300f536a50fd)
 declare namespace Cloudflare {
-	// eslint-disable-next-line @typescript-eslint/no-empty-interface,@typescript-eslint/no-empty-object-type
+	interface DevEnv {
+		ENVIRONMENT: "development";
+		STORAGE_OBJECT: DurableObjectNamespace /* StorageObject */;
+	}
+	interface TestEnv {
+		ENVIRONMENT: "test";
+		STORAGE_OBJECT: DurableObjectNamespace /* StorageObject */;
+	}
+	interface ProductionEnv {
+		ENVIRONMENT: "production";
+		STORAGE_OBJECT: DurableObjectNamespace /* StorageObject */;
+	}
 	interface Env {
+		ENVIRONMENT?: "development" | "test" | "production";
+		STORAGE_OBJECT: DurableObjectNamespace /* StorageObject */;
 	}
 }
 interface Env extends Cloudflare.Env {}
+type StringifyValues<EnvType extends Record<string, unknown>> = {
+	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
+};
+declare namespace NodeJS {
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "ENVIRONMENT">> {}
+}